@@ -0,0 +1,284 @@
+import { afterEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import type { Server } from 'bun';
+
+import { CatalogApiClient, CatalogApiClientOptions } from './api-client.js';
+import { CircuitOpenError, NotFoundError, RateLimitedError, TimeoutError, UpstreamUnavailableError } from './errors.js';
+
+const PRODUCT = { id: 'prod-1', name: 'Desk Lamp', updatedAt: '2026-01-01T00:00:00.000Z' };
+
+let server: Server | undefined;
+
+afterEach(() => {
+    mock.restore();
+    server?.stop(true);
+    server = undefined;
+});
+
+/**
+ * Serve a scripted catalog API on a free port
+ * @param respond Response to the nth request, counting from 0
+ * @returns Arrival time of every request, in milliseconds
+ */
+function startApi(respond: (attempt: number, request: Request) => Response | Promise<Response>): number[] {
+    const arrivals: number[] = [];
+    server = Bun.serve({
+        port: 0,
+        fetch: (request) => {
+            arrivals.push(performance.now());
+            return respond(arrivals.length - 1, request);
+        },
+    });
+    return arrivals;
+}
+
+/**
+ * Create a client of the scripted API
+ * @param options Client options
+ * @returns API client
+ */
+function createClient(options: CatalogApiClientOptions = {}): CatalogApiClient {
+    return new CatalogApiClient(`http://localhost:${server!.port}`, options);
+}
+
+/**
+ * Get the time between consecutive requests
+ * @param arrivals Arrival times
+ * @returns Gaps in milliseconds
+ */
+function gaps(arrivals: number[]): number[] {
+    return arrivals.slice(1).map((time, i) => time - arrivals[i]);
+}
+
+describe('CatalogApiClient retries', () => {
+    test('failed GET requests are retried with exponential backoff', async () => {
+        // Full jitter at its upper bound: 20, 40, then 50 capped by the maximum delay
+        spyOn(Math, 'random').mockReturnValue(1);
+        const arrivals = startApi((attempt) =>
+            attempt < 3 ? new Response('down', { status: 503 }) : Response.json({ data: PRODUCT }),
+        );
+        const client = createClient({ retry: { maxRetries: 3, baseDelayMs: 20, maxDelayMs: 50 } });
+
+        const { data } = await client.getProductDetails('prod-1');
+
+        expect(data).toMatchObject(PRODUCT);
+        expect(arrivals).toHaveLength(4);
+        const [first, second, third] = gaps(arrivals);
+        expect(first).toBeGreaterThanOrEqual(19);
+        expect(second).toBeGreaterThanOrEqual(39);
+        expect(third).toBeGreaterThanOrEqual(49);
+        expect(third).toBeLessThan(200);
+    });
+
+    test('the last error is thrown once the retries are spent', async () => {
+        const arrivals = startApi(() => new Response('down', { status: 503 }));
+        const client = createClient({ retry: { maxRetries: 2, baseDelayMs: 1 } });
+
+        const error = await client.getProductDetails('prod-1').catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(UpstreamUnavailableError);
+        expect(error).toMatchObject({ status: 503, endpoint: '/api/v1/products/prod-1' });
+        expect(arrivals).toHaveLength(3);
+    });
+
+    test('client errors are not retried', async () => {
+        const arrivals = startApi(() => Response.json({ error: 'Product not found' }, { status: 404 }));
+        const client = createClient({ retry: { baseDelayMs: 1 } });
+
+        await expect(client.getProductDetails('prod-9')).rejects.toBeInstanceOf(NotFoundError);
+        expect(arrivals).toHaveLength(1);
+    });
+
+    test('Retry-After is waited for instead of the backoff', async () => {
+        const arrivals = startApi((attempt) =>
+            attempt === 0
+                ? new Response('slow down', { status: 429, headers: { 'Retry-After': '1' } })
+                : Response.json({ data: PRODUCT }),
+        );
+        const client = createClient({ retry: { baseDelayMs: 1, maxDelayMs: 2000 } });
+
+        await client.getProductDetails('prod-1');
+
+        expect(gaps(arrivals)[0]).toBeGreaterThanOrEqual(990);
+    });
+
+    test('a Retry-After longer than the maximum delay is not waited for', async () => {
+        const arrivals = startApi(() => new Response('slow down', { status: 429, headers: { 'Retry-After': '60' } }));
+        const client = createClient({ retry: { baseDelayMs: 1, maxDelayMs: 2000 } });
+
+        const error = await client.getProductDetails('prod-1').catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(RateLimitedError);
+        expect((error as RateLimitedError).retryAfterMs).toBe(60_000);
+        expect(arrivals).toHaveLength(1);
+    });
+
+    test('attempts time out and are retried', async () => {
+        const arrivals = startApi(async () => {
+            await Bun.sleep(200);
+            return Response.json({ data: PRODUCT });
+        });
+        const client = createClient({ timeoutMs: 50, retry: { maxRetries: 1, baseDelayMs: 1 } });
+
+        await expect(client.getProductDetails('prod-1')).rejects.toBeInstanceOf(TimeoutError);
+        expect(arrivals).toHaveLength(2);
+    });
+});
+
+describe('CatalogApiClient circuit breaker', () => {
+    test('consecutive failures open the circuit, which fails fast without calling the API', async () => {
+        const arrivals = startApi(() => new Response('down', { status: 500 }));
+        const client = createClient({
+            retry: { maxRetries: 0 },
+            circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60_000 },
+        });
+
+        await expect(client.getProductDetails('prod-1')).rejects.toBeInstanceOf(UpstreamUnavailableError);
+        await expect(client.getProductDetails('prod-1')).rejects.toBeInstanceOf(UpstreamUnavailableError);
+        await expect(client.getProductDetails('prod-1')).rejects.toBeInstanceOf(CircuitOpenError);
+
+        expect(arrivals).toHaveLength(2);
+        expect((await client.healthCheck()).circuit).toMatchObject({ state: 'open', consecutiveFailures: 2 });
+    });
+
+    test('a retry refused by the circuit it opened reports the upstream failure', async () => {
+        const arrivals = startApi(() => new Response('down', { status: 503 }));
+        const client = createClient({
+            retry: { maxRetries: 3, baseDelayMs: 1 },
+            circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60_000 },
+        });
+
+        await expect(client.getProductDetails('prod-1')).rejects.toBeInstanceOf(UpstreamUnavailableError);
+        expect(arrivals).toHaveLength(2);
+    });
+
+    test('client errors do not count as failures', async () => {
+        startApi(() => Response.json({ error: 'Product not found' }, { status: 404 }));
+        const client = createClient({ circuitBreaker: { failureThreshold: 1 } });
+
+        await expect(client.getProductDetails('prod-9')).rejects.toBeInstanceOf(NotFoundError);
+        await expect(client.getProductDetails('prod-9')).rejects.toBeInstanceOf(NotFoundError);
+        expect((await client.healthCheck()).circuit.state).toBe('closed');
+    });
+
+    test('a successful trial after the reset timeout closes the circuit', async () => {
+        const arrivals = startApi((attempt) =>
+            attempt === 0 ? new Response('down', { status: 500 }) : Response.json({ data: PRODUCT }),
+        );
+        const client = createClient({
+            retry: { maxRetries: 0 },
+            circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 100 },
+        });
+        await expect(client.getProductDetails('prod-1')).rejects.toBeInstanceOf(UpstreamUnavailableError);
+        await expect(client.getProductDetails('prod-1')).rejects.toBeInstanceOf(CircuitOpenError);
+
+        await Bun.sleep(120);
+
+        expect((await client.getProductDetails('prod-1')).data).toMatchObject(PRODUCT);
+        expect(arrivals).toHaveLength(2);
+        expect((await client.healthCheck()).circuit).toEqual({ state: 'closed', consecutiveFailures: 0 });
+    });
+});
+
+describe('CatalogApiClient response cache', () => {
+    test('a fresh response is served without calling the API', async () => {
+        const arrivals = startApi(() => Response.json({ data: PRODUCT }));
+        const client = createClient();
+
+        await client.getProductDetails('prod-1');
+        const { data } = await client.getProductDetails('prod-1');
+
+        expect(data).toMatchObject(PRODUCT);
+        expect(arrivals).toHaveLength(1);
+    });
+
+    test('an expired response is revalidated and kept when not modified', async () => {
+        const conditions: Array<string | null>[] = [];
+        const arrivals = startApi((attempt, request) => {
+            conditions.push([request.headers.get('If-None-Match'), request.headers.get('If-Modified-Since')]);
+            return attempt === 0
+                ? Response.json(
+                      { data: PRODUCT },
+                      { headers: { ETag: '"v1"', 'Last-Modified': 'Thu, 01 Jan 2026 00:00:00 GMT' } },
+                  )
+                : new Response(null, { status: 304 });
+        });
+        const client = createClient({ cache: { defaultTtlMs: 0, ttlRules: [] } });
+
+        await client.getProductDetails('prod-1');
+        const { data } = await client.getProductDetails('prod-1');
+
+        expect(data).toMatchObject(PRODUCT);
+        expect(arrivals).toHaveLength(2);
+        expect(conditions).toEqual([
+            [null, null],
+            ['"v1"', 'Thu, 01 Jan 2026 00:00:00 GMT'],
+        ]);
+    });
+
+    test('a modified response replaces the cached one', async () => {
+        startApi((attempt) =>
+            Response.json({ data: { ...PRODUCT, name: `Desk Lamp v${attempt + 1}` } }, { headers: { ETag: '"v1"' } }),
+        );
+        const client = createClient({ cache: { defaultTtlMs: 0, ttlRules: [] } });
+
+        await client.getProductDetails('prod-1');
+
+        expect((await client.getProductDetails('prod-1')).data.name).toBe('Desk Lamp v2');
+    });
+
+    test('endpoint TTL rules apply over the default TTL', async () => {
+        const arrivals = startApi(() => Response.json({ data: PRODUCT }));
+        const client = createClient({
+            cache: { defaultTtlMs: 60_000, ttlRules: [{ pattern: /^\/api\/v1\/products\/prod-1$/, ttlMs: 0 }] },
+        });
+
+        await client.getProductDetails('prod-1');
+        await client.getProductDetails('prod-1');
+        await client.getProductDetails('prod-2');
+        await client.getProductDetails('prod-2');
+
+        expect(arrivals).toHaveLength(3);
+    });
+
+    test('a stale response is served when the API is unavailable', async () => {
+        spyOn(console, 'error').mockImplementation(() => {});
+        startApi((attempt) =>
+            attempt === 0 ? Response.json({ data: PRODUCT }) : new Response('down', { status: 503 }),
+        );
+        const client = createClient({
+            retry: { maxRetries: 0 },
+            cache: { defaultTtlMs: 0, ttlRules: [], staleIfErrorMs: 60_000 },
+        });
+
+        await client.getProductDetails('prod-1');
+
+        expect((await client.getProductDetails('prod-1')).data).toMatchObject(PRODUCT);
+    });
+
+    test('a response past the stale window is not served when the API is unavailable', async () => {
+        startApi((attempt) =>
+            attempt === 0 ? Response.json({ data: PRODUCT }) : new Response('down', { status: 503 }),
+        );
+        const client = createClient({
+            retry: { maxRetries: 0 },
+            cache: { defaultTtlMs: 0, ttlRules: [], staleIfErrorMs: 0 },
+        });
+
+        await client.getProductDetails('prod-1');
+
+        await expect(client.getProductDetails('prod-1')).rejects.toBeInstanceOf(UpstreamUnavailableError);
+    });
+
+    test('a stale response is not served when the API answers with a client error', async () => {
+        startApi((attempt) =>
+            attempt === 0
+                ? Response.json({ data: PRODUCT })
+                : Response.json({ error: 'Product not found' }, { status: 404 }),
+        );
+        const client = createClient({ cache: { defaultTtlMs: 0, ttlRules: [], staleIfErrorMs: 60_000 } });
+
+        await client.getProductDetails('prod-1');
+
+        await expect(client.getProductDetails('prod-1')).rejects.toBeInstanceOf(NotFoundError);
+    });
+});
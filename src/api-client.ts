@@ -1,4 +1,27 @@
-import { Category, Product, ProductAvailability } from './types.js';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { CircuitBreaker, CircuitBreakerOptions, CircuitSnapshot } from './circuit-breaker.js';
+import { CacheValidators, ResponseCache, ResponseCacheOptions } from './response-cache.js';
+import {
+    CatalogApiError,
+    CircuitOpenError,
+    createHttpError,
+    RateLimitedError,
+    TimeoutError,
+    UpstreamUnavailableError,
+} from './errors.js';
+import {
+    Cart,
+    Category,
+    PriceRange,
+    Product,
+    ProductAvailability,
+    RecommendationOptions,
+    RecommendedProduct,
+    RelatedProduct,
+    ScoredProduct,
+    SearchSuggestion,
+} from './types.js';
 
 export interface ApiResponse<T> {
     data: T;
@@ -13,63 +36,290 @@ export interface ApiResponse<T> {
     facets?: {
         categories?: { value: string; count: number }[];
         brands?: { value: string; count: number }[];
+        priceRanges?: { min: number; max: number; count: number }[];
+        ratings?: { minRating: number; count: number }[];
+        availability?: { inStock: number; outOfStock: number };
+        attributes?: Record<string, { value: string; count: number }[]>;
     };
     filters?: Record<string, unknown>;
+    didYouMean?: string;
 }
 
 export interface ApiError {
     error: string;
 }
 
+export interface RetryOptions {
+    /** Retries after the first attempt, applied to GET requests only */
+    maxRetries: number;
+    /** Base delay of the exponential backoff */
+    baseDelayMs: number;
+    /** Upper bound of a single backoff delay; a longer `Retry-After` is not waited for */
+    maxDelayMs: number;
+}
+
+export interface CatalogApiClientOptions {
+    /** Timeout of a single attempt, including reading the response body */
+    timeoutMs?: number;
+    retry?: Partial<RetryOptions>;
+    circuitBreaker?: Partial<CircuitBreakerOptions>;
+    /** Response cache for GET requests, `false` to disable */
+    cache?: Partial<ResponseCacheOptions> | false;
+}
+
+type FetchResult<T> = { notModified: true } | { notModified: false; body: ApiResponse<T>; validators: CacheValidators };
+
+export interface ApiHealth {
+    healthy: boolean;
+    circuit: CircuitSnapshot;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+const DEFAULT_RETRY: RetryOptions = {
+    maxRetries: 3,
+    baseDelayMs: 200,
+    maxDelayMs: 5_000,
+};
+
+const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+    failureThreshold: 5,
+    resetTimeoutMs: 30_000,
+};
+
+const DEFAULT_CACHE: ResponseCacheOptions = {
+    maxEntries: 500,
+    defaultTtlMs: 30_000,
+    ttlRules: [
+        // Stock changes often, categories rarely
+        { pattern: /^\/api\/v1\/products\/[^/?]+\/availability/, ttlMs: 5_000 },
+        { pattern: /^\/api\/v1\/categories(\?|\/[^/?]+$)/, ttlMs: 300_000 },
+        { pattern: /^\/api\/v1\/products\/(?!search|popular)[^/?]+$/, ttlMs: 60_000 },
+        // Carts change with every cart tool call, so they are always revalidated
+        { pattern: /^\/api\/v1\/carts\//, ttlMs: 0 },
+    ],
+    staleIfErrorMs: 300_000,
+};
+
+function jsonRequest(method: string, body: unknown): RequestInit {
+    return { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) };
+}
+
 export class CatalogApiClient {
     private baseUrl: string;
+    private readonly timeoutMs: number;
+    private readonly retry: RetryOptions;
+    private readonly circuitBreaker: CircuitBreaker;
+    private readonly cache?: ResponseCache<ApiResponse<unknown>>;
 
-    constructor(baseUrl = 'http://localhost:3001') {
+    constructor(baseUrl = 'http://localhost:3001', options: CatalogApiClientOptions = {}) {
         this.baseUrl = baseUrl;
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        this.retry = { ...DEFAULT_RETRY, ...options.retry };
+        this.circuitBreaker = new CircuitBreaker({ ...DEFAULT_CIRCUIT_BREAKER, ...options.circuitBreaker });
+        if (options.cache !== false) {
+            this.cache = new ResponseCache({ ...DEFAULT_CACHE, ...options.cache });
+        }
     }
 
-    private async request<T>(endpoint: string): Promise<ApiResponse<T>> {
+    private async request<T>(endpoint: string, init: RequestInit = {}): Promise<ApiResponse<T>> {
+        if (!this.cache || (init.method ?? 'GET') !== 'GET') {
+            const result = await this.send<T>(endpoint, init);
+            if (result.notModified) {
+                throw new CatalogApiError(`Unexpected 304 response from ${endpoint}`, endpoint, 304);
+            }
+            return result.body;
+        }
+
+        const cached = this.cache.get(endpoint);
+        if (cached?.fresh) {
+            return cached.value as ApiResponse<T>;
+        }
+
+        // Revalidate a stale response with a conditional request
+        const headers = new Headers(init.headers);
+        if (cached?.etag) {
+            headers.set('If-None-Match', cached.etag);
+        }
+        if (cached?.lastModified) {
+            headers.set('If-Modified-Since', cached.lastModified);
+        }
+
+        let result: FetchResult<T>;
+        try {
+            result = await this.send<T>(endpoint, { ...init, headers });
+        } catch (error) {
+            const upstreamFailure =
+                error instanceof UpstreamUnavailableError ||
+                error instanceof TimeoutError ||
+                error instanceof RateLimitedError;
+            if (cached?.usableOnError && upstreamFailure) {
+                console.error(`Serving stale response for ${endpoint}:`, error.message);
+                return cached.value as ApiResponse<T>;
+            }
+            throw error;
+        }
+
+        if (result.notModified && cached) {
+            this.cache.refresh(endpoint);
+            return cached.value as ApiResponse<T>;
+        }
+        if (result.notModified) {
+            throw new CatalogApiError(`Unexpected 304 response from ${endpoint}`, endpoint, 304);
+        }
+
+        this.cache.set(endpoint, result.body, result.validators);
+        return result.body;
+    }
+
+    private async send<T>(endpoint: string, init: RequestInit): Promise<FetchResult<T>> {
+        const retries = (init.method ?? 'GET') === 'GET' ? this.retry.maxRetries : 0;
+
+        let lastError: unknown;
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.attempt<T>(endpoint, init);
+            } catch (error) {
+                // A retry refused by a circuit that just opened reports the failure that opened it
+                if (error instanceof CircuitOpenError && lastError) {
+                    throw lastError;
+                }
+                lastError = error;
+
+                const delayMs = this.retryDelay(error, attempt);
+                if (attempt >= retries || delayMs === undefined) {
+                    throw error;
+                }
+                await sleep(delayMs);
+            }
+        }
+    }
+
+    private async attempt<T>(endpoint: string, init: RequestInit): Promise<FetchResult<T>> {
         const url = `${this.baseUrl}${endpoint}`;
 
+        if (!this.circuitBreaker.tryAcquire()) {
+            throw new CircuitOpenError(`Circuit breaker is open, not calling ${url}`, endpoint);
+        }
+
         try {
-            const response = await fetch(url);
+            const response = await fetch(url, { ...init, signal: AbortSignal.timeout(this.timeoutMs) });
 
+            if (response.status === 304) {
+                this.circuitBreaker.recordSuccess();
+                return { notModified: true };
+            }
             if (!response.ok) {
-                const errorData = (await response.json()) as ApiError;
-                throw new Error(`API Error (${response.status}): ${errorData.error}`);
+                throw createHttpError(response, endpoint, await this.readErrorBody(response));
             }
 
-            return (await response.json()) as ApiResponse<T>;
+            const body = (await response.json()) as ApiResponse<T>;
+            this.circuitBreaker.recordSuccess();
+            return {
+                notModified: false,
+                body,
+                validators: {
+                    etag: response.headers.get('etag') ?? undefined,
+                    lastModified: response.headers.get('last-modified') ?? undefined,
+                },
+            };
         } catch (error) {
-            if (error instanceof Error) {
-                throw new Error(`Failed to fetch from ${url}: ${error.message}`);
+            const apiError = this.toApiError(error, url, endpoint);
+            if (apiError instanceof UpstreamUnavailableError || apiError instanceof TimeoutError) {
+                this.circuitBreaker.recordFailure();
+            } else {
+                this.circuitBreaker.recordSuccess();
             }
-            throw new Error(`Failed to fetch from ${url}: Unknown error`);
+            throw apiError;
+        }
+    }
+
+    private toApiError(error: unknown, url: string, endpoint: string): CatalogApiError {
+        if (error instanceof CatalogApiError) {
+            return error;
+        }
+
+        const options = { cause: error };
+        if (error instanceof Error && error.name === 'TimeoutError') {
+            const message = `Request to ${url} timed out after ${this.timeoutMs}ms`;
+            return new TimeoutError(message, endpoint, undefined, undefined, options);
+        }
+
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        return new UpstreamUnavailableError(
+            `Failed to fetch from ${url}: ${reason}`,
+            endpoint,
+            undefined,
+            undefined,
+            options,
+        );
+    }
+
+    /**
+     * Delay before retrying a failed attempt: the server's `Retry-After` when given,
+     * otherwise exponential backoff with full jitter
+     * @returns Delay in milliseconds, or undefined if the error must not be retried
+     */
+    private retryDelay(error: unknown, attempt: number): number | undefined {
+        if (error instanceof CircuitOpenError) {
+            return undefined;
+        }
+        if (
+            !(error instanceof UpstreamUnavailableError) &&
+            !(error instanceof TimeoutError) &&
+            !(error instanceof RateLimitedError)
+        ) {
+            return undefined;
+        }
+
+        const retryAfterMs = error instanceof TimeoutError ? undefined : error.retryAfterMs;
+        if (retryAfterMs !== undefined) {
+            return retryAfterMs <= this.retry.maxDelayMs ? retryAfterMs : undefined;
+        }
+
+        return Math.random() * Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    }
+
+    private async readErrorBody(response: Response): Promise<ApiError | string | undefined> {
+        const text = await response.text();
+        if (!text) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(text) as ApiError;
+        } catch {
+            return text;
         }
     }
 
     async searchProducts(params: {
         query?: string | undefined;
-        category?: string | undefined;
-        brand?: string | undefined;
+        category?: string | string[] | undefined;
+        brand?: string | string[] | undefined;
         minPrice?: number | undefined;
         maxPrice?: number | undefined;
+        minRating?: number | undefined;
+        attributes?: Record<string, string[]> | undefined;
         inStockOnly?: boolean | undefined;
         page?: number | undefined;
         pageSize?: number | undefined;
         sortBy?: string | undefined;
         sortOrder?: string | undefined;
+        fuzzy?: boolean | undefined;
+        mode?: 'keyword' | 'semantic' | 'hybrid' | undefined;
     }) {
         const searchParams = new URLSearchParams();
 
         if (params.query) {
             searchParams.append('q', params.query);
         }
-        if (params.category) {
-            searchParams.append('category', params.category);
+        // Repeated parameters select several values of a facet
+        for (const category of [params.category ?? []].flat()) {
+            searchParams.append('category', category);
         }
-        if (params.brand) {
-            searchParams.append('brand', params.brand);
+        for (const brand of [params.brand ?? []].flat()) {
+            searchParams.append('brand', brand);
         }
         if (params.minPrice !== undefined) {
             searchParams.append('min_price', params.minPrice.toString());
@@ -77,6 +327,12 @@ export class CatalogApiClient {
         if (params.maxPrice !== undefined) {
             searchParams.append('max_price', params.maxPrice.toString());
         }
+        if (params.minRating !== undefined) {
+            searchParams.append('min_rating', params.minRating.toString());
+        }
+        for (const [name, values] of Object.entries(params.attributes ?? {})) {
+            values.forEach((value) => searchParams.append(name, value));
+        }
         if (params.inStockOnly) {
             searchParams.append('in_stock', 'true');
         }
@@ -87,29 +343,62 @@ export class CatalogApiClient {
             searchParams.append('limit', params.pageSize.toString());
         }
         if (params.sortBy) {
-            searchParams.append('sort_by', params.sortBy);
+            searchParams.append('sort_by', params.sortBy === 'createdAt' ? 'created_at' : params.sortBy);
         }
         if (params.sortOrder) {
             searchParams.append('sort_order', params.sortOrder);
         }
+        if (params.query && params.fuzzy === false) {
+            searchParams.append('fuzzy', 'false');
+        }
+        if (params.query && params.mode) {
+            searchParams.append('mode', params.mode);
+        }
+
+        return this.request<ScoredProduct[]>(`/api/v1/products/search?${searchParams.toString()}`);
+    }
 
-        const endpoint = params.query
-            ? `/api/v1/products/search?${searchParams.toString()}`
-            : `/api/v1/products?${searchParams.toString()}`;
+    async suggestSearchTerms(query: string, limit = 8) {
+        const params = new URLSearchParams({ q: query, limit: limit.toString() });
 
-        return this.request<Product[]>(endpoint);
+        return this.request<SearchSuggestion[]>(`/api/v1/products/suggest?${params.toString()}`);
+    }
+
+    async getSearchFacets(category?: string | undefined) {
+        const params = new URLSearchParams({ limit: '1' });
+        if (category) {
+            params.append('category', category);
+        }
+
+        return this.request<Product[]>(`/api/v1/products/search?${params.toString()}`);
     }
 
     async getProductDetails(productId: string) {
         return this.request<Product>(`/api/v1/products/${productId}`);
     }
 
-    async getProductRecommendations(productId: string, limit = 5) {
-        return this.request<Product[]>(`/api/v1/products/${productId}/recommendations?limit=${limit}`);
+    async getProductRecommendations(productId: string, limit = 5, options: RecommendationOptions = {}) {
+        const params = new URLSearchParams({ limit: limit.toString() });
+        for (const [signal, weight] of Object.entries(options.weights ?? {})) {
+            if (weight !== undefined) {
+                params.append(`${signal}_weight`, weight.toString());
+            }
+        }
+        if (options.diversity !== undefined) {
+            params.append('diversity', options.diversity.toString());
+        }
+
+        return this.request<RecommendedProduct[]>(`/api/v1/products/${productId}/recommendations?${params.toString()}`);
+    }
+
+    async getFrequentlyBoughtTogether(productId: string, limit = 5, basis: 'purchases' | 'views' = 'purchases') {
+        const path = basis === 'purchases' ? 'frequently-bought-together' : 'also-viewed';
+        return this.request<RelatedProduct[]>(`/api/v1/products/${productId}/${path}?limit=${limit}`);
     }
 
-    async checkProductAvailability(productId: string) {
-        return this.request<ProductAvailability>(`/api/v1/products/${productId}/availability`);
+    async checkProductAvailability(productId: string, includeLocations = false) {
+        const query = includeLocations ? '?locations=true' : '';
+        return this.request<ProductAvailability>(`/api/v1/products/${productId}/availability${query}`);
     }
 
     async getCategories(parentId?: string | undefined, includeProductCount = true) {
@@ -143,14 +432,14 @@ export class CatalogApiClient {
         return this.request<Product[]>(`/api/v1/products/popular?${params.toString()}`);
     }
 
+    async getProductsByIdPrefix(idPrefix: string, limit = 10) {
+        const params = new URLSearchParams({ id_prefix: idPrefix, sort_by: 'id', limit: limit.toString() });
+
+        return this.request<Product[]>(`/api/v1/products?${params.toString()}`);
+    }
+
     async getCategoryPriceRange(categoryId: string) {
-        return this.request<{
-            categoryId: string;
-            minPrice: number;
-            maxPrice: number;
-            averagePrice: number;
-            productCount: number;
-        }>(`/api/v1/categories/${categoryId}/price-range`);
+        return this.request<PriceRange>(`/api/v1/categories/${categoryId}/price-range`);
     }
 
     async getGeneralRecommendations(category?: string | undefined, limit = 5) {
@@ -158,18 +447,41 @@ export class CatalogApiClient {
             const params = new URLSearchParams();
             params.append('category', category);
             params.append('limit', limit.toString());
-            return this.request(`/api/v1/products?${params.toString()}&sort_by=rating&sort_order=desc`);
+            return this.request<Product[]>(`/api/v1/products?${params.toString()}&sort_by=rating&sort_order=desc`);
         }
 
         return this.request<Product[]>(`/api/v1/products/popular?limit=${limit}`);
     }
 
-    async healthCheck() {
+    async createCart() {
+        return this.request<Cart>('/api/v1/carts', { method: 'POST' });
+    }
+
+    async getCart(cartId: string) {
+        return this.request<Cart>(`/api/v1/carts/${cartId}`);
+    }
+
+    async addToCart(cartId: string, productId: string, quantity = 1) {
+        return this.request<Cart>(`/api/v1/carts/${cartId}/items`, jsonRequest('POST', { productId, quantity }));
+    }
+
+    async updateCartItem(cartId: string, productId: string, quantity: number) {
+        return this.request<Cart>(`/api/v1/carts/${cartId}/items/${productId}`, jsonRequest('PATCH', { quantity }));
+    }
+
+    async removeFromCart(cartId: string, productId: string) {
+        return this.request<Cart>(`/api/v1/carts/${cartId}/items/${productId}`, { method: 'DELETE' });
+    }
+
+    async healthCheck(): Promise<ApiHealth> {
+        let healthy: boolean;
         try {
-            const response = await fetch(`${this.baseUrl}/health`);
-            return response.ok;
+            const response = await fetch(`${this.baseUrl}/health`, { signal: AbortSignal.timeout(this.timeoutMs) });
+            healthy = response.ok;
         } catch {
-            return false;
+            healthy = false;
         }
+
+        return { healthy, circuit: this.circuitBreaker.snapshot() };
     }
 }
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+
+import { CircuitBreaker } from './circuit-breaker.js';
+
+/**
+ * Create a circuit breaker on a clock moved by hand
+ * @returns Breaker and a function advancing its clock
+ */
+function createBreaker() {
+    let now = Date.parse('2026-01-01T00:00:00.000Z');
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 }, () => now);
+    return {
+        breaker,
+        advance: (ms: number) => {
+            now += ms;
+        },
+    };
+}
+
+describe('CircuitBreaker', () => {
+    test('stays closed below the failure threshold', () => {
+        const { breaker } = createBreaker();
+
+        breaker.recordFailure();
+        breaker.recordFailure();
+
+        expect(breaker.tryAcquire()).toBe(true);
+        expect(breaker.snapshot()).toEqual({ state: 'closed', consecutiveFailures: 2 });
+    });
+
+    test('a success resets the consecutive failures', () => {
+        const { breaker } = createBreaker();
+
+        breaker.recordFailure();
+        breaker.recordFailure();
+        breaker.recordSuccess();
+        breaker.recordFailure();
+        breaker.recordFailure();
+
+        expect(breaker.snapshot().state).toBe('closed');
+    });
+
+    test('opens at the failure threshold and fails fast until the reset timeout', () => {
+        const { breaker, advance } = createBreaker();
+
+        breaker.recordFailure();
+        breaker.recordFailure();
+        breaker.recordFailure();
+
+        expect(breaker.snapshot()).toEqual({
+            state: 'open',
+            consecutiveFailures: 3,
+            openedAt: '2026-01-01T00:00:00.000Z',
+        });
+        expect(breaker.tryAcquire()).toBe(false);
+        advance(999);
+        expect(breaker.tryAcquire()).toBe(false);
+    });
+
+    test('lets a single trial request through once the reset timeout elapsed', () => {
+        const { breaker, advance } = createBreaker();
+        for (let i = 0; i < 3; i++) {
+            breaker.recordFailure();
+        }
+
+        advance(1000);
+
+        expect(breaker.tryAcquire()).toBe(true);
+        expect(breaker.snapshot().state).toBe('half-open');
+        expect(breaker.tryAcquire()).toBe(false);
+    });
+
+    test('a successful trial closes the circuit', () => {
+        const { breaker, advance } = createBreaker();
+        for (let i = 0; i < 3; i++) {
+            breaker.recordFailure();
+        }
+        advance(1000);
+        breaker.tryAcquire();
+
+        breaker.recordSuccess();
+
+        expect(breaker.snapshot()).toEqual({ state: 'closed', consecutiveFailures: 0 });
+        expect(breaker.tryAcquire()).toBe(true);
+        expect(breaker.tryAcquire()).toBe(true);
+    });
+
+    test('a failed trial opens the circuit for another reset timeout', () => {
+        const { breaker, advance } = createBreaker();
+        for (let i = 0; i < 3; i++) {
+            breaker.recordFailure();
+        }
+        advance(1000);
+        breaker.tryAcquire();
+
+        breaker.recordFailure();
+
+        expect(breaker.snapshot()).toMatchObject({ state: 'open', openedAt: '2026-01-01T00:00:01.000Z' });
+        advance(999);
+        expect(breaker.tryAcquire()).toBe(false);
+        advance(1);
+        expect(breaker.tryAcquire()).toBe(true);
+    });
+});
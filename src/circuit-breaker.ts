@@ -0,0 +1,103 @@
+/**
+ * Circuit breaker protecting the catalog API from repeated calls while it is failing
+ */
+
+/**
+ * Circuit state: `closed` lets requests through, `open` fails fast,
+ * `half-open` lets a single trial request through after the reset timeout
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker settings
+ */
+export interface CircuitBreakerOptions {
+    /** Consecutive failures opening the circuit */
+    failureThreshold: number;
+    /** Time the circuit stays open before allowing a trial request */
+    resetTimeoutMs: number;
+}
+
+/**
+ * Point-in-time view of a circuit breaker
+ */
+export interface CircuitSnapshot {
+    state: CircuitState;
+    consecutiveFailures: number;
+    /** When the circuit last opened, as an ISO date string */
+    openedAt?: string;
+}
+
+/**
+ * Counts consecutive upstream failures and fails fast once the API looks down
+ */
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt?: number;
+    private trialInFlight = false;
+
+    /**
+     * @param options Circuit breaker settings
+     * @param now Clock, injectable for deterministic behaviour
+     */
+    constructor(
+        private readonly options: CircuitBreakerOptions,
+        private readonly now: () => number = Date.now,
+    ) {}
+
+    /**
+     * Check whether a request may be sent, moving an expired open circuit to half-open
+     * @returns True if the request may proceed
+     */
+    tryAcquire(): boolean {
+        if (this.state === 'open' && this.now() - this.openedAt! >= this.options.resetTimeoutMs) {
+            this.state = 'half-open';
+            this.trialInFlight = false;
+        }
+
+        if (this.state === 'closed') {
+            return true;
+        }
+        if (this.state === 'half-open' && !this.trialInFlight) {
+            this.trialInFlight = true;
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Record a request that reached a healthy API, closing the circuit
+     */
+    recordSuccess(): void {
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.openedAt = undefined;
+        this.trialInFlight = false;
+    }
+
+    /**
+     * Record a failed request, opening the circuit when the threshold is reached or a trial fails
+     */
+    recordFailure(): void {
+        this.consecutiveFailures++;
+        this.trialInFlight = false;
+
+        if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+            this.state = 'open';
+            this.openedAt = this.now();
+        }
+    }
+
+    /**
+     * Get the current circuit state
+     * @returns Circuit snapshot
+     */
+    snapshot(): CircuitSnapshot {
+        return {
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            ...(this.openedAt !== undefined && { openedAt: new Date(this.openedAt).toISOString() }),
+        };
+    }
+}
@@ -0,0 +1,108 @@
+/**
+ * Argument completion providers backed by the catalog API
+ * Shared by resource templates and prompts answering `completion/complete` requests
+ */
+
+import { CatalogApiClient } from '../api-client.js';
+import type { Category } from '../types.js';
+
+/**
+ * Maximum number of values returned by a completion, as allowed by the MCP specification
+ */
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Number of products fetched by ID prefix and by search when completing a product ID
+ */
+const PRODUCT_SEARCH_SIZE = 20;
+
+/**
+ * Completion callback, compatible with both resource template and prompt argument completion
+ */
+export type CompleteCallback = (value: string, context?: { arguments?: Record<string, string> }) => Promise<string[]>;
+
+/**
+ * Completion providers for catalog arguments
+ */
+export interface CatalogCompleters {
+    /** Completes category and subcategory IDs */
+    categoryId: CompleteCallback;
+    /** Completes brand names, scoped to the `category` argument when present */
+    brand: CompleteCallback;
+    /** Completes product IDs by their beginning, then by searching the catalog */
+    productId: CompleteCallback;
+}
+
+/**
+ * Collect the IDs of a category tree
+ * @param categories Categories with nested subcategories
+ * @returns All category IDs, parents first
+ */
+function collectCategoryIds(categories: Category[]): string[] {
+    return categories.flatMap((category) => [category.id, ...collectCategoryIds(category.subcategories)]);
+}
+
+/**
+ * Keep the values starting with a prefix, case-insensitively
+ * @param values Candidate values
+ * @param prefix Typed prefix
+ * @returns Matching values, capped at the completion limit
+ */
+function matchPrefix(values: string[], prefix: string): string[] {
+    const normalizedPrefix = prefix.toLowerCase();
+    return values.filter((value) => value.toLowerCase().startsWith(normalizedPrefix)).slice(0, MAX_COMPLETIONS);
+}
+
+/**
+ * Run a completion, returning no suggestions when the API is unavailable
+ * Completion is best-effort and must never fail the client's request
+ * @param complete Completion operation
+ * @returns Suggestions
+ */
+async function bestEffort(complete: () => Promise<string[]>): Promise<string[]> {
+    try {
+        return await complete();
+    } catch (error) {
+        console.error('Completion failed:', error);
+        return [];
+    }
+}
+
+/**
+ * Create completion providers for catalog arguments
+ * @param apiClient Catalog API client
+ * @returns Completion providers
+ */
+export function createCatalogCompleters(apiClient: CatalogApiClient): CatalogCompleters {
+    return {
+        categoryId: (value) =>
+            bestEffort(async () => {
+                const apiResponse = await apiClient.getCategories(undefined, false);
+                return matchPrefix(collectCategoryIds(apiResponse.data), value);
+            }),
+
+        brand: (value, context) =>
+            bestEffort(async () => {
+                const apiResponse = await apiClient.getSearchFacets(context?.arguments?.category);
+                const brands = (apiResponse.facets?.brands ?? [])
+                    .sort((a, b) => b.count - a.count)
+                    .map((facet) => facet.value);
+                return matchPrefix(brands, value);
+            }),
+
+        productId: (value) =>
+            bestEffort(async () => {
+                if (!value) {
+                    const apiResponse = await apiClient.getPopularProducts(undefined, PRODUCT_SEARCH_SIZE);
+                    return apiResponse.data.map((product) => product.id);
+                }
+
+                // IDs starting with the typed value come first, then other products matching a search for it
+                const [byId, bySearch] = await Promise.all([
+                    apiClient.getProductsByIdPrefix(value, PRODUCT_SEARCH_SIZE),
+                    apiClient.searchProducts({ query: value, pageSize: PRODUCT_SEARCH_SIZE }),
+                ]);
+                return [...new Set([...byId.data, ...bySearch.data].map((product) => product.id))];
+            }),
+    };
+}
@@ -0,0 +1,81 @@
+/**
+ * MCP server startup configuration
+ * Values come from environment variables and can be overridden by CLI flags
+ */
+
+import { z } from 'zod';
+
+const configSchema = z.object({
+    transport: z.enum(['stdio', 'http']).default('stdio'),
+    http: z.object({
+        host: z.string().min(1).default('localhost'),
+        port: z.coerce.number().int().min(1).max(65535).default(3002),
+        path: z.string().startsWith('/').default('/mcp'),
+        sessionIdleMinutes: z.coerce.number().positive().default(30),
+        maxSessions: z.coerce.number().int().min(1).default(100),
+    }),
+});
+
+/**
+ * Validated MCP server configuration
+ */
+export type ServerConfig = z.infer<typeof configSchema>;
+
+/**
+ * Selected MCP transport
+ */
+export type TransportType = ServerConfig['transport'];
+
+/**
+ * Streamable HTTP transport settings
+ */
+export type HttpTransportConfig = ServerConfig['http'];
+
+/**
+ * Read a `--name=value` or `--name value` flag from CLI arguments
+ * @param argv CLI arguments
+ * @param name Flag name without dashes
+ * @returns Flag value or undefined if not present
+ */
+function readFlag(argv: string[], name: string): string | undefined {
+    const prefix = `--${name}=`;
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i]!;
+        if (arg.startsWith(prefix)) {
+            return arg.slice(prefix.length);
+        }
+        if (arg === `--${name}`) {
+            return argv[i + 1];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Load the MCP server configuration
+ *
+ * Supported settings (CLI flag / environment variable):
+ * - `--transport` / `MCP_TRANSPORT`: `stdio` (default) or `http`
+ * - `--host` / `MCP_HTTP_HOST`: HTTP bind host, defaults to `localhost`
+ * - `--port` / `MCP_HTTP_PORT`: HTTP port, defaults to `3002`
+ * - `--path` / `MCP_HTTP_PATH`: HTTP endpoint path, defaults to `/mcp`
+ * - `--session-idle-minutes` / `MCP_HTTP_SESSION_IDLE_MINUTES`: HTTP sessions idle longer are closed, defaults to `30`
+ * - `--max-sessions` / `MCP_HTTP_MAX_SESSIONS`: open HTTP sessions, defaults to `100`
+ *
+ * @param argv CLI arguments, without the runtime and script path
+ * @param env Environment variables
+ * @returns Validated configuration
+ * @throws ZodError if a value is invalid
+ */
+export function loadServerConfig(argv: string[] = process.argv.slice(2), env = process.env): ServerConfig {
+    return configSchema.parse({
+        transport: readFlag(argv, 'transport') ?? env.MCP_TRANSPORT,
+        http: {
+            host: readFlag(argv, 'host') ?? env.MCP_HTTP_HOST,
+            port: readFlag(argv, 'port') ?? env.MCP_HTTP_PORT,
+            path: readFlag(argv, 'path') ?? env.MCP_HTTP_PATH,
+            sessionIdleMinutes: readFlag(argv, 'session-idle-minutes') ?? env.MCP_HTTP_SESSION_IDLE_MINUTES,
+            maxSessions: readFlag(argv, 'max-sessions') ?? env.MCP_HTTP_MAX_SESSIONS,
+        },
+    });
+}
@@ -0,0 +1,84 @@
+/**
+ * Central mapping from catalog API errors to MCP errors
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+    CatalogApiError,
+    ConflictError,
+    NotFoundError,
+    RateLimitedError,
+    TimeoutError,
+    UnauthorizedError,
+    UpstreamUnavailableError,
+    ValidationError,
+} from './errors.js';
+
+/**
+ * Context-specific messages overriding the API error message
+ */
+export interface ErrorMessages {
+    /** Message used when the requested entity does not exist */
+    notFound?: string;
+}
+
+/**
+ * Convert any error raised while serving an MCP request into an `McpError`
+ * @param error Caught error
+ * @param messages Context-specific messages
+ * @returns MCP error carrying the API status and endpoint in its data
+ */
+export function toMcpError(error: unknown, messages: ErrorMessages = {}): McpError {
+    if (error instanceof McpError) {
+        return error;
+    }
+
+    if (!(error instanceof CatalogApiError)) {
+        const message = error instanceof Error ? error.message : String(error);
+        return new McpError(ErrorCode.InternalError, message);
+    }
+
+    const data = { status: error.status, endpoint: error.endpoint, body: error.body };
+
+    if (error instanceof NotFoundError) {
+        return new McpError(ErrorCode.InvalidParams, messages.notFound ?? error.message, data);
+    }
+    if (error instanceof ValidationError) {
+        return new McpError(ErrorCode.InvalidParams, `Invalid request to the catalog API: ${error.message}`, data);
+    }
+    if (error instanceof ConflictError) {
+        return new McpError(ErrorCode.InvalidRequest, `Catalog API rejected the request: ${error.message}`, data);
+    }
+    if (error instanceof UnauthorizedError) {
+        return new McpError(ErrorCode.InternalError, `Catalog API access denied: ${error.message}`, data);
+    }
+    if (error instanceof RateLimitedError) {
+        return new McpError(ErrorCode.InternalError, `Catalog API rate limit exceeded: ${error.message}`, {
+            ...data,
+            retryAfterMs: error.retryAfterMs,
+        });
+    }
+    if (error instanceof TimeoutError) {
+        return new McpError(ErrorCode.RequestTimeout, `Catalog API timed out: ${error.message}`, data);
+    }
+    if (error instanceof UpstreamUnavailableError) {
+        return new McpError(ErrorCode.InternalError, `Catalog API unavailable: ${error.message}`, data);
+    }
+    return new McpError(ErrorCode.InternalError, error.message, data);
+}
+
+/**
+ * Run an operation, converting any error it raises into an `McpError`
+ * @param operation Operation calling the catalog API
+ * @param messages Context-specific messages
+ * @returns Operation result
+ * @throws McpError if the operation fails
+ */
+export async function withMcpErrors<T>(operation: () => Promise<T>, messages: ErrorMessages = {}): Promise<T> {
+    try {
+        return await operation();
+    } catch (error) {
+        throw toMcpError(error, messages);
+    }
+}
@@ -0,0 +1,167 @@
+/**
+ * Typed errors raised by the catalog API client
+ */
+
+/**
+ * Base class for every catalog API failure
+ */
+export class CatalogApiError extends Error {
+    /**
+     * @param message Error message
+     * @param endpoint API endpoint that failed, without the base URL
+     * @param status HTTP status code, undefined when no response was received
+     * @param body Error body returned by the server, if any
+     * @param options Standard error options, e.g. the underlying `cause`
+     */
+    constructor(
+        message: string,
+        readonly endpoint: string,
+        readonly status?: number,
+        readonly body?: unknown,
+        options?: ErrorOptions,
+    ) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * The requested entity does not exist (404)
+ */
+export class NotFoundError extends CatalogApiError {}
+
+/**
+ * The request was rejected as invalid (400, 422)
+ */
+export class ValidationError extends CatalogApiError {}
+
+/**
+ * The request conflicts with the current state of the catalog, e.g. insufficient stock (409)
+ */
+export class ConflictError extends CatalogApiError {}
+
+/**
+ * The client is not authenticated or not allowed to access the endpoint (401, 403)
+ */
+export class UnauthorizedError extends CatalogApiError {}
+
+/**
+ * The client sent too many requests (429)
+ */
+export class RateLimitedError extends CatalogApiError {
+    /**
+     * @param message Error message
+     * @param endpoint API endpoint that failed
+     * @param status HTTP status code
+     * @param body Error body returned by the server
+     * @param retryAfterMs Delay requested by the `Retry-After` header, if any
+     */
+    constructor(
+        message: string,
+        endpoint: string,
+        status: number,
+        body: unknown,
+        readonly retryAfterMs?: number,
+    ) {
+        super(message, endpoint, status, body);
+    }
+}
+
+/**
+ * The API server failed (5xx) or could not be reached
+ */
+export class UpstreamUnavailableError extends CatalogApiError {
+    readonly retryAfterMs?: number;
+
+    /**
+     * @param message Error message
+     * @param endpoint API endpoint that failed
+     * @param status HTTP status code, undefined when no response was received
+     * @param body Error body returned by the server, if any
+     * @param options Standard error options, plus the delay requested by the `Retry-After` header
+     */
+    constructor(
+        message: string,
+        endpoint: string,
+        status?: number,
+        body?: unknown,
+        options?: ErrorOptions & { retryAfterMs?: number },
+    ) {
+        super(message, endpoint, status, body, options);
+        this.retryAfterMs = options?.retryAfterMs;
+    }
+}
+
+/**
+ * The circuit breaker is open, so the request was not sent
+ */
+export class CircuitOpenError extends UpstreamUnavailableError {}
+
+/**
+ * The API server did not answer in time
+ */
+export class TimeoutError extends CatalogApiError {}
+
+/**
+ * Parse a `Retry-After` header value
+ * @param value Header value, either delay seconds or an HTTP date
+ * @returns Delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Create the typed error matching an unsuccessful API response
+ * @param response API response with a non-2xx status
+ * @param endpoint API endpoint that was requested
+ * @param body Parsed error body
+ * @returns Typed API error
+ */
+export function createHttpError(response: Response, endpoint: string, body: unknown): CatalogApiError {
+    const { status } = response;
+    const detail =
+        typeof body === 'object' && body !== null && 'error' in body ? String(body.error) : response.statusText;
+    const message = `API Error (${status}) on ${endpoint}: ${detail}`;
+
+    if (status === 404) {
+        return new NotFoundError(message, endpoint, status, body);
+    }
+    if (status === 400 || status === 422) {
+        return new ValidationError(message, endpoint, status, body);
+    }
+    if (status === 409) {
+        return new ConflictError(message, endpoint, status, body);
+    }
+    if (status === 401 || status === 403) {
+        return new UnauthorizedError(message, endpoint, status, body);
+    }
+    if (status === 429) {
+        return new RateLimitedError(
+            message,
+            endpoint,
+            status,
+            body,
+            parseRetryAfter(response.headers.get('retry-after')),
+        );
+    }
+    if (status === 408 || status === 504) {
+        return new TimeoutError(message, endpoint, status, body);
+    }
+    if (status >= 500) {
+        return new UpstreamUnavailableError(message, endpoint, status, body, {
+            retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+        });
+    }
+    return new CatalogApiError(message, endpoint, status, body);
+}
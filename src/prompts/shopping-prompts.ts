@@ -0,0 +1,273 @@
+/**
+ * Shopping-assistant MCP prompts
+ * Each prompt pre-fetches catalog data and embeds it as resources in the prompt messages
+ */
+
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ErrorCode, GetPromptResult, McpError, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { CatalogApiClient } from '../api-client.js';
+import { CompleteCallback, createCatalogCompleters } from '../completions/catalog-completions.js';
+import { withMcpErrors } from '../error-mapping.js';
+import type { Product } from '../types.js';
+
+/**
+ * Number of candidate products embedded in the gift prompt
+ */
+const GIFT_CANDIDATES = 8;
+
+/**
+ * Number of alternatives embedded in the out-of-stock prompt
+ */
+const ALTERNATIVES_LIMIT = 5;
+
+/**
+ * Number of products embedded in the brand prompt
+ */
+const BRAND_PRODUCTS = 10;
+
+/**
+ * Maximum number of products accepted by the comparison prompt
+ */
+const MAX_COMPARED_PRODUCTS = 5;
+
+/**
+ * Build a user message with plain text
+ * @param text Message text
+ * @returns Prompt message
+ */
+function textMessage(text: string): PromptMessage {
+    return { role: 'user', content: { type: 'text', text } };
+}
+
+/**
+ * Build a user message embedding a catalog product as a resource
+ * @param product Product to embed
+ * @returns Prompt message
+ */
+function productMessage(product: Product): PromptMessage {
+    return {
+        role: 'user',
+        content: {
+            type: 'resource',
+            resource: {
+                uri: `catalog://products/${encodeURIComponent(product.id)}`,
+                mimeType: 'application/json',
+                text: JSON.stringify(product, null, 2),
+            },
+        },
+    };
+}
+
+/**
+ * Split a comma-separated argument into trimmed, non-empty values
+ * @param value Raw argument value
+ * @returns Values
+ */
+function splitList(value: string): string[] {
+    return value
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+}
+
+/**
+ * Adapt a completion callback to complete the last item of a comma-separated list
+ * @param complete Completion callback for a single item
+ * @returns Completion callback returning the full list with the last item completed
+ */
+function completeListItem(complete: CompleteCallback): CompleteCallback {
+    return async (value, context) => {
+        const separatorIndex = value.lastIndexOf(',');
+        const head = separatorIndex >= 0 ? `${value.slice(0, separatorIndex + 1)} ` : '';
+        const last = value.slice(separatorIndex + 1).trim();
+        const suggestions = await complete(last, context);
+        return suggestions.map((suggestion) => `${head}${suggestion}`);
+    };
+}
+
+/**
+ * Fetch a product, mapping API errors to MCP errors
+ * @param apiClient Catalog API client
+ * @param productId Product ID
+ * @returns Product
+ * @throws McpError if the product does not exist or the API fails
+ */
+async function fetchProduct(apiClient: CatalogApiClient, productId: string): Promise<Product> {
+    const apiResponse = await withMcpErrors(() => apiClient.getProductDetails(productId), {
+        notFound: `Product with ID ${productId} not found`,
+    });
+    return apiResponse.data;
+}
+
+/**
+ * Register the shopping-assistant prompts
+ * @param server MCP server to register the prompts on
+ * @param apiClient Catalog API client used to pre-fetch prompt data
+ */
+export function registerShoppingPrompts(server: McpServer, apiClient: CatalogApiClient): void {
+    const completers = createCatalogCompleters(apiClient);
+
+    server.registerPrompt(
+        'find_gift',
+        {
+            title: 'Find a gift',
+            description: 'Suggest a gift under a budget from a category, using top-rated in-stock products',
+            argsSchema: {
+                category: completable(z.string().describe('Category ID to pick the gift from'), completers.categoryId),
+                budget: z
+                    .string()
+                    .regex(/^\d+(\.\d+)?$/, 'Budget must be a positive number')
+                    .describe('Maximum price'),
+                brand: z.string().describe('Preferred brand').optional(),
+                recipient: z.string().describe('Who the gift is for, e.g. "my dad who loves hiking"').optional(),
+            },
+        },
+        async ({ category, budget, brand, recipient }): Promise<GetPromptResult> => {
+            const apiResponse = await withMcpErrors(() =>
+                apiClient.searchProducts({
+                    category,
+                    brand,
+                    maxPrice: Number(budget),
+                    inStockOnly: true,
+                    pageSize: GIFT_CANDIDATES,
+                    sortBy: 'rating',
+                    sortOrder: 'desc',
+                }),
+            );
+            const candidates = apiResponse.data;
+
+            const instructions = [
+                `Help me find a gift in the "${category}" category for at most ${budget}.`,
+                ...(recipient ? [`The gift is for: ${recipient}.`] : []),
+                ...(brand ? [`I prefer the brand ${brand}.`] : []),
+                candidates.length > 0
+                    ? `Here are the ${candidates.length} top-rated in-stock products within budget. Pick the best two or three, explain why they fit, and mention their price.`
+                    : 'No in-stock products match these criteria. Suggest how to relax the budget, brand or category.',
+            ];
+
+            return {
+                description: `Gift ideas in ${category} under ${budget}`,
+                messages: [textMessage(instructions.join('\n')), ...candidates.map(productMessage)],
+            };
+        },
+    );
+
+    server.registerPrompt(
+        'explore_brand',
+        {
+            title: 'Explore a brand',
+            description: "Summarize a brand's range, price positioning and best-rated products",
+            argsSchema: {
+                brand: completable(z.string().describe('Brand name'), completers.brand),
+                category: z.string().describe('Category ID to narrow the brand range to').optional(),
+            },
+        },
+        async ({ brand, category }): Promise<GetPromptResult> => {
+            const apiResponse = await withMcpErrors(() =>
+                apiClient.searchProducts({
+                    brand,
+                    category,
+                    pageSize: BRAND_PRODUCTS,
+                    sortBy: 'rating',
+                    sortOrder: 'desc',
+                }),
+            );
+            const products = apiResponse.data;
+            const scope = category ? ` in the "${category}" category` : '';
+
+            return {
+                description: `Overview of ${brand}${scope}`,
+                messages: [
+                    textMessage(
+                        products.length > 0
+                            ? `Give me an overview of what ${brand} offers${scope}: the kind of products, their price range and which of the ${products.length} best-rated products below stand out. ${apiResponse.pagination?.total ?? products.length} products match in total.`
+                            : `The catalog has no ${brand} products${scope}. Suggest similar brands I could look at instead.`,
+                    ),
+                    ...products.map(productMessage),
+                ],
+            };
+        },
+    );
+
+    server.registerPrompt(
+        'compare_products',
+        {
+            title: 'Compare products',
+            description: 'Compare several products side by side on price, rating, stock and attributes',
+            argsSchema: {
+                productIds: completable(
+                    z.string().describe(`Comma-separated product IDs, up to ${MAX_COMPARED_PRODUCTS}`),
+                    completeListItem(completers.productId),
+                ),
+            },
+        },
+        async ({ productIds }): Promise<GetPromptResult> => {
+            const ids = [...new Set(splitList(productIds))];
+            if (ids.length < 2 || ids.length > MAX_COMPARED_PRODUCTS) {
+                throw new McpError(
+                    ErrorCode.InvalidParams,
+                    `Provide between 2 and ${MAX_COMPARED_PRODUCTS} distinct product IDs to compare`,
+                );
+            }
+
+            const products = await Promise.all(ids.map((id) => fetchProduct(apiClient, id)));
+
+            return {
+                description: `Comparison of ${products.map((product) => product.name).join(', ')}`,
+                messages: [
+                    textMessage(
+                        'Compare the following products in a table covering price, rating, review count, stock and their key attributes, then recommend one and explain the trade-offs.',
+                    ),
+                    ...products.map(productMessage),
+                ],
+            };
+        },
+    );
+
+    server.registerPrompt(
+        'out_of_stock_alternatives',
+        {
+            title: 'Out-of-stock alternatives',
+            description: 'Explain the stock status of a product and suggest in-stock alternatives',
+            argsSchema: {
+                productId: completable(z.string().describe('Product ID to check'), completers.productId),
+            },
+        },
+        async ({ productId }): Promise<GetPromptResult> => {
+            const product = await fetchProduct(apiClient, productId);
+            const [availabilityResponse, recommendationsResponse] = await withMcpErrors(() =>
+                Promise.all([
+                    apiClient.checkProductAvailability(productId),
+                    apiClient.getProductRecommendations(productId, ALTERNATIVES_LIMIT * 2),
+                ]),
+            );
+            const availability = availabilityResponse.data;
+            const alternatives = recommendationsResponse.data
+                .filter((candidate) => candidate.inStock)
+                .slice(0, ALTERNATIVES_LIMIT);
+
+            return {
+                description: `Stock status and alternatives for ${product.name}`,
+                messages: [
+                    textMessage(
+                        [
+                            `I wanted to buy "${product.name}" (${product.id}).`,
+                            `Its current availability is "${availability.availability}" with ${availability.stockQuantity} units (last updated ${availability.lastUpdated}).`,
+                            'Explain what this means for me. If it is out of stock or limited, suggest the best alternatives below and explain how each differs from the original.',
+                        ].join('\n'),
+                    ),
+                    productMessage(product),
+                    ...(alternatives.length > 0
+                        ? [
+                              textMessage(`In-stock alternatives (${alternatives.length}):`),
+                              ...alternatives.map(productMessage),
+                          ]
+                        : [textMessage('No in-stock alternatives were found in the same category or brand.')]),
+                ],
+            };
+        },
+    );
+}
@@ -0,0 +1,220 @@
+/**
+ * Catalog MCP resources
+ * Exposes products and categories as browsable, attachable resources
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ErrorCode, ListResourcesRequestSchema, McpError, Resource } from '@modelcontextprotocol/sdk/types.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+
+import { CatalogApiClient } from '../api-client.js';
+import { createCatalogCompleters } from '../completions/catalog-completions.js';
+import { withMcpErrors } from '../error-mapping.js';
+import type { Category, Product } from '../types.js';
+
+const JSON_MIME_TYPE = 'application/json';
+
+/**
+ * Number of products listed per `resources/list` page
+ */
+const LIST_PAGE_SIZE = 50;
+
+/**
+ * Number of products embedded in a category products resource
+ */
+const CATEGORY_PRODUCTS_LIMIT = 100;
+
+/**
+ * Opaque `resources/list` cursor contents
+ */
+interface ListCursor {
+    page: number;
+}
+
+/**
+ * Encode a list cursor
+ * @param cursor Cursor contents
+ * @returns Opaque cursor string
+ */
+function encodeCursor(cursor: ListCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a list cursor received from a client
+ * @param cursor Opaque cursor string, undefined for the first page
+ * @returns Cursor contents
+ * @throws McpError if the cursor is malformed
+ */
+function decodeCursor(cursor: string | undefined): ListCursor {
+    if (!cursor) {
+        return { page: 1 };
+    }
+
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Partial<ListCursor>;
+        if (typeof decoded.page === 'number' && Number.isInteger(decoded.page) && decoded.page > 0) {
+            return { page: decoded.page };
+        }
+    } catch {
+        // Fall through to the error below
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+}
+
+/**
+ * Read a single-valued URI template variable
+ * @param variables Variables matched from the resource URI
+ * @param name Variable name
+ * @returns Decoded variable value
+ */
+function readVariable(variables: Variables, name: string): string {
+    const value = variables[name];
+    return decodeURIComponent(Array.isArray(value) ? value[0]! : value!);
+}
+
+/**
+ * Flatten a category tree into a list, parents first
+ * @param categories Categories with nested subcategories
+ * @returns All categories of the tree
+ */
+function flattenCategories(categories: Category[]): Category[] {
+    return categories.flatMap((category) => [category, ...flattenCategories(category.subcategories)]);
+}
+
+/**
+ * Build a JSON resource read result
+ * @param uri Resource URI
+ * @param data Data to serialize
+ * @returns Read resource result
+ */
+function jsonContents(uri: URL, data: unknown) {
+    return {
+        contents: [
+            {
+                uri: uri.href,
+                mimeType: JSON_MIME_TYPE,
+                text: JSON.stringify(data, null, 2),
+            },
+        ],
+    };
+}
+
+/**
+ * Describe a product as a listed resource
+ * @param product Product
+ * @returns Resource descriptor
+ */
+function productResource(product: Product): Resource {
+    return {
+        uri: `catalog://products/${encodeURIComponent(product.id)}`,
+        name: product.name,
+        description: `${product.brand} · ${product.price} ${product.currency}`,
+        mimeType: JSON_MIME_TYPE,
+    };
+}
+
+/**
+ * Describe a category as a listed resource
+ * @param category Category
+ * @returns Resource descriptor
+ */
+function categoryResource(category: Category): Resource {
+    return {
+        uri: `catalog://categories/${encodeURIComponent(category.id)}`,
+        name: category.name,
+        description: category.description,
+        mimeType: JSON_MIME_TYPE,
+    };
+}
+
+/**
+ * Register catalog resource templates and the paged `resources/list` handler
+ * @param server MCP server to register the resources on
+ * @param apiClient Catalog API client used to read resources
+ */
+export function registerCatalogResources(server: McpServer, apiClient: CatalogApiClient): void {
+    const completers = createCatalogCompleters(apiClient);
+
+    server.registerResource(
+        'product',
+        new ResourceTemplate('catalog://products/{id}', { list: undefined, complete: { id: completers.productId } }),
+        {
+            title: 'Product',
+            description: 'Full details of a catalog product',
+            mimeType: JSON_MIME_TYPE,
+        },
+        async (uri, variables) => {
+            const productId = readVariable(variables, 'id');
+            const apiResponse = await withMcpErrors(() => apiClient.getProductDetails(productId), {
+                notFound: `Resource ${uri.href} not found`,
+            });
+            return jsonContents(uri, apiResponse.data);
+        },
+    );
+
+    server.registerResource(
+        'category-products',
+        new ResourceTemplate('catalog://categories/{id}/products', {
+            list: undefined,
+            complete: { id: completers.categoryId },
+        }),
+        {
+            title: 'Category products',
+            description: `Products of a category, up to ${CATEGORY_PRODUCTS_LIMIT} items`,
+            mimeType: JSON_MIME_TYPE,
+        },
+        async (uri, variables) => {
+            const categoryId = readVariable(variables, 'id');
+            const apiResponse = await withMcpErrors(
+                () => apiClient.getCategoryProducts(categoryId, 1, CATEGORY_PRODUCTS_LIMIT),
+                { notFound: `Resource ${uri.href} not found` },
+            );
+            return jsonContents(uri, {
+                categoryId,
+                products: apiResponse.data,
+                pagination: apiResponse.pagination,
+            });
+        },
+    );
+
+    server.registerResource(
+        'category',
+        new ResourceTemplate('catalog://categories/{id}', { list: undefined, complete: { id: completers.categoryId } }),
+        {
+            title: 'Category',
+            description: 'Catalog category with its subcategories and product count',
+            mimeType: JSON_MIME_TYPE,
+        },
+        async (uri, variables) => {
+            const categoryId = readVariable(variables, 'id');
+            const apiResponse = await withMcpErrors(() => apiClient.getCategoryDetails(categoryId), {
+                notFound: `Resource ${uri.href} not found`,
+            });
+            return jsonContents(uri, apiResponse.data);
+        },
+    );
+
+    // McpServer concatenates template listings without paging, so the list handler is replaced
+    // with one walking the catalog page by page: categories on the first page, then products
+    server.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+        const { page } = decodeCursor(request.params?.cursor);
+
+        const resources: Resource[] = [];
+        if (page === 1) {
+            const categoriesResponse = await withMcpErrors(() => apiClient.getCategories(undefined, false));
+            resources.push(...flattenCategories(categoriesResponse.data).map(categoryResource));
+        }
+
+        const productsResponse = await withMcpErrors(() =>
+            apiClient.searchProducts({ page, pageSize: LIST_PAGE_SIZE }),
+        );
+        resources.push(...productsResponse.data.map(productResource));
+
+        return {
+            resources,
+            ...(productsResponse.pagination?.hasNext && { nextCursor: encodeCursor({ page: page + 1 }) }),
+        };
+    });
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test';
+
+import { ResponseCache, ResponseCacheOptions } from './response-cache.js';
+
+/**
+ * Create a cache on a clock moved by hand
+ * @param options Cache settings overriding small test defaults
+ * @returns Cache and a function advancing its clock
+ */
+function createCache(options: Partial<ResponseCacheOptions> = {}) {
+    let now = 0;
+    const cache = new ResponseCache<string>(
+        { maxEntries: 10, defaultTtlMs: 1000, ttlRules: [], staleIfErrorMs: 5000, ...options },
+        () => now,
+    );
+    return {
+        cache,
+        advance: (ms: number) => {
+            now += ms;
+        },
+    };
+}
+
+describe('ResponseCache', () => {
+    test('responses are fresh until their TTL, then usable on error for the stale window', () => {
+        const { cache, advance } = createCache();
+        cache.set('/api/v1/products/p1', 'lamp', { etag: '"v1"', lastModified: 'Thu, 01 Jan 2026 00:00:00 GMT' });
+
+        expect(cache.get('/api/v1/products/p1')).toEqual({
+            value: 'lamp',
+            etag: '"v1"',
+            lastModified: 'Thu, 01 Jan 2026 00:00:00 GMT',
+            fresh: true,
+            usableOnError: true,
+        });
+        advance(1000);
+        expect(cache.get('/api/v1/products/p1')).toMatchObject({ fresh: false, usableOnError: true });
+        advance(5000);
+        expect(cache.get('/api/v1/products/p1')).toMatchObject({ fresh: false, usableOnError: false });
+        expect(cache.get('/api/v1/products/p2')).toBeUndefined();
+    });
+
+    test('the first matching TTL rule wins over later rules and the default', () => {
+        const { cache, advance } = createCache({
+            ttlRules: [
+                { pattern: /\/availability$/, ttlMs: 100 },
+                { pattern: /^\/api\/v1\/products\//, ttlMs: 500 },
+            ],
+        });
+        cache.set('/api/v1/products/p1/availability', 'in stock');
+        cache.set('/api/v1/products/p1', 'lamp');
+        cache.set('/api/v1/categories', 'all');
+
+        advance(100);
+        expect(cache.get('/api/v1/products/p1/availability')?.fresh).toBe(false);
+        expect(cache.get('/api/v1/products/p1')?.fresh).toBe(true);
+        advance(400);
+        expect(cache.get('/api/v1/products/p1')?.fresh).toBe(false);
+        expect(cache.get('/api/v1/categories')?.fresh).toBe(true);
+        advance(500);
+        expect(cache.get('/api/v1/categories')?.fresh).toBe(false);
+    });
+
+    test('the least recently used response is evicted when full', () => {
+        const { cache } = createCache({ maxEntries: 2 });
+        cache.set('a', 'A');
+        cache.set('b', 'B');
+        cache.get('a');
+
+        cache.set('c', 'C');
+
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.get('a')?.value).toBe('A');
+        expect(cache.get('c')?.value).toBe('C');
+    });
+
+    test('replacing a response makes it the most recently used', () => {
+        const { cache } = createCache({ maxEntries: 2 });
+        cache.set('a', 'A');
+        cache.set('b', 'B');
+        cache.set('a', 'A2');
+
+        cache.set('c', 'C');
+
+        expect(cache.get('a')?.value).toBe('A2');
+        expect(cache.get('b')).toBeUndefined();
+    });
+
+    test('refreshing a revalidated response restarts its TTL and keeps its validators', () => {
+        const { cache, advance } = createCache();
+        cache.set('a', 'A', { etag: '"v1"' });
+        advance(1500);
+
+        cache.refresh('a');
+        cache.refresh('missing');
+
+        expect(cache.get('a')).toMatchObject({ value: 'A', etag: '"v1"', fresh: true });
+        advance(1000);
+        expect(cache.get('a')?.fresh).toBe(false);
+        expect(cache.get('missing')).toBeUndefined();
+    });
+
+    test('clearing drops every response', () => {
+        const { cache } = createCache();
+        cache.set('a', 'A');
+
+        cache.clear();
+
+        expect(cache.get('a')).toBeUndefined();
+    });
+});
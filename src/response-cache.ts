@@ -0,0 +1,132 @@
+/**
+ * Bounded LRU cache for API responses with per-endpoint TTLs and HTTP validators
+ */
+
+/**
+ * TTL applied to endpoints matching a pattern
+ */
+export interface CacheTtlRule {
+    pattern: RegExp;
+    ttlMs: number;
+}
+
+/**
+ * Response cache settings
+ */
+export interface ResponseCacheOptions {
+    /** Maximum number of cached responses, least recently used are evicted first */
+    maxEntries: number;
+    /** TTL of endpoints matching no rule */
+    defaultTtlMs: number;
+    /** TTL rules, the first matching rule wins */
+    ttlRules: CacheTtlRule[];
+    /** How long after expiry a response may still be served when the API fails */
+    staleIfErrorMs: number;
+}
+
+/**
+ * HTTP validators used to revalidate a cached response
+ */
+export interface CacheValidators {
+    etag?: string;
+    lastModified?: string;
+}
+
+/**
+ * Cached response with its freshness
+ */
+export interface CachedResponse<V> extends CacheValidators {
+    value: V;
+    fresh: boolean;
+    /** Whether the response may be served when revalidation fails */
+    usableOnError: boolean;
+}
+
+interface CacheEntry<V> extends CacheValidators {
+    value: V;
+    expiresAt: number;
+}
+
+/**
+ * Keeps recent API responses so repeated tool calls skip the network or only revalidate
+ */
+export class ResponseCache<V> {
+    private readonly entries = new Map<string, CacheEntry<V>>();
+
+    /**
+     * @param options Cache settings
+     * @param now Clock, injectable for deterministic behaviour
+     */
+    constructor(
+        private readonly options: ResponseCacheOptions,
+        private readonly now: () => number = Date.now,
+    ) {}
+
+    /**
+     * Look up a response, marking it as most recently used
+     * @param key Cache key, the request endpoint
+     * @returns Cached response or undefined if absent
+     */
+    get(key: string): CachedResponse<V> | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        const now = this.now();
+        return {
+            value: entry.value,
+            etag: entry.etag,
+            lastModified: entry.lastModified,
+            fresh: now < entry.expiresAt,
+            usableOnError: now < entry.expiresAt + this.options.staleIfErrorMs,
+        };
+    }
+
+    /**
+     * Store a response, evicting the least recently used one when full
+     * @param key Cache key, the request endpoint
+     * @param value Response to cache
+     * @param validators HTTP validators returned with the response
+     */
+    set(key: string, value: V, validators: CacheValidators = {}): void {
+        this.entries.delete(key);
+        this.entries.set(key, { value, ...validators, expiresAt: this.now() + this.ttlFor(key) });
+
+        while (this.entries.size > this.options.maxEntries) {
+            const oldestKey = this.entries.keys().next().value!;
+            this.entries.delete(oldestKey);
+        }
+    }
+
+    /**
+     * Extend the lifetime of a response confirmed by a 304 Not Modified answer
+     * @param key Cache key, the request endpoint
+     */
+    refresh(key: string): void {
+        const entry = this.entries.get(key);
+        if (entry) {
+            entry.expiresAt = this.now() + this.ttlFor(key);
+        }
+    }
+
+    /**
+     * Drop every cached response
+     */
+    clear(): void {
+        this.entries.clear();
+    }
+
+    /**
+     * Resolve the TTL of an endpoint
+     * @param key Cache key, the request endpoint
+     * @returns TTL in milliseconds
+     */
+    private ttlFor(key: string): number {
+        const rule = this.options.ttlRules.find(({ pattern }) => pattern.test(key));
+        return rule?.ttlMs ?? this.options.defaultTtlMs;
+    }
+}
@@ -0,0 +1,181 @@
+/**
+ * Zod schemas mirroring the API client types
+ * Used as MCP tool output schemas and to validate data before it leaves the server
+ */
+
+import { z } from 'zod';
+
+import type {
+    Cart,
+    Category,
+    LocationAvailability,
+    PriceRange,
+    Product,
+    ProductAvailability,
+    RecommendedProduct,
+    RelatedProduct,
+    ScoredProduct,
+    SearchResult,
+    SearchSuggestion,
+} from './types.js';
+
+export const productSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    price: z.number(),
+    currency: z.string(),
+    category: z.string(),
+    subcategory: z.string().optional(),
+    brand: z.string(),
+    sku: z.string(),
+    inStock: z.boolean(),
+    stockQuantity: z.number(),
+    images: z.array(z.string()),
+    attributes: z.record(z.union([z.string(), z.number(), z.boolean()])),
+    rating: z.number(),
+    reviewCount: z.number(),
+    tags: z.array(z.string()),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+}) satisfies z.ZodType<Product>;
+
+export const scoredProductSchema = productSchema.extend({
+    score: z.number().optional(),
+}) satisfies z.ZodType<ScoredProduct>;
+
+export const recommendedProductSchema = productSchema.extend({
+    similarity: z.number().optional(),
+    reason: z.string().optional(),
+}) satisfies z.ZodType<RecommendedProduct>;
+
+export const relatedProductSchema = productSchema.extend({
+    score: z.number(),
+    sessions: z.number().optional(),
+    source: z.enum(['events', 'similarity']),
+    reason: z.string(),
+}) satisfies z.ZodType<RelatedProduct>;
+
+export const categorySchema: z.ZodType<Category> = z.lazy(() =>
+    z.object({
+        id: z.string(),
+        name: z.string(),
+        description: z.string(),
+        parentId: z.string().optional(),
+        subcategories: z.array(categorySchema),
+        productCount: z.number().optional(),
+    }),
+);
+
+export const locationAvailabilitySchema = z.object({
+    warehouseId: z.string(),
+    warehouseName: z.string(),
+    region: z.string(),
+    stockQuantity: z.number(),
+    reservedQuantity: z.number(),
+    availableQuantity: z.number(),
+    availability: z.string(),
+    estimatedShipDate: z.string().nullable(),
+}) satisfies z.ZodType<LocationAvailability>;
+
+export const productAvailabilitySchema = z.object({
+    inStock: z.boolean(),
+    stockQuantity: z.number(),
+    reservedQuantity: z.number().optional(),
+    availableQuantity: z.number().optional(),
+    productId: z.string(),
+    availability: z.string(),
+    lowStockThreshold: z.number().optional(),
+    estimatedShipDate: z.string().nullable().optional(),
+    locations: z.array(locationAvailabilitySchema).optional(),
+    lastUpdated: z.string(),
+}) satisfies z.ZodType<ProductAvailability>;
+
+export const priceRangeSchema = z.object({
+    categoryId: z.string(),
+    minPrice: z.number(),
+    maxPrice: z.number(),
+    averagePrice: z.number(),
+    productCount: z.number(),
+}) satisfies z.ZodType<PriceRange>;
+
+const facetSchema = z.object({
+    name: z.string(),
+    count: z.number(),
+});
+
+export const searchResultSchema = z.object({
+    products: z.array(scoredProductSchema),
+    totalCount: z.number(),
+    page: z.number(),
+    pageSize: z.number(),
+    totalPages: z.number(),
+    facets: z.object({
+        categories: z.array(facetSchema),
+        brands: z.array(facetSchema),
+        priceRanges: z.array(
+            z.object({
+                min: z.number(),
+                max: z.number(),
+                count: z.number(),
+            }),
+        ),
+        ratings: z.array(
+            z.object({
+                minRating: z.number(),
+                count: z.number(),
+            }),
+        ),
+        availability: z.object({
+            inStock: z.number(),
+            outOfStock: z.number(),
+        }),
+        attributes: z.record(z.array(facetSchema)),
+    }),
+    didYouMean: z.string().optional(),
+}) satisfies z.ZodType<SearchResult>;
+
+export const searchSuggestionSchema = z.object({
+    text: z.string(),
+    type: z.enum(['query', 'product', 'brand', 'category']),
+    id: z.string().optional(),
+    popularity: z.number(),
+}) satisfies z.ZodType<SearchSuggestion>;
+
+export const searchSuggestionListSchema = z.object({
+    suggestions: z.array(searchSuggestionSchema),
+});
+
+export const productListSchema = z.object({
+    products: z.array(productSchema),
+});
+
+export const recommendationListSchema = z.object({
+    products: z.array(recommendedProductSchema),
+});
+
+export const relatedProductListSchema = z.object({
+    products: z.array(relatedProductSchema),
+});
+
+export const cartSchema = z.object({
+    id: z.string(),
+    items: z.array(
+        z.object({
+            productId: z.string(),
+            name: z.string(),
+            quantity: z.number(),
+            unitPrice: z.number(),
+            lineTotal: z.number(),
+        }),
+    ),
+    itemCount: z.number(),
+    subtotal: z.number(),
+    currency: z.string().optional(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+}) satisfies z.ZodType<Cart>;
+
+export const categoryListSchema = z.object({
+    categories: z.array(categorySchema),
+});
@@ -1,37 +1,88 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
+import { etag, RETAINED_304_HEADERS } from 'hono/etag';
 import { logger } from 'hono/logger';
 import { serve } from '@hono/node-server';
 
-import { products, categories } from './repositories/mock-data.js';
-
 // Import layered architecture components
-import { ProductRepository } from './repositories/product-repository.js';
-import { CategoryRepository } from './repositories/category-repository.js';
+import { DEFAULT_SYNONYMS } from './repositories/default-synonyms.js';
+import { createRepositories } from './repositories/repository-factory.js';
+import { SynonymRepository } from './repositories/synonym-repository.js';
+import { DEFAULT_FUZZY_TOLERANCE } from './search/fuzzy-matching.js';
+import { SynonymDictionary } from './search/synonym-dictionary.js';
 import { ProductService } from './services/product-service.js';
 import { CategoryService } from './services/category-service.js';
+import { SynonymService } from './services/synonym-service.js';
+import { EventService } from './services/event-service.js';
+import { CartService } from './services/cart-service.js';
+import { OrderService } from './services/order-service.js';
+import { InventoryService } from './services/inventory-service.js';
 import { ProductController } from './controllers/product-controller.js';
 import { CategoryController } from './controllers/category-controller.js';
+import { SynonymController } from './controllers/synonym-controller.js';
+import { EventController } from './controllers/event-controller.js';
+import { CartController } from './controllers/cart-controller.js';
+import { OrderController } from './controllers/order-controller.js';
+import { InventoryController } from './controllers/inventory-controller.js';
+import { lastModified } from './middleware/last-modified.js';
 
 const app = new Hono();
 
 // Initialize dependency injection container
-// Repository layer - data access
-const productRepository = new ProductRepository(products);
-const categoryRepository = new CategoryRepository(categories, products);
+// Repository layer - data access, in-memory mock data or a persistent SQLite database
+// Search synonyms live in a JSON file whatever the storage, product search reads them through the shared dictionary
+const synonyms = new SynonymDictionary();
+const synonymRepository = new SynonymRepository(
+    synonyms,
+    process.env.CATALOG_SYNONYMS_PATH || './data/synonyms.json',
+    DEFAULT_SYNONYMS,
+);
+const storage = process.env.CATALOG_STORAGE || 'mock';
+const { productRepository, categoryRepository, eventRepository, cartRepository, orderRepository, inventoryRepository } =
+    createRepositories(
+        storage,
+        process.env.CATALOG_DB_PATH || './data/catalog.sqlite',
+        {
+            oneEditMinLength:
+                Number(process.env.SEARCH_ONE_TYPO_MIN_LENGTH) || DEFAULT_FUZZY_TOLERANCE.oneEditMinLength,
+            twoEditsMinLength:
+                Number(process.env.SEARCH_TWO_TYPOS_MIN_LENGTH) || DEFAULT_FUZZY_TOLERANCE.twoEditsMinLength,
+        },
+        synonyms,
+    );
 
 // Service layer - business logic
-const productService = new ProductService(productRepository);
+const productService = new ProductService(productRepository, categoryRepository, inventoryRepository);
 const categoryService = new CategoryService(categoryRepository);
+const synonymService = new SynonymService(synonymRepository, categoryRepository);
+const eventService = new EventService(eventRepository, productRepository);
+const cartService = new CartService(cartRepository, productRepository);
+// Pending orders hold their stock for ORDER_RESERVATION_MINUTES, 15 by default
+const orderService = new OrderService(
+    orderRepository,
+    cartRepository,
+    productRepository,
+    (Number(process.env.ORDER_RESERVATION_MINUTES) || 15) * 60_000,
+);
+const inventoryService = new InventoryService(inventoryRepository, productRepository, categoryRepository);
 
 // Controller layer - HTTP handling
 const productController = new ProductController(productService);
 const categoryController = new CategoryController(categoryService);
+const synonymController = new SynonymController(synonymService);
+const eventController = new EventController(eventService);
+const cartController = new CartController(cartService);
+const orderController = new OrderController(orderService);
+const inventoryController = new InventoryController(inventoryService);
 
 // Middleware
 app.use('*', cors());
 app.use('*', logger());
 
+// Conditional requests - ETag / If-None-Match and Last-Modified / If-Modified-Since
+app.on(['GET', 'HEAD'], '/api/*', etag({ retainedHeaders: [...RETAINED_304_HEADERS, 'last-modified'] }));
+app.on(['GET', 'HEAD'], '/api/*', lastModified());
+
 // Health check
 app.get('/health', (c) => {
     return c.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -47,6 +98,13 @@ app.get('/api/v1', (c) => {
             products: '/api/v1/products',
             categories: '/api/v1/categories',
             search: '/api/v1/products/search',
+            suggest: '/api/v1/products/suggest',
+            synonyms: '/api/v1/admin/synonyms',
+            events: '/api/v1/events',
+            carts: '/api/v1/carts',
+            orders: '/api/v1/orders',
+            warehouses: '/api/v1/warehouses',
+            stockThresholds: '/api/v1/admin/stock-thresholds',
         },
     });
 });
@@ -56,14 +114,30 @@ app.get('/api/v1/products', (c) => productController.getProducts(c));
 
 app.get('/api/v1/products/search', (c) => productController.searchProducts(c));
 
+app.get('/api/v1/products/suggest', (c) => productController.suggestSearchTerms(c));
+
 app.get('/api/v1/products/popular', (c) => productController.getPopularProducts(c));
 
 app.get('/api/v1/products/:id', (c) => productController.getProductById(c));
 
 app.get('/api/v1/products/:id/recommendations', (c) => productController.getProductRecommendations(c));
 
+app.get('/api/v1/products/:id/frequently-bought-together', (c) => eventController.getFrequentlyBoughtTogether(c));
+
+app.get('/api/v1/products/:id/also-viewed', (c) => eventController.getAlsoViewed(c));
+
 app.get('/api/v1/products/:id/availability', (c) => productController.getProductAvailability(c));
 
+app.put('/api/v1/products/:id/stock/:warehouseId', (c) => productController.setWarehouseStock(c));
+
+app.post('/api/v1/products', (c) => productController.createProduct(c));
+
+app.put('/api/v1/products/:id', (c) => productController.updateProduct(c));
+
+app.patch('/api/v1/products/:id', (c) => productController.patchProduct(c));
+
+app.delete('/api/v1/products/:id', (c) => productController.deleteProduct(c));
+
 // Categories endpoints
 app.get('/api/v1/categories', (c) => categoryController.getCategories(c));
 
@@ -73,6 +147,61 @@ app.get('/api/v1/categories/:id/products', (c) => categoryController.getCategory
 
 app.get('/api/v1/categories/:id/price-range', (c) => categoryController.getCategoryPriceRange(c));
 
+app.get('/api/v1/categories/:id/breadcrumbs', (c) => categoryController.getCategoryBreadcrumbs(c));
+
+app.get('/api/v1/categories/:id/descendants', (c) => categoryController.getCategoryDescendants(c));
+
+app.post('/api/v1/categories', (c) => categoryController.createCategory(c));
+
+app.patch('/api/v1/categories/:id', (c) => categoryController.updateCategory(c));
+
+app.post('/api/v1/categories/:id/move', (c) => categoryController.moveCategory(c));
+
+app.delete('/api/v1/categories/:id', (c) => categoryController.deleteCategory(c));
+
+// Cart endpoints
+app.post('/api/v1/carts', (c) => cartController.createCart(c));
+
+app.get('/api/v1/carts/:id', (c) => cartController.getCart(c));
+
+app.post('/api/v1/carts/:id/items', (c) => cartController.addItem(c));
+
+app.patch('/api/v1/carts/:id/items/:productId', (c) => cartController.updateItem(c));
+
+app.delete('/api/v1/carts/:id/items/:productId', (c) => cartController.removeItem(c));
+
+// Order endpoints
+app.post('/api/v1/orders', (c) => orderController.createOrder(c));
+
+app.get('/api/v1/orders/:id', (c) => orderController.getOrder(c));
+
+app.post('/api/v1/orders/:id/confirm', (c) => orderController.confirmOrder(c));
+
+app.post('/api/v1/orders/:id/cancel', (c) => orderController.cancelOrder(c));
+
+// Inventory endpoints
+app.get('/api/v1/warehouses', (c) => inventoryController.getWarehouses(c));
+
+// Events endpoints
+app.post('/api/v1/events', (c) => eventController.recordEvents(c));
+
+// Search administration endpoints
+app.get('/api/v1/admin/synonyms', (c) => synonymController.getSynonyms(c));
+
+app.get('/api/v1/admin/synonyms/:id', (c) => synonymController.getSynonymById(c));
+
+app.post('/api/v1/admin/synonyms', (c) => synonymController.createSynonym(c));
+
+app.put('/api/v1/admin/synonyms/:id', (c) => synonymController.updateSynonym(c));
+
+app.delete('/api/v1/admin/synonyms/:id', (c) => synonymController.deleteSynonym(c));
+
+app.get('/api/v1/admin/stock-thresholds', (c) => inventoryController.getThresholds(c));
+
+app.put('/api/v1/admin/stock-thresholds/:targetType/:targetId', (c) => inventoryController.setThreshold(c));
+
+app.delete('/api/v1/admin/stock-thresholds/:targetType/:targetId', (c) => inventoryController.deleteThreshold(c));
+
 // Error handling
 app.notFound((c) => {
     return c.json({ error: 'Endpoint not found' }, 404);
@@ -86,7 +215,7 @@ app.onError((err, c) => {
 // Start server
 const port = parseInt(process.env.PORT || '3001');
 
-console.log(`🚀 Catalog API Server starting on port ${port}`);
+console.log(`🚀 Catalog API Server starting on port ${port} (${storage} storage)`);
 console.log(`📖 API Documentation available at http://localhost:${port}/api/v1`);
 
 serve({
@@ -0,0 +1,134 @@
+/**
+ * Cart controller handling HTTP requests
+ * Presentation layer for shopping carts
+ */
+
+import { Context } from 'hono';
+import { ICartService } from '../interfaces/cart-interface.js';
+import { cartItemInputSchema, cartItemUpdateSchema } from '../validation/cart-schemas.js';
+import { parseJsonBody } from '../validation/parse-body.js';
+
+/**
+ * Cart controller handling HTTP request/response logic
+ * Validates input, calls services, and formats responses
+ */
+export class CartController {
+    constructor(private readonly cartService: ICartService) {}
+
+    /**
+     * Create an empty cart
+     * @param c Hono context
+     * @returns JSON response with the created cart
+     */
+    async createCart(c: Context) {
+        try {
+            const result = await this.cartService.createCart();
+
+            return c.json(result, 201);
+        } catch (error) {
+            return this.handleError(c, error, 'createCart');
+        }
+    }
+
+    /**
+     * Get a cart by ID
+     * @param c Hono context
+     * @returns JSON response with the priced cart
+     */
+    async getCart(c: Context) {
+        try {
+            const result = await this.cartService.getCart(c.req.param('id'));
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'getCart');
+        }
+    }
+
+    /**
+     * Add a product to a cart
+     * @param c Hono context
+     * @returns JSON response with the updated cart
+     */
+    async addItem(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, cartItemInputSchema, 'Invalid cart item');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const { productId, quantity } = payload.data;
+            const result = await this.cartService.addItem(c.req.param('id'), productId, quantity);
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'addItem');
+        }
+    }
+
+    /**
+     * Change the quantity of a product in a cart
+     * @param c Hono context
+     * @returns JSON response with the updated cart
+     */
+    async updateItem(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, cartItemUpdateSchema, 'Invalid cart item');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.cartService.updateItem(
+                c.req.param('id'),
+                c.req.param('productId'),
+                payload.data.quantity,
+            );
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'updateItem');
+        }
+    }
+
+    /**
+     * Remove a product from a cart
+     * @param c Hono context
+     * @returns JSON response with the updated cart
+     */
+    async removeItem(c: Context) {
+        try {
+            const result = await this.cartService.removeItem(c.req.param('id'), c.req.param('productId'));
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'removeItem');
+        }
+    }
+
+    /**
+     * Map errors raised by the cart service to HTTP responses
+     * @param c Hono context
+     * @param error Error thrown by the service
+     * @param operation Controller method name, for logging
+     * @returns JSON error response
+     */
+    private handleError(c: Context, error: unknown, operation: string) {
+        if (
+            error instanceof Error &&
+            (error.message === 'Cart not found' ||
+                error.message === 'Cart item not found' ||
+                error.message.startsWith('Product not found: '))
+        ) {
+            return c.json({ error: error.message }, 404);
+        }
+        if (error instanceof Error && error.message.startsWith('Insufficient stock')) {
+            return c.json({ error: error.message }, 409);
+        }
+        if (error instanceof Error && error.message.startsWith('Currency mismatch')) {
+            return c.json({ error: error.message }, 422);
+        }
+
+        console.error(`Error in ${operation}:`, error);
+        return c.json({ error: 'Internal server error' }, 500);
+    }
+}
@@ -5,6 +5,8 @@
 
 import { Context } from 'hono';
 import { ICategoryService } from '../interfaces/category-interface.js';
+import { categoryInputSchema, categoryMoveSchema, categoryUpdateSchema } from '../validation/category-schemas.js';
+import { parseJsonBody } from '../validation/parse-body.js';
 
 /**
  * Category controller handling HTTP request/response logic
@@ -99,4 +101,146 @@ export class CategoryController {
             return c.json({ error: 'Internal server error' }, 500);
         }
     }
+
+    /**
+     * Get the breadcrumbs of a category
+     * @param c Hono context
+     * @returns JSON response with the path from the root
+     */
+    async getCategoryBreadcrumbs(c: Context) {
+        try {
+            const result = await this.categoryService.getCategoryBreadcrumbs(c.req.param('id'));
+
+            return c.json(result);
+        } catch (error) {
+            if (error instanceof Error && error.message === 'Category not found') {
+                return c.json({ error: 'Category not found' }, 404);
+            }
+
+            console.error('Error in getCategoryBreadcrumbs:', error);
+            return c.json({ error: 'Internal server error' }, 500);
+        }
+    }
+
+    /**
+     * Get the descendants of a category
+     * @param c Hono context
+     * @returns JSON response with descendants
+     */
+    async getCategoryDescendants(c: Context) {
+        try {
+            const result = await this.categoryService.getCategoryDescendants(c.req.param('id'));
+
+            return c.json(result);
+        } catch (error) {
+            if (error instanceof Error && error.message === 'Category not found') {
+                return c.json({ error: 'Category not found' }, 404);
+            }
+
+            console.error('Error in getCategoryDescendants:', error);
+            return c.json({ error: 'Internal server error' }, 500);
+        }
+    }
+
+    /**
+     * Create a category
+     * @param c Hono context
+     * @returns JSON response with the created category
+     */
+    async createCategory(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, categoryInputSchema, 'Invalid category data');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.categoryService.createCategory(payload.data);
+
+            return c.json(result, 201);
+        } catch (error) {
+            return this.handleWriteError(c, error, 'createCategory');
+        }
+    }
+
+    /**
+     * Rename a category or change its description
+     * @param c Hono context
+     * @returns JSON response with the updated category
+     */
+    async updateCategory(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, categoryUpdateSchema, 'Invalid category data');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.categoryService.updateCategory(c.req.param('id'), payload.data);
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleWriteError(c, error, 'updateCategory');
+        }
+    }
+
+    /**
+     * Move a category under another parent
+     * @param c Hono context
+     * @returns JSON response with the moved category
+     */
+    async moveCategory(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, categoryMoveSchema, 'Invalid category move');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.categoryService.moveCategory(c.req.param('id'), payload.data.parentId);
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleWriteError(c, error, 'moveCategory');
+        }
+    }
+
+    /**
+     * Delete a category, optionally reassigning its products
+     * @param c Hono context
+     * @returns Empty 204 response
+     */
+    async deleteCategory(c: Context) {
+        try {
+            await this.categoryService.deleteCategory(c.req.param('id'), c.req.query('reassign_to'));
+
+            return c.body(null, 204);
+        } catch (error) {
+            return this.handleWriteError(c, error, 'deleteCategory');
+        }
+    }
+
+    /**
+     * Map errors raised by category write operations to HTTP responses
+     * @param c Hono context
+     * @param error Error thrown by the service
+     * @param operation Controller method name, for logging
+     * @returns JSON error response
+     */
+    private handleWriteError(c: Context, error: unknown, operation: string) {
+        if (error instanceof Error && error.message === 'Category not found') {
+            return c.json({ error: 'Category not found' }, 404);
+        }
+        if (error instanceof Error && error.message.includes('category not found')) {
+            return c.json({ error: error.message }, 422);
+        }
+        if (
+            error instanceof Error &&
+            (error.message.includes('already exists') ||
+                error.message.includes('is not empty') ||
+                error.message.startsWith('Cannot'))
+        ) {
+            return c.json({ error: error.message }, 409);
+        }
+
+        console.error(`Error in ${operation}:`, error);
+        return c.json({ error: 'Internal server error' }, 500);
+    }
 }
@@ -0,0 +1,91 @@
+/**
+ * Event controller handling HTTP requests
+ * Presentation layer for shopper events and behavior-based recommendations
+ */
+
+import { Context } from 'hono';
+import { IEventService } from '../interfaces/event-interface.js';
+import { parseJsonBody } from '../validation/parse-body.js';
+import { eventBatchSchema } from '../validation/event-schemas.js';
+
+/**
+ * Event controller handling HTTP request/response logic
+ * Validates input, calls services, and formats responses
+ */
+export class EventController {
+    constructor(private readonly eventService: IEventService) {}
+
+    /**
+     * Record one event or a batch of events
+     * @param c Hono context
+     * @returns JSON response with the number of recorded events
+     */
+    async recordEvents(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, eventBatchSchema, 'Invalid event data');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.eventService.recordEvents(payload.data);
+
+            return c.json(result, 202);
+        } catch (error) {
+            return this.handleError(c, error, 'recordEvents');
+        }
+    }
+
+    /**
+     * Get the products frequently bought together with a product
+     * @param c Hono context
+     * @returns JSON response with the related products
+     */
+    async getFrequentlyBoughtTogether(c: Context) {
+        try {
+            const limit = parseInt(c.req.query('limit') || '5');
+
+            const result = await this.eventService.getFrequentlyBoughtTogether(c.req.param('id'), limit);
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'getFrequentlyBoughtTogether');
+        }
+    }
+
+    /**
+     * Get the products viewed in the same sessions as a product
+     * @param c Hono context
+     * @returns JSON response with the related products
+     */
+    async getAlsoViewed(c: Context) {
+        try {
+            const limit = parseInt(c.req.query('limit') || '5');
+
+            const result = await this.eventService.getAlsoViewed(c.req.param('id'), limit);
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'getAlsoViewed');
+        }
+    }
+
+    /**
+     * Map errors raised by the event service to HTTP responses
+     * @param c Hono context
+     * @param error Error thrown by the service
+     * @param operation Controller method name, for logging
+     * @returns JSON error response
+     */
+    private handleError(c: Context, error: unknown, operation: string) {
+        if (error instanceof Error && error.message === 'Product not found') {
+            return c.json({ error: 'Product not found' }, 404);
+        }
+        // An event about an unknown product is well-formed but cannot be processed
+        if (error instanceof Error && error.message.startsWith('Product not found: ')) {
+            return c.json({ error: error.message }, 422);
+        }
+
+        console.error(`Error in ${operation}:`, error);
+        return c.json({ error: 'Internal server error' }, 500);
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * Inventory controller handling HTTP requests
+ * Presentation layer for warehouses and low-stock thresholds
+ */
+
+import { Context } from 'hono';
+import { IInventoryService } from '../interfaces/inventory-interface.js';
+import { stockThresholdInputSchema, thresholdTargetSchema } from '../validation/inventory-schemas.js';
+import { parseJsonBody } from '../validation/parse-body.js';
+
+/**
+ * Inventory controller handling HTTP request/response logic
+ * Validates input, calls services, and formats responses
+ */
+export class InventoryController {
+    constructor(private readonly inventoryService: IInventoryService) {}
+
+    /**
+     * List the warehouses
+     * @param c Hono context
+     * @returns JSON response with the warehouses
+     */
+    async getWarehouses(c: Context) {
+        try {
+            const result = await this.inventoryService.getWarehouses();
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'getWarehouses');
+        }
+    }
+
+    /**
+     * List the low-stock thresholds
+     * @param c Hono context
+     * @returns JSON response with the thresholds
+     */
+    async getThresholds(c: Context) {
+        try {
+            const result = await this.inventoryService.getThresholds();
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'getThresholds');
+        }
+    }
+
+    /**
+     * Set the low-stock threshold of a product or category
+     * @param c Hono context
+     * @returns JSON response with the saved threshold
+     */
+    async setThreshold(c: Context) {
+        try {
+            const targetType = thresholdTargetSchema.safeParse(c.req.param('targetType'));
+            if (!targetType.success) {
+                return c.json({ error: 'Invalid target type, expected product or category' }, 400);
+            }
+
+            const payload = await parseJsonBody(c, stockThresholdInputSchema, 'Invalid stock threshold');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.inventoryService.setThreshold(
+                targetType.data,
+                c.req.param('targetId'),
+                payload.data.threshold,
+            );
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'setThreshold');
+        }
+    }
+
+    /**
+     * Remove the low-stock threshold of a product or category
+     * @param c Hono context
+     * @returns Empty response
+     */
+    async deleteThreshold(c: Context) {
+        try {
+            const targetType = thresholdTargetSchema.safeParse(c.req.param('targetType'));
+            if (!targetType.success) {
+                return c.json({ error: 'Invalid target type, expected product or category' }, 400);
+            }
+
+            await this.inventoryService.deleteThreshold(targetType.data, c.req.param('targetId'));
+
+            return c.body(null, 204);
+        } catch (error) {
+            return this.handleError(c, error, 'deleteThreshold');
+        }
+    }
+
+    /**
+     * Map errors raised by the inventory service to HTTP responses
+     * @param c Hono context
+     * @param error Error thrown by the service
+     * @param operation Controller method name, for logging
+     * @returns JSON error response
+     */
+    private handleError(c: Context, error: unknown, operation: string) {
+        if (
+            error instanceof Error &&
+            (error.message === 'Product not found' ||
+                error.message === 'Category not found' ||
+                error.message === 'Threshold not found')
+        ) {
+            return c.json({ error: error.message }, 404);
+        }
+
+        console.error(`Error in ${operation}:`, error);
+        return c.json({ error: 'Internal server error' }, 500);
+    }
+}
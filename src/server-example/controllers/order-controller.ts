@@ -0,0 +1,113 @@
+/**
+ * Order controller handling HTTP requests
+ * Presentation layer for orders
+ */
+
+import { Context } from 'hono';
+import { IOrderService } from '../interfaces/order-interface.js';
+import { orderInputSchema } from '../validation/order-schemas.js';
+import { parseJsonBody } from '../validation/parse-body.js';
+
+/**
+ * Order controller handling HTTP request/response logic
+ * Validates input, calls services, and formats responses
+ */
+export class OrderController {
+    constructor(private readonly orderService: IOrderService) {}
+
+    /**
+     * Place an order from a cart
+     * @param c Hono context
+     * @returns JSON response with the pending order
+     */
+    async createOrder(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, orderInputSchema, 'Invalid order');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.orderService.createOrder(payload.data.cartId);
+
+            return c.json(result, 201);
+        } catch (error) {
+            return this.handleError(c, error, 'createOrder');
+        }
+    }
+
+    /**
+     * Get an order by ID
+     * @param c Hono context
+     * @returns JSON response with the order
+     */
+    async getOrder(c: Context) {
+        try {
+            const result = await this.orderService.getOrder(c.req.param('id'));
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'getOrder');
+        }
+    }
+
+    /**
+     * Confirm a pending order
+     * @param c Hono context
+     * @returns JSON response with the confirmed order
+     */
+    async confirmOrder(c: Context) {
+        try {
+            const result = await this.orderService.confirmOrder(c.req.param('id'));
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'confirmOrder');
+        }
+    }
+
+    /**
+     * Cancel a pending order
+     * @param c Hono context
+     * @returns JSON response with the cancelled order
+     */
+    async cancelOrder(c: Context) {
+        try {
+            const result = await this.orderService.cancelOrder(c.req.param('id'));
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'cancelOrder');
+        }
+    }
+
+    /**
+     * Map errors raised by the order service to HTTP responses
+     * @param c Hono context
+     * @param error Error thrown by the service
+     * @param operation Controller method name, for logging
+     * @returns JSON error response
+     */
+    private handleError(c: Context, error: unknown, operation: string) {
+        if (error instanceof Error && (error.message === 'Order not found' || error.message === 'Cart not found')) {
+            return c.json({ error: error.message }, 404);
+        }
+        if (
+            error instanceof Error &&
+            (error.message.startsWith('Insufficient stock') ||
+                error.message.startsWith('Order is ') ||
+                error.message === 'Order reservation expired' ||
+                error.message === 'Cart changed while placing the order')
+        ) {
+            return c.json({ error: error.message }, 409);
+        }
+        if (
+            error instanceof Error &&
+            (error.message === 'Cart is empty' || error.message.startsWith('Product not found: '))
+        ) {
+            return c.json({ error: error.message }, 422);
+        }
+
+        console.error(`Error in ${operation}:`, error);
+        return c.json({ error: 'Internal server error' }, 500);
+    }
+}
@@ -4,7 +4,22 @@
  */
 
 import { Context } from 'hono';
-import { IProductService, ProductFilters, SearchFilters, PaginationParams } from '../interfaces/product-interface.js';
+import {
+    IProductService,
+    ProductFilters,
+    SearchFilters,
+    SearchMode,
+    PaginationParams,
+    RecommendationOptions,
+    RecommendationWeights,
+} from '../interfaces/product-interface.js';
+import { DEFAULT_RECOMMENDATION_OPTIONS } from '../recommendations/content-recommender.js';
+import { FACET_ATTRIBUTES } from '../search/search-facets.js';
+import { warehouseStockInputSchema } from '../validation/inventory-schemas.js';
+import { parseJsonBody, parseQuery } from '../validation/parse-body.js';
+import { productInputSchema, productPatchSchema, suggestQuerySchema } from '../validation/product-schemas.js';
+
+const SEARCH_MODES: SearchMode[] = ['keyword', 'semantic', 'hybrid'];
 
 /**
  * Product controller handling HTTP request/response logic
@@ -22,22 +37,16 @@ export class ProductController {
         try {
             const page = parseInt(c.req.query('page') || '1');
             const limit = parseInt(c.req.query('limit') || '10');
-            const category = c.req.query('category');
-            const brand = c.req.query('brand');
-            const inStock = c.req.query('in_stock') === 'true';
             const sortBy = (c.req.query('sort_by') as ProductFilters['sortBy']) || 'name';
             const sortOrder = (c.req.query('sort_order') as ProductFilters['sortOrder']) || 'asc';
-            const minPrice = c.req.query('min_price') ? parseFloat(c.req.query('min_price')!) : undefined;
-            const maxPrice = c.req.query('max_price') ? parseFloat(c.req.query('max_price')!) : undefined;
 
             const filters: ProductFilters = {
-                category,
-                brand,
-                inStock,
+                ...this.parseFilters(c),
+                idPrefix: c.req.query('id_prefix'),
+                category: c.req.query('category'),
+                brand: c.req.query('brand'),
                 sortBy,
                 sortOrder,
-                minPrice,
-                maxPrice,
             };
 
             const pagination: PaginationParams = { page, limit };
@@ -61,11 +70,41 @@ export class ProductController {
             const query = c.req.query('q') || '';
             const page = parseInt(c.req.query('page') || '1');
             const limit = parseInt(c.req.query('limit') || '10');
-            const category = c.req.query('category');
+            const fuzzy = c.req.query('fuzzy') !== 'false';
+            const mode = (c.req.query('mode') || 'keyword') as SearchMode;
+            if (!SEARCH_MODES.includes(mode)) {
+                return c.json({ error: `Invalid search mode: ${mode}, expected ${SEARCH_MODES.join(', ')}` }, 400);
+            }
+            const sortBy = (c.req.query('sort_by') as SearchFilters['sortBy']) || (query ? 'relevance' : 'name');
+            const sortOrder =
+                (c.req.query('sort_order') as SearchFilters['sortOrder']) || (sortBy === 'relevance' ? 'desc' : 'asc');
 
+            const minRating = c.req.query('min_rating') ? parseFloat(c.req.query('min_rating')!) : undefined;
+            const priceBuckets = c.req
+                .query('price_buckets')
+                ?.split(',')
+                .map(Number)
+                .filter((bound) => Number.isFinite(bound));
+            const attributes = Object.fromEntries(
+                FACET_ATTRIBUTES.flatMap((name) => {
+                    const values = c.req.queries(name);
+                    return values ? [[name, values]] : [];
+                }),
+            );
+
+            // Category, brand and attribute parameters can be repeated to select several values
             const searchFilters: SearchFilters = {
+                ...this.parseFilters(c),
                 query,
-                category,
+                mode,
+                fuzzy,
+                sortBy,
+                sortOrder,
+                categories: c.req.queries('category'),
+                brands: c.req.queries('brand'),
+                minRating,
+                attributes,
+                priceBuckets,
             };
 
             const pagination: PaginationParams = { page, limit };
@@ -79,6 +118,27 @@ export class ProductController {
         }
     }
 
+    /**
+     * Complete a partial search query
+     * @param c Hono context
+     * @returns JSON response with completions
+     */
+    async suggestSearchTerms(c: Context) {
+        try {
+            const params = parseQuery(c, suggestQuerySchema, 'Invalid suggestion query');
+            if (!params.success) {
+                return params.response;
+            }
+
+            const result = await this.productService.suggestSearchTerms(params.data.q, params.data.limit);
+
+            return c.json(result);
+        } catch (error) {
+            console.error('Error in suggestSearchTerms:', error);
+            return c.json({ error: 'Internal server error' }, 500);
+        }
+    }
+
     /**
      * Get product by ID
      * @param c Hono context
@@ -109,8 +169,12 @@ export class ProductController {
         try {
             const productId = c.req.param('id');
             const limit = parseInt(c.req.query('limit') || '5');
+            const options = this.parseRecommendationOptions(c);
+            if (typeof options === 'string') {
+                return c.json({ error: options }, 400);
+            }
 
-            const result = await this.productService.getProductRecommendations(productId, limit);
+            const result = await this.productService.getProductRecommendations(productId, limit, options);
 
             return c.json(result);
         } catch (error) {
@@ -124,14 +188,15 @@ export class ProductController {
     }
 
     /**
-     * Get product availability
+     * Get product availability, broken down per warehouse with `locations=true`
      * @param c Hono context
      * @returns JSON response with availability data
      */
     async getProductAvailability(c: Context) {
         try {
             const productId = c.req.param('id');
-            const result = await this.productService.getProductAvailability(productId);
+            const includeLocations = c.req.query('locations') === 'true';
+            const result = await this.productService.getProductAvailability(productId, includeLocations);
 
             return c.json(result);
         } catch (error) {
@@ -144,6 +209,41 @@ export class ProductController {
         }
     }
 
+    /**
+     * Set the stock of a product at a warehouse
+     * @param c Hono context
+     * @returns JSON response with the availability of the product per warehouse
+     */
+    async setWarehouseStock(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, warehouseStockInputSchema, 'Invalid warehouse stock');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.productService.setWarehouseStock(
+                c.req.param('id'),
+                c.req.param('warehouseId'),
+                payload.data.quantity,
+            );
+
+            return c.json(result);
+        } catch (error) {
+            if (
+                error instanceof Error &&
+                (error.message === 'Product not found' || error.message === 'Warehouse not found')
+            ) {
+                return c.json({ error: error.message }, 404);
+            }
+            if (error instanceof Error && error.message.startsWith('Stock below reserved quantity')) {
+                return c.json({ error: error.message }, 409);
+            }
+
+            console.error('Error in setWarehouseStock:', error);
+            return c.json({ error: 'Internal server error' }, 500);
+        }
+    }
+
     /**
      * Get popular products
      * @param c Hono context
@@ -163,4 +263,146 @@ export class ProductController {
             return c.json({ error: 'Internal server error' }, 500);
         }
     }
+
+    /**
+     * Create a product
+     * @param c Hono context
+     * @returns JSON response with the created product
+     */
+    async createProduct(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, productInputSchema, 'Invalid product data');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.productService.createProduct(payload.data);
+
+            return c.json(result, 201);
+        } catch (error) {
+            return this.handleWriteError(c, error, 'createProduct');
+        }
+    }
+
+    /**
+     * Replace a product
+     * @param c Hono context
+     * @returns JSON response with the updated product
+     */
+    async updateProduct(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, productInputSchema, 'Invalid product data');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.productService.updateProduct(c.req.param('id'), payload.data);
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleWriteError(c, error, 'updateProduct');
+        }
+    }
+
+    /**
+     * Partially update a product
+     * @param c Hono context
+     * @returns JSON response with the updated product
+     */
+    async patchProduct(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, productPatchSchema, 'Invalid product data');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.productService.patchProduct(c.req.param('id'), payload.data);
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleWriteError(c, error, 'patchProduct');
+        }
+    }
+
+    /**
+     * Delete a product
+     * @param c Hono context
+     * @returns Empty 204 response
+     */
+    async deleteProduct(c: Context) {
+        try {
+            await this.productService.deleteProduct(c.req.param('id'));
+
+            return c.body(null, 204);
+        } catch (error) {
+            return this.handleWriteError(c, error, 'deleteProduct');
+        }
+    }
+
+    /**
+     * Read the stock and price filters shared by listing and search
+     * @param c Hono context
+     * @returns Stock and price filters
+     */
+    private parseFilters(c: Context): Pick<ProductFilters, 'inStock' | 'minPrice' | 'maxPrice'> {
+        return {
+            inStock: c.req.query('in_stock') === 'true',
+            minPrice: c.req.query('min_price') ? parseFloat(c.req.query('min_price')!) : undefined,
+            maxPrice: c.req.query('max_price') ? parseFloat(c.req.query('max_price')!) : undefined,
+        };
+    }
+
+    /**
+     * Read the recommendation weights and diversity, defaulting the ones not given
+     * @param c Hono context
+     * @returns Recommendation options, or the error message if a parameter is invalid
+     */
+    private parseRecommendationOptions(c: Context): RecommendationOptions | string {
+        const weights = { ...DEFAULT_RECOMMENDATION_OPTIONS.weights };
+        for (const signal of Object.keys(weights) as Array<keyof RecommendationWeights>) {
+            const value = c.req.query(`${signal}_weight`);
+            if (value !== undefined) {
+                weights[signal] = Number(value);
+                if (!Number.isFinite(weights[signal]) || weights[signal] < 0) {
+                    return `Invalid ${signal}_weight: ${value}, expected a non-negative number`;
+                }
+            }
+        }
+        if (Object.values(weights).every((weight) => weight === 0)) {
+            return 'At least one recommendation weight must be positive';
+        }
+
+        const value = c.req.query('diversity');
+        const diversity = value === undefined ? DEFAULT_RECOMMENDATION_OPTIONS.diversity : Number(value);
+        if (!(diversity >= 0 && diversity <= 1)) {
+            return `Invalid diversity: ${value}, expected a number from 0 to 1`;
+        }
+
+        return { weights, diversity };
+    }
+
+    /**
+     * Map errors raised by product write operations to HTTP responses
+     * @param c Hono context
+     * @param error Error thrown by the service
+     * @param operation Controller method name, for logging
+     * @returns JSON error response
+     */
+    private handleWriteError(c: Context, error: unknown, operation: string) {
+        if (error instanceof Error && error.message === 'Product not found') {
+            return c.json({ error: 'Product not found' }, 404);
+        }
+        if (error instanceof Error && error.message.includes('SKU already exists')) {
+            return c.json({ error: error.message }, 409);
+        }
+        if (error instanceof Error && error.message.startsWith('Stock below reserved quantity')) {
+            return c.json({ error: error.message }, 409);
+        }
+        if (error instanceof Error && error.message.includes('Category not found')) {
+            return c.json({ error: error.message }, 422);
+        }
+
+        console.error(`Error in ${operation}:`, error);
+        return c.json({ error: 'Internal server error' }, 500);
+    }
 }
@@ -0,0 +1,122 @@
+/**
+ * Synonym controller handling HTTP requests
+ * Presentation layer for the search synonym administration
+ */
+
+import { Context } from 'hono';
+import { ISynonymService } from '../interfaces/synonym-interface.js';
+import { parseJsonBody } from '../validation/parse-body.js';
+import { synonymInputSchema } from '../validation/synonym-schemas.js';
+
+/**
+ * Synonym controller handling HTTP request/response logic
+ * Validates input, calls services, and formats responses
+ */
+export class SynonymController {
+    constructor(private readonly synonymService: ISynonymService) {}
+
+    /**
+     * List the synonym rules
+     * @param c Hono context
+     * @returns JSON response with the rules
+     */
+    async getSynonyms(c: Context) {
+        try {
+            const result = await this.synonymService.getSynonyms();
+
+            return c.json(result);
+        } catch (error) {
+            console.error('Error in getSynonyms:', error);
+            return c.json({ error: 'Internal server error' }, 500);
+        }
+    }
+
+    /**
+     * Get a synonym rule by ID
+     * @param c Hono context
+     * @returns JSON response with the rule
+     */
+    async getSynonymById(c: Context) {
+        try {
+            const result = await this.synonymService.getSynonymById(c.req.param('id'));
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'getSynonymById');
+        }
+    }
+
+    /**
+     * Create a synonym rule
+     * @param c Hono context
+     * @returns JSON response with the created rule
+     */
+    async createSynonym(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, synonymInputSchema, 'Invalid synonym rule');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.synonymService.createSynonym(payload.data);
+
+            return c.json(result, 201);
+        } catch (error) {
+            return this.handleError(c, error, 'createSynonym');
+        }
+    }
+
+    /**
+     * Replace a synonym rule
+     * @param c Hono context
+     * @returns JSON response with the updated rule
+     */
+    async updateSynonym(c: Context) {
+        try {
+            const payload = await parseJsonBody(c, synonymInputSchema, 'Invalid synonym rule');
+            if (!payload.success) {
+                return payload.response;
+            }
+
+            const result = await this.synonymService.updateSynonym(c.req.param('id'), payload.data);
+
+            return c.json(result);
+        } catch (error) {
+            return this.handleError(c, error, 'updateSynonym');
+        }
+    }
+
+    /**
+     * Delete a synonym rule
+     * @param c Hono context
+     * @returns Empty 204 response
+     */
+    async deleteSynonym(c: Context) {
+        try {
+            await this.synonymService.deleteSynonym(c.req.param('id'));
+
+            return c.body(null, 204);
+        } catch (error) {
+            return this.handleError(c, error, 'deleteSynonym');
+        }
+    }
+
+    /**
+     * Map errors raised by the synonym service to HTTP responses
+     * @param c Hono context
+     * @param error Error thrown by the service
+     * @param operation Controller method name, for logging
+     * @returns JSON error response
+     */
+    private handleError(c: Context, error: unknown, operation: string) {
+        if (error instanceof Error && error.message === 'Synonym rule not found') {
+            return c.json({ error: 'Synonym rule not found' }, 404);
+        }
+        if (error instanceof Error && error.message.includes('category not found')) {
+            return c.json({ error: error.message }, 422);
+        }
+
+        console.error(`Error in ${operation}:`, error);
+        return c.json({ error: 'Internal server error' }, 500);
+    }
+}
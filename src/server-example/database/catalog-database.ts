@@ -0,0 +1,133 @@
+/**
+ * SQLite database holding the catalog
+ */
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+import { Category } from '../interfaces/category-interface.js';
+import { Warehouse } from '../interfaces/inventory-interface.js';
+import { Product } from '../interfaces/product-interface.js';
+import { distributeStock } from '../inventory/warehouse-stock.js';
+import { migrations } from './migrations.js';
+import { INSERT_PRODUCT_SQL, toProductRow } from './rows.js';
+
+/**
+ * Data inserted into a new, empty database
+ */
+export interface CatalogSeed {
+    categories: Category[];
+    products: Product[];
+    warehouses: Warehouse[];
+}
+
+/**
+ * Open the catalog database, bringing its schema up to date
+ * @param path Database file, `:memory:` for a throwaway database
+ * @param seed Data inserted when the database has no categories yet, warehouses when it has none
+ * @returns Open database
+ */
+export function openCatalogDatabase(path: string, seed?: CatalogSeed): Database {
+    if (path !== ':memory:') {
+        mkdirSync(dirname(path), { recursive: true });
+    }
+
+    const db = new Database(path, { create: true, strict: true });
+    db.run('PRAGMA journal_mode = WAL');
+    db.run('PRAGMA foreign_keys = ON');
+
+    migrate(db);
+
+    const { count } = db.query<{ count: number }, []>('SELECT COUNT(*) AS count FROM categories').get()!;
+    if (seed && count === 0) {
+        seedDatabase(db, seed);
+    }
+
+    const { warehouseCount } = db
+        .query<{ warehouseCount: number }, []>('SELECT COUNT(*) AS warehouseCount FROM warehouses')
+        .get()!;
+    if (seed && warehouseCount === 0) {
+        seedWarehouses(db, seed.warehouses);
+    }
+
+    return db;
+}
+
+/**
+ * Apply the migrations newer than the database schema, each in its own transaction
+ * @param db Open database
+ */
+function migrate(db: Database): void {
+    const { user_version: currentVersion } = db.query<{ user_version: number }, []>('PRAGMA user_version').get()!;
+
+    for (const migration of migrations.filter(({ version }) => version > currentVersion)) {
+        db.transaction(() => {
+            db.exec(migration.sql);
+            db.run(`PRAGMA user_version = ${migration.version}`);
+        })();
+        console.log(`🗄️  Applied migration ${migration.version}: ${migration.description}`);
+    }
+}
+
+/**
+ * Insert the seed categories, parents first, and products
+ * @param db Open database
+ * @param seed Categories and products to insert
+ */
+function seedDatabase(db: Database, seed: CatalogSeed): void {
+    const insertCategory = db.query(
+        `INSERT INTO categories (id, name, description, parent_id, position)
+         VALUES ($id, $name, $description, $parentId, $position)`,
+    );
+    const insertProduct = db.query(INSERT_PRODUCT_SQL);
+
+    const insertTree = (categories: Category[], parentId: string | null) => {
+        categories.forEach((category, position) => {
+            insertCategory.run({
+                id: category.id,
+                name: category.name,
+                description: category.description,
+                parentId,
+                position,
+            });
+            insertTree(category.subcategories, category.id);
+        });
+    };
+
+    db.transaction(() => {
+        insertTree(seed.categories, null);
+        seed.products.forEach((product) => insertProduct.run({ ...toProductRow(product) }));
+    })();
+
+    console.log(`🌱 Seeded ${seed.products.length} products`);
+}
+
+/**
+ * Insert the seed warehouses and split the stock of every product across them
+ * Also runs on databases created before warehouses existed, whose products keep their total stock.
+ * @param db Open database
+ * @param warehouses Warehouses to insert, in fulfilment order
+ */
+function seedWarehouses(db: Database, warehouses: Warehouse[]): void {
+    const insertWarehouse = db.query(
+        `INSERT INTO warehouses (id, name, region, shipping_days) VALUES ($id, $name, $region, $shippingDays)`,
+    );
+    const insertStock = db.query(
+        `INSERT INTO warehouse_stock (product_id, warehouse_id, quantity) VALUES ($productId, $warehouseId, $quantity)`,
+    );
+    const products = db
+        .query<{ id: string; stock_quantity: number }, []>('SELECT id, stock_quantity FROM products ORDER BY rowid')
+        .all();
+
+    db.transaction(() => {
+        warehouses.forEach((warehouse) => insertWarehouse.run({ ...warehouse }));
+        for (const { id: productId, stock_quantity: quantity } of products) {
+            for (const level of distributeStock(productId, quantity, warehouses)) {
+                insertStock.run({ productId, ...level });
+            }
+        }
+    })();
+
+    console.log(`🏭 Seeded ${warehouses.length} warehouses`);
+}
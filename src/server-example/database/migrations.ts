@@ -0,0 +1,149 @@
+/**
+ * SQLite schema migrations, applied in order and tracked with `PRAGMA user_version`
+ */
+
+/**
+ * Schema change identified by its position in the list
+ */
+export interface Migration {
+    version: number;
+    description: string;
+    sql: string;
+}
+
+export const migrations: Migration[] = [
+    {
+        version: 1,
+        description: 'Create categories and products',
+        sql: `
+            CREATE TABLE categories (
+                id TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                description TEXT NOT NULL DEFAULT '',
+                parent_id TEXT REFERENCES categories (id) ON DELETE RESTRICT,
+                position INTEGER NOT NULL DEFAULT 0
+            );
+
+            CREATE INDEX idx_categories_parent ON categories (parent_id, position);
+
+            CREATE TABLE products (
+                id TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                description TEXT NOT NULL,
+                price REAL NOT NULL,
+                currency TEXT NOT NULL,
+                category TEXT NOT NULL,
+                subcategory TEXT,
+                brand TEXT NOT NULL,
+                sku TEXT NOT NULL,
+                in_stock INTEGER NOT NULL,
+                stock_quantity INTEGER NOT NULL,
+                images TEXT NOT NULL DEFAULT '[]',
+                attributes TEXT NOT NULL DEFAULT '{}',
+                rating REAL NOT NULL DEFAULT 0,
+                review_count INTEGER NOT NULL DEFAULT 0,
+                tags TEXT NOT NULL DEFAULT '[]',
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            );
+
+            CREATE UNIQUE INDEX idx_products_sku ON products (sku COLLATE NOCASE);
+            CREATE INDEX idx_products_category_price ON products (category, price);
+            CREATE INDEX idx_products_subcategory_price ON products (subcategory, price);
+            CREATE INDEX idx_products_brand ON products (brand COLLATE NOCASE);
+            CREATE INDEX idx_products_price ON products (price);
+            CREATE INDEX idx_products_rating ON products (rating);
+        `,
+    },
+    {
+        version: 2,
+        description: 'Create events',
+        sql: `
+            CREATE TABLE events (
+                id TEXT PRIMARY KEY,
+                type TEXT NOT NULL,
+                product_id TEXT NOT NULL,
+                session_id TEXT NOT NULL,
+                timestamp TEXT NOT NULL
+            );
+
+            CREATE INDEX idx_events_product ON events (product_id);
+        `,
+    },
+    {
+        version: 3,
+        description: 'Create carts',
+        sql: `
+            CREATE TABLE carts (
+                id TEXT PRIMARY KEY,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            );
+
+            CREATE TABLE cart_items (
+                cart_id TEXT NOT NULL REFERENCES carts (id) ON DELETE CASCADE,
+                product_id TEXT NOT NULL,
+                quantity INTEGER NOT NULL,
+                added_at TEXT NOT NULL,
+                position INTEGER NOT NULL,
+                PRIMARY KEY (cart_id, product_id)
+            );
+        `,
+    },
+    {
+        version: 4,
+        description: 'Create orders and stock reservations',
+        sql: `
+            CREATE TABLE orders (
+                id TEXT PRIMARY KEY,
+                cart_id TEXT NOT NULL,
+                status TEXT NOT NULL,
+                items TEXT NOT NULL,
+                subtotal REAL NOT NULL,
+                currency TEXT NOT NULL,
+                reservation_expires_at TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            );
+
+            CREATE TABLE stock_reservations (
+                order_id TEXT NOT NULL,
+                product_id TEXT NOT NULL,
+                quantity INTEGER NOT NULL,
+                status TEXT NOT NULL,
+                expires_at TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                PRIMARY KEY (order_id, product_id)
+            );
+
+            CREATE INDEX idx_stock_reservations_held ON stock_reservations (product_id, expires_at)
+                WHERE status = 'held';
+        `,
+    },
+    {
+        version: 5,
+        description: 'Create warehouses, warehouse stock and low-stock thresholds',
+        sql: `
+            CREATE TABLE warehouses (
+                id TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                region TEXT NOT NULL,
+                shipping_days INTEGER NOT NULL
+            );
+
+            CREATE TABLE warehouse_stock (
+                product_id TEXT NOT NULL REFERENCES products (id) ON DELETE CASCADE,
+                warehouse_id TEXT NOT NULL REFERENCES warehouses (id) ON DELETE CASCADE,
+                quantity INTEGER NOT NULL,
+                PRIMARY KEY (product_id, warehouse_id)
+            );
+
+            CREATE TABLE stock_thresholds (
+                target_type TEXT NOT NULL,
+                target_id TEXT NOT NULL,
+                threshold INTEGER NOT NULL,
+                PRIMARY KEY (target_type, target_id)
+            );
+        `,
+    },
+];
@@ -0,0 +1,206 @@
+/**
+ * Row shapes of the SQLite tables and their mapping to domain entities
+ */
+
+import { Warehouse } from '../interfaces/inventory-interface.js';
+import { Product } from '../interfaces/product-interface.js';
+
+/**
+ * Named parameters of a statement
+ */
+export type SqlParams = Record<string, string | number | null>;
+
+/**
+ * Row of the `products` table
+ */
+export interface ProductRow {
+    id: string;
+    name: string;
+    description: string;
+    price: number;
+    currency: string;
+    category: string;
+    subcategory: string | null;
+    brand: string;
+    sku: string;
+    in_stock: number;
+    stock_quantity: number;
+    images: string;
+    attributes: string;
+    rating: number;
+    review_count: number;
+    tags: string;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * Insert a product row, parameters named after the columns
+ */
+export const INSERT_PRODUCT_SQL = `
+    INSERT INTO products (id, name, description, price, currency, category, subcategory, brand, sku, in_stock,
+        stock_quantity, images, attributes, rating, review_count, tags, created_at, updated_at)
+    VALUES ($id, $name, $description, $price, $currency, $category, $subcategory, $brand, $sku, $in_stock,
+        $stock_quantity, $images, $attributes, $rating, $review_count, $tags, $created_at, $updated_at)`;
+
+/**
+ * Row of the `categories` table
+ */
+export interface CategoryRow {
+    id: string;
+    name: string;
+    description: string;
+    parent_id: string | null;
+    position: number;
+}
+
+/**
+ * Row of the `events` table
+ */
+export interface EventRow {
+    id: string;
+    type: string;
+    product_id: string;
+    session_id: string;
+    timestamp: string;
+}
+
+/**
+ * Row of the `carts` table
+ */
+export interface CartRow {
+    id: string;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * Row of the `cart_items` table
+ */
+export interface CartItemRow {
+    cart_id: string;
+    product_id: string;
+    quantity: number;
+    added_at: string;
+    position: number;
+}
+
+/**
+ * Row of the `orders` table
+ */
+export interface OrderRow {
+    id: string;
+    cart_id: string;
+    status: string;
+    items: string;
+    subtotal: number;
+    currency: string;
+    reservation_expires_at: string;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * Row of the `stock_reservations` table
+ */
+export interface StockReservationRow {
+    order_id: string;
+    product_id: string;
+    quantity: number;
+    status: string;
+    expires_at: string;
+    created_at: string;
+}
+
+/**
+ * Row of the `warehouses` table
+ */
+export interface WarehouseRow {
+    id: string;
+    name: string;
+    region: string;
+    shipping_days: number;
+}
+
+/**
+ * Row of the `warehouse_stock` table
+ */
+export interface WarehouseStockRow {
+    product_id: string;
+    warehouse_id: string;
+    quantity: number;
+}
+
+/**
+ * Row of the `stock_thresholds` table
+ */
+export interface StockThresholdRow {
+    target_type: string;
+    target_id: string;
+    threshold: number;
+}
+
+/**
+ * Convert a warehouse row to a warehouse
+ * @param row Database row
+ * @returns Warehouse entity
+ */
+export function toWarehouse(row: WarehouseRow): Warehouse {
+    return { id: row.id, name: row.name, region: row.region, shippingDays: row.shipping_days };
+}
+
+/**
+ * Convert a product row to a product
+ * @param row Database row
+ * @returns Product entity
+ */
+export function toProduct(row: ProductRow): Product {
+    return {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        price: row.price,
+        currency: row.currency,
+        category: row.category,
+        ...(row.subcategory !== null && { subcategory: row.subcategory }),
+        brand: row.brand,
+        sku: row.sku,
+        inStock: row.in_stock === 1,
+        stockQuantity: row.stock_quantity,
+        images: JSON.parse(row.images),
+        attributes: JSON.parse(row.attributes),
+        rating: row.rating,
+        reviewCount: row.review_count,
+        tags: JSON.parse(row.tags),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+/**
+ * Convert a product to a product row
+ * @param product Product entity
+ * @returns Database row
+ */
+export function toProductRow(product: Product): ProductRow {
+    return {
+        id: product.id,
+        name: product.name,
+        description: product.description,
+        price: product.price,
+        currency: product.currency,
+        category: product.category,
+        subcategory: product.subcategory ?? null,
+        brand: product.brand,
+        sku: product.sku,
+        in_stock: product.inStock ? 1 : 0,
+        stock_quantity: product.stockQuantity,
+        images: JSON.stringify(product.images),
+        attributes: JSON.stringify(product.attributes),
+        rating: product.rating,
+        review_count: product.reviewCount,
+        tags: JSON.stringify(product.tags),
+        created_at: product.createdAt,
+        updated_at: product.updatedAt,
+    };
+}
@@ -0,0 +1,245 @@
+/**
+ * SQL filtering and facet counting of product searches, matching the in-memory search facets
+ */
+
+import { Database } from 'bun:sqlite';
+
+import {
+    FacetCount,
+    PriceRangeFacet,
+    RatingFacet,
+    SearchFacets,
+    SearchFilters,
+} from '../interfaces/product-interface.js';
+import {
+    FACET_ATTRIBUTES,
+    priceBucketEdges,
+    priceQuantileBounds,
+    rankFacetCounts,
+    RATING_THRESHOLDS,
+} from '../search/search-facets.js';
+import { SqlParams } from './rows.js';
+
+/**
+ * SQL condition attached to the facet it selects values of
+ */
+export interface FacetCondition {
+    /** Facet left out of this condition when counting its own values */
+    facet: string;
+    sql: string;
+    params: SqlParams;
+}
+
+/**
+ * `WHERE` clause of a statement and its parameters
+ */
+export interface WhereClause {
+    /** Empty without conditions */
+    where: string;
+    params: SqlParams;
+}
+
+/**
+ * Build the SQL expression reading a product attribute as text
+ * Booleans read as `true` and `false`, like the attribute values compared by the in-memory search.
+ * @param nameParam Parameter holding the attribute name
+ * @returns Expression, NULL if the product lacks the attribute
+ */
+function attributeText(nameParam: string): string {
+    return `(SELECT CASE type WHEN 'true' THEN 'true' WHEN 'false' THEN 'false' ELSE CAST(value AS TEXT) END
+             FROM json_each(products.attributes) WHERE key = $${nameParam})`;
+}
+
+/**
+ * Build the SQL conditions of search filters
+ * @param filters Search filters, the query and sorting are ignored
+ * @returns One condition per facet with a selection
+ */
+export function searchConditions(filters: SearchFilters): FacetCondition[] {
+    const conditions: FacetCondition[] = [];
+
+    if (filters.categories?.length) {
+        conditions.push({
+            facet: 'categories',
+            sql: `(category IN (SELECT value FROM json_each($categories))
+                   OR subcategory IN (SELECT value FROM json_each($categories)))`,
+            params: { categories: JSON.stringify(filters.categories) },
+        });
+    }
+    if (filters.brands?.length) {
+        conditions.push({
+            facet: 'brands',
+            sql: 'brand COLLATE NOCASE IN (SELECT value FROM json_each($brands))',
+            params: { brands: JSON.stringify(filters.brands) },
+        });
+    }
+    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+        const bounds: string[] = [];
+        const params: SqlParams = {};
+        if (filters.minPrice !== undefined) {
+            bounds.push('price >= $minPrice');
+            params.minPrice = filters.minPrice;
+        }
+        if (filters.maxPrice !== undefined) {
+            bounds.push('price <= $maxPrice');
+            params.maxPrice = filters.maxPrice;
+        }
+        conditions.push({ facet: 'priceRanges', sql: bounds.join(' AND '), params });
+    }
+    if (filters.minRating !== undefined) {
+        conditions.push({ facet: 'ratings', sql: 'rating >= $minRating', params: { minRating: filters.minRating } });
+    }
+    if (filters.inStock) {
+        conditions.push({ facet: 'availability', sql: 'in_stock = 1', params: {} });
+    }
+    Object.entries(filters.attributes ?? {})
+        .filter(([, values]) => values.length > 0)
+        .forEach(([name, values], i) => {
+            conditions.push({
+                facet: `attributes.${name}`,
+                sql: `lower(${attributeText(`attribute${i}`)}) IN (SELECT value FROM json_each($attributeValues${i}))`,
+                params: {
+                    [`attribute${i}`]: name,
+                    [`attributeValues${i}`]: JSON.stringify(values.map((value) => value.toLowerCase())),
+                },
+            });
+        });
+
+    return conditions;
+}
+
+/**
+ * Join search conditions into a `WHERE` clause
+ * @param conditions Search conditions
+ * @param excludedFacet Facet whose condition is left out, to count its values
+ * @returns Clause and the parameters of its conditions
+ */
+export function whereClause(conditions: FacetCondition[], excludedFacet?: string): WhereClause {
+    const included = conditions.filter(({ facet }) => facet !== excludedFacet);
+
+    return {
+        where: included.length > 0 ? `WHERE ${included.map(({ sql }) => sql).join(' AND ')}` : '',
+        params: Object.assign({}, ...included.map(({ params }) => params)),
+    };
+}
+
+/**
+ * Count the matching products per value
+ * @param db Catalog database
+ * @param expression SQL expression of the facet value, NULL if the product has none
+ * @param clause Products to count
+ * @param expressionParams Parameters of the expression
+ * @returns Value counts, most frequent first, ties in alphabetical order
+ */
+function countValues(
+    db: Database,
+    expression: string,
+    { where, params }: WhereClause,
+    expressionParams: SqlParams = {},
+): FacetCount[] {
+    const counts = db
+        .query<FacetCount, SqlParams>(
+            `SELECT value, COUNT(*) AS count FROM (SELECT ${expression} AS value FROM products ${where})
+             WHERE value IS NOT NULL GROUP BY value`,
+        )
+        .all({ ...params, ...expressionParams });
+
+    return rankFacetCounts(counts);
+}
+
+/**
+ * Count the matching products per price bucket
+ * @param db Catalog database
+ * @param clause Products to count
+ * @param bounds Upper bounds of the buckets but the last, derived from price quantiles when omitted
+ * @returns Non-empty buckets, cheapest first; the first starts at 0 and the last ends at the highest price
+ */
+function countPriceRanges(db: Database, { where, params }: WhereClause, bounds?: number[]): PriceRangeFacet[] {
+    const stats = `SELECT COUNT(*) AS total, MAX(price) AS highest FROM products ${where}`;
+    const { total, highest } = db.query<{ total: number; highest: number | null }, SqlParams>(stats).get(params)!;
+    if (highest === null) {
+        return [];
+    }
+
+    const pricesInOrder = `SELECT price FROM products ${where} ORDER BY price LIMIT 1 OFFSET $position`;
+    const priceAt = (position: number): number =>
+        db.query<{ price: number }, SqlParams>(pricesInOrder).get({ ...params, position })!.price;
+    const edges = priceBucketEdges(highest, bounds ?? priceQuantileBounds(total, priceAt));
+    const buckets = edges.slice(0, -1).map((min, i) => ({ min, max: edges[i + 1] }));
+
+    const columns = buckets.map((_, i) => {
+        const below = i === buckets.length - 1 ? '<=' : '<';
+        return `COUNT(*) FILTER (WHERE price >= $bucketMin${i} AND price ${below} $bucketMax${i}) AS bucket${i}`;
+    });
+    const bucketParams = Object.fromEntries(
+        buckets.flatMap(({ min, max }, i) => [
+            [`bucketMin${i}`, min],
+            [`bucketMax${i}`, max],
+        ]),
+    );
+    const counts = db
+        .query<Record<string, number>, SqlParams>(`SELECT ${columns.join(', ')} FROM products ${where}`)
+        .get({ ...params, ...bucketParams })!;
+
+    return buckets
+        .map(({ min, max }, i) => ({ min, max, count: counts[`bucket${i}`] }))
+        .filter(({ count }) => count > 0);
+}
+
+/**
+ * Count the matching products per minimum rating
+ * @param db Catalog database
+ * @param clause Products to count
+ * @returns Non-empty rating facets, highest minimum first
+ */
+function countRatings(db: Database, { where, params }: WhereClause): RatingFacet[] {
+    const columns = RATING_THRESHOLDS.map(
+        (minRating) => `COUNT(*) FILTER (WHERE rating >= ${minRating}) AS rating${minRating}`,
+    );
+    const counts = db
+        .query<Record<string, number>, SqlParams>(`SELECT ${columns.join(', ')} FROM products ${where}`)
+        .get(params)!;
+
+    return RATING_THRESHOLDS.map((minRating) => ({ minRating, count: counts[`rating${minRating}`] })).filter(
+        ({ count }) => count > 0,
+    );
+}
+
+/**
+ * Count the matching products in and out of stock
+ * @param db Catalog database
+ * @param clause Products to count
+ * @returns Availability facet
+ */
+function countAvailability(db: Database, { where, params }: WhereClause): SearchFacets['availability'] {
+    const counts = `SELECT COUNT(*) FILTER (WHERE in_stock = 1) AS inStock, COUNT(*) AS total FROM products ${where}`;
+    const { inStock, total } = db.query<{ inStock: number; total: number }, SqlParams>(counts).get(params)!;
+
+    return { inStock, outOfStock: total - inStock };
+}
+
+/**
+ * Count the search facets with SQL aggregates
+ * Each facet counts the products matching every condition but its own, as the in-memory search facets do.
+ * @param db Catalog database
+ * @param conditions Search conditions
+ * @param priceBuckets Upper bounds of the price buckets, derived from price quantiles when omitted
+ * @returns Search facets
+ */
+export function countFacets(db: Database, conditions: FacetCondition[], priceBuckets?: number[]): SearchFacets {
+    return {
+        categories: countValues(db, 'category', whereClause(conditions, 'categories')),
+        brands: countValues(db, 'brand', whereClause(conditions, 'brands')),
+        priceRanges: countPriceRanges(db, whereClause(conditions, 'priceRanges'), priceBuckets),
+        ratings: countRatings(db, whereClause(conditions, 'ratings')),
+        availability: countAvailability(db, whereClause(conditions, 'availability')),
+        attributes: Object.fromEntries(
+            FACET_ATTRIBUTES.map((name) => [
+                name,
+                countValues(db, attributeText('facetAttribute'), whereClause(conditions, `attributes.${name}`), {
+                    facetAttribute: name,
+                }),
+            ]).filter(([, counts]) => counts.length > 0),
+        ),
+    };
+}
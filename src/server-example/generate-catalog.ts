@@ -0,0 +1,100 @@
+/**
+ * Dump a generated mock catalog to a JSON fixture
+ *
+ * Usage: bun generate-catalog [--seed 42] [--size medium|<count>] [--out ./data/catalog.json]
+ *     [--price-min 10] [--price-max 2000] [--price-shape uniform|log-uniform]
+ *     [--in-stock-ratio 0.5] [--low-stock-ratio 0.05] [--max-stock 200]
+ *     [--rating-min 3] [--rating-max 5] [--rating-mode 4] [--reference-date 2025-01-01T00:00:00.000Z]
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { z } from 'zod';
+
+import {
+    CatalogGeneratorOptions,
+    DEFAULT_GENERATOR_OPTIONS,
+    resolveCatalogSize,
+} from './repositories/catalog-generator.js';
+import { createMockCatalog } from './repositories/mock-data.js';
+
+const { price, stock, rating } = DEFAULT_GENERATOR_OPTIONS;
+const ratio = z.coerce.number().min(0).max(1);
+
+const cliOptions = {
+    seed: z.coerce.number().int().default(DEFAULT_GENERATOR_OPTIONS.seed),
+    size: z
+        .string()
+        .default('medium')
+        .transform((value, ctx) => {
+            try {
+                return resolveCatalogSize(value);
+            } catch (error) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+                return z.NEVER;
+            }
+        }),
+    out: z.string().min(1).default('./data/catalog.json'),
+    'price-min': z.coerce.number().positive().default(price.min),
+    'price-max': z.coerce.number().positive().default(price.max),
+    'price-shape': z.enum(['uniform', 'log-uniform']).default(price.shape),
+    'in-stock-ratio': ratio.default(stock.inStockRatio),
+    'low-stock-ratio': ratio.default(stock.lowStockRatio),
+    'max-stock': z.coerce.number().int().positive().default(stock.maxQuantity),
+    'rating-min': z.coerce.number().min(0).max(5).default(rating.min),
+    'rating-max': z.coerce.number().min(0).max(5).default(rating.max),
+    'rating-mode': z.coerce.number().min(0).max(5).default(rating.mode),
+    'reference-date': z.string().datetime().default(DEFAULT_GENERATOR_OPTIONS.referenceDate),
+};
+
+const cliSchema = z
+    .object(cliOptions)
+    .refine((args) => args['price-min'] < args['price-max'], 'price-min must be lower than price-max')
+    .refine(
+        (args) => args['rating-min'] <= args['rating-mode'] && args['rating-mode'] <= args['rating-max'],
+        'rating-mode must lie between rating-min and rating-max',
+    );
+
+const { values } = parseArgs({
+    options: Object.fromEntries(Object.keys(cliOptions).map((name) => [name, { type: 'string' }])),
+});
+const parsed = cliSchema.safeParse(values);
+
+if (!parsed.success) {
+    console.error(
+        'Invalid options:',
+        parsed.error.issues.map(({ path, message }) => `${path.join('.')} ${message}`.trim()).join('; '),
+    );
+    process.exit(1);
+}
+
+const args = parsed.data;
+const options: CatalogGeneratorOptions = {
+    seed: args.seed,
+    productCount: args.size,
+    referenceDate: args['reference-date'],
+    price: { min: args['price-min'], max: args['price-max'], shape: args['price-shape'] },
+    stock: {
+        inStockRatio: args['in-stock-ratio'],
+        lowStockRatio: args['low-stock-ratio'],
+        maxQuantity: args['max-stock'],
+    },
+    rating: { min: args['rating-min'], max: args['rating-max'], mode: args['rating-mode'] },
+};
+
+const { categories, products } = createMockCatalog(options);
+
+// Written one product per line, so large catalogs never need a single huge string
+mkdirSync(dirname(args.out), { recursive: true });
+const writer = Bun.file(args.out).writer();
+writer.write(
+    `{\n"options": ${JSON.stringify(options)},\n"categories": ${JSON.stringify(categories)},\n"products": [\n`,
+);
+products.forEach((product, index) => {
+    writer.write(`${JSON.stringify(product)}${index < products.length - 1 ? ',' : ''}\n`);
+});
+writer.write(']\n}\n');
+await writer.end();
+
+console.log(`Wrote ${products.length} products to ${args.out}`);
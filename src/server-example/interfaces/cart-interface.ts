@@ -0,0 +1,125 @@
+/**
+ * Shopping cart domain types and interfaces for the catalog API
+ */
+
+/**
+ * Product in a cart, as stored
+ */
+export interface CartLine {
+    productId: string;
+    quantity: number;
+    /** When the product was first added, ISO date string */
+    addedAt: string;
+}
+
+/**
+ * Cart as stored: quantities only, prices are read from the catalog when the cart is viewed
+ */
+export interface CartRecord {
+    id: string;
+    lines: CartLine[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Cart line priced at the current catalog price
+ */
+export interface CartItem {
+    productId: string;
+    name: string;
+    quantity: number;
+    unitPrice: number;
+    lineTotal: number;
+}
+
+/**
+ * Cart with its items priced and totaled
+ */
+export interface Cart {
+    id: string;
+    /** Items in the order they were added, without the products deleted from the catalog since */
+    items: CartItem[];
+    /** Total quantity of the items */
+    itemCount: number;
+    subtotal: number;
+    /** Currency of every item, absent while the cart is empty */
+    currency?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Repository interface for cart storage
+ */
+export interface ICartRepository {
+    /**
+     * Get a cart by ID
+     * @param id Cart ID
+     * @returns Promise with the cart or null if not found
+     */
+    getCart(id: string): Promise<CartRecord | null>;
+
+    /**
+     * Insert a cart, or replace the cart with the same ID
+     * @param cart Cart to save
+     * @returns Promise with the saved cart
+     */
+    saveCart(cart: CartRecord): Promise<CartRecord>;
+
+    /**
+     * Replace a cart only if its lines are still the ones read, so concurrent writers cannot both act on them
+     * @param current Cart as read before
+     * @param replacement Cart to save in its place
+     * @returns Promise with true if the cart was replaced, false if its lines changed since they were read
+     */
+    replaceCartIfUnchanged(current: CartRecord, replacement: CartRecord): Promise<boolean>;
+}
+
+/**
+ * Service interface for cart operations
+ */
+export interface ICartService {
+    /**
+     * Create an empty cart
+     * @returns Promise with the created cart
+     */
+    createCart(): Promise<{ data: Cart }>;
+
+    /**
+     * Get a cart by ID
+     * @param id Cart ID
+     * @returns Promise with the priced cart
+     * @throws Error if the cart is not found
+     */
+    getCart(id: string): Promise<{ data: Cart }>;
+
+    /**
+     * Add a quantity of a product to a cart
+     * @param cartId Cart ID
+     * @param productId Product ID
+     * @param quantity Quantity added to the quantity already in the cart
+     * @returns Promise with the updated cart
+     * @throws Error if the cart or product is not found, the stock is insufficient or the currency differs
+     */
+    addItem(cartId: string, productId: string, quantity: number): Promise<{ data: Cart }>;
+
+    /**
+     * Set the quantity of a product in a cart
+     * @param cartId Cart ID
+     * @param productId Product ID
+     * @param quantity New quantity
+     * @returns Promise with the updated cart
+     * @throws Error if the cart, product or item is not found or the stock is insufficient
+     */
+    updateItem(cartId: string, productId: string, quantity: number): Promise<{ data: Cart }>;
+
+    /**
+     * Remove a product from a cart
+     * @param cartId Cart ID
+     * @param productId Product ID
+     * @returns Promise with the updated cart
+     * @throws Error if the cart or item is not found
+     */
+    removeItem(cartId: string, productId: string): Promise<{ data: Cart }>;
+}
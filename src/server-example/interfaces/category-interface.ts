@@ -13,7 +13,42 @@ export interface Category {
     description: string;
     parentId?: string;
     subcategories: Category[];
-    productCount: number;
+    /** Products in the category and its descendants, left out when the counts are not requested */
+    productCount?: number;
+}
+
+/**
+ * Category below another one, listed without its own subcategories
+ */
+export interface CategoryDescendant extends Omit<Category, 'subcategories'> {
+    /** Distance from the category the descendants were requested for, 1 for its children */
+    depth: number;
+}
+
+/**
+ * Step of the path from the root down to a category
+ */
+export interface CategoryBreadcrumb {
+    id: string;
+    name: string;
+}
+
+/**
+ * Fields of a new category
+ */
+export interface CategoryInput {
+    id: string;
+    name: string;
+    description: string;
+    parentId?: string;
+}
+
+/**
+ * Editable fields of an existing category
+ */
+export interface CategoryUpdate {
+    name?: string;
+    description?: string;
 }
 
 /**
@@ -54,22 +89,22 @@ export interface PriceRange {
 export interface ICategoryRepository {
     /**
      * Get all categories or subcategories
-     * @param parentId Optional parent category ID
-     * @param includeProductCount Whether to include product count
+     * @param parentId Optional parent category ID, at any depth
+     * @param includeProductCount Whether to include product counts rolled up across descendants
      * @returns Promise with categories
      */
     getCategories(parentId?: string, includeProductCount?: boolean): Promise<Category[]>;
 
     /**
      * Get a category by ID
-     * @param id Category ID
-     * @param includeProductCount Whether to include product count
+     * @param id Category ID, at any depth
+     * @param includeProductCount Whether to include product counts rolled up across descendants
      * @returns Promise with category or null if not found
      */
     getCategoryById(id: string, includeProductCount?: boolean): Promise<Category | null>;
 
     /**
-     * Get products in a category with pagination
+     * Get products in a category or any of its descendants with pagination
      * @param categoryId Category ID
      * @param page Page number
      * @param limit Items per page
@@ -82,11 +117,64 @@ export interface ICategoryRepository {
     ): Promise<{ products: Product[]; meta: PaginationMeta }>;
 
     /**
-     * Get price range for products in a category
+     * Get price range for products in a category or any of its descendants
      * @param categoryId Category ID
      * @returns Promise with price range or null if no products
      */
     getCategoryPriceRange(categoryId: string): Promise<PriceRange | null>;
+
+    /**
+     * Get the chain of categories from the root down to a category, at any depth
+     * @param id Category ID
+     * @returns Promise with the categories from root to the requested one, or null if not found
+     */
+    getCategoryPath(id: string): Promise<Category[] | null>;
+
+    /**
+     * Get every category below a category, depth-first
+     * @param id Category ID
+     * @returns Promise with the descendants or null if not found
+     */
+    getCategoryDescendants(id: string): Promise<CategoryDescendant[] | null>;
+
+    /**
+     * Insert a category under its parent, or at the root when it has none
+     * @param input Category fields
+     * @returns Promise with the created category
+     */
+    createCategory(input: CategoryInput): Promise<Category>;
+
+    /**
+     * Change the name or description of a category
+     * @param id Category ID
+     * @param changes Fields to change
+     * @returns Promise with the updated category or null if not found
+     */
+    updateCategory(id: string, changes: CategoryUpdate): Promise<Category | null>;
+
+    /**
+     * Move a category with its subtree under another parent, or to the root
+     * Products assigned to the subtree get their `category` and `subcategory` realigned
+     * @param id Category ID
+     * @param parentId New parent ID, undefined for the root
+     * @returns Promise with the moved category or null if not found
+     */
+    moveCategory(id: string, parentId?: string): Promise<Category | null>;
+
+    /**
+     * Assign the products of one category to another
+     * @param fromId Category the products are taken from
+     * @param toId Category the products are moved to
+     * @returns Promise with the number of reassigned products
+     */
+    reassignProducts(fromId: string, toId: string): Promise<number>;
+
+    /**
+     * Delete a category
+     * @param id Category ID
+     * @returns Promise with true if the category existed
+     */
+    deleteCategory(id: string): Promise<boolean>;
 }
 
 /**
@@ -129,4 +217,54 @@ export interface ICategoryService {
      * @throws Error if category has no products
      */
     getCategoryPriceRange(categoryId: string): Promise<{ data: PriceRange }>;
+
+    /**
+     * Get the path from the root down to a category
+     * @param id Category ID
+     * @returns Promise with breadcrumbs, the root first and the category last
+     * @throws Error if category not found
+     */
+    getCategoryBreadcrumbs(id: string): Promise<{ data: CategoryBreadcrumb[] }>;
+
+    /**
+     * Get every category below a category
+     * @param id Category ID
+     * @returns Promise with descendants, depth-first
+     * @throws Error if category not found
+     */
+    getCategoryDescendants(id: string): Promise<{ data: CategoryDescendant[] }>;
+
+    /**
+     * Create a category
+     * @param input Category fields
+     * @returns Promise with the created category
+     * @throws Error if the ID is taken or the parent does not exist
+     */
+    createCategory(input: CategoryInput): Promise<{ data: Category }>;
+
+    /**
+     * Rename a category or change its description
+     * @param id Category ID
+     * @param changes Fields to change
+     * @returns Promise with the updated category
+     * @throws Error if category not found
+     */
+    updateCategory(id: string, changes: CategoryUpdate): Promise<{ data: Category }>;
+
+    /**
+     * Move a category under another parent
+     * @param id Category ID
+     * @param parentId New parent ID, null to make it a root category
+     * @returns Promise with the moved category
+     * @throws Error if either category is not found or the move would create a cycle
+     */
+    moveCategory(id: string, parentId: string | null): Promise<{ data: Category }>;
+
+    /**
+     * Delete a category
+     * @param id Category ID
+     * @param reassignTo Category receiving the products of the deleted one
+     * @throws Error if category not found, it has subcategories, or it has products and no valid reassignment target
+     */
+    deleteCategory(id: string, reassignTo?: string): Promise<void>;
 }
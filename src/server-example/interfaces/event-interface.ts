@@ -0,0 +1,109 @@
+/**
+ * Shopper behavior event types and interfaces for the catalog API
+ */
+
+import { Product } from './product-interface.js';
+
+/**
+ * What a shopper did with a product
+ */
+export type EventType = 'view' | 'add_to_cart' | 'purchase';
+
+/**
+ * Shopper interaction with a product, products of the same session co-occur
+ */
+export interface CatalogEvent {
+    id: string;
+    type: EventType;
+    productId: string;
+    /** Shopping session, e.g. a visit or a cart */
+    sessionId: string;
+    /** When the event happened, ISO date string */
+    timestamp: string;
+}
+
+/**
+ * Fields of a new event, the server timestamps events sent without one
+ */
+export type EventInput = Omit<CatalogEvent, 'id' | 'timestamp'> & { timestamp?: string };
+
+/**
+ * Events products co-occur in: `purchases` counts add-to-cart and purchase events, `views` counts every event
+ */
+export type CoOccurrenceBasis = 'purchases' | 'views';
+
+/**
+ * Product co-occurring with another product
+ */
+export interface CoOccurrence {
+    productId: string;
+    /** Sessions holding both products */
+    sessions: number;
+    /** Sessions holding both products relative to the geometric mean of their own sessions, from 0 to 1 */
+    score: number;
+}
+
+/**
+ * Product related to another product by shopper behavior, or by content similarity without enough events
+ */
+export interface RelatedProduct extends Product {
+    /** Co-occurrence score for `events`, content similarity for `similarity`, from 0 to 1 */
+    score: number;
+    /** Sessions holding both products, present for `events` */
+    sessions?: number;
+    source: 'events' | 'similarity';
+    /** Why the product is related, e.g. "Bought together in 12 sessions" */
+    reason: string;
+}
+
+/**
+ * Repository interface for event storage and co-occurrence statistics
+ */
+export interface IEventRepository {
+    /**
+     * Record events and fold them into the co-occurrence statistics
+     * @param events Events to record
+     */
+    recordEvents(events: CatalogEvent[]): Promise<void>;
+
+    /**
+     * Get the products co-occurring with a product in enough sessions
+     * @param productId Product ID
+     * @param basis Events counted
+     * @returns Promise with the co-occurring products, highest score first
+     */
+    getCoOccurrences(productId: string, basis: CoOccurrenceBasis): Promise<CoOccurrence[]>;
+}
+
+/**
+ * Service interface for event ingestion and behavior-based recommendations
+ */
+export interface IEventService {
+    /**
+     * Record shopper events
+     * @param inputs Event fields
+     * @returns Promise with the number of recorded events
+     * @throws Error if an event refers to an unknown product
+     */
+    recordEvents(inputs: EventInput[]): Promise<{ data: { recorded: number } }>;
+
+    /**
+     * Get the products most often added to a cart or bought with a product
+     * Products without enough events are completed with the most similar products
+     * @param productId Product ID
+     * @param limit Number of products
+     * @returns Promise with the related products
+     * @throws Error if product not found
+     */
+    getFrequentlyBoughtTogether(productId: string, limit: number): Promise<{ data: RelatedProduct[] }>;
+
+    /**
+     * Get the products most often viewed in the same sessions as a product
+     * Products without enough events are completed with the most similar products
+     * @param productId Product ID
+     * @param limit Number of products
+     * @returns Promise with the related products
+     * @throws Error if product not found
+     */
+    getAlsoViewed(productId: string, limit: number): Promise<{ data: RelatedProduct[] }>;
+}
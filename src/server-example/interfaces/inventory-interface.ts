@@ -0,0 +1,140 @@
+/**
+ * Inventory domain types and interfaces for the catalog API: warehouses, stock reservations and low-stock thresholds
+ */
+
+/**
+ * Lifecycle of a stock reservation: `held` until committed into a stock decrement, released, or expired
+ */
+export type ReservationStatus = 'held' | 'committed' | 'released';
+
+/**
+ * Quantity of a product requested by an order
+ */
+export interface StockRequest {
+    productId: string;
+    quantity: number;
+}
+
+/**
+ * Stock set aside for an order, one per product of the order
+ */
+export interface StockReservation extends StockRequest {
+    orderId: string;
+    status: ReservationStatus;
+    /** When a held reservation stops counting against availability, ISO date string */
+    expiresAt: string;
+    createdAt: string;
+}
+
+/**
+ * Location holding stock
+ */
+export interface Warehouse {
+    id: string;
+    name: string;
+    region: string;
+    /** Days between an order and its shipment from the warehouse */
+    shippingDays: number;
+}
+
+/**
+ * Stock of a product at a warehouse
+ */
+export interface WarehouseStock {
+    warehouseId: string;
+    quantity: number;
+}
+
+/**
+ * What a low-stock threshold applies to: a product, or the products of a category or subcategory
+ */
+export type ThresholdTarget = 'product' | 'category';
+
+/**
+ * Available quantity up to which the products it applies to are reported as limited stock
+ * A product threshold wins over a subcategory threshold, which wins over a category threshold.
+ */
+export interface LowStockThreshold {
+    targetType: ThresholdTarget;
+    targetId: string;
+    threshold: number;
+}
+
+/**
+ * Repository interface for warehouses and low-stock thresholds
+ */
+export interface IInventoryRepository {
+    /**
+     * Get every warehouse
+     * @returns Promise with the warehouses in fulfilment order, fastest shipping first
+     */
+    getWarehouses(): Promise<Warehouse[]>;
+
+    /**
+     * Get every low-stock threshold
+     * @returns Promise with the thresholds
+     */
+    getThresholds(): Promise<LowStockThreshold[]>;
+
+    /**
+     * Get the low-stock threshold of a product or category
+     * @param targetType Kind of target
+     * @param targetId Product or category ID
+     * @returns Promise with the threshold or null if none is set
+     */
+    getThreshold(targetType: ThresholdTarget, targetId: string): Promise<LowStockThreshold | null>;
+
+    /**
+     * Insert a low-stock threshold, or replace the threshold of the same target
+     * @param threshold Threshold to save
+     * @returns Promise with the saved threshold
+     */
+    saveThreshold(threshold: LowStockThreshold): Promise<LowStockThreshold>;
+
+    /**
+     * Delete a low-stock threshold
+     * @param targetType Kind of target
+     * @param targetId Product or category ID
+     * @returns Promise with true if the threshold existed
+     */
+    deleteThreshold(targetType: ThresholdTarget, targetId: string): Promise<boolean>;
+}
+
+/**
+ * Service interface for warehouses and low-stock thresholds
+ */
+export interface IInventoryService {
+    /**
+     * Get every warehouse
+     * @returns Promise with the warehouses, fastest shipping first
+     */
+    getWarehouses(): Promise<{ data: Warehouse[] }>;
+
+    /**
+     * Get every low-stock threshold
+     * @returns Promise with the thresholds
+     */
+    getThresholds(): Promise<{ data: LowStockThreshold[] }>;
+
+    /**
+     * Set the low-stock threshold of a product or category
+     * @param targetType Kind of target
+     * @param targetId Product or category ID
+     * @param threshold Available quantity up to which stock is limited
+     * @returns Promise with the saved threshold
+     * @throws Error if the product or category is not found
+     */
+    setThreshold(
+        targetType: ThresholdTarget,
+        targetId: string,
+        threshold: number,
+    ): Promise<{ data: LowStockThreshold }>;
+
+    /**
+     * Remove the low-stock threshold of a product or category, which falls back to its category or the default
+     * @param targetType Kind of target
+     * @param targetId Product or category ID
+     * @throws Error if no threshold is set
+     */
+    deleteThreshold(targetType: ThresholdTarget, targetId: string): Promise<void>;
+}
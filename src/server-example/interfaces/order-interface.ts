@@ -0,0 +1,91 @@
+/**
+ * Order domain types and interfaces for the catalog API
+ */
+
+import { CartItem } from './cart-interface.js';
+
+/**
+ * Lifecycle of an order
+ * A `pending` order holds its stock until it is `confirmed`, which decrements the stock, `cancelled`, or
+ * `expired` when its reservation runs out first.
+ */
+export type OrderStatus = 'pending' | 'confirmed' | 'cancelled' | 'expired';
+
+/**
+ * Order item, priced when the order was placed
+ */
+export type OrderItem = CartItem;
+
+/**
+ * Order placed from a cart
+ */
+export interface Order {
+    id: string;
+    /** Cart the order was placed from */
+    cartId: string;
+    status: OrderStatus;
+    items: OrderItem[];
+    itemCount: number;
+    subtotal: number;
+    currency: string;
+    /** When the stock held for a pending order is released, ISO date string */
+    reservationExpiresAt: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Repository interface for order storage
+ */
+export interface IOrderRepository {
+    /**
+     * Get an order by ID
+     * @param id Order ID
+     * @returns Promise with the order or null if not found
+     */
+    getOrder(id: string): Promise<Order | null>;
+
+    /**
+     * Insert an order, or replace the order with the same ID
+     * @param order Order to save
+     * @returns Promise with the saved order
+     */
+    saveOrder(order: Order): Promise<Order>;
+}
+
+/**
+ * Service interface for order placement and fulfilment
+ */
+export interface IOrderService {
+    /**
+     * Place an order for the items of a cart, reserving their stock and emptying the cart
+     * @param cartId Cart ID
+     * @returns Promise with the pending order
+     * @throws Error if the cart is not found or empty, or the available stock does not cover an item
+     */
+    createOrder(cartId: string): Promise<{ data: Order }>;
+
+    /**
+     * Get an order by ID
+     * @param id Order ID
+     * @returns Promise with the order, expired if its reservation ran out
+     * @throws Error if the order is not found
+     */
+    getOrder(id: string): Promise<{ data: Order }>;
+
+    /**
+     * Confirm a pending order, committing its reserved stock
+     * @param id Order ID
+     * @returns Promise with the confirmed order
+     * @throws Error if the order is not found, not pending or its reservation expired
+     */
+    confirmOrder(id: string): Promise<{ data: Order }>;
+
+    /**
+     * Cancel a pending order, releasing its reserved stock
+     * @param id Order ID
+     * @returns Promise with the cancelled order
+     * @throws Error if the order is not found or not pending
+     */
+    cancelOrder(id: string): Promise<{ data: Order }>;
+}
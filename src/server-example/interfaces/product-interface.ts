@@ -2,24 +2,48 @@
  * Product domain types and interfaces for the catalog API
  */
 
+import { StockRequest, StockReservation } from './inventory-interface.js';
+
 /**
  * Product filters for searching and filtering products
  */
 export interface ProductFilters {
+    /** Beginning of the product ID, matched case-insensitively */
+    idPrefix?: string;
     category?: string;
     brand?: string;
     inStock?: boolean;
     minPrice?: number;
     maxPrice?: number;
-    sortBy?: 'name' | 'price' | 'rating' | 'created_at';
+    sortBy?: 'name' | 'price' | 'rating' | 'created_at' | 'id';
     sortOrder?: 'asc' | 'desc';
 }
 
+/**
+ * How search matches a query: `keyword` by its words, `semantic` by its meaning with text embeddings, `hybrid` by
+ * both with blended scores
+ */
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
 /**
  * Search filters extending product filters
+ * Searches can also be sorted by relevance, best matches first unless sorted in ascending order.
+ * Category, brand and attribute filters take several values and match any of them.
  */
-export interface SearchFilters extends ProductFilters {
+export interface SearchFilters extends Omit<ProductFilters, 'idPrefix' | 'category' | 'brand' | 'sortBy'> {
     query?: string;
+    sortBy?: ProductFilters['sortBy'] | 'relevance';
+    /** How the query is matched, `keyword` by default */
+    mode?: SearchMode;
+    /** Tolerate typos in the query terms */
+    fuzzy?: boolean;
+    categories?: string[];
+    brands?: string[];
+    minRating?: number;
+    /** Attribute name to accepted values */
+    attributes?: Record<string, string[]>;
+    /** Upper bounds of the price facet buckets, derived from price quantiles when omitted */
+    priceBuckets?: number[];
 }
 
 /**
@@ -42,22 +66,132 @@ export interface PaginationMeta {
     hasPrev: boolean;
 }
 
+/**
+ * Number of matches sharing a facet value
+ */
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+/**
+ * Number of matches in a price bucket, from `min` inclusive to `max` exclusive except for the last bucket
+ */
+export interface PriceRangeFacet {
+    min: number;
+    max: number;
+    count: number;
+}
+
+/**
+ * Number of matches rated `minRating` or more
+ */
+export interface RatingFacet {
+    minRating: number;
+    count: number;
+}
+
 /**
  * Search facets for filtering
+ * Each facet counts the matches of every filter but its own, so the alternatives of a selected value stay visible
  */
 export interface SearchFacets {
-    categories: Array<{ value: string; count: number }>;
-    brands: Array<{ value: string; count: number }>;
+    categories: FacetCount[];
+    brands: FacetCount[];
+    priceRanges: PriceRangeFacet[];
+    ratings: RatingFacet[];
+    availability: { inStock: number; outOfStock: number };
+    /** Attribute name to value counts */
+    attributes: Record<string, FacetCount[]>;
+}
+
+/**
+ * Search-as-you-type completion of a partial query
+ */
+export interface SearchSuggestion {
+    text: string;
+    type: 'query' | 'product' | 'brand' | 'category';
+    /** Product or category ID, for product and category completions */
+    id?: string;
+    /** Searches for queries, reviews for products, products for brands and categories */
+    popularity: number;
+}
+
+/**
+ * Weights of the signals compared by content-based recommendations, relative to each other
+ */
+export interface RecommendationWeights {
+    /** Shared tags, besides the tags naming the category or the brand */
+    tags: number;
+    /** Attributes with the same value */
+    attributes: number;
+    /** Closeness of the prices */
+    price: number;
+    /** Same subcategory, or half as much for the same category only */
+    subcategory: number;
+    /** Same brand */
+    brand: number;
+}
+
+/**
+ * Settings of content-based recommendations
+ */
+export interface RecommendationOptions {
+    weights: RecommendationWeights;
+    /** Trade-off between similarity to the product and variety among the recommendations, from 0 to 1 */
+    diversity: number;
+}
+
+/**
+ * Product recommended for its similarity to another product
+ */
+export interface RecommendedProduct extends Product {
+    /** Weighted similarity to the product, from 0 to 1 */
+    similarity: number;
+    /** Why the product is recommended, e.g. "Same subcategory (laptops), similar price" */
+    reason: string;
+}
+
+/**
+ * Stock level label, limited up to the low-stock threshold
+ */
+export type StockLevel = 'in_stock' | 'limited_stock' | 'out_of_stock';
+
+/**
+ * Availability of a product at one warehouse
+ */
+export interface LocationAvailability {
+    warehouseId: string;
+    warehouseName: string;
+    region: string;
+    stockQuantity: number;
+    /** Stock held for pending orders, which ship from the fastest warehouses first */
+    reservedQuantity: number;
+    availableQuantity: number;
+    availability: StockLevel;
+    /** Date an order placed now would ship from the warehouse, YYYY-MM-DD, null if none is available */
+    estimatedShipDate: string | null;
 }
 
 /**
- * Product availability information
+ * Product availability information, aggregated over the warehouses
  */
 export interface ProductAvailability {
     productId: string;
+    /** Whether some stock is not reserved */
     inStock: boolean;
     stockQuantity: number;
-    availability: 'in_stock' | 'limited_stock' | 'out_of_stock';
+    /** Stock held for pending orders */
+    reservedQuantity: number;
+    /** Stock that can still be ordered */
+    availableQuantity: number;
+    availability: StockLevel;
+    /** Available quantity up to which the product is limited stock */
+    lowStockThreshold: number;
+    /** Earliest date an order placed now would ship, YYYY-MM-DD, null if out of stock */
+    estimatedShipDate: string | null;
+    /** Breakdown per warehouse, fastest shipping first, when requested */
+    locations?: LocationAvailability[];
     lastUpdated: string;
 }
 
@@ -96,6 +230,28 @@ export interface Product {
     updatedAt: string;
 }
 
+/**
+ * Product returned by a search
+ */
+export interface ScoredProduct extends Product {
+    /**
+     * Relevance, absent when the search has no query: BM25 score in keyword mode, cosine similarity in semantic
+     * mode and a blend of both in hybrid mode, boosted in the categories hinted by the query
+     */
+    score?: number;
+}
+
+/**
+ * Writable product fields, used to create or replace a product
+ * `id`, `inStock`, `createdAt` and `updatedAt` are managed by the service
+ */
+export type ProductInput = Omit<Product, 'id' | 'inStock' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Partial product update, a null `subcategory` removing the subcategory
+ */
+export type ProductPatch = Partial<Omit<ProductInput, 'subcategory'>> & { subcategory?: string | null };
+
 /**
  * Repository interface for product data access
  */
@@ -115,12 +271,12 @@ export interface IProductRepository {
      * Search products by query with filters and pagination
      * @param searchFilters Search filters including query
      * @param pagination Pagination parameters
-     * @returns Promise with search results, pagination, and facets
+     * @returns Promise with search results, pagination, facets, and a spelling correction of the query if needed
      */
     searchProducts(
         searchFilters: SearchFilters,
         pagination: PaginationParams,
-    ): Promise<{ products: Product[]; meta: PaginationMeta; facets: SearchFacets }>;
+    ): Promise<{ products: ScoredProduct[]; meta: PaginationMeta; facets: SearchFacets; didYouMean?: string }>;
 
     /**
      * Get a product by ID
@@ -130,19 +286,60 @@ export interface IProductRepository {
     getProductById(id: string): Promise<Product | null>;
 
     /**
-     * Get product recommendations based on a product
+     * Get the products most similar to a product, among those sharing its category or brand
      * @param productId Product ID
      * @param limit Number of recommendations
-     * @returns Promise with recommended products
+     * @param options Similarity weights and diversity
+     * @returns Promise with recommended products, most relevant first
      */
-    getProductRecommendations(productId: string, limit: number): Promise<Product[]>;
+    getProductRecommendations(
+        productId: string,
+        limit: number,
+        options: RecommendationOptions,
+    ): Promise<RecommendedProduct[]>;
 
     /**
      * Get product availability information
      * @param productId Product ID
-     * @returns Promise with availability info or null if not found
+     * @param lowStockThreshold Available quantity up to which stock is limited, the default threshold if omitted
+     * @returns Promise with availability info, broken down per warehouse, or null if not found
+     */
+    getProductAvailability(productId: string, lowStockThreshold?: number): Promise<ProductAvailability | null>;
+
+    /**
+     * Set the stock of a product at a warehouse, the product's stock quantity becoming the total over warehouses
+     * @param productId Product ID
+     * @param warehouseId Warehouse ID, which must exist
+     * @param quantity New stock at the warehouse
+     * @returns Promise with the updated product or null if not found
+     * @throws Error if the stock would drop below the quantity reserved for orders
+     */
+    setWarehouseStock(productId: string, warehouseId: string, quantity: number): Promise<Product | null>;
+
+    /**
+     * Hold stock for an order, all of its products or none
+     * @param orderId Order ID
+     * @param requests Quantity of each product, one request per product
+     * @param expiresAt When the holds expire, ISO date string
+     * @returns Promise with the held reservations
+     * @throws Error if a product does not exist or its available stock does not cover the quantity
+     */
+    reserveStock(orderId: string, requests: StockRequest[], expiresAt: string): Promise<StockReservation[]>;
+
+    /**
+     * Turn the holds of an order into stock decrements
+     * @param orderId Order ID
+     * @returns Promise with the committed reservations
+     * @throws Error if a hold has expired, in which case nothing is committed
+     */
+    commitReservations(orderId: string): Promise<StockReservation[]>;
+
+    /**
+     * Give the stock held for an order back
+     * @param orderId Order ID
+     * @returns Promise with the released reservations
      */
-    getProductAvailability(productId: string): Promise<ProductAvailability | null>;
+    releaseReservations(orderId: string): Promise<StockReservation[]>;
 
     /**
      * Get popular products with optional category filter
@@ -152,6 +349,35 @@ export interface IProductRepository {
      * @returns Promise with popular products
      */
     getPopularProducts(category?: string, limit?: number, minRating?: number): Promise<Product[]>;
+
+    /**
+     * Get a product by SKU
+     * @param sku Stock keeping unit
+     * @returns Promise with product or null if not found
+     */
+    getProductBySku(sku: string): Promise<Product | null>;
+
+    /**
+     * Store a new product
+     * @param product Complete product entity
+     * @returns Promise with the stored product
+     */
+    createProduct(product: Product): Promise<Product>;
+
+    /**
+     * Replace an existing product, matched by ID
+     * @param product Complete product entity
+     * @returns Promise with the stored product or null if not found
+     * @throws Error if the stock would drop below the quantity reserved for orders
+     */
+    updateProduct(product: Product): Promise<Product | null>;
+
+    /**
+     * Delete a product
+     * @param id Product ID
+     * @returns Promise with true if the product existed
+     */
+    deleteProduct(id: string): Promise<boolean>;
 }
 
 /**
@@ -180,11 +406,21 @@ export interface IProductService {
         pagination: PaginationParams,
     ): Promise<{
         query: string;
-        data: Product[];
+        mode: SearchMode;
+        data: ScoredProduct[];
         pagination: PaginationMeta;
         facets: SearchFacets;
+        didYouMean?: string;
     }>;
 
+    /**
+     * Complete a partial search query
+     * @param prefix Partial query
+     * @param limit Maximum number of completions
+     * @returns Promise with completions, most popular first
+     */
+    suggestSearchTerms(prefix: string, limit: number): Promise<{ query: string; data: SearchSuggestion[] }>;
+
     /**
      * Get product by ID
      * @param id Product ID
@@ -197,18 +433,34 @@ export interface IProductService {
      * Get product recommendations
      * @param productId Product ID
      * @param limit Number of recommendations
-     * @returns Promise with recommendations
+     * @param options Similarity weights and diversity
+     * @returns Promise with recommendations and the reason for each
      * @throws Error if product not found
      */
-    getProductRecommendations(productId: string, limit: number): Promise<{ data: Product[] }>;
+    getProductRecommendations(
+        productId: string,
+        limit: number,
+        options: RecommendationOptions,
+    ): Promise<{ data: RecommendedProduct[] }>;
 
     /**
      * Get product availability
      * @param productId Product ID
+     * @param includeLocations Whether to break the availability down per warehouse
      * @returns Promise with availability data
      * @throws Error if product not found
      */
-    getProductAvailability(productId: string): Promise<{ data: ProductAvailability }>;
+    getProductAvailability(productId: string, includeLocations?: boolean): Promise<{ data: ProductAvailability }>;
+
+    /**
+     * Set the stock of a product at a warehouse
+     * @param productId Product ID
+     * @param warehouseId Warehouse ID
+     * @param quantity New stock at the warehouse
+     * @returns Promise with the availability of the product, broken down per warehouse
+     * @throws Error if the product or warehouse is not found, or the stock would drop below the reserved quantity
+     */
+    setWarehouseStock(productId: string, warehouseId: string, quantity: number): Promise<{ data: ProductAvailability }>;
 
     /**
      * Get popular products
@@ -218,4 +470,39 @@ export interface IProductService {
      * @returns Promise with popular products
      */
     getPopularProducts(category?: string, limit?: number, minRating?: number): Promise<{ data: Product[] }>;
+
+    /**
+     * Create a product
+     * @param input Product fields
+     * @returns Promise with the created product
+     * @throws Error if the SKU is taken or the category does not exist
+     */
+    createProduct(input: ProductInput): Promise<{ data: Product }>;
+
+    /**
+     * Replace all writable fields of a product
+     * @param id Product ID
+     * @param input Product fields
+     * @returns Promise with the updated product
+     * @throws Error if product not found, the SKU is taken, the category does not exist or the stock would drop below
+     * the reserved quantity
+     */
+    updateProduct(id: string, input: ProductInput): Promise<{ data: Product }>;
+
+    /**
+     * Update some fields of a product
+     * @param id Product ID
+     * @param patch Fields to change
+     * @returns Promise with the updated product
+     * @throws Error if product not found, the SKU is taken, the category does not exist or the stock would drop below
+     * the reserved quantity
+     */
+    patchProduct(id: string, patch: ProductPatch): Promise<{ data: Product }>;
+
+    /**
+     * Delete a product
+     * @param id Product ID
+     * @throws Error if product not found
+     */
+    deleteProduct(id: string): Promise<void>;
 }
@@ -0,0 +1,100 @@
+/**
+ * Search synonym domain types and interfaces for the catalog API
+ */
+
+/**
+ * Query rewrite rule applied by product search
+ * An `equivalent` rule makes each of its terms also search for the others. A `one-way` rule makes its terms also
+ * search for its synonyms but not the reverse, so "tee" can find shirts without "shirt" finding tees.
+ */
+export interface SynonymRule {
+    id: string;
+    type: 'equivalent' | 'one-way';
+    /** Words or phrases the rule applies to when a query contains them */
+    terms: string[];
+    /** Words or phrases also searched for the terms of a one-way rule, empty for equivalent rules */
+    synonyms: string[];
+    /** Category whose products rank higher when a query contains one of the terms */
+    categoryHint?: string;
+}
+
+/**
+ * Fields of a new or replaced synonym rule
+ */
+export type SynonymInput = Omit<SynonymRule, 'id'>;
+
+/**
+ * Repository interface for synonym rule storage
+ */
+export interface ISynonymRepository {
+    /**
+     * Get every synonym rule
+     * @returns Promise with the rules in creation order
+     */
+    getSynonyms(): Promise<SynonymRule[]>;
+
+    /**
+     * Get a synonym rule by ID
+     * @param id Rule ID
+     * @returns Promise with the rule or null if not found
+     */
+    getSynonymById(id: string): Promise<SynonymRule | null>;
+
+    /**
+     * Insert a synonym rule, or replace the rule with the same ID
+     * Product search uses the rule as soon as it is saved
+     * @param rule Rule to save
+     * @returns Promise with the saved rule
+     */
+    saveSynonym(rule: SynonymRule): Promise<SynonymRule>;
+
+    /**
+     * Delete a synonym rule
+     * @param id Rule ID
+     * @returns Promise with true if the rule existed
+     */
+    deleteSynonym(id: string): Promise<boolean>;
+}
+
+/**
+ * Service interface for synonym rule management
+ */
+export interface ISynonymService {
+    /**
+     * Get every synonym rule
+     * @returns Promise with the rules
+     */
+    getSynonyms(): Promise<{ data: SynonymRule[] }>;
+
+    /**
+     * Get a synonym rule by ID
+     * @param id Rule ID
+     * @returns Promise with the rule
+     * @throws Error if the rule is not found
+     */
+    getSynonymById(id: string): Promise<{ data: SynonymRule }>;
+
+    /**
+     * Create a synonym rule
+     * @param input Rule fields
+     * @returns Promise with the created rule
+     * @throws Error if the hinted category does not exist
+     */
+    createSynonym(input: SynonymInput): Promise<{ data: SynonymRule }>;
+
+    /**
+     * Replace the fields of a synonym rule
+     * @param id Rule ID
+     * @param input New rule fields
+     * @returns Promise with the updated rule
+     * @throws Error if the rule or the hinted category is not found
+     */
+    updateSynonym(id: string, input: SynonymInput): Promise<{ data: SynonymRule }>;
+
+    /**
+     * Delete a synonym rule
+     * @param id Rule ID
+     * @throws Error if the rule is not found
+     */
+    deleteSynonym(id: string): Promise<void>;
+}
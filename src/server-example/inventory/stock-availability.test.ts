@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+
+import { Warehouse } from '../interfaces/inventory-interface.js';
+import { Product } from '../interfaces/product-interface.js';
+import { toProductAvailability } from './stock-availability.js';
+
+const WAREHOUSES: Warehouse[] = [
+    { id: 'near', name: 'Near', region: 'North', shippingDays: 1 },
+    { id: 'far', name: 'Far', region: 'South', shippingDays: 4 },
+];
+
+const LAMP = { id: 'lamp', stockQuantity: 20 } as Product;
+
+beforeEach(() => {
+    setSystemTime(new Date('2026-03-10T15:00:00.000Z'));
+});
+
+afterEach(() => {
+    setSystemTime();
+});
+
+describe('toProductAvailability', () => {
+    test('reserved stock is taken from the warehouses in fulfilment order', () => {
+        const availability = toProductAvailability(
+            LAMP,
+            WAREHOUSES,
+            [
+                { warehouseId: 'near', quantity: 6 },
+                { warehouseId: 'far', quantity: 14 },
+            ],
+            8,
+        );
+
+        expect(availability).toMatchObject({ stockQuantity: 20, reservedQuantity: 8, availableQuantity: 12 });
+        expect(availability.locations).toEqual([
+            {
+                warehouseId: 'near',
+                warehouseName: 'Near',
+                region: 'North',
+                stockQuantity: 6,
+                reservedQuantity: 6,
+                availableQuantity: 0,
+                availability: 'out_of_stock',
+                estimatedShipDate: null,
+            },
+            {
+                warehouseId: 'far',
+                warehouseName: 'Far',
+                region: 'South',
+                stockQuantity: 14,
+                reservedQuantity: 2,
+                availableQuantity: 12,
+                availability: 'in_stock',
+                estimatedShipDate: '2026-03-14',
+            },
+        ]);
+    });
+
+    test('stock is limited up to the low-stock threshold, per warehouse and overall', () => {
+        const stock = [
+            { warehouseId: 'near', quantity: 5 },
+            { warehouseId: 'far', quantity: 15 },
+        ];
+
+        const byDefault = toProductAvailability(LAMP, WAREHOUSES, stock, 0);
+        const lowered = toProductAvailability(LAMP, WAREHOUSES, stock, 0, 4);
+        const raised = toProductAvailability(LAMP, WAREHOUSES, stock, 0, 20);
+
+        expect(byDefault.lowStockThreshold).toBe(10);
+        expect([byDefault, ...byDefault.locations!].map(({ availability }) => availability)).toEqual([
+            'in_stock',
+            'limited_stock',
+            'in_stock',
+        ]);
+        expect([lowered, ...lowered.locations!].map(({ availability }) => availability)).toEqual([
+            'in_stock',
+            'in_stock',
+            'in_stock',
+        ]);
+        expect(raised).toMatchObject({ availability: 'limited_stock', lowStockThreshold: 20, inStock: true });
+    });
+
+    test('the product ships from the fastest warehouse with available stock', () => {
+        const fromNear = toProductAvailability(LAMP, WAREHOUSES, [{ warehouseId: 'near', quantity: 20 }], 0);
+        const fromFar = toProductAvailability(LAMP, WAREHOUSES, [{ warehouseId: 'far', quantity: 20 }], 0);
+
+        expect(fromNear.estimatedShipDate).toBe('2026-03-11');
+        expect(fromFar.estimatedShipDate).toBe('2026-03-14');
+        expect(fromFar.locations!.map(({ stockQuantity }) => stockQuantity)).toEqual([0, 20]);
+    });
+
+    test('a product whose stock is all reserved is out of stock with no ship date', () => {
+        const availability = toProductAvailability(LAMP, WAREHOUSES, [{ warehouseId: 'near', quantity: 20 }], 20);
+
+        expect(availability).toMatchObject({
+            inStock: false,
+            availableQuantity: 0,
+            availability: 'out_of_stock',
+            estimatedShipDate: null,
+        });
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * Stock availability derived from stock levels and reservations
+ */
+
+import { StockReservation, Warehouse, WarehouseStock } from '../interfaces/inventory-interface.js';
+import { LocationAvailability, Product, ProductAvailability, StockLevel } from '../interfaces/product-interface.js';
+
+/** Available quantity up to which a product without a configured threshold is reported as limited stock */
+export const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a reservation still holds stock
+ * @param reservation Stock reservation
+ * @param now Current time in milliseconds
+ * @returns True if the reservation is held and not expired
+ */
+export function isActiveReservation(reservation: StockReservation, now: number): boolean {
+    return reservation.status === 'held' && Date.parse(reservation.expiresAt) > now;
+}
+
+/**
+ * Label an available quantity
+ * @param availableQuantity Quantity that can be ordered
+ * @param lowStockThreshold Available quantity up to which stock is limited
+ * @returns Stock level
+ */
+function stockLevel(availableQuantity: number, lowStockThreshold: number): StockLevel {
+    if (availableQuantity <= 0) {
+        return 'out_of_stock';
+    }
+    return availableQuantity > lowStockThreshold ? 'in_stock' : 'limited_stock';
+}
+
+/**
+ * Describe the availability of a product
+ * Reserved stock is allocated to the warehouses in fulfilment order, where the pending orders will ship from
+ * @param product Product
+ * @param warehouses Warehouses in fulfilment order
+ * @param stock Stock of the product at each warehouse
+ * @param reservedQuantity Quantity held by active reservations
+ * @param lowStockThreshold Available quantity up to which stock is limited
+ * @returns Availability with a breakdown per warehouse, in stock as long as some stock is not reserved
+ */
+export function toProductAvailability(
+    product: Product,
+    warehouses: Warehouse[],
+    stock: WarehouseStock[],
+    reservedQuantity: number,
+    lowStockThreshold: number = DEFAULT_LOW_STOCK_THRESHOLD,
+): ProductAvailability {
+    const now = Date.now();
+    let unallocated = reservedQuantity;
+
+    const locations = warehouses.map((warehouse): LocationAvailability => {
+        const stockQuantity = stock.find(({ warehouseId }) => warehouseId === warehouse.id)?.quantity ?? 0;
+        const reserved = Math.min(stockQuantity, unallocated);
+        unallocated -= reserved;
+        const availableQuantity = stockQuantity - reserved;
+
+        return {
+            warehouseId: warehouse.id,
+            warehouseName: warehouse.name,
+            region: warehouse.region,
+            stockQuantity,
+            reservedQuantity: reserved,
+            availableQuantity,
+            availability: stockLevel(availableQuantity, lowStockThreshold),
+            estimatedShipDate:
+                availableQuantity > 0
+                    ? new Date(now + warehouse.shippingDays * DAY_MS).toISOString().slice(0, 10)
+                    : null,
+        };
+    });
+
+    const availableQuantity = Math.max(0, product.stockQuantity - reservedQuantity);
+    const shipDates = locations.flatMap(({ estimatedShipDate }) => (estimatedShipDate ? [estimatedShipDate] : []));
+
+    return {
+        productId: product.id,
+        inStock: availableQuantity > 0,
+        stockQuantity: product.stockQuantity,
+        reservedQuantity,
+        availableQuantity,
+        availability: stockLevel(availableQuantity, lowStockThreshold),
+        lowStockThreshold,
+        estimatedShipDate: shipDates.length > 0 ? shipDates.sort()[0] : null,
+        locations,
+        lastUpdated: new Date(now).toISOString(),
+    };
+}
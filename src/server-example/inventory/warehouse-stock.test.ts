@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+
+import { Warehouse } from '../interfaces/inventory-interface.js';
+import { adjustStock, distributeStock, totalStock } from './warehouse-stock.js';
+
+const WAREHOUSES: Warehouse[] = [
+    { id: 'near', name: 'Near', region: 'North', shippingDays: 1 },
+    { id: 'middle', name: 'Middle', region: 'Center', shippingDays: 2 },
+    { id: 'far', name: 'Far', region: 'South', shippingDays: 4 },
+];
+
+describe('distributeStock', () => {
+    test('the whole stock is split over the warehouses, in their order', () => {
+        for (const productId of ['lamp', 'desk', 'chair', 'sofa', 'rug']) {
+            const levels = distributeStock(productId, 101, WAREHOUSES);
+
+            expect(levels.map(({ warehouseId }) => warehouseId)).toEqual(['near', 'middle', 'far']);
+            expect(totalStock(levels)).toBe(101);
+            expect(levels.every(({ quantity }) => quantity >= 0)).toBe(true);
+        }
+    });
+
+    test('the split only depends on the product ID', () => {
+        expect(distributeStock('lamp', 50, WAREHOUSES)).toEqual(distributeStock('lamp', 50, WAREHOUSES));
+        expect(distributeStock('lamp', 0, WAREHOUSES).map(({ quantity }) => quantity)).toEqual([0, 0, 0]);
+    });
+
+    test('products can be missing from some warehouses', () => {
+        const products = Array.from({ length: 50 }, (_, i) => `product-${i}`);
+
+        expect(
+            products.some((productId) => distributeStock(productId, 100, WAREHOUSES).some((l) => l.quantity === 0)),
+        ).toBe(true);
+    });
+});
+
+describe('adjustStock', () => {
+    const levels = [
+        { warehouseId: 'near', quantity: 3 },
+        { warehouseId: 'middle', quantity: 0 },
+        { warehouseId: 'far', quantity: 5 },
+    ];
+
+    test('added stock goes to the first warehouse', () => {
+        expect(adjustStock(levels, 4).map(({ quantity }) => quantity)).toEqual([7, 0, 5]);
+    });
+
+    test('removed stock is taken in fulfilment order and never below zero', () => {
+        expect(adjustStock(levels, -4).map(({ quantity }) => quantity)).toEqual([0, 0, 4]);
+        expect(adjustStock(levels, -20).map(({ quantity }) => quantity)).toEqual([0, 0, 0]);
+        expect(levels.map(({ quantity }) => quantity)).toEqual([3, 0, 5]);
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Stock levels of a product across warehouses
+ */
+
+import { Warehouse, WarehouseStock } from '../interfaces/inventory-interface.js';
+
+/**
+ * Hash a product ID into a small seed with 32-bit FNV-1a
+ * @param productId Product ID
+ * @returns Seed
+ */
+function seedOf(productId: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < productId.length; i++) {
+        hash = Math.imul(hash ^ productId.charCodeAt(i), 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Sum the stock of a product over its warehouses
+ * @param levels Stock at each warehouse
+ * @returns Total stock
+ */
+export function totalStock(levels: WarehouseStock[]): number {
+    return levels.reduce((sum, level) => sum + level.quantity, 0);
+}
+
+/**
+ * Split the stock of a seeded product across the warehouses
+ * The split only depends on the product ID, so every storage backend seeds the same levels.
+ * @param productId Product ID
+ * @param quantity Total stock
+ * @param warehouses Warehouses in fulfilment order
+ * @returns Stock at each warehouse, in the order of the warehouses
+ */
+export function distributeStock(productId: string, quantity: number, warehouses: Warehouse[]): WarehouseStock[] {
+    const seed = seedOf(productId);
+    // Shares from 0 to 3, so some products are missing from some warehouses
+    const shares = warehouses.map((_, i) => (seed >>> (i * 2)) & 3);
+    const totalShares = shares.reduce((sum, share) => sum + share, 0);
+    if (totalShares === 0) {
+        shares[0] = 1;
+    }
+
+    const levels = warehouses.map(({ id }, i) => ({
+        warehouseId: id,
+        quantity: Math.floor((quantity * shares[i]) / (totalShares || 1)),
+    }));
+    // Units lost to rounding go to the warehouse with the largest share
+    const largest = shares.indexOf(Math.max(...shares));
+    if (levels.length > 0) {
+        levels[largest].quantity += quantity - totalStock(levels);
+    }
+
+    return levels;
+}
+
+/**
+ * Apply a change of the total stock of a product to its warehouses
+ * Added stock goes to the first warehouse; removed stock is taken in fulfilment order, like shipped orders.
+ * @param levels Stock at each warehouse, in fulfilment order
+ * @param delta Change of the total stock
+ * @returns New stock at each warehouse, never negative
+ */
+export function adjustStock(levels: WarehouseStock[], delta: number): WarehouseStock[] {
+    if (delta >= 0) {
+        return levels.map((level, i) => (i === 0 ? { ...level, quantity: level.quantity + delta } : level));
+    }
+
+    let remaining = -delta;
+    return levels.map((level) => {
+        const taken = Math.min(level.quantity, remaining);
+        remaining -= taken;
+        return { ...level, quantity: level.quantity - taken };
+    });
+}
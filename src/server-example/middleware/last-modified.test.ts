@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import { Hono } from 'hono';
+import { etag, RETAINED_304_HEADERS } from 'hono/etag';
+
+import { lastModified } from './last-modified.js';
+
+const UPDATED_AT = '2026-03-01T10:00:00.000Z';
+
+/**
+ * Create an API serving products with the conditional request middleware of the API server
+ * @returns Hono app
+ */
+function createApp(): Hono {
+    const products = [
+        { id: 'prod-1', name: 'Desk Lamp', updatedAt: '2026-02-01T10:00:00.000Z' },
+        { id: 'prod-2', name: 'Office Chair', updatedAt: UPDATED_AT },
+        { id: 'prod-3', name: 'Standing Desk', updatedAt: '2026-01-01T10:00:00.000Z' },
+    ];
+
+    const app = new Hono();
+    app.on(['GET', 'HEAD'], '*', etag({ retainedHeaders: [...RETAINED_304_HEADERS, 'last-modified'] }));
+    app.on(['GET', 'HEAD'], '*', lastModified());
+    app.get('/products', (c) => c.json({ data: products }));
+    app.get('/products/:id', (c) => {
+        const product = products.find((p) => p.id === c.req.param('id'));
+        return product ? c.json({ data: product }) : c.json({ error: 'Product not found' }, 404);
+    });
+    app.delete('/products/:id', (c) => {
+        products.splice(
+            products.findIndex((p) => p.id === c.req.param('id')),
+            1,
+        );
+        return c.body(null, 204);
+    });
+    return app;
+}
+
+describe('lastModified', () => {
+    test('single entities are dated by their updatedAt', async () => {
+        const app = createApp();
+
+        const response = await app.request('/products/prod-2');
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Last-Modified')).toBe(new Date(UPDATED_AT).toUTCString());
+    });
+
+    test('an unchanged entity is not modified since its date', async () => {
+        const app = createApp();
+        const headers = { 'If-Modified-Since': new Date(UPDATED_AT).toUTCString() };
+
+        const response = await app.request('/products/prod-2', { headers });
+
+        expect(response.status).toBe(304);
+        expect(response.headers.get('Last-Modified')).toBe(headers['If-Modified-Since']);
+        expect((await app.request('/products/prod-1', { headers })).status).toBe(304);
+    });
+
+    test('an entity updated after the date is sent again', async () => {
+        const app = createApp();
+        const headers = { 'If-Modified-Since': new Date('2026-02-15T00:00:00.000Z').toUTCString() };
+
+        expect((await app.request('/products/prod-2', { headers })).status).toBe(200);
+    });
+
+    test('If-None-Match takes precedence over If-Modified-Since', async () => {
+        const app = createApp();
+        const headers = { 'If-None-Match': '"stale"', 'If-Modified-Since': new Date(UPDATED_AT).toUTCString() };
+
+        expect((await app.request('/products/prod-2', { headers })).status).toBe(200);
+    });
+
+    test('lists are not dated, so a deletion does not leave them not modified', async () => {
+        const app = createApp();
+        const first = await app.request('/products');
+        expect(first.headers.get('Last-Modified')).toBeNull();
+        const etagHeader = first.headers.get('ETag')!;
+
+        await app.request('/products/prod-3', { method: 'DELETE' });
+
+        const sinceNewest = await app.request('/products', {
+            headers: { 'If-Modified-Since': new Date(UPDATED_AT).toUTCString() },
+        });
+        expect(sinceNewest.status).toBe(200);
+        expect(((await sinceNewest.json()) as { data: unknown[] }).data).toHaveLength(2);
+        expect((await app.request('/products', { headers: { 'If-None-Match': etagHeader } })).status).toBe(200);
+    });
+
+    test('unchanged lists are revalidated by their ETag', async () => {
+        const app = createApp();
+        const etagHeader = (await app.request('/products')).headers.get('ETag')!;
+
+        expect((await app.request('/products', { headers: { 'If-None-Match': etagHeader } })).status).toBe(304);
+    });
+});
@@ -0,0 +1,56 @@
+/**
+ * Last-Modified middleware
+ * Derives the header from the `updatedAt` of the returned entity and honors `If-Modified-Since`
+ */
+
+import { MiddlewareHandler } from 'hono';
+
+/**
+ * Read the `updatedAt` timestamp of a single-entity payload
+ * Lists have none: deleting an entity changes a list without raising the newest `updatedAt` on it, so lists are
+ * revalidated by their ETag alone.
+ * @param data `data` field of a JSON response
+ * @returns Timestamp in milliseconds, undefined for lists and payloads without a valid `updatedAt`
+ */
+function entityUpdatedAt(data: unknown): number | undefined {
+    if (typeof data !== 'object' || data === null || Array.isArray(data) || !('updatedAt' in data)) {
+        return undefined;
+    }
+
+    const timestamp = Date.parse(String(data.updatedAt));
+    return Number.isNaN(timestamp) ? undefined : timestamp;
+}
+
+/**
+ * Create the Last-Modified middleware
+ * Responses without a single entity carrying `updatedAt` are left untouched.
+ * `If-Modified-Since` is ignored when `If-None-Match` is present, as required by RFC 9110.
+ * @returns Hono middleware
+ */
+export function lastModified(): MiddlewareHandler {
+    return async function lastModifiedMiddleware(c, next) {
+        await next();
+
+        if (c.res.status !== 200 || !c.res.headers.get('content-type')?.includes('application/json')) {
+            return;
+        }
+
+        const body = (await c.res.clone().json()) as { data?: unknown };
+        const updatedAt = entityUpdatedAt(body.data);
+        if (updatedAt === undefined) {
+            return;
+        }
+
+        // HTTP dates have a one-second resolution
+        const modifiedAt = Math.floor(updatedAt / 1000) * 1000;
+        const header = new Date(modifiedAt).toUTCString();
+
+        const ifModifiedSince = c.req.header('If-Modified-Since');
+        if (ifModifiedSince && !c.req.header('If-None-Match') && modifiedAt <= Date.parse(ifModifiedSince)) {
+            c.res = new Response(null, { status: 304, headers: { 'Last-Modified': header } });
+            return;
+        }
+
+        c.res.headers.set('Last-Modified', header);
+    };
+}
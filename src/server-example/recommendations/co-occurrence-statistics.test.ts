@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test';
+
+import { EventType } from '../interfaces/event-interface.js';
+import { CoOccurrenceStatistics } from './co-occurrence-statistics.js';
+
+/**
+ * Record the same event type for every product of a session
+ * @param statistics Statistics to update
+ * @param sessionId Session ID
+ * @param productIds Products of the session
+ * @param type Event type
+ */
+function session(
+    statistics: CoOccurrenceStatistics,
+    sessionId: string,
+    productIds: string[],
+    type: EventType = 'purchase',
+): void {
+    productIds.forEach((productId) => statistics.record({ type, productId, sessionId }));
+}
+
+describe('CoOccurrenceStatistics', () => {
+    test('products are scored by their shared sessions over the geometric mean of their sessions', () => {
+        const statistics = new CoOccurrenceStatistics();
+        session(statistics, 's1', ['camera', 'tripod', 'bag']);
+        session(statistics, 's2', ['camera', 'tripod']);
+        session(statistics, 's3', ['camera', 'bag']);
+        session(statistics, 's4', ['camera', 'bag']);
+
+        expect(statistics.related('camera', 'purchases')).toEqual([
+            // 3 / sqrt(4 * 3) and 2 / sqrt(4 * 2)
+            { productId: 'bag', sessions: 3, score: 0.866 },
+            { productId: 'tripod', sessions: 2, score: 0.7071 },
+        ]);
+        expect(statistics.related('tripod', 'purchases')).toEqual([
+            { productId: 'camera', sessions: 2, score: 0.7071 },
+        ]);
+    });
+
+    test('products sharing a single session are not related', () => {
+        const statistics = new CoOccurrenceStatistics();
+        session(statistics, 's1', ['camera', 'tripod']);
+
+        expect(statistics.related('camera', 'purchases')).toEqual([]);
+    });
+
+    test('a product counts once per session', () => {
+        const statistics = new CoOccurrenceStatistics();
+        session(statistics, 's1', ['camera', 'tripod', 'tripod', 'camera']);
+        session(statistics, 's2', ['camera', 'tripod']);
+
+        expect(statistics.related('camera', 'purchases')).toEqual([{ productId: 'tripod', sessions: 2, score: 1 }]);
+    });
+
+    test('views count for views only, purchases and cart additions for both bases', () => {
+        const statistics = new CoOccurrenceStatistics();
+        for (const sessionId of ['s1', 's2']) {
+            session(statistics, sessionId, ['camera', 'lens'], 'view');
+            session(statistics, sessionId, ['camera'], 'add_to_cart');
+            session(statistics, sessionId, ['tripod'], 'purchase');
+        }
+
+        expect(statistics.related('camera', 'purchases').map(({ productId }) => productId)).toEqual(['tripod']);
+        expect(statistics.related('camera', 'views').map(({ productId }) => productId)).toEqual(['lens', 'tripod']);
+    });
+
+    test('products past the per-session limit are ignored', () => {
+        const statistics = new CoOccurrenceStatistics();
+        const crawled = Array.from({ length: 50 }, (_, i) => `filler-${i}`);
+        for (const sessionId of ['crawler-1', 'crawler-2']) {
+            session(statistics, sessionId, [...crawled, 'camera', 'tripod']);
+        }
+
+        expect(statistics.related('camera', 'purchases')).toEqual([]);
+        expect(statistics.related('filler-0', 'purchases')).toHaveLength(49);
+    });
+
+    test('an event of a session forgotten past the tracked sessions starts a new session', () => {
+        const statistics = new CoOccurrenceStatistics();
+        session(statistics, 'returning', ['camera']);
+        session(statistics, 'other', ['camera', 'tripod']);
+        for (let i = 0; i < 10_000; i++) {
+            session(statistics, `visit-${i}`, ['bag']);
+        }
+
+        session(statistics, 'returning', ['tripod']);
+
+        expect(statistics.related('camera', 'purchases')).toEqual([]);
+    });
+
+    test('past the pair limit of a product, the pairs sharing the fewest sessions are forgotten', () => {
+        const statistics = new CoOccurrenceStatistics();
+        session(statistics, 'regular-1', ['camera', 'tripod']);
+        session(statistics, 'regular-2', ['camera', 'tripod']);
+        for (let i = 0; i < 1000; i++) {
+            session(statistics, `one-off-${i}`, ['camera', `accessory-${i}`]);
+        }
+
+        // Forgotten with the other one-off pairs, so its second session counts as its first
+        session(statistics, 'repeat', ['camera', 'accessory-500']);
+
+        expect(statistics.related('camera', 'purchases').map(({ productId }) => productId)).toEqual(['tripod']);
+        // The accessory has few pairs, so it still counts both sessions with the camera: 2 / sqrt(1003 * 2)
+        expect(statistics.related('accessory-500', 'purchases')).toEqual([
+            { productId: 'camera', sessions: 2, score: 0.0447 },
+        ]);
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * Item-to-item co-occurrence statistics over shopper sessions
+ */
+
+import { CatalogEvent, CoOccurrence, CoOccurrenceBasis, EventType } from '../interfaces/event-interface.js';
+
+/** Fewest sessions two products must share to be related */
+const MIN_SHARED_SESSIONS = 2;
+/** Most distinct products counted per session, so a crawler session does not relate everything */
+const MAX_SESSION_PRODUCTS = 50;
+/** Most sessions whose products are remembered, the least recently active being forgotten first */
+const MAX_TRACKED_SESSIONS = 10_000;
+/** Most products counted with each product, the ones sharing the fewest sessions being forgotten first */
+const MAX_PAIRS_PER_PRODUCT = 200;
+
+/** Event types counted by each basis */
+const BASIS_EVENT_TYPES: Record<CoOccurrenceBasis, EventType[]> = {
+    purchases: ['add_to_cart', 'purchase'],
+    views: ['view', 'add_to_cart', 'purchase'],
+};
+
+/**
+ * Counts of the products seen together in sessions
+ */
+class CoOccurrenceCounter {
+    /** Distinct products of each tracked session, from the least to the most recently active */
+    private readonly sessionProducts = new Map<string, Set<string>>();
+    /** Number of sessions of each product */
+    private readonly productSessions = new Map<string, number>();
+    /** Number of sessions of each pair of products, both ways */
+    private readonly pairSessions = new Map<string, Map<string, number>>();
+
+    /**
+     * Count a product in a session
+     * @param sessionId Session ID
+     * @param productId Product ID
+     */
+    add(sessionId: string, productId: string): void {
+        const products = this.touchSession(sessionId);
+        if (products.has(productId) || products.size >= MAX_SESSION_PRODUCTS) {
+            return;
+        }
+
+        for (const other of products) {
+            this.incrementPair(productId, other);
+            this.incrementPair(other, productId);
+        }
+        products.add(productId);
+        this.productSessions.set(productId, (this.productSessions.get(productId) ?? 0) + 1);
+    }
+
+    /**
+     * Get the products sharing enough sessions with a product
+     * @param productId Product ID
+     * @returns Co-occurring products, highest score first
+     */
+    related(productId: string): CoOccurrence[] {
+        const sessions = this.productSessions.get(productId) ?? 0;
+
+        return [...(this.pairSessions.get(productId) ?? [])]
+            .filter(([, shared]) => shared >= MIN_SHARED_SESSIONS)
+            .map(([other, shared]) => ({
+                productId: other,
+                sessions: shared,
+                score: Math.round((shared / Math.sqrt(sessions * this.productSessions.get(other)!)) * 10_000) / 10_000,
+            }))
+            .sort((a, b) => b.score - a.score || b.sessions - a.sessions || a.productId.localeCompare(b.productId));
+    }
+
+    /**
+     * Get the products of a session and mark it as the most recently active
+     * Past the tracked session limit, the least recently active session is forgotten: its products still count, but
+     * a later event of that session starts a new one.
+     * @param sessionId Session ID
+     * @returns Distinct products of the session, empty for a new session
+     */
+    private touchSession(sessionId: string): Set<string> {
+        const products = this.sessionProducts.get(sessionId) ?? new Set<string>();
+        this.sessionProducts.delete(sessionId);
+        this.sessionProducts.set(sessionId, products);
+
+        if (this.sessionProducts.size > MAX_TRACKED_SESSIONS) {
+            const [leastRecent] = this.sessionProducts.keys();
+            this.sessionProducts.delete(leastRecent);
+        }
+        return products;
+    }
+
+    /**
+     * Count one more session holding two products
+     * Past twice the pair limit of a product, only its most shared pairs are kept, so memory stays bounded however
+     * many sessions are counted. The pairs forgotten are the rare ones, below the shared sessions needed to relate.
+     * @param productId Product ID
+     * @param other Other product ID
+     */
+    private incrementPair(productId: string, other: string): void {
+        let pairs = this.pairSessions.get(productId);
+        if (!pairs) {
+            pairs = new Map();
+            this.pairSessions.set(productId, pairs);
+        }
+        pairs.set(other, (pairs.get(other) ?? 0) + 1);
+
+        if (pairs.size > 2 * MAX_PAIRS_PER_PRODUCT) {
+            const kept = [...pairs].sort((a, b) => b[1] - a[1]).slice(0, MAX_PAIRS_PER_PRODUCT);
+            this.pairSessions.set(productId, new Map(kept));
+        }
+    }
+}
+
+/**
+ * Co-occurrence statistics of every basis, updated event by event
+ * Scores are cosine similarities of the products' session sets, so best-sellers do not relate to everything
+ */
+export class CoOccurrenceStatistics {
+    private readonly counters: Record<CoOccurrenceBasis, CoOccurrenceCounter> = {
+        purchases: new CoOccurrenceCounter(),
+        views: new CoOccurrenceCounter(),
+    };
+
+    /**
+     * Fold an event into the statistics
+     * @param event Event, only its type, product and session are used
+     */
+    record(event: Pick<CatalogEvent, 'type' | 'productId' | 'sessionId'>): void {
+        for (const basis of Object.keys(this.counters) as CoOccurrenceBasis[]) {
+            if (BASIS_EVENT_TYPES[basis].includes(event.type)) {
+                this.counters[basis].add(event.sessionId, event.productId);
+            }
+        }
+    }
+
+    /**
+     * Get the products sharing enough sessions with a product
+     * @param productId Product ID
+     * @param basis Events counted
+     * @returns Co-occurring products, highest score first
+     */
+    related(productId: string, basis: CoOccurrenceBasis): CoOccurrence[] {
+        return this.counters[basis].related(productId);
+    }
+}
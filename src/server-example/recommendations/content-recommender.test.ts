@@ -0,0 +1,181 @@
+import { describe, expect, test } from 'bun:test';
+
+import { Product, RecommendationWeights } from '../interfaces/product-interface.js';
+import { DEFAULT_RECOMMENDATION_OPTIONS, recommendSimilarProducts } from './content-recommender.js';
+
+const NO_WEIGHTS: RecommendationWeights = { tags: 0, attributes: 0, price: 0, subcategory: 0, brand: 0 };
+
+/**
+ * Build a product sharing nothing with other products unless told to
+ * @param id Product ID
+ * @param fields Fields to set
+ * @returns Product
+ */
+function product(id: string, fields: Partial<Product> = {}): Product {
+    return {
+        id,
+        name: id,
+        description: '',
+        price: 100,
+        currency: 'USD',
+        category: `category-${id}`,
+        brand: `brand-${id}`,
+        sku: id.toUpperCase(),
+        inStock: true,
+        stockQuantity: 1,
+        images: [],
+        attributes: {},
+        rating: 0,
+        reviewCount: 0,
+        tags: [],
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        ...fields,
+    };
+}
+
+/**
+ * Recommend with only some signals weighted and no diversity
+ * @param source Product to recommend for
+ * @param candidates Products to choose from
+ * @param weights Weighted signals
+ * @returns Recommended product IDs with their similarity
+ */
+function recommend(source: Product, candidates: Product[], weights: Partial<RecommendationWeights>) {
+    return recommendSimilarProducts(source, candidates, 10, {
+        weights: { ...NO_WEIGHTS, ...weights },
+        diversity: 0,
+    }).map(({ id, similarity }) => ({ id, similarity }));
+}
+
+describe('recommendSimilarProducts', () => {
+    test('the same subcategory counts fully and the same category half', () => {
+        const laptop = product('laptop', { category: 'electronics', subcategory: 'laptops' });
+
+        expect(
+            recommend(
+                laptop,
+                [
+                    laptop,
+                    product('phone', { category: 'electronics', subcategory: 'phones' }),
+                    product('notebook', { category: 'electronics', subcategory: 'laptops' }),
+                    product('shirt', { category: 'clothing' }),
+                ],
+                { subcategory: 1 },
+            ),
+        ).toEqual([
+            { id: 'notebook', similarity: 1 },
+            { id: 'phone', similarity: 0.5 },
+        ]);
+    });
+
+    test('prices are similar down to a fourfold difference', () => {
+        const source = product('source', { price: 100 });
+
+        expect(
+            recommend(
+                source,
+                [
+                    product('same', { price: 100 }),
+                    product('double', { price: 200 }),
+                    product('half', { price: 50 }),
+                    product('fourfold', { price: 400 }),
+                ],
+                { price: 1 },
+            ),
+        ).toEqual([
+            { id: 'same', similarity: 1 },
+            { id: 'double', similarity: 0.5 },
+            { id: 'half', similarity: 0.5 },
+        ]);
+    });
+
+    test('tags naming the category or the brand are not shared tags', () => {
+        const source = product('source', { category: 'audio', brand: 'Sony', tags: ['audio', 'sony', 'wireless'] });
+
+        expect(
+            recommend(
+                source,
+                [
+                    product('generic', { tags: ['Audio', 'Sony'] }),
+                    product('wireless', { tags: ['wireless', 'bluetooth'] }),
+                ],
+                { tags: 1 },
+            ),
+        ).toEqual([{ id: 'wireless', similarity: 0.5 }]);
+    });
+
+    test('attributes with the same value are shared, whatever their case', () => {
+        const source = product('source', { attributes: { color: 'Black', size: 'M' } });
+
+        expect(
+            recommend(source, [product('black', { attributes: { color: 'black', material: 'cotton' } })], {
+                attributes: 1,
+            }),
+        ).toEqual([{ id: 'black', similarity: 0.3333 }]);
+    });
+
+    test('weights decide which signal ranks first', () => {
+        const source = product('source', { brand: 'Apple', price: 1000 });
+        const candidates = [
+            product('same-brand', { brand: 'apple', price: 250 }),
+            product('same-price', { price: 1000 }),
+        ];
+
+        expect(recommend(source, candidates, { brand: 3, price: 1 })[0]).toEqual({
+            id: 'same-brand',
+            similarity: 0.75,
+        });
+        expect(recommend(source, candidates, { brand: 1, price: 3 })[0]).toEqual({
+            id: 'same-price',
+            similarity: 0.75,
+        });
+    });
+
+    test('diversity keeps near-identical products from crowding the recommendations', () => {
+        const source = product('source', { category: 'audio', subcategory: 'headphones', brand: 'Sony', price: 300 });
+        const clone = { category: 'audio', subcategory: 'headphones', brand: 'Sony', price: 300 };
+        const candidates = [
+            product('clone-1', clone),
+            product('clone-2', clone),
+            product('speaker', { category: 'audio', subcategory: 'speakers', brand: 'Sony', price: 300 }),
+        ];
+        const pick = (diversity: number) =>
+            recommendSimilarProducts(source, candidates, 2, { ...DEFAULT_RECOMMENDATION_OPTIONS, diversity }).map(
+                ({ id }) => id,
+            );
+
+        expect(pick(0)).toEqual(['clone-1', 'clone-2']);
+        expect(pick(0.6)).toEqual(['clone-1', 'speaker']);
+    });
+
+    test('reasons name the strongest signals', () => {
+        const source = product('source', {
+            category: 'electronics',
+            subcategory: 'laptops',
+            brand: 'Apple',
+            price: 1099,
+        });
+        const [recommendation] = recommendSimilarProducts(
+            source,
+            [product('air', { category: 'electronics', subcategory: 'laptops', brand: 'Apple', price: 999 })],
+            1,
+            DEFAULT_RECOMMENDATION_OPTIONS,
+        );
+
+        expect(recommendation.reason).toBe(
+            'Same subcategory (laptops), similar price (999 vs 1099 USD), also by Apple',
+        );
+    });
+
+    test('weak signals alone give a generic reason', () => {
+        const [recommendation] = recommendSimilarProducts(
+            product('source', { price: 100 }),
+            [product('pricier', { price: 300 })],
+            1,
+            { weights: { ...NO_WEIGHTS, price: 1 }, diversity: 0 },
+        );
+
+        expect(recommendation.reason).toBe('Similar product');
+    });
+});
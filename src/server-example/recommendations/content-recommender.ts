@@ -0,0 +1,207 @@
+/**
+ * Content-based product recommendations: weighted similarity, diversity re-ranking and explanations
+ */
+
+import {
+    Product,
+    RecommendationOptions,
+    RecommendationWeights,
+    RecommendedProduct,
+} from '../interfaces/product-interface.js';
+
+export const DEFAULT_RECOMMENDATION_OPTIONS: RecommendationOptions = {
+    weights: { tags: 0.25, attributes: 0.2, price: 0.2, subcategory: 0.25, brand: 0.1 },
+    diversity: 0.3,
+};
+
+/** Price ratio at which prices stop being similar, e.g. 4 when one product costs four times the other */
+const PRICE_RATIO_LIMIT = 4;
+/** Share of the subcategory signal earned by products of the same category but another subcategory */
+const SAME_CATEGORY_CREDIT = 0.5;
+/** Lowest price similarity mentioned in a reason */
+const SIMILAR_PRICE_MIN = 0.5;
+/** Candidates re-ranked for diversity, per recommendation returned */
+const DIVERSITY_POOL_FACTOR = 5;
+/** Most signals named in a reason */
+const MAX_REASON_PARTS = 3;
+
+type SignalName = keyof RecommendationWeights;
+
+/**
+ * Similarity of two products per signal, each from 0 to 1, with what they have in common
+ */
+interface ContentComparison {
+    signals: Record<SignalName, number>;
+    sharedTags: string[];
+    sharedAttributes: string[];
+}
+
+/**
+ * Recommendation candidate with its similarity to the product
+ */
+interface ScoredCandidate {
+    candidate: Product;
+    comparison: ContentComparison;
+    similarity: number;
+}
+
+/**
+ * Get the tags of a product that say more than its category and brand
+ * @param product Product
+ * @returns Lowercase tags
+ */
+function distinctiveTags(product: Product): Set<string> {
+    const generic = new Set(
+        [product.category, product.subcategory, product.brand].map((value) => value?.toLowerCase()),
+    );
+    return new Set(product.tags.map((tag) => tag.toLowerCase()).filter((tag) => !generic.has(tag)));
+}
+
+/**
+ * Compare the content of two products
+ * @param a First product
+ * @param b Second product
+ * @returns Per-signal similarities and shared tags and attributes
+ */
+function compareContent(a: Product, b: Product): ContentComparison {
+    const tagsA = distinctiveTags(a);
+    const tagsB = distinctiveTags(b);
+    const sharedTags = [...tagsA].filter((tag) => tagsB.has(tag));
+    const tagUnion = tagsA.size + tagsB.size - sharedTags.length;
+
+    const attributeNames = new Set([...Object.keys(a.attributes), ...Object.keys(b.attributes)]);
+    const sharedAttributes = [...attributeNames].filter(
+        (name) =>
+            name in a.attributes &&
+            name in b.attributes &&
+            String(a.attributes[name]).toLowerCase() === String(b.attributes[name]).toLowerCase(),
+    );
+
+    const priceRatio = a.price > 0 && b.price > 0 ? Math.abs(Math.log(a.price / b.price)) : Infinity;
+
+    return {
+        signals: {
+            tags: tagUnion > 0 ? sharedTags.length / tagUnion : 0,
+            attributes: attributeNames.size > 0 ? sharedAttributes.length / attributeNames.size : 0,
+            price: a.price === b.price ? 1 : Math.max(0, 1 - priceRatio / Math.log(PRICE_RATIO_LIMIT)),
+            subcategory:
+                a.subcategory !== undefined && a.subcategory === b.subcategory
+                    ? 1
+                    : a.category === b.category
+                      ? SAME_CATEGORY_CREDIT
+                      : 0,
+            brand: a.brand.toLowerCase() === b.brand.toLowerCase() ? 1 : 0,
+        },
+        sharedTags,
+        sharedAttributes,
+    };
+}
+
+/**
+ * Combine per-signal similarities
+ * @param comparison Product comparison
+ * @param weights Signal weights
+ * @returns Weighted average similarity, from 0 to 1
+ */
+function weightedSimilarity({ signals }: ContentComparison, weights: RecommendationWeights): number {
+    const names = Object.keys(weights) as SignalName[];
+    const totalWeight = names.reduce((sum, name) => sum + weights[name], 0);
+    return totalWeight > 0 ? names.reduce((sum, name) => sum + weights[name] * signals[name], 0) / totalWeight : 0;
+}
+
+/**
+ * Explain a recommendation with its strongest signals
+ * @param source Product the recommendation is for
+ * @param candidate Recommended product
+ * @param comparison Comparison of the two products
+ * @param weights Signal weights
+ * @returns Reason, e.g. "Same subcategory (laptops), similar price (1099 vs 999 USD)"
+ */
+function explain(
+    source: Product,
+    candidate: Product,
+    comparison: ContentComparison,
+    weights: RecommendationWeights,
+): string {
+    const describe: Record<SignalName, () => string> = {
+        tags: () => `shared tags: ${comparison.sharedTags.slice(0, 3).join(', ')}`,
+        attributes: () =>
+            `same ${comparison.sharedAttributes.map((name) => `${name} (${candidate.attributes[name]})`).join(', ')}`,
+        price: () => `similar price (${candidate.price} vs ${source.price} ${source.currency})`,
+        subcategory: () =>
+            comparison.signals.subcategory === 1
+                ? `same subcategory (${candidate.subcategory})`
+                : `same category (${candidate.category})`,
+        brand: () => `also by ${candidate.brand}`,
+    };
+
+    const parts = (Object.keys(weights) as SignalName[])
+        .filter((name) => comparison.signals[name] >= (name === 'price' ? SIMILAR_PRICE_MIN : Number.MIN_VALUE))
+        .map((name) => ({ name, contribution: weights[name] * comparison.signals[name] }))
+        .filter(({ contribution }) => contribution > 0)
+        .sort((a, b) => b.contribution - a.contribution)
+        .slice(0, MAX_REASON_PARTS)
+        .map(({ name }) => describe[name]());
+
+    const reason = parts.join(', ') || 'similar product';
+    return reason.charAt(0).toUpperCase() + reason.slice(1);
+}
+
+/**
+ * Recommend the products most similar to a product
+ * The most similar candidates are re-ranked with maximal marginal relevance: each pick trades similarity to the
+ * product against similarity to the products already picked, so near-identical products do not crowd the list.
+ * @param source Product to recommend for
+ * @param candidates Products to choose from, the source product is skipped
+ * @param limit Number of recommendations
+ * @param options Signal weights and diversity
+ * @returns Recommendations with their similarity and reason, in pick order
+ */
+export function recommendSimilarProducts(
+    source: Product,
+    candidates: Product[],
+    limit: number,
+    { weights, diversity }: RecommendationOptions,
+): RecommendedProduct[] {
+    const pool: ScoredCandidate[] = candidates
+        .filter((candidate) => candidate.id !== source.id)
+        .map((candidate) => {
+            const comparison = compareContent(source, candidate);
+            return { candidate, comparison, similarity: weightedSimilarity(comparison, weights) };
+        })
+        .filter(({ similarity }) => similarity > 0)
+        .sort(
+            (a, b) =>
+                b.similarity - a.similarity ||
+                b.candidate.rating - a.candidate.rating ||
+                a.candidate.id.localeCompare(b.candidate.id),
+        )
+        .slice(0, limit * DIVERSITY_POOL_FACTOR);
+
+    const picked: ScoredCandidate[] = [];
+    while (picked.length < limit && pool.length > 0) {
+        let bestIndex = 0;
+        let bestValue = -Infinity;
+
+        pool.forEach((entry, index) => {
+            const redundancy = picked.reduce(
+                (max, { candidate }) =>
+                    Math.max(max, weightedSimilarity(compareContent(entry.candidate, candidate), weights)),
+                0,
+            );
+            const value = (1 - diversity) * entry.similarity - diversity * redundancy;
+            if (value > bestValue) {
+                bestIndex = index;
+                bestValue = value;
+            }
+        });
+
+        picked.push(...pool.splice(bestIndex, 1));
+    }
+
+    return picked.map(({ candidate, comparison, similarity }) => ({
+        ...candidate,
+        similarity: Math.round(similarity * 10_000) / 10_000,
+        reason: explain(source, candidate, comparison, weights),
+    }));
+}
@@ -0,0 +1,47 @@
+/**
+ * In-memory cart repository
+ */
+
+import { CartRecord, ICartRepository } from '../interfaces/cart-interface.js';
+
+/**
+ * Carts kept in memory, lost on restart like the rest of the mock data
+ */
+export class CartRepository implements ICartRepository {
+    private readonly carts = new Map<string, CartRecord>();
+
+    /**
+     * Get a cart by ID
+     * @param id Cart ID
+     * @returns Promise with the cart or null if not found
+     */
+    async getCart(id: string): Promise<CartRecord | null> {
+        return this.carts.get(id) ?? null;
+    }
+
+    /**
+     * Insert a cart, or replace the cart with the same ID
+     * @param cart Cart to save
+     * @returns Promise with the saved cart
+     */
+    async saveCart(cart: CartRecord): Promise<CartRecord> {
+        this.carts.set(cart.id, cart);
+        return cart;
+    }
+
+    /**
+     * Replace a cart only if its lines are still the ones read
+     * @param current Cart as read before
+     * @param replacement Cart to save in its place
+     * @returns Promise with true if the cart was replaced, false if its lines changed since they were read
+     */
+    async replaceCartIfUnchanged(current: CartRecord, replacement: CartRecord): Promise<boolean> {
+        const stored = this.carts.get(current.id);
+        if (!stored || JSON.stringify(stored.lines) !== JSON.stringify(current.lines)) {
+            return false;
+        }
+
+        this.carts.set(replacement.id, replacement);
+        return true;
+    }
+}
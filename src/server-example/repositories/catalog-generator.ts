@@ -0,0 +1,228 @@
+/**
+ * Deterministic mock catalog generator
+ * The same seed and options always produce the same products
+ */
+
+import { Faker, base, en } from '@faker-js/faker';
+
+import { Category } from '../interfaces/category-interface.js';
+import { Product } from '../interfaces/product-interface.js';
+
+/**
+ * Named catalog sizes, in generated products
+ */
+export const CATALOG_SIZES = {
+    small: 340,
+    medium: 1_020,
+    large: 100_000,
+    huge: 500_000,
+} as const;
+
+/**
+ * Named catalog size
+ */
+export type CatalogSize = keyof typeof CATALOG_SIZES;
+
+/**
+ * Price distribution: `uniform` spreads prices evenly, `log-uniform` favors cheaper products
+ */
+export interface PriceDistribution {
+    min: number;
+    max: number;
+    shape: 'uniform' | 'log-uniform';
+}
+
+/**
+ * Stock distribution
+ */
+export interface StockDistribution {
+    /** Share of products in stock, between 0 and 1 */
+    inStockRatio: number;
+    /** Share of in-stock products with 10 units or fewer, between 0 and 1 */
+    lowStockRatio: number;
+    /** Highest stock quantity */
+    maxQuantity: number;
+}
+
+/**
+ * Triangular rating distribution, ratings have one decimal
+ */
+export interface RatingDistribution {
+    min: number;
+    max: number;
+    /** Most likely rating */
+    mode: number;
+}
+
+/**
+ * Catalog generator settings
+ */
+export interface CatalogGeneratorOptions {
+    seed: number;
+    productCount: number;
+    /** Creation and update dates are generated in the two years before this ISO date */
+    referenceDate: string;
+    price: PriceDistribution;
+    stock: StockDistribution;
+    rating: RatingDistribution;
+}
+
+export const DEFAULT_GENERATOR_OPTIONS: CatalogGeneratorOptions = {
+    seed: 42,
+    productCount: CATALOG_SIZES.medium,
+    referenceDate: '2025-01-01T00:00:00.000Z',
+    price: { min: 10, max: 2000, shape: 'uniform' },
+    stock: { inStockRatio: 0.5, lowStockRatio: 0.05, maxQuantity: 200 },
+    rating: { min: 3, max: 5, mode: 4 },
+};
+
+const BRANDS = [
+    'Apple',
+    'Samsung',
+    'Sony',
+    'LG',
+    'Nike',
+    'Adidas',
+    'StyleCo',
+    'FashionForward',
+    'KitchenPro',
+    'FitGear',
+    'BookWorld',
+    'AutoPlus',
+    'Snacky',
+    'OfficeMate',
+    'PetPal',
+];
+
+const SIZES = ['Small', 'Medium', 'Large', 'XL', 'One Size'];
+
+/**
+ * Resolve a catalog size given as a preset name or a product count
+ * @param value Preset name or positive integer
+ * @returns Number of products to generate
+ * @throws Error if the value is neither
+ */
+export function resolveCatalogSize(value: string): number {
+    if (value in CATALOG_SIZES) {
+        return CATALOG_SIZES[value as CatalogSize];
+    }
+
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`Invalid catalog size: ${value}, expected ${Object.keys(CATALOG_SIZES).join(', ')} or a count`);
+    }
+    return count;
+}
+
+/**
+ * Collect the categories products are assigned to: every leaf, with the root it belongs to
+ * @param categories Category tree
+ * @returns Root and leaf ID pairs, the leaf being undefined for a root without subcategories
+ */
+function leafCategories(categories: Category[]): Array<{ category: string; subcategory?: string }> {
+    const leaves: Array<{ category: string; subcategory?: string }> = [];
+
+    const visit = (node: Category, rootId: string) => {
+        if (node.subcategories.length === 0) {
+            leaves.push(node.id === rootId ? { category: rootId } : { category: rootId, subcategory: node.id });
+        }
+        node.subcategories.forEach((child) => visit(child, rootId));
+    };
+    categories.forEach((root) => visit(root, root.id));
+
+    return leaves;
+}
+
+/**
+ * Generate mock products spread evenly over the leaf categories
+ * @param categories Category tree the products are assigned to
+ * @param options Generator settings, merged with the defaults
+ * @returns Products with IDs `prod-1` to `prod-<productCount>`
+ */
+export function generateProducts(categories: Category[], options: Partial<CatalogGeneratorOptions> = {}): Product[] {
+    const { seed, productCount, referenceDate, price, stock, rating } = { ...DEFAULT_GENERATOR_OPTIONS, ...options };
+
+    const faker = new Faker({ locale: [en, base] });
+    faker.seed(seed);
+
+    const refDate = new Date(referenceDate);
+    const leaves = leafCategories(categories);
+    const skus = new Set<string>();
+    const products: Product[] = [];
+
+    for (let i = 0; i < productCount; i++) {
+        // Contiguous blocks of products per leaf category
+        const leaf = leaves[Math.floor((i * leaves.length) / productCount)]!;
+        const brand = faker.helpers.arrayElement(BRANDS);
+
+        const inStock = faker.number.float() < stock.inStockRatio;
+        const lowStock = faker.number.float() < stock.lowStockRatio;
+        const stockQuantity = !inStock
+            ? 0
+            : lowStock
+              ? faker.number.int({ min: 1, max: Math.min(10, stock.maxQuantity) })
+              : faker.number.int({ min: Math.min(11, stock.maxQuantity), max: stock.maxQuantity });
+
+        let sku: string;
+        do {
+            sku = faker.string.alphanumeric({ length: 10, casing: 'upper' });
+        } while (skus.has(sku));
+        skus.add(sku);
+
+        const createdAt = faker.date.past({ years: 2, refDate });
+        const updatedAt = faker.date.between({ from: createdAt, to: refDate });
+
+        products.push({
+            id: `prod-${i + 1}`,
+            name: faker.commerce.productName(),
+            description: faker.commerce.productDescription(),
+            price: samplePrice(faker.number.float(), price),
+            currency: 'USD',
+            ...leaf,
+            brand,
+            sku,
+            inStock,
+            stockQuantity,
+            images: [faker.image.urlPicsumPhotos(), faker.image.urlPicsumPhotos()],
+            attributes: {
+                color: faker.color.human(),
+                size: faker.helpers.arrayElement(SIZES),
+                material: faker.commerce.productMaterial(),
+            },
+            rating: sampleRating(faker.number.float(), rating),
+            reviewCount: faker.number.int({ min: 0, max: 2000 }),
+            tags: [leaf.category, ...(leaf.subcategory ? [leaf.subcategory] : []), brand.toLowerCase()],
+            createdAt: createdAt.toISOString(),
+            updatedAt: updatedAt.toISOString(),
+        });
+    }
+
+    return products;
+}
+
+/**
+ * Map a uniform sample to a price
+ * @param u Uniform sample in [0, 1)
+ * @param distribution Price distribution
+ * @returns Price rounded to cents
+ */
+function samplePrice(u: number, { min, max, shape }: PriceDistribution): number {
+    const value =
+        shape === 'log-uniform' ? Math.exp(Math.log(min) + u * (Math.log(max) - Math.log(min))) : min + u * (max - min);
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Map a uniform sample to a rating with the inverse triangular distribution
+ * @param u Uniform sample in [0, 1)
+ * @param distribution Rating distribution
+ * @returns Rating rounded to one decimal
+ */
+function sampleRating(u: number, { min, max, mode }: RatingDistribution): number {
+    const split = (mode - min) / (max - min);
+    const value =
+        u < split
+            ? min + Math.sqrt(u * (max - min) * (mode - min))
+            : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    return Math.round(value * 10) / 10;
+}
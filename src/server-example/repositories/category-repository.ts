@@ -2,73 +2,68 @@
  * Category repository implementation using mock data
  */
 
-import { ICategoryRepository, Category, PaginationMeta, PriceRange } from '../interfaces/category-interface.js';
+import {
+    ICategoryRepository,
+    Category,
+    CategoryDescendant,
+    CategoryInput,
+    CategoryUpdate,
+    PaginationMeta,
+    PriceRange,
+} from '../interfaces/category-interface.js';
 import { Product } from '../interfaces/product-interface.js';
+import { CategoryTree, withoutProductCounts, withProductCounts } from './category-tree.js';
 
 /**
  * Mock data repository for categories
  * Implements data access layer for category operations
  */
 export class CategoryRepository implements ICategoryRepository {
+    private readonly tree: CategoryTree;
+
     constructor(
-        private readonly categories: Category[],
+        categories: Category[],
         private readonly products: Product[],
-    ) {}
+    ) {
+        this.tree = new CategoryTree(categories);
+    }
 
     /**
      * Get all categories or subcategories
-     * @param parentId Optional parent category ID
-     * @param includeProductCount Whether to include product count
+     * @param parentId Optional parent category ID, at any depth
+     * @param includeProductCount Whether to include product counts rolled up across descendants
      * @returns Promise with categories
      */
     async getCategories(parentId?: string, includeProductCount = true): Promise<Category[]> {
-        let result = this.categories;
-
-        if (parentId) {
-            const parentCategory = this.categories.find((c) => c.id === parentId);
-            if (!parentCategory) {
-                return [];
-            }
-            result = parentCategory.subcategories;
-        }
+        const children = this.tree.children(parentId) ?? [];
 
-        if (includeProductCount) {
-            result = result.map((category) => ({
-                ...category,
-                productCount: this.products.filter((p) => p.category === category.id || p.subcategory === category.id)
-                    .length,
-            }));
+        if (!includeProductCount) {
+            return children.map(withoutProductCounts);
         }
 
-        return result;
+        const directCounts = this.directProductCounts();
+        return children.map((category) => withProductCounts(category, directCounts));
     }
 
     /**
      * Get a category by ID
-     * @param id Category ID
-     * @param includeProductCount Whether to include product count
+     * @param id Category ID, at any depth
+     * @param includeProductCount Whether to include product counts rolled up across descendants
      * @returns Promise with category or null if not found
      */
     async getCategoryById(id: string, includeProductCount = true): Promise<Category | null> {
-        const category = this.categories.find((c) => c.id === id);
+        const category = this.tree.get(id);
         if (!category) {
             return null;
         }
 
-        if (includeProductCount) {
-            const productCount = this.products.filter((p) => p.category === id || p.subcategory === id).length;
-
-            return {
-                ...category,
-                productCount,
-            };
-        }
-
-        return category;
+        return includeProductCount
+            ? withProductCounts(category, this.directProductCounts())
+            : withoutProductCounts(category);
     }
 
     /**
-     * Get products in a category with pagination
+     * Get products in a category or any of its descendants with pagination
      * @param categoryId Category ID
      * @param page Page number
      * @param limit Items per page
@@ -79,7 +74,7 @@ export class CategoryRepository implements ICategoryRepository {
         page: number,
         limit: number,
     ): Promise<{ products: Product[]; meta: PaginationMeta }> {
-        const categoryProducts = this.products.filter((p) => p.category === categoryId || p.subcategory === categoryId);
+        const categoryProducts = this.productsIn(categoryId);
 
         const total = categoryProducts.length;
         const totalPages = Math.ceil(total / limit);
@@ -99,12 +94,12 @@ export class CategoryRepository implements ICategoryRepository {
     }
 
     /**
-     * Get price range for products in a category
+     * Get price range for products in a category or any of its descendants
      * @param categoryId Category ID
      * @returns Promise with price range or null if no products
      */
     async getCategoryPriceRange(categoryId: string): Promise<PriceRange | null> {
-        const categoryProducts = this.products.filter((p) => p.category === categoryId || p.subcategory === categoryId);
+        const categoryProducts = this.productsIn(categoryId);
 
         if (categoryProducts.length === 0) {
             return null;
@@ -121,4 +116,155 @@ export class CategoryRepository implements ICategoryRepository {
 
         return priceRange;
     }
+
+    /**
+     * Get the chain of categories from the root down to a category, at any depth
+     * @param id Category ID
+     * @returns Promise with the categories from root to the requested one, or null if not found
+     */
+    async getCategoryPath(id: string): Promise<Category[] | null> {
+        return this.tree.path(id) ?? null;
+    }
+
+    /**
+     * Get every category below a category, depth-first
+     * @param id Category ID
+     * @returns Promise with the descendants or null if not found
+     */
+    async getCategoryDescendants(id: string): Promise<CategoryDescendant[] | null> {
+        const descendants = this.tree.descendants(id);
+        if (!descendants) {
+            return null;
+        }
+
+        const directCounts = this.directProductCounts();
+        return descendants.map(({ category, depth }) => ({
+            id: category.id,
+            name: category.name,
+            description: category.description,
+            parentId: category.parentId,
+            productCount: withProductCounts(category, directCounts).productCount,
+            depth,
+        }));
+    }
+
+    /**
+     * Insert a category under its parent, or at the root when it has none
+     * @param input Category fields
+     * @returns Promise with the created category
+     */
+    async createCategory(input: CategoryInput): Promise<Category> {
+        const category: Category = { ...input, subcategories: [], productCount: 0 };
+        this.tree.insert(category);
+
+        return category;
+    }
+
+    /**
+     * Change the name or description of a category
+     * @param id Category ID
+     * @param changes Fields to change
+     * @returns Promise with the updated category or null if not found
+     */
+    async updateCategory(id: string, changes: CategoryUpdate): Promise<Category | null> {
+        const category = this.tree.get(id);
+        if (!category) {
+            return null;
+        }
+
+        Object.assign(category, changes);
+        return withProductCounts(category, this.directProductCounts());
+    }
+
+    /**
+     * Move a category with its subtree under another parent, or to the root
+     * Products assigned to the subtree get their `category` and `subcategory` realigned
+     * @param id Category ID
+     * @param parentId New parent ID, undefined for the root
+     * @returns Promise with the moved category or null if not found
+     */
+    async moveCategory(id: string, parentId?: string): Promise<Category | null> {
+        const category = this.tree.move(id, parentId);
+        if (!category) {
+            return null;
+        }
+
+        const subtreeIds = this.tree.subtreeIds(id);
+        for (const product of this.products) {
+            const nodeId = product.subcategory ?? product.category;
+            if (subtreeIds.has(nodeId)) {
+                this.assignProduct(product, nodeId);
+            }
+        }
+
+        return withProductCounts(category, this.directProductCounts());
+    }
+
+    /**
+     * Assign the products of one category to another
+     * @param fromId Category the products are taken from
+     * @param toId Category the products are moved to
+     * @returns Promise with the number of reassigned products
+     */
+    async reassignProducts(fromId: string, toId: string): Promise<number> {
+        let reassigned = 0;
+
+        for (const product of this.products) {
+            if ((product.subcategory ?? product.category) === fromId) {
+                this.assignProduct(product, toId);
+                reassigned++;
+            }
+        }
+
+        return reassigned;
+    }
+
+    /**
+     * Delete a category
+     * @param id Category ID
+     * @returns Promise with true if the category existed
+     */
+    async deleteCategory(id: string): Promise<boolean> {
+        return this.tree.remove(id) !== undefined;
+    }
+
+    /**
+     * Point a product at a category: `category` becomes its root, `subcategory` the category itself when nested
+     * @param product Product to update in place
+     * @param categoryId Most specific category of the product
+     */
+    private assignProduct(product: Product, categoryId: string): void {
+        const path = this.tree.path(categoryId)!;
+
+        product.category = path[0].id;
+        if (path.length > 1) {
+            product.subcategory = categoryId;
+        } else {
+            delete product.subcategory;
+        }
+        product.updatedAt = new Date().toISOString();
+    }
+
+    /**
+     * Get the products assigned to a category or any of its descendants
+     * @param categoryId Category ID
+     * @returns Matching products
+     */
+    private productsIn(categoryId: string): Product[] {
+        const ids = this.tree.subtreeIds(categoryId);
+        return this.products.filter((p) => ids.has(p.subcategory ?? p.category));
+    }
+
+    /**
+     * Count the products assigned to each category, its most specific one being `subcategory` when set
+     * @returns Product count per category ID, descendants excluded
+     */
+    private directProductCounts(): Map<string, number> {
+        const counts = new Map<string, number>();
+        for (const product of this.products) {
+            const categoryId = product.subcategory ?? product.category;
+            counts.set(categoryId, (counts.get(categoryId) ?? 0) + 1);
+        }
+        return counts;
+    }
 }
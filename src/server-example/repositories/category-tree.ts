@@ -0,0 +1,209 @@
+/**
+ * Indexed category tree of arbitrary depth
+ */
+
+import { Category } from '../interfaces/category-interface.js';
+
+/**
+ * Category hierarchy with an ID index
+ * Nodes are the `Category` objects themselves, so `parentId` and `subcategories` always describe the same tree
+ */
+export class CategoryTree {
+    private readonly index = new Map<string, Category>();
+
+    /**
+     * @param roots Top-level categories, indexed with all their descendants
+     */
+    constructor(private readonly roots: Category[]) {
+        for (const root of roots) {
+            delete root.parentId;
+            this.indexSubtree(root);
+        }
+    }
+
+    /**
+     * Get a category at any depth
+     * @param id Category ID
+     * @returns Category or undefined if not found
+     */
+    get(id: string): Category | undefined {
+        return this.index.get(id);
+    }
+
+    /**
+     * Get the direct children of a category
+     * @param parentId Parent category ID, undefined for the roots
+     * @returns Child categories, or undefined if the parent does not exist
+     */
+    children(parentId?: string): Category[] | undefined {
+        return parentId ? this.index.get(parentId)?.subcategories : this.roots;
+    }
+
+    /**
+     * Get the chain of categories from the root down to a category
+     * @param id Category ID
+     * @returns Categories from root to the requested one, or undefined if not found
+     */
+    path(id: string): Category[] | undefined {
+        const path: Category[] = [];
+
+        for (let node = this.index.get(id); node; node = node.parentId ? this.index.get(node.parentId) : undefined) {
+            path.unshift(node);
+        }
+
+        return path.length > 0 ? path : undefined;
+    }
+
+    /**
+     * Get every category below a category, depth-first
+     * @param id Category ID
+     * @returns Descendants with their depth relative to the category, or undefined if not found
+     */
+    descendants(id: string): Array<{ category: Category; depth: number }> | undefined {
+        const category = this.index.get(id);
+        if (!category) {
+            return undefined;
+        }
+
+        const descendants: Array<{ category: Category; depth: number }> = [];
+        const visit = (node: Category, depth: number) => {
+            for (const child of node.subcategories) {
+                descendants.push({ category: child, depth });
+                visit(child, depth + 1);
+            }
+        };
+        visit(category, 1);
+
+        return descendants;
+    }
+
+    /**
+     * Get the IDs of a category and all its descendants
+     * @param id Category ID
+     * @returns Set of category IDs, empty if not found
+     */
+    subtreeIds(id: string): Set<string> {
+        const ids = new Set<string>();
+        if (this.index.has(id)) {
+            ids.add(id);
+            this.descendants(id)!.forEach(({ category }) => ids.add(category.id));
+        }
+        return ids;
+    }
+
+    /**
+     * Add a category under its `parentId`, or at the root
+     * @param category Category without subcategories
+     * @throws Error if the ID is taken or the parent does not exist
+     */
+    insert(category: Category): void {
+        if (this.index.has(category.id)) {
+            throw new Error(`Category already exists: ${category.id}`);
+        }
+
+        this.childrenOrThrow(category.parentId).push(category);
+        this.indexSubtree(category);
+    }
+
+    /**
+     * Remove a category with its subtree
+     * @param id Category ID
+     * @returns Removed category or undefined if not found
+     */
+    remove(id: string): Category | undefined {
+        const category = this.index.get(id);
+        if (!category) {
+            return undefined;
+        }
+
+        const siblings = this.childrenOrThrow(category.parentId);
+        siblings.splice(siblings.indexOf(category), 1);
+        this.subtreeIds(id).forEach((subtreeId) => this.index.delete(subtreeId));
+
+        return category;
+    }
+
+    /**
+     * Move a category with its subtree under another parent, or to the root
+     * @param id Category ID
+     * @param parentId New parent ID, undefined for the root
+     * @returns Moved category or undefined if not found
+     * @throws Error if the parent does not exist or lies in the moved subtree
+     */
+    move(id: string, parentId?: string): Category | undefined {
+        const category = this.index.get(id);
+        if (!category) {
+            return undefined;
+        }
+        if (parentId && this.subtreeIds(id).has(parentId)) {
+            throw new Error(`Cannot move category ${id} under its own subtree`);
+        }
+
+        const target = this.childrenOrThrow(parentId);
+        const siblings = this.childrenOrThrow(category.parentId);
+        siblings.splice(siblings.indexOf(category), 1);
+
+        if (parentId) {
+            category.parentId = parentId;
+        } else {
+            delete category.parentId;
+        }
+        target.push(category);
+
+        return category;
+    }
+
+    /**
+     * Get the children list of a category for mutation
+     * @param parentId Parent category ID, undefined for the roots
+     * @returns Mutable list of child categories
+     * @throws Error if the parent does not exist
+     */
+    private childrenOrThrow(parentId?: string): Category[] {
+        const children = this.children(parentId);
+        if (!children) {
+            throw new Error(`Parent category not found: ${parentId}`);
+        }
+        return children;
+    }
+
+    /**
+     * Index a category and its descendants, fixing up their `parentId`
+     * @param category Subtree root
+     */
+    private indexSubtree(category: Category): void {
+        this.index.set(category.id, category);
+
+        for (const child of category.subcategories) {
+            child.parentId = category.id;
+            this.indexSubtree(child);
+        }
+    }
+}
+
+/**
+ * Copy a category subtree with product counts rolled up from the descendants
+ * @param category Subtree root
+ * @param directCounts Product count per category ID, descendants excluded
+ * @returns Copy of the subtree with `productCount` set on every node
+ */
+export function withProductCounts(category: Category, directCounts: Map<string, number>): Category {
+    const subcategories = category.subcategories.map((sub) => withProductCounts(sub, directCounts));
+    const productCount = subcategories.reduce(
+        (sum, sub) => sum + (sub.productCount ?? 0),
+        directCounts.get(category.id) ?? 0,
+    );
+
+    return { ...category, subcategories, productCount };
+}
+
+/**
+ * Copy a category subtree without product counts
+ * @param category Subtree root
+ * @returns Copy of the subtree with `productCount` left out of every node
+ */
+export function withoutProductCounts(category: Category): Category {
+    const copy = { ...category, subcategories: category.subcategories.map(withoutProductCounts) };
+    delete copy.productCount;
+    return copy;
+}
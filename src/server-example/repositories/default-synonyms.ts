@@ -0,0 +1,48 @@
+/**
+ * Synonym rules used until an administrator saves a synonyms file
+ */
+
+import { SynonymRule } from '../interfaces/synonym-interface.js';
+
+export const DEFAULT_SYNONYMS: SynonymRule[] = [
+    {
+        id: 'phones',
+        type: 'one-way',
+        terms: ['phone', 'cellphone', 'cell phone', 'mobile', 'mobile phone'],
+        synonyms: ['smartphone'],
+        categoryHint: 'smartphones',
+    },
+    {
+        id: 't-shirts',
+        type: 'one-way',
+        terms: ['tee', 't-shirt', 'tshirt'],
+        synonyms: ['shirt'],
+        categoryHint: 'clothing',
+    },
+    {
+        id: 'laptops',
+        type: 'equivalent',
+        terms: ['laptop', 'notebook computer'],
+        synonyms: [],
+        categoryHint: 'laptops',
+    },
+    {
+        id: 'headphones',
+        type: 'equivalent',
+        terms: ['headphones', 'earphones', 'earbuds', 'headset'],
+        synonyms: [],
+        categoryHint: 'audio',
+    },
+    {
+        id: 'sneakers',
+        type: 'equivalent',
+        terms: ['sneakers', 'trainers', 'running shoes'],
+        synonyms: [],
+    },
+    {
+        id: 'sofas',
+        type: 'equivalent',
+        terms: ['sofa', 'couch'],
+        synonyms: [],
+    },
+];
@@ -0,0 +1,31 @@
+/**
+ * In-memory event repository
+ */
+
+import { CatalogEvent, CoOccurrence, CoOccurrenceBasis, IEventRepository } from '../interfaces/event-interface.js';
+import { CoOccurrenceStatistics } from '../recommendations/co-occurrence-statistics.js';
+
+/**
+ * Events folded into co-occurrence statistics, lost on restart like the rest of the mock data
+ */
+export class EventRepository implements IEventRepository {
+    private readonly statistics = new CoOccurrenceStatistics();
+
+    /**
+     * Record events and fold them into the co-occurrence statistics
+     * @param events Events to record
+     */
+    async recordEvents(events: CatalogEvent[]): Promise<void> {
+        events.forEach((event) => this.statistics.record(event));
+    }
+
+    /**
+     * Get the products co-occurring with a product in enough sessions
+     * @param productId Product ID
+     * @param basis Events counted
+     * @returns Promise with the co-occurring products, highest score first
+     */
+    async getCoOccurrences(productId: string, basis: CoOccurrenceBasis): Promise<CoOccurrence[]> {
+        return this.statistics.related(productId, basis);
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * In-memory inventory repository
+ */
+
+import {
+    IInventoryRepository,
+    LowStockThreshold,
+    ThresholdTarget,
+    Warehouse,
+} from '../interfaces/inventory-interface.js';
+
+/**
+ * Warehouses from the mock data and thresholds kept in memory, lost on restart like the rest of the mock data
+ */
+export class InventoryRepository implements IInventoryRepository {
+    private readonly thresholds = new Map<string, LowStockThreshold>();
+
+    /**
+     * @param warehouses Warehouses in fulfilment order
+     */
+    constructor(private readonly warehouses: Warehouse[]) {}
+
+    /**
+     * Get every warehouse
+     * @returns Promise with the warehouses in fulfilment order, fastest shipping first
+     */
+    async getWarehouses(): Promise<Warehouse[]> {
+        return this.warehouses;
+    }
+
+    /**
+     * Get every low-stock threshold
+     * @returns Promise with the thresholds
+     */
+    async getThresholds(): Promise<LowStockThreshold[]> {
+        return [...this.thresholds.values()];
+    }
+
+    /**
+     * Get the low-stock threshold of a product or category
+     * @param targetType Kind of target
+     * @param targetId Product or category ID
+     * @returns Promise with the threshold or null if none is set
+     */
+    async getThreshold(targetType: ThresholdTarget, targetId: string): Promise<LowStockThreshold | null> {
+        return this.thresholds.get(`${targetType}:${targetId}`) ?? null;
+    }
+
+    /**
+     * Insert a low-stock threshold, or replace the threshold of the same target
+     * @param threshold Threshold to save
+     * @returns Promise with the saved threshold
+     */
+    async saveThreshold(threshold: LowStockThreshold): Promise<LowStockThreshold> {
+        this.thresholds.set(`${threshold.targetType}:${threshold.targetId}`, threshold);
+        return threshold;
+    }
+
+    /**
+     * Delete a low-stock threshold
+     * @param targetType Kind of target
+     * @param targetId Product or category ID
+     * @returns Promise with true if the threshold existed
+     */
+    async deleteThreshold(targetType: ThresholdTarget, targetId: string): Promise<boolean> {
+        return this.thresholds.delete(`${targetType}:${targetId}`);
+    }
+}
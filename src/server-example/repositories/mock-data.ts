@@ -1,4 +1,11 @@
 import type { Product, Category } from '../../types.js';
+import { Warehouse } from '../interfaces/inventory-interface.js';
+import {
+    CatalogGeneratorOptions,
+    DEFAULT_GENERATOR_OPTIONS,
+    generateProducts,
+    resolveCatalogSize,
+} from './catalog-generator.js';
 
 export const categories: Category[] = [
     {
@@ -363,206 +370,141 @@ export const categories: Category[] = [
     },
 ];
 
-// 1000+ realistic products generated for all categories and subcategories
-import { faker } from '@faker-js/faker';
+/**
+ * Warehouses holding the catalog stock, fastest shipping first
+ */
+export const warehouses: Warehouse[] = [
+    { id: 'us-east', name: 'Newark Fulfillment Center', region: 'US East', shippingDays: 1 },
+    { id: 'us-west', name: 'Reno Fulfillment Center', region: 'US West', shippingDays: 2 },
+    { id: 'eu-central', name: 'Frankfurt Distribution Hub', region: 'EU Central', shippingDays: 5 },
+];
 
-function generateProducts(): Product[] {
-    const categories = [
-        {
-            id: 'electronics',
-            sub: ['smartphones', 'laptops', 'tablets', 'audio'],
-        },
-        {
-            id: 'clothing',
-            sub: ['mens-clothing', 'womens-clothing', 'kids-clothing'],
-        },
-        { id: 'home', sub: ['appliances', 'cookware', 'decor'] },
-        { id: 'sports', sub: ['fitness', 'camping', 'cycling'] },
-        { id: 'beauty', sub: ['skincare', 'haircare', 'makeup'] },
-        { id: 'toys', sub: ['action-figures', 'puzzles', 'board-games'] },
-        { id: 'books', sub: ['fiction', 'non-fiction', 'children'] },
-        { id: 'automotive', sub: ['car-electronics', 'interior', 'exterior'] },
-        { id: 'grocery', sub: ['snacks', 'beverages', 'pantry'] },
-        { id: 'office', sub: ['stationery', 'furniture', 'organization'] },
-        { id: 'pets', sub: ['dog-supplies', 'cat-supplies', 'bird-supplies'] },
-    ];
-    const brands = [
-        'Apple',
-        'Samsung',
-        'Sony',
-        'LG',
-        'Nike',
-        'Adidas',
-        'StyleCo',
-        'FashionForward',
-        'KitchenPro',
-        'FitGear',
-        'BookWorld',
-        'AutoPlus',
-        'Snacky',
-        'OfficeMate',
-        'PetPal',
-    ];
-    const products: Product[] = [];
-    let idCounter = 1;
-    for (const cat of categories) {
-        for (const sub of cat.sub) {
-            for (let i = 0; i < 30; i++) {
-                const brand = faker.helpers.arrayElement(brands);
-                const name = faker.commerce.productName();
-                const price = Number(faker.commerce.price({ min: 10, max: 2000 }));
-                const inStock = faker.datatype.boolean();
-                const stockQuantity = inStock ? faker.number.int({ min: 1, max: 200 }) : 0;
-                const images = [faker.image.urlPicsumPhotos(), faker.image.urlPicsumPhotos()];
-                const attributes = {
-                    color: faker.color.human(),
-                    size: faker.helpers.arrayElement(['Small', 'Medium', 'Large', 'XL', 'One Size']),
-                    material: faker.commerce.productMaterial(),
-                };
-                const rating = Number(
-                    faker.number.float({
-                        min: 3.0,
-                        max: 5.0,
-                        fractionDigits: 1,
-                    }),
-                );
-                const reviewCount = faker.number.int({ min: 0, max: 2000 });
-                const tags = [cat.id, sub, brand.toLowerCase()];
-                const createdAt = faker.date.past({ years: 2 }).toISOString();
-                const updatedAt = faker.date.recent({ days: 60 }).toISOString();
-                products.push({
-                    id: `prod-${idCounter++}`,
-                    name,
-                    description: faker.commerce.productDescription(),
-                    price,
-                    currency: 'USD',
-                    category: cat.id,
-                    subcategory: sub,
-                    brand,
-                    sku: faker.string.alphanumeric({
-                        length: 10,
-                        casing: 'upper',
-                    }),
-                    inStock,
-                    stockQuantity,
-                    images,
-                    attributes,
-                    rating,
-                    reviewCount,
-                    tags,
-                    createdAt,
-                    updatedAt,
-                });
-            }
-        }
-    }
-    // Add a few special products (originals)
-    products.push(
-        {
-            id: 'iphone-15-pro',
-            name: 'iPhone 15 Pro',
-            description: 'Latest Apple smartphone with A17 Pro chip and titanium design',
-            price: 999,
-            currency: 'USD',
-            category: 'electronics',
-            subcategory: 'smartphones',
-            brand: 'Apple',
-            sku: 'IPHONE15PRO256',
-            inStock: true,
-            stockQuantity: 50,
-            images: ['https://example.com/iphone15pro-1.jpg', 'https://example.com/iphone15pro-2.jpg'],
-            attributes: {
-                storage: '256GB',
-                color: 'Natural Titanium',
-                display: '6.1-inch Super Retina XDR',
-                camera: '48MP Main + 12MP Ultra Wide + 12MP Telephoto',
-            },
-            rating: 4.8,
-            reviewCount: 1247,
-            tags: ['smartphone', 'apple', 'premium', 'new'],
-            createdAt: '2024-09-22T10:00:00Z',
-            updatedAt: '2024-12-15T14:30:00Z',
+/**
+ * Hand-written products added to every generated catalog
+ */
+const featuredProducts: Product[] = [
+    {
+        id: 'iphone-15-pro',
+        name: 'iPhone 15 Pro',
+        description: 'Latest Apple smartphone with A17 Pro chip and titanium design',
+        price: 999,
+        currency: 'USD',
+        category: 'electronics',
+        subcategory: 'smartphones',
+        brand: 'Apple',
+        sku: 'IPHONE15PRO256',
+        inStock: true,
+        stockQuantity: 50,
+        images: ['https://example.com/iphone15pro-1.jpg', 'https://example.com/iphone15pro-2.jpg'],
+        attributes: {
+            storage: '256GB',
+            color: 'Natural Titanium',
+            display: '6.1-inch Super Retina XDR',
+            camera: '48MP Main + 12MP Ultra Wide + 12MP Telephoto',
         },
-        {
-            id: 'macbook-pro-m3',
-            name: 'MacBook Pro 14-inch M3',
-            description: 'Powerful laptop with M3 chip for professional workflows',
-            price: 1599,
-            currency: 'USD',
-            category: 'electronics',
-            subcategory: 'laptops',
-            brand: 'Apple',
-            sku: 'MBP14M3512',
-            inStock: true,
-            stockQuantity: 25,
-            images: ['https://example.com/macbook-pro-m3-1.jpg', 'https://example.com/macbook-pro-m3-2.jpg'],
-            attributes: {
-                processor: 'Apple M3',
-                memory: '8GB',
-                storage: '512GB SSD',
-                display: '14.2-inch Liquid Retina XDR',
-                battery: 'Up to 22 hours',
-            },
-            rating: 4.9,
-            reviewCount: 892,
-            tags: ['laptop', 'apple', 'professional', 'm3'],
-            createdAt: '2023-10-30T10:00:00Z',
-            updatedAt: '2024-12-10T09:15:00Z',
+        rating: 4.8,
+        reviewCount: 1247,
+        tags: ['smartphone', 'apple', 'premium', 'new'],
+        createdAt: '2024-09-22T10:00:00Z',
+        updatedAt: '2024-12-15T14:30:00Z',
+    },
+    {
+        id: 'macbook-pro-m3',
+        name: 'MacBook Pro 14-inch M3',
+        description: 'Powerful laptop with M3 chip for professional workflows',
+        price: 1599,
+        currency: 'USD',
+        category: 'electronics',
+        subcategory: 'laptops',
+        brand: 'Apple',
+        sku: 'MBP14M3512',
+        inStock: true,
+        stockQuantity: 25,
+        images: ['https://example.com/macbook-pro-m3-1.jpg', 'https://example.com/macbook-pro-m3-2.jpg'],
+        attributes: {
+            processor: 'Apple M3',
+            memory: '8GB',
+            storage: '512GB SSD',
+            display: '14.2-inch Liquid Retina XDR',
+            battery: 'Up to 22 hours',
         },
-        {
-            id: 'mens-casual-shirt',
-            name: "Men's Casual Cotton Shirt",
-            description: 'Comfortable cotton shirt perfect for everyday wear',
-            price: 49.99,
-            currency: 'USD',
-            category: 'clothing',
-            subcategory: 'mens-clothing',
-            brand: 'StyleCo',
-            sku: 'MCCS001BLM',
-            inStock: true,
-            stockQuantity: 100,
-            images: ['https://example.com/mens-shirt-blue-1.jpg', 'https://example.com/mens-shirt-blue-2.jpg'],
-            attributes: {
-                material: '100% Cotton',
-                size: 'Medium',
-                color: 'Blue',
-                fit: 'Regular',
-                care: 'Machine washable',
-            },
-            rating: 4.3,
-            reviewCount: 156,
-            tags: ['shirt', 'casual', 'cotton', 'mens'],
-            createdAt: '2024-03-15T08:00:00Z',
-            updatedAt: '2024-12-01T16:45:00Z',
+        rating: 4.9,
+        reviewCount: 892,
+        tags: ['laptop', 'apple', 'professional', 'm3'],
+        createdAt: '2023-10-30T10:00:00Z',
+        updatedAt: '2024-12-10T09:15:00Z',
+    },
+    {
+        id: 'mens-casual-shirt',
+        name: "Men's Casual Cotton Shirt",
+        description: 'Comfortable cotton shirt perfect for everyday wear',
+        price: 49.99,
+        currency: 'USD',
+        category: 'clothing',
+        subcategory: 'mens-clothing',
+        brand: 'StyleCo',
+        sku: 'MCCS001BLM',
+        inStock: true,
+        stockQuantity: 100,
+        images: ['https://example.com/mens-shirt-blue-1.jpg', 'https://example.com/mens-shirt-blue-2.jpg'],
+        attributes: {
+            material: '100% Cotton',
+            size: 'Medium',
+            color: 'Blue',
+            fit: 'Regular',
+            care: 'Machine washable',
         },
-        {
-            id: 'womens-dress',
-            name: "Women's Summer Dress",
-            description: 'Elegant summer dress with floral pattern',
-            price: 79.99,
-            currency: 'USD',
-            category: 'clothing',
-            subcategory: 'womens-clothing',
-            brand: 'FashionForward',
-            sku: 'WSD001FLR',
-            inStock: false,
-            stockQuantity: 0,
-            images: ['https://example.com/womens-dress-floral-1.jpg', 'https://example.com/womens-dress-floral-2.jpg'],
-            attributes: {
-                material: 'Polyester blend',
-                size: 'Medium',
-                color: 'Floral print',
-                length: 'Midi',
-                neckline: 'V-neck',
-            },
-            rating: 4.6,
-            reviewCount: 203,
-            tags: ['dress', 'summer', 'floral', 'womens'],
-            createdAt: '2024-04-20T12:00:00Z',
-            updatedAt: '2024-12-14T11:20:00Z',
+        rating: 4.3,
+        reviewCount: 156,
+        tags: ['shirt', 'casual', 'cotton', 'mens'],
+        createdAt: '2024-03-15T08:00:00Z',
+        updatedAt: '2024-12-01T16:45:00Z',
+    },
+    {
+        id: 'womens-dress',
+        name: "Women's Summer Dress",
+        description: 'Elegant summer dress with floral pattern',
+        price: 79.99,
+        currency: 'USD',
+        category: 'clothing',
+        subcategory: 'womens-clothing',
+        brand: 'FashionForward',
+        sku: 'WSD001FLR',
+        inStock: false,
+        stockQuantity: 0,
+        images: ['https://example.com/womens-dress-floral-1.jpg', 'https://example.com/womens-dress-floral-2.jpg'],
+        attributes: {
+            material: 'Polyester blend',
+            size: 'Medium',
+            color: 'Floral print',
+            length: 'Midi',
+            neckline: 'V-neck',
         },
-    );
-    return products;
+        rating: 4.6,
+        reviewCount: 203,
+        tags: ['dress', 'summer', 'floral', 'womens'],
+        createdAt: '2024-04-20T12:00:00Z',
+        updatedAt: '2024-12-14T11:20:00Z',
+    },
+];
+
+/**
+ * Create the mock catalog: generated products followed by the featured ones
+ * @param options Generator settings
+ * @returns Categories and products
+ */
+export function createMockCatalog(options: Partial<CatalogGeneratorOptions> = {}): {
+    categories: Category[];
+    products: Product[];
+} {
+    return {
+        categories,
+        products: [...generateProducts(categories, options), ...featuredProducts.map((product) => ({ ...product }))],
+    };
 }
 
-export const products: Product[] = generateProducts();
+// Seeded, so every start serves the same catalog unless CATALOG_SEED or CATALOG_SIZE change
+export const products: Product[] = createMockCatalog({
+    seed: process.env.CATALOG_SEED ? Number(process.env.CATALOG_SEED) : DEFAULT_GENERATOR_OPTIONS.seed,
+    productCount: resolveCatalogSize(process.env.CATALOG_SIZE || 'medium'),
+}).products;
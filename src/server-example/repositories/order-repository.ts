@@ -0,0 +1,31 @@
+/**
+ * In-memory order repository
+ */
+
+import { IOrderRepository, Order } from '../interfaces/order-interface.js';
+
+/**
+ * Orders kept in memory, lost on restart like the rest of the mock data
+ */
+export class OrderRepository implements IOrderRepository {
+    private readonly orders = new Map<string, Order>();
+
+    /**
+     * Get an order by ID
+     * @param id Order ID
+     * @returns Promise with the order or null if not found
+     */
+    async getOrder(id: string): Promise<Order | null> {
+        return this.orders.get(id) ?? null;
+    }
+
+    /**
+     * Insert an order, or replace the order with the same ID
+     * @param order Order to save
+     * @returns Promise with the saved order
+     */
+    async saveOrder(order: Order): Promise<Order> {
+        this.orders.set(order.id, order);
+        return order;
+    }
+}
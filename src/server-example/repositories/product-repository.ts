@@ -2,6 +2,7 @@
  * Product repository implementation using mock data
  */
 
+import { StockRequest, StockReservation, Warehouse, WarehouseStock } from '../interfaces/inventory-interface.js';
 import {
     IProductRepository,
     Product,
@@ -11,14 +12,68 @@ import {
     PaginationMeta,
     SearchFacets,
     ProductAvailability,
+    ScoredProduct,
+    RecommendationOptions,
+    RecommendedProduct,
 } from '../interfaces/product-interface.js';
+import { isActiveReservation, toProductAvailability } from '../inventory/stock-availability.js';
+import { adjustStock, distributeStock, totalStock } from '../inventory/warehouse-stock.js';
+import { recommendSimilarProducts } from '../recommendations/content-recommender.js';
+import { DEFAULT_FUZZY_TOLERANCE, FuzzyTolerance } from '../search/fuzzy-matching.js';
+import { ProductSearchIndex, SearchHit } from '../search/product-search-index.js';
+import { applyFacetedFilters } from '../search/search-facets.js';
+import { compareProducts, sortSearchResults } from '../search/search-sorting.js';
+import { blendHits, SemanticSearchIndex } from '../search/semantic-search-index.js';
+import { boostHintedCategories, SynonymDictionary } from '../search/synonym-dictionary.js';
+
+/**
+ * Keep the products matching the filters
+ * @param products Products to filter
+ * @param filters Product filters, sorting is ignored
+ * @returns Matching products, in their original order
+ */
+function filterProducts(products: Product[], filters: ProductFilters): Product[] {
+    return products.filter(
+        (p) =>
+            (!filters.idPrefix || p.id.toLowerCase().startsWith(filters.idPrefix.toLowerCase())) &&
+            (!filters.category || p.category === filters.category || p.subcategory === filters.category) &&
+            (!filters.brand || p.brand.toLowerCase() === filters.brand.toLowerCase()) &&
+            (!filters.inStock || p.inStock) &&
+            (filters.minPrice === undefined || p.price >= filters.minPrice) &&
+            (filters.maxPrice === undefined || p.price <= filters.maxPrice),
+    );
+}
 
 /**
  * Mock data repository for products
  * Implements data access layer for product operations
  */
 export class ProductRepository implements IProductRepository {
-    constructor(private readonly products: Product[]) {}
+    private readonly searchIndex: ProductSearchIndex;
+    private readonly semanticIndex: SemanticSearchIndex;
+    /** Stock reservations of each order */
+    private readonly reservations = new Map<string, StockReservation[]>();
+    /** Stock of each product at each warehouse, in fulfilment order */
+    private readonly stock = new Map<string, WarehouseStock[]>();
+
+    /**
+     * @param products Catalog products, their stock split across the warehouses
+     * @param warehouses Warehouses in fulfilment order
+     * @param fuzzyTolerance Typos tolerated per query term by fuzzy search
+     * @param synonyms Synonyms and category hints applied to search queries
+     */
+    constructor(
+        private readonly products: Product[],
+        private readonly warehouses: Warehouse[],
+        fuzzyTolerance: FuzzyTolerance = DEFAULT_FUZZY_TOLERANCE,
+        private readonly synonyms: SynonymDictionary = new SynonymDictionary(),
+    ) {
+        this.searchIndex = new ProductSearchIndex(products, fuzzyTolerance);
+        this.semanticIndex = new SemanticSearchIndex(() => this.products);
+        for (const product of products) {
+            this.stock.set(product.id, distributeStock(product.id, product.stockQuantity, warehouses));
+        }
+    }
 
     /**
      * Get all products with optional filters and pagination
@@ -30,52 +85,14 @@ export class ProductRepository implements IProductRepository {
         filters: ProductFilters,
         pagination: PaginationParams,
     ): Promise<{ products: Product[]; meta: PaginationMeta }> {
-        let filteredProducts = [...this.products];
-
-        // Apply filters
-        if (filters.category) {
-            filteredProducts = filteredProducts.filter(
-                (p) => p.category === filters.category || p.subcategory === filters.category,
-            );
-        }
-
-        if (filters.brand) {
-            filteredProducts = filteredProducts.filter((p) => p.brand.toLowerCase() === filters.brand!.toLowerCase());
-        }
-
-        if (filters.inStock) {
-            filteredProducts = filteredProducts.filter((p) => p.inStock);
-        }
-
-        if (filters.minPrice !== undefined) {
-            filteredProducts = filteredProducts.filter((p) => p.price >= filters.minPrice!);
-        }
-
-        if (filters.maxPrice !== undefined) {
-            filteredProducts = filteredProducts.filter((p) => p.price <= filters.maxPrice!);
-        }
+        const filteredProducts = filterProducts(this.products, filters);
 
         // Apply sorting
         const sortBy = filters.sortBy || 'name';
         const sortOrder = filters.sortOrder || 'asc';
 
         filteredProducts.sort((a, b) => {
-            let comparison = 0;
-
-            switch (sortBy) {
-                case 'price':
-                    comparison = a.price - b.price;
-                    break;
-                case 'rating':
-                    comparison = a.rating - b.rating;
-                    break;
-                case 'created_at':
-                    comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-                    break;
-                default:
-                    comparison = a.name.toLowerCase().localeCompare(b.name.toLowerCase());
-            }
-
+            const comparison = compareProducts(a, b, sortBy);
             return sortOrder === 'desc' ? -comparison : comparison;
         });
 
@@ -101,58 +118,33 @@ export class ProductRepository implements IProductRepository {
      * Search products by query with filters and pagination
      * @param searchFilters Search filters including query
      * @param pagination Pagination parameters
-     * @returns Promise with search results, pagination, and facets
+     * @returns Promise with search results ranked by relevance, pagination, facets, and a spelling correction
      */
     async searchProducts(
         searchFilters: SearchFilters,
         pagination: PaginationParams,
-    ): Promise<{ products: Product[]; meta: PaginationMeta; facets: SearchFacets }> {
-        const query = searchFilters.query || '';
-
-        const searchResults = this.products.filter((product) => {
-            const matchesQuery =
-                query === '' ||
-                product.name.toLowerCase().includes(query.toLowerCase()) ||
-                product.description.toLowerCase().includes(query.toLowerCase()) ||
-                product.tags.some((tag) => tag.toLowerCase().includes(query.toLowerCase()));
-
-            const matchesCategory =
-                !searchFilters.category ||
-                product.category === searchFilters.category ||
-                product.subcategory === searchFilters.category;
-
-            return matchesQuery && matchesCategory;
-        });
-
-        // Sort by relevance (basic scoring)
-        if (query) {
-            searchResults.sort((a, b) => {
-                const aScore =
-                    (a.name.toLowerCase().includes(query.toLowerCase()) ? 2 : 0) +
-                    (a.description.toLowerCase().includes(query.toLowerCase()) ? 1 : 0);
-                const bScore =
-                    (b.name.toLowerCase().includes(query.toLowerCase()) ? 2 : 0) +
-                    (b.description.toLowerCase().includes(query.toLowerCase()) ? 1 : 0);
-                return bScore - aScore;
-            });
+    ): Promise<{ products: ScoredProduct[]; meta: PaginationMeta; facets: SearchFacets; didYouMean?: string }> {
+        let candidates: ScoredProduct[] = this.products;
+
+        if (searchFilters.query) {
+            const productsById = new Map(this.products.map((p) => [p.id, p]));
+            candidates = boostHintedCategories(
+                this.searchHits(searchFilters.query, searchFilters).map(({ id, score }) => ({
+                    ...productsById.get(id)!,
+                    score,
+                })),
+                this.synonyms.categoryHints(searchFilters.query),
+            );
         }
 
+        const { matches, facets } = applyFacetedFilters(candidates, searchFilters);
+        sortSearchResults(matches, searchFilters);
+
         // Pagination
-        const total = searchResults.length;
+        const total = matches.length;
         const totalPages = Math.ceil(total / pagination.limit);
         const offset = (pagination.page - 1) * pagination.limit;
-        const paginatedResults = searchResults.slice(offset, offset + pagination.limit);
-
-        // Generate facets for search results
-        const categoryFacets = [...new Set(searchResults.map((p) => p.category))].map((cat) => ({
-            value: cat,
-            count: searchResults.filter((p) => p.category === cat).length,
-        }));
-
-        const brandFacets = [...new Set(searchResults.map((p) => p.brand))].map((brand) => ({
-            value: brand,
-            count: searchResults.filter((p) => p.brand === brand).length,
-        }));
+        const paginatedResults = matches.slice(offset, offset + pagination.limit);
 
         const meta: PaginationMeta = {
             page: pagination.page,
@@ -163,12 +155,36 @@ export class ProductRepository implements IProductRepository {
             hasPrev: pagination.page > 1,
         };
 
-        const facets: SearchFacets = {
-            categories: categoryFacets,
-            brands: brandFacets,
+        return {
+            products: paginatedResults,
+            meta,
+            facets,
+            didYouMean: searchFilters.query
+                ? this.searchIndex.suggest(searchFilters.query, (term) => this.synonyms.has(term))
+                : undefined,
         };
+    }
+
+    /**
+     * Rank the products matching a query in the search mode
+     * @param query Free-text query
+     * @param searchFilters Search filters with the mode and typo tolerance
+     * @returns Matches, best first
+     */
+    private searchHits(query: string, { mode = 'keyword', fuzzy }: SearchFilters): SearchHit[] {
+        const keywordHits =
+            mode === 'semantic'
+                ? []
+                : this.searchIndex.search(query, { fuzzy, rewrite: (terms) => this.synonyms.rewrite(terms) });
+        if (mode === 'keyword') {
+            return keywordHits;
+        }
 
-        return { products: paginatedResults, meta, facets };
+        const semanticHits = this.semanticIndex.search(
+            query,
+            keywordHits.map(({ id }) => id),
+        );
+        return mode === 'hybrid' ? blendHits(keywordHits, semanticHits) : semanticHits;
     }
 
     /**
@@ -182,49 +198,233 @@ export class ProductRepository implements IProductRepository {
     }
 
     /**
-     * Get product recommendations based on a product
+     * Get the products most similar to a product, among those sharing its category or brand
      * @param productId Product ID
      * @param limit Number of recommendations
-     * @returns Promise with recommended products
+     * @param options Similarity weights and diversity
+     * @returns Promise with recommended products, most relevant first
      */
-    async getProductRecommendations(productId: string, limit: number): Promise<Product[]> {
+    async getProductRecommendations(
+        productId: string,
+        limit: number,
+        options: RecommendationOptions,
+    ): Promise<RecommendedProduct[]> {
         const product = await this.getProductById(productId);
         if (!product) {
             return [];
         }
 
-        const recommendations = this.products
-            .filter((p) => p.id !== productId && (p.category === product.category || p.brand === product.brand))
-            .sort((a, b) => b.rating - a.rating)
-            .slice(0, limit);
+        const candidates = this.products.filter((p) => p.category === product.category || p.brand === product.brand);
 
-        return recommendations;
+        return recommendSimilarProducts(product, candidates, limit, options);
     }
 
     /**
      * Get product availability information
      * @param productId Product ID
-     * @returns Promise with availability info or null if not found
+     * @param lowStockThreshold Available quantity up to which stock is limited, the default threshold if omitted
+     * @returns Promise with availability info, broken down per warehouse, or null if not found
      */
-    async getProductAvailability(productId: string): Promise<ProductAvailability | null> {
+    async getProductAvailability(productId: string, lowStockThreshold?: number): Promise<ProductAvailability | null> {
         const product = await this.getProductById(productId);
         if (!product) {
             return null;
         }
 
-        const availability: ProductAvailability = {
-            productId: product.id,
-            inStock: product.inStock,
-            stockQuantity: product.stockQuantity,
-            availability: product.inStock
-                ? product.stockQuantity > 10
-                    ? 'in_stock'
-                    : 'limited_stock'
-                : 'out_of_stock',
-            lastUpdated: new Date().toISOString(),
-        };
+        return toProductAvailability(
+            product,
+            this.warehouses,
+            this.stockOf(productId),
+            this.reservedQuantity(productId, Date.now()),
+            lowStockThreshold,
+        );
+    }
+
+    /**
+     * Set the stock of a product at a warehouse, the product's stock quantity becoming the total over warehouses
+     * @param productId Product ID
+     * @param warehouseId Warehouse ID, which must exist
+     * @param quantity New stock at the warehouse
+     * @returns Promise with the updated product or null if not found
+     * @throws Error if the stock would drop below the quantity reserved for orders
+     */
+    async setWarehouseStock(productId: string, warehouseId: string, quantity: number): Promise<Product | null> {
+        if (!this.products.some((p) => p.id === productId)) {
+            return null;
+        }
+
+        const current = this.stockOf(productId);
+        const levels = current.map((level) => (level.warehouseId === warehouseId ? { ...level, quantity } : level));
+        this.assertCoversReservations(productId, current, levels);
+        return this.saveStock(productId, levels, new Date().toISOString());
+    }
+
+    /**
+     * Hold stock for an order, all of its products or none
+     * @param orderId Order ID
+     * @param requests Quantity of each product, one request per product
+     * @param expiresAt When the holds expire, ISO date string
+     * @returns Promise with the held reservations
+     * @throws Error if a product does not exist or its available stock does not cover the quantity
+     */
+    async reserveStock(orderId: string, requests: StockRequest[], expiresAt: string): Promise<StockReservation[]> {
+        const now = Date.now();
+        this.pruneReservations(now);
+
+        // Every request is checked before any is held, without yielding in between, so concurrent orders
+        // cannot both take the last units
+        for (const { productId, quantity } of requests) {
+            const product = this.products.find((p) => p.id === productId);
+            if (!product) {
+                throw new Error(`Product not found: ${productId}`);
+            }
+            const available = Math.max(0, product.stockQuantity - this.reservedQuantity(productId, now));
+            if (quantity > available) {
+                throw new Error(`Insufficient stock for ${productId}: requested ${quantity}, available ${available}`);
+            }
+        }
+
+        const createdAt = new Date(now).toISOString();
+        const reservations = requests.map(
+            ({ productId, quantity }): StockReservation => ({
+                orderId,
+                productId,
+                quantity,
+                status: 'held',
+                expiresAt,
+                createdAt,
+            }),
+        );
+        this.reservations.set(orderId, reservations);
+
+        return reservations;
+    }
+
+    /**
+     * Turn the holds of an order into stock decrements
+     * @param orderId Order ID
+     * @returns Promise with the committed reservations
+     * @throws Error if a hold has expired, in which case nothing is committed
+     */
+    async commitReservations(orderId: string): Promise<StockReservation[]> {
+        const now = Date.now();
+        const reservations = this.reservations.get(orderId) ?? [];
+        const held = reservations.filter(({ status }) => status === 'held');
+        if (held.some((reservation) => !isActiveReservation(reservation, now))) {
+            throw new Error('Stock reservation expired');
+        }
+
+        const updatedAt = new Date(now).toISOString();
+        for (const { productId, quantity } of held) {
+            if (this.products.some((p) => p.id === productId)) {
+                this.saveStock(productId, adjustStock(this.stockOf(productId), -quantity), updatedAt);
+            }
+        }
+
+        return this.settleReservations(orderId, 'committed');
+    }
+
+    /**
+     * Give the stock held for an order back
+     * @param orderId Order ID
+     * @returns Promise with the released reservations
+     */
+    async releaseReservations(orderId: string): Promise<StockReservation[]> {
+        return this.settleReservations(orderId, 'released');
+    }
+
+    /**
+     * Get the stock of a product at each warehouse
+     * @param productId Product ID
+     * @returns Stock levels in fulfilment order, zero at every warehouse for an unknown product
+     */
+    private stockOf(productId: string): WarehouseStock[] {
+        return this.stock.get(productId) ?? this.warehouses.map(({ id }) => ({ warehouseId: id, quantity: 0 }));
+    }
+
+    /**
+     * Store new stock levels of a product and make its stock quantity their total
+     * @param productId ID of an existing product
+     * @param levels Stock at each warehouse
+     * @param updatedAt Time of the change, ISO date string
+     * @returns Updated product
+     */
+    private saveStock(productId: string, levels: WarehouseStock[], updatedAt: string): Product {
+        this.stock.set(productId, levels);
+
+        const index = this.products.findIndex((p) => p.id === productId);
+        const stockQuantity = totalStock(levels);
+        this.products[index] = { ...this.products[index], stockQuantity, inStock: stockQuantity > 0, updatedAt };
+        return this.products[index];
+    }
+
+    /**
+     * Ensure a stock change leaves enough units for the active holds, so confirming them cannot oversell
+     * Increases are always accepted.
+     * @param productId Product ID
+     * @param current Current stock levels
+     * @param levels New stock levels
+     * @throws Error if the new total stock decreases below the reserved quantity
+     */
+    private assertCoversReservations(productId: string, current: WarehouseStock[], levels: WarehouseStock[]): void {
+        const stockQuantity = totalStock(levels);
+        const reserved = this.reservedQuantity(productId, Date.now());
+        if (stockQuantity < totalStock(current) && stockQuantity < reserved) {
+            throw new Error(
+                `Stock below reserved quantity for ${productId}: requested ${stockQuantity}, reserved ${reserved}`,
+            );
+        }
+    }
+
+    /**
+     * Sum the quantities held for a product
+     * @param productId Product ID
+     * @param now Current time in milliseconds
+     * @returns Reserved quantity
+     */
+    private reservedQuantity(productId: string, now: number): number {
+        let reserved = 0;
+        for (const reservations of this.reservations.values()) {
+            for (const reservation of reservations) {
+                if (reservation.productId === productId && isActiveReservation(reservation, now)) {
+                    reserved += reservation.quantity;
+                }
+            }
+        }
+        return reserved;
+    }
+
+    /**
+     * Forget the orders whose reservations were all committed, released or left to expire, so the reserved
+     * quantities only sum active holds
+     * @param now Current time in milliseconds
+     */
+    private pruneReservations(now: number): void {
+        for (const [orderId, reservations] of this.reservations) {
+            if (!reservations.some((reservation) => isActiveReservation(reservation, now))) {
+                this.reservations.delete(orderId);
+            }
+        }
+    }
+
+    /**
+     * Close the held reservations of an order
+     * @param orderId Order ID
+     * @param status Final status
+     * @returns Closed reservations
+     */
+    private settleReservations(orderId: string, status: 'committed' | 'released'): StockReservation[] {
+        const settled: StockReservation[] = [];
+        const reservations = (this.reservations.get(orderId) ?? []).map((reservation) => {
+            if (reservation.status !== 'held') {
+                return reservation;
+            }
+            settled.push({ ...reservation, status });
+            return settled[settled.length - 1];
+        });
+        this.reservations.set(orderId, reservations);
 
-        return availability;
+        return settled;
     }
 
     /**
@@ -245,4 +445,69 @@ export class ProductRepository implements IProductRepository {
 
         return popularProducts.slice(0, limit);
     }
+
+    /**
+     * Get a product by SKU
+     * @param sku Stock keeping unit
+     * @returns Promise with product or null if not found
+     */
+    async getProductBySku(sku: string): Promise<Product | null> {
+        const product = this.products.find((p) => p.sku.toLowerCase() === sku.toLowerCase());
+        return product || null;
+    }
+
+    /**
+     * Store a new product
+     * @param product Complete product entity
+     * @returns Promise with the stored product
+     */
+    async createProduct(product: Product): Promise<Product> {
+        this.products.push(product);
+        this.stock.set(product.id, adjustStock(this.stockOf(product.id), product.stockQuantity));
+        this.searchIndex.add(product);
+        this.semanticIndex.add(product);
+        return product;
+    }
+
+    /**
+     * Replace an existing product, matched by ID
+     * @param product Complete product entity
+     * @returns Promise with the stored product or null if not found
+     * @throws Error if the stock would drop below the quantity reserved for orders
+     */
+    async updateProduct(product: Product): Promise<Product | null> {
+        const index = this.products.findIndex((p) => p.id === product.id);
+        if (index === -1) {
+            return null;
+        }
+
+        // A new total stock changes the first warehouses, see adjustStock
+        const current = this.stockOf(product.id);
+        const levels = adjustStock(current, product.stockQuantity - totalStock(current));
+        this.assertCoversReservations(product.id, current, levels);
+        this.stock.set(product.id, levels);
+
+        this.products[index] = product;
+        this.searchIndex.add(product);
+        this.semanticIndex.add(product);
+        return product;
+    }
+
+    /**
+     * Delete a product
+     * @param id Product ID
+     * @returns Promise with true if the product existed
+     */
+    async deleteProduct(id: string): Promise<boolean> {
+        const index = this.products.findIndex((p) => p.id === id);
+        if (index === -1) {
+            return false;
+        }
+
+        this.products.splice(index, 1);
+        this.stock.delete(id);
+        this.searchIndex.remove(id);
+        this.semanticIndex.remove(id);
+        return true;
+    }
 }
@@ -0,0 +1,85 @@
+/**
+ * Repository construction for the supported storage backends
+ */
+
+import { ICartRepository } from '../interfaces/cart-interface.js';
+import { ICategoryRepository } from '../interfaces/category-interface.js';
+import { IEventRepository } from '../interfaces/event-interface.js';
+import { IInventoryRepository } from '../interfaces/inventory-interface.js';
+import { IOrderRepository } from '../interfaces/order-interface.js';
+import { IProductRepository } from '../interfaces/product-interface.js';
+import { openCatalogDatabase } from '../database/catalog-database.js';
+import { DEFAULT_FUZZY_TOLERANCE, FuzzyTolerance } from '../search/fuzzy-matching.js';
+import { SynonymDictionary } from '../search/synonym-dictionary.js';
+import { CartRepository } from './cart-repository.js';
+import { CategoryRepository } from './category-repository.js';
+import { EventRepository } from './event-repository.js';
+import { InventoryRepository } from './inventory-repository.js';
+import { products, categories, warehouses } from './mock-data.js';
+import { OrderRepository } from './order-repository.js';
+import { ProductRepository } from './product-repository.js';
+import { SqliteCartRepository } from './sqlite-cart-repository.js';
+import { SqliteCategoryRepository } from './sqlite-category-repository.js';
+import { SqliteEventRepository } from './sqlite-event-repository.js';
+import { SqliteInventoryRepository } from './sqlite-inventory-repository.js';
+import { SqliteOrderRepository } from './sqlite-order-repository.js';
+import { SqliteProductRepository } from './sqlite-product-repository.js';
+
+/**
+ * Storage backend: `mock` keeps generated data in memory, `sqlite` persists it to a database file
+ */
+export type StorageType = 'mock' | 'sqlite';
+
+/**
+ * Repositories sharing one storage backend
+ */
+export interface Repositories {
+    productRepository: IProductRepository;
+    categoryRepository: ICategoryRepository;
+    eventRepository: IEventRepository;
+    cartRepository: ICartRepository;
+    orderRepository: IOrderRepository;
+    inventoryRepository: IInventoryRepository;
+}
+
+/**
+ * Create the repositories for a storage backend
+ * A new SQLite database is seeded with the mock data
+ * @param storage Storage backend
+ * @param databasePath SQLite database file, ignored for mock storage
+ * @param fuzzyTolerance Typos tolerated per query term by fuzzy product search
+ * @param synonyms Synonyms and category hints applied to product search queries
+ * @returns Product, category, event, cart, order and inventory repositories
+ * @throws Error if the storage backend is unknown
+ */
+export function createRepositories(
+    storage: string,
+    databasePath: string,
+    fuzzyTolerance: FuzzyTolerance = DEFAULT_FUZZY_TOLERANCE,
+    synonyms: SynonymDictionary = new SynonymDictionary(),
+): Repositories {
+    if (storage === 'mock') {
+        return {
+            productRepository: new ProductRepository(products, warehouses, fuzzyTolerance, synonyms),
+            categoryRepository: new CategoryRepository(categories, products),
+            eventRepository: new EventRepository(),
+            cartRepository: new CartRepository(),
+            orderRepository: new OrderRepository(),
+            inventoryRepository: new InventoryRepository(warehouses),
+        };
+    }
+
+    if (storage === 'sqlite') {
+        const db = openCatalogDatabase(databasePath, { categories, products, warehouses });
+        return {
+            productRepository: new SqliteProductRepository(db, fuzzyTolerance, synonyms),
+            categoryRepository: new SqliteCategoryRepository(db),
+            eventRepository: new SqliteEventRepository(db),
+            cartRepository: new SqliteCartRepository(db),
+            orderRepository: new SqliteOrderRepository(db),
+            inventoryRepository: new SqliteInventoryRepository(db),
+        };
+    }
+
+    throw new Error(`Unknown storage type: ${storage}, expected mock or sqlite`);
+}
@@ -0,0 +1,115 @@
+/**
+ * Cart repository implementation backed by SQLite
+ */
+
+import { Database } from 'bun:sqlite';
+
+import { CartItemRow, CartRow } from '../database/rows.js';
+import { CartLine, CartRecord, ICartRepository } from '../interfaces/cart-interface.js';
+
+/**
+ * SQLite repository for carts
+ * Lines live in `cart_items`, one row per product, in the order they were added
+ */
+export class SqliteCartRepository implements ICartRepository {
+    constructor(private readonly db: Database) {}
+
+    /**
+     * Get a cart by ID
+     * @param id Cart ID
+     * @returns Promise with the cart or null if not found
+     */
+    async getCart(id: string): Promise<CartRecord | null> {
+        const row = this.db.query<CartRow, [string]>('SELECT * FROM carts WHERE id = ?').get(id);
+        if (!row) {
+            return null;
+        }
+
+        return {
+            id: row.id,
+            lines: this.readLines(id),
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+
+    /**
+     * Insert a cart, or replace the cart with the same ID
+     * @param cart Cart to save
+     * @returns Promise with the saved cart
+     */
+    async saveCart(cart: CartRecord): Promise<CartRecord> {
+        this.db.transaction(() => this.writeCart(cart))();
+
+        return cart;
+    }
+
+    /**
+     * Replace a cart only if its lines are still the ones read
+     * The comparison and the write share an immediate transaction, so no other connection writes in between.
+     * @param current Cart as read before
+     * @param replacement Cart to save in its place
+     * @returns Promise with true if the cart was replaced, false if its lines changed since they were read
+     */
+    async replaceCartIfUnchanged(current: CartRecord, replacement: CartRecord): Promise<boolean> {
+        let replaced = false;
+
+        this.db
+            .transaction(() => {
+                const exists = this.db.query('SELECT 1 FROM carts WHERE id = ?').get(current.id);
+                if (!exists || JSON.stringify(this.readLines(current.id)) !== JSON.stringify(current.lines)) {
+                    return;
+                }
+                this.writeCart(replacement);
+                replaced = true;
+            })
+            .immediate();
+
+        return replaced;
+    }
+
+    /**
+     * Read the lines of a cart
+     * @param id Cart ID
+     * @returns Lines in the order they were added
+     */
+    private readLines(id: string): CartLine[] {
+        const items = this.db
+            .query<CartItemRow, [string]>('SELECT * FROM cart_items WHERE cart_id = ? ORDER BY position')
+            .all(id);
+
+        return items.map((item) => ({
+            productId: item.product_id,
+            quantity: item.quantity,
+            addedAt: item.added_at,
+        }));
+    }
+
+    /**
+     * Write a cart and its lines, within the caller's transaction
+     * @param cart Cart to save
+     */
+    private writeCart(cart: CartRecord): void {
+        const insertItem = this.db.query(
+            `INSERT INTO cart_items (cart_id, product_id, quantity, added_at, position)
+             VALUES ($cartId, $productId, $quantity, $addedAt, $position)`,
+        );
+
+        this.db
+            .query(
+                `INSERT INTO carts (id, created_at, updated_at) VALUES ($id, $createdAt, $updatedAt)
+                 ON CONFLICT (id) DO UPDATE SET updated_at = excluded.updated_at`,
+            )
+            .run({ id: cart.id, createdAt: cart.createdAt, updatedAt: cart.updatedAt });
+        this.db.query('DELETE FROM cart_items WHERE cart_id = ?').run(cart.id);
+        cart.lines.forEach((line, position) =>
+            insertItem.run({
+                cartId: cart.id,
+                productId: line.productId,
+                quantity: line.quantity,
+                addedAt: line.addedAt,
+                position,
+            }),
+        );
+    }
+}
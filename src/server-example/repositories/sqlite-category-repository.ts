@@ -0,0 +1,331 @@
+/**
+ * Category repository implementation backed by SQLite
+ */
+
+import { Database } from 'bun:sqlite';
+
+import { CategoryRow, ProductRow, SqlParams, toProduct } from '../database/rows.js';
+import {
+    ICategoryRepository,
+    Category,
+    CategoryDescendant,
+    CategoryInput,
+    CategoryUpdate,
+    PaginationMeta,
+    PriceRange,
+} from '../interfaces/category-interface.js';
+import { Product } from '../interfaces/product-interface.js';
+import { CategoryTree, withoutProductCounts, withProductCounts } from './category-tree.js';
+
+/**
+ * IDs of the category `$categoryId` and all its descendants
+ */
+const SUBTREE_CTE = `
+    WITH RECURSIVE subtree (id) AS (
+        SELECT id FROM categories WHERE id = $categoryId
+        UNION ALL
+        SELECT categories.id FROM categories JOIN subtree ON categories.parent_id = subtree.id
+    )`;
+
+/**
+ * Products whose most specific category lies in `subtree`
+ */
+const IN_SUBTREE = `
+    (subcategory IN (SELECT id FROM subtree)
+        OR (subcategory IS NULL AND category IN (SELECT id FROM subtree)))`;
+
+/**
+ * SQLite repository for categories
+ * The hierarchy is small and read as a whole; product queries over a subtree run in SQL
+ */
+export class SqliteCategoryRepository implements ICategoryRepository {
+    constructor(private readonly db: Database) {}
+
+    /**
+     * Get all categories or subcategories
+     * @param parentId Optional parent category ID, at any depth
+     * @param includeProductCount Whether to include product counts rolled up across descendants
+     * @returns Promise with categories
+     */
+    async getCategories(parentId?: string, includeProductCount = true): Promise<Category[]> {
+        const children = this.loadTree().children(parentId) ?? [];
+
+        if (!includeProductCount) {
+            return children.map(withoutProductCounts);
+        }
+
+        const directCounts = this.directProductCounts();
+        return children.map((category) => withProductCounts(category, directCounts));
+    }
+
+    /**
+     * Get a category by ID
+     * @param id Category ID, at any depth
+     * @param includeProductCount Whether to include product counts rolled up across descendants
+     * @returns Promise with category or null if not found
+     */
+    async getCategoryById(id: string, includeProductCount = true): Promise<Category | null> {
+        const category = this.loadTree().get(id);
+        if (!category) {
+            return null;
+        }
+
+        return includeProductCount
+            ? withProductCounts(category, this.directProductCounts())
+            : withoutProductCounts(category);
+    }
+
+    /**
+     * Get products in a category or any of its descendants with pagination
+     * @param categoryId Category ID
+     * @param page Page number
+     * @param limit Items per page
+     * @returns Promise with products and pagination
+     */
+    async getCategoryProducts(
+        categoryId: string,
+        page: number,
+        limit: number,
+    ): Promise<{ products: Product[]; meta: PaginationMeta }> {
+        const { total } = this.db
+            .query<
+                { total: number },
+                SqlParams
+            >(`${SUBTREE_CTE} SELECT COUNT(*) AS total FROM products WHERE ${IN_SUBTREE}`)
+            .get({ categoryId })!;
+        const rows = this.db
+            .query<
+                ProductRow,
+                SqlParams
+            >(`${SUBTREE_CTE} SELECT * FROM products WHERE ${IN_SUBTREE} ORDER BY rowid LIMIT $limit OFFSET $offset`)
+            .all({ categoryId, limit, offset: (page - 1) * limit });
+
+        const totalPages = Math.ceil(total / limit);
+        const meta: PaginationMeta = {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+        };
+
+        return { products: rows.map(toProduct), meta };
+    }
+
+    /**
+     * Get price range for products in a category or any of its descendants
+     * @param categoryId Category ID
+     * @returns Promise with price range or null if no products
+     */
+    async getCategoryPriceRange(categoryId: string): Promise<PriceRange | null> {
+        const range = this.db
+            .query<{ minPrice: number; maxPrice: number; averagePrice: number; productCount: number }, SqlParams>(
+                `${SUBTREE_CTE}
+                 SELECT MIN(price) AS minPrice, MAX(price) AS maxPrice, AVG(price) AS averagePrice,
+                     COUNT(*) AS productCount
+                 FROM products WHERE ${IN_SUBTREE}`,
+            )
+            .get({ categoryId })!;
+
+        if (range.productCount === 0) {
+            return null;
+        }
+
+        return {
+            categoryId,
+            minPrice: range.minPrice,
+            maxPrice: range.maxPrice,
+            averagePrice: Math.round(range.averagePrice * 100) / 100,
+            productCount: range.productCount,
+        };
+    }
+
+    /**
+     * Get the chain of categories from the root down to a category, at any depth
+     * @param id Category ID
+     * @returns Promise with the categories from root to the requested one, or null if not found
+     */
+    async getCategoryPath(id: string): Promise<Category[] | null> {
+        return this.loadTree().path(id) ?? null;
+    }
+
+    /**
+     * Get every category below a category, depth-first
+     * @param id Category ID
+     * @returns Promise with the descendants or null if not found
+     */
+    async getCategoryDescendants(id: string): Promise<CategoryDescendant[] | null> {
+        const descendants = this.loadTree().descendants(id);
+        if (!descendants) {
+            return null;
+        }
+
+        const directCounts = this.directProductCounts();
+        return descendants.map(({ category, depth }) => ({
+            id: category.id,
+            name: category.name,
+            description: category.description,
+            parentId: category.parentId,
+            productCount: withProductCounts(category, directCounts).productCount,
+            depth,
+        }));
+    }
+
+    /**
+     * Insert a category under its parent, or at the root when it has none
+     * @param input Category fields
+     * @returns Promise with the created category
+     */
+    async createCategory(input: CategoryInput): Promise<Category> {
+        this.db
+            .query(
+                `INSERT INTO categories (id, name, description, parent_id, position)
+                 VALUES ($id, $name, $description, $parentId, (
+                     SELECT COALESCE(MAX(position) + 1, 0) FROM categories WHERE parent_id IS $parentId
+                 ))`,
+            )
+            .run({ id: input.id, name: input.name, description: input.description, parentId: input.parentId ?? null });
+
+        return { ...input, subcategories: [], productCount: 0 };
+    }
+
+    /**
+     * Change the name or description of a category
+     * @param id Category ID
+     * @param changes Fields to change
+     * @returns Promise with the updated category or null if not found
+     */
+    async updateCategory(id: string, changes: CategoryUpdate): Promise<Category | null> {
+        const { changes: updated } = this.db
+            .query(
+                `UPDATE categories SET name = COALESCE($name, name), description = COALESCE($description, description)
+                 WHERE id = $id`,
+            )
+            .run({ id, name: changes.name ?? null, description: changes.description ?? null });
+
+        return updated > 0 ? this.getCategoryById(id) : null;
+    }
+
+    /**
+     * Move a category with its subtree under another parent, or to the root
+     * Products assigned to the subtree get their `category` and `subcategory` realigned
+     * @param id Category ID
+     * @param parentId New parent ID, undefined for the root
+     * @returns Promise with the moved category or null if not found
+     */
+    async moveCategory(id: string, parentId?: string): Promise<Category | null> {
+        // Moving the in-memory tree first validates the new parent and yields the new root
+        const tree = this.loadTree();
+        if (!tree.move(id, parentId)) {
+            return null;
+        }
+        const rootId = tree.path(id)![0].id;
+
+        this.db.transaction(() => {
+            this.db
+                .query(
+                    `UPDATE categories SET parent_id = $parentId, position = (
+                         SELECT COALESCE(MAX(position) + 1, 0) FROM categories WHERE parent_id IS $parentId
+                     )
+                     WHERE id = $categoryId`,
+                )
+                .run({ categoryId: id, parentId: parentId ?? null });
+
+            this.db
+                .query(
+                    `${SUBTREE_CTE}
+                     UPDATE products SET
+                         category = $rootId,
+                         subcategory = CASE WHEN COALESCE(subcategory, category) = $rootId
+                             THEN NULL ELSE COALESCE(subcategory, category) END,
+                         updated_at = $now
+                     WHERE ${IN_SUBTREE}`,
+                )
+                .run({ categoryId: id, rootId, now: new Date().toISOString() });
+        })();
+
+        return this.getCategoryById(id);
+    }
+
+    /**
+     * Assign the products of one category to another
+     * @param fromId Category the products are taken from
+     * @param toId Category the products are moved to
+     * @returns Promise with the number of reassigned products
+     */
+    async reassignProducts(fromId: string, toId: string): Promise<number> {
+        const path = this.loadTree().path(toId)!;
+
+        const { changes } = this.db
+            .query(
+                `UPDATE products SET category = $rootId, subcategory = $subcategoryId, updated_at = $now
+                 WHERE COALESCE(subcategory, category) = $fromId`,
+            )
+            .run({
+                fromId,
+                rootId: path[0].id,
+                subcategoryId: path.length > 1 ? toId : null,
+                now: new Date().toISOString(),
+            });
+
+        return changes;
+    }
+
+    /**
+     * Delete a category
+     * @param id Category ID
+     * @returns Promise with true if the category existed
+     */
+    async deleteCategory(id: string): Promise<boolean> {
+        const { changes } = this.db.query('DELETE FROM categories WHERE id = $id').run({ id });
+        return changes > 0;
+    }
+
+    /**
+     * Read the whole category hierarchy
+     * @returns Indexed tree built from the `categories` table
+     */
+    private loadTree(): CategoryTree {
+        const rows = this.db
+            .query<CategoryRow, []>('SELECT * FROM categories ORDER BY parent_id NULLS FIRST, position')
+            .all();
+
+        const categories = new Map<string, Category>(
+            rows.map((row) => [
+                row.id,
+                {
+                    id: row.id,
+                    name: row.name,
+                    description: row.description,
+                    ...(row.parent_id !== null && { parentId: row.parent_id }),
+                    subcategories: [],
+                },
+            ]),
+        );
+
+        const roots: Category[] = [];
+        for (const row of rows) {
+            const category = categories.get(row.id)!;
+            const siblings = row.parent_id === null ? roots : categories.get(row.parent_id)?.subcategories;
+            siblings?.push(category);
+        }
+
+        return new CategoryTree(roots);
+    }
+
+    /**
+     * Count the products assigned to each category, its most specific one being `subcategory` when set
+     * @returns Product count per category ID, descendants excluded
+     */
+    private directProductCounts(): Map<string, number> {
+        const rows = this.db
+            .query<
+                { id: string; count: number },
+                []
+            >('SELECT COALESCE(subcategory, category) AS id, COUNT(*) AS count FROM products GROUP BY 1')
+            .all();
+
+        return new Map(rows.map(({ id, count }) => [id, count]));
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * Event repository implementation backed by SQLite
+ */
+
+import { Database } from 'bun:sqlite';
+
+import { EventRow } from '../database/rows.js';
+import {
+    CatalogEvent,
+    CoOccurrence,
+    CoOccurrenceBasis,
+    EventType,
+    IEventRepository,
+} from '../interfaces/event-interface.js';
+import { CoOccurrenceStatistics } from '../recommendations/co-occurrence-statistics.js';
+
+/** Most recent events replayed on startup, so startup time does not grow with the event history */
+const MAX_REPLAYED_EVENTS = 200_000;
+
+/**
+ * SQLite repository for events
+ * Events are appended to the `events` table and the co-occurrence statistics are rebuilt from the most recent ones
+ * on startup
+ */
+export class SqliteEventRepository implements IEventRepository {
+    private readonly statistics = new CoOccurrenceStatistics();
+
+    /**
+     * Replay the most recent stored events into the statistics, oldest first
+     * @param db Open catalog database
+     */
+    constructor(private readonly db: Database) {
+        const recentEvents = `SELECT type, product_id, session_id FROM (
+                                  SELECT rowid, type, product_id, session_id FROM events ORDER BY rowid DESC LIMIT ?
+                              ) ORDER BY rowid`;
+        const rows = this.db
+            .query<Pick<EventRow, 'type' | 'product_id' | 'session_id'>, [number]>(recentEvents)
+            .iterate(MAX_REPLAYED_EVENTS);
+
+        for (const row of rows) {
+            this.statistics.record({
+                type: row.type as EventType,
+                productId: row.product_id,
+                sessionId: row.session_id,
+            });
+        }
+    }
+
+    /**
+     * Record events and fold them into the co-occurrence statistics
+     * @param events Events to record
+     */
+    async recordEvents(events: CatalogEvent[]): Promise<void> {
+        const insert = this.db.query(
+            `INSERT INTO events (id, type, product_id, session_id, timestamp)
+             VALUES ($id, $type, $productId, $sessionId, $timestamp)`,
+        );
+
+        this.db.transaction(() => {
+            events.forEach(({ id, type, productId, sessionId, timestamp }) =>
+                insert.run({ id, type, productId, sessionId, timestamp }),
+            );
+        })();
+
+        events.forEach((event) => this.statistics.record(event));
+    }
+
+    /**
+     * Get the products co-occurring with a product in enough sessions
+     * @param productId Product ID
+     * @param basis Events counted
+     * @returns Promise with the co-occurring products, highest score first
+     */
+    async getCoOccurrences(productId: string, basis: CoOccurrenceBasis): Promise<CoOccurrence[]> {
+        return this.statistics.related(productId, basis);
+    }
+}
@@ -0,0 +1,96 @@
+/**
+ * Inventory repository implementation backed by SQLite
+ */
+
+import { Database } from 'bun:sqlite';
+
+import { SqlParams, StockThresholdRow, toWarehouse, WarehouseRow } from '../database/rows.js';
+import {
+    IInventoryRepository,
+    LowStockThreshold,
+    ThresholdTarget,
+    Warehouse,
+} from '../interfaces/inventory-interface.js';
+
+/**
+ * Convert a threshold row to a low-stock threshold
+ * @param row Database row
+ * @returns Low-stock threshold
+ */
+function toThreshold(row: StockThresholdRow): LowStockThreshold {
+    return { targetType: row.target_type as ThresholdTarget, targetId: row.target_id, threshold: row.threshold };
+}
+
+/**
+ * SQLite repository for warehouses and low-stock thresholds
+ */
+export class SqliteInventoryRepository implements IInventoryRepository {
+    constructor(private readonly db: Database) {}
+
+    /**
+     * Get every warehouse
+     * @returns Promise with the warehouses in fulfilment order, fastest shipping first
+     */
+    async getWarehouses(): Promise<Warehouse[]> {
+        return this.db
+            .query<WarehouseRow, []>('SELECT * FROM warehouses ORDER BY shipping_days, id')
+            .all()
+            .map(toWarehouse);
+    }
+
+    /**
+     * Get every low-stock threshold
+     * @returns Promise with the thresholds
+     */
+    async getThresholds(): Promise<LowStockThreshold[]> {
+        return this.db
+            .query<StockThresholdRow, []>('SELECT * FROM stock_thresholds ORDER BY rowid')
+            .all()
+            .map(toThreshold);
+    }
+
+    /**
+     * Get the low-stock threshold of a product or category
+     * @param targetType Kind of target
+     * @param targetId Product or category ID
+     * @returns Promise with the threshold or null if none is set
+     */
+    async getThreshold(targetType: ThresholdTarget, targetId: string): Promise<LowStockThreshold | null> {
+        const row = this.db
+            .query<
+                StockThresholdRow,
+                SqlParams
+            >('SELECT * FROM stock_thresholds WHERE target_type = $targetType AND target_id = $targetId')
+            .get({ targetType, targetId });
+        return row ? toThreshold(row) : null;
+    }
+
+    /**
+     * Insert a low-stock threshold, or replace the threshold of the same target
+     * @param threshold Threshold to save
+     * @returns Promise with the saved threshold
+     */
+    async saveThreshold(threshold: LowStockThreshold): Promise<LowStockThreshold> {
+        this.db
+            .query(
+                `INSERT INTO stock_thresholds (target_type, target_id, threshold)
+                 VALUES ($targetType, $targetId, $threshold)
+                 ON CONFLICT (target_type, target_id) DO UPDATE SET threshold = excluded.threshold`,
+            )
+            .run({ ...threshold });
+        return threshold;
+    }
+
+    /**
+     * Delete a low-stock threshold
+     * @param targetType Kind of target
+     * @param targetId Product or category ID
+     * @returns Promise with true if the threshold existed
+     */
+    async deleteThreshold(targetType: ThresholdTarget, targetId: string): Promise<boolean> {
+        const { changes } = this.db
+            .query('DELETE FROM stock_thresholds WHERE target_type = $targetType AND target_id = $targetId')
+            .run({ targetType, targetId });
+        return changes > 0;
+    }
+}
@@ -0,0 +1,71 @@
+/**
+ * Order repository implementation backed by SQLite
+ */
+
+import { Database } from 'bun:sqlite';
+
+import { OrderRow } from '../database/rows.js';
+import { IOrderRepository, Order, OrderStatus } from '../interfaces/order-interface.js';
+
+/**
+ * SQLite repository for orders
+ * Items never change once an order is placed and are stored as JSON
+ */
+export class SqliteOrderRepository implements IOrderRepository {
+    constructor(private readonly db: Database) {}
+
+    /**
+     * Get an order by ID
+     * @param id Order ID
+     * @returns Promise with the order or null if not found
+     */
+    async getOrder(id: string): Promise<Order | null> {
+        const row = this.db.query<OrderRow, [string]>('SELECT * FROM orders WHERE id = ?').get(id);
+        if (!row) {
+            return null;
+        }
+
+        const items: Order['items'] = JSON.parse(row.items);
+        return {
+            id: row.id,
+            cartId: row.cart_id,
+            status: row.status as OrderStatus,
+            items,
+            itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+            subtotal: row.subtotal,
+            currency: row.currency,
+            reservationExpiresAt: row.reservation_expires_at,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+
+    /**
+     * Insert an order, or replace the order with the same ID
+     * @param order Order to save
+     * @returns Promise with the saved order
+     */
+    async saveOrder(order: Order): Promise<Order> {
+        this.db
+            .query(
+                `INSERT INTO orders (id, cart_id, status, items, subtotal, currency, reservation_expires_at,
+                     created_at, updated_at)
+                 VALUES ($id, $cartId, $status, $items, $subtotal, $currency, $reservationExpiresAt, $createdAt,
+                     $updatedAt)
+                 ON CONFLICT (id) DO UPDATE SET status = excluded.status, updated_at = excluded.updated_at`,
+            )
+            .run({
+                id: order.id,
+                cartId: order.cartId,
+                status: order.status,
+                items: JSON.stringify(order.items),
+                subtotal: order.subtotal,
+                currency: order.currency,
+                reservationExpiresAt: order.reservationExpiresAt,
+                createdAt: order.createdAt,
+                updatedAt: order.updatedAt,
+            });
+
+        return order;
+    }
+}
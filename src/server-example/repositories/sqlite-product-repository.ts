@@ -0,0 +1,674 @@
+/**
+ * Product repository implementation backed by SQLite
+ */
+
+import { Database } from 'bun:sqlite';
+
+import {
+    INSERT_PRODUCT_SQL,
+    ProductRow,
+    SqlParams,
+    StockReservationRow,
+    toProduct,
+    toProductRow,
+    toWarehouse,
+    WarehouseRow,
+    WarehouseStockRow,
+} from '../database/rows.js';
+import { countFacets, searchConditions, whereClause } from '../database/search-queries.js';
+import {
+    ReservationStatus,
+    StockRequest,
+    StockReservation,
+    Warehouse,
+    WarehouseStock,
+} from '../interfaces/inventory-interface.js';
+import {
+    IProductRepository,
+    Product,
+    ProductFilters,
+    SearchFilters,
+    PaginationParams,
+    PaginationMeta,
+    SearchFacets,
+    ProductAvailability,
+    ScoredProduct,
+    RecommendationOptions,
+    RecommendedProduct,
+} from '../interfaces/product-interface.js';
+import { toProductAvailability } from '../inventory/stock-availability.js';
+import { adjustStock, totalStock } from '../inventory/warehouse-stock.js';
+import { recommendSimilarProducts } from '../recommendations/content-recommender.js';
+import { DEFAULT_FUZZY_TOLERANCE, FuzzyTolerance } from '../search/fuzzy-matching.js';
+import { ProductSearchIndex, SearchHit } from '../search/product-search-index.js';
+import { applyFacetedFilters } from '../search/search-facets.js';
+import { sortSearchResults } from '../search/search-sorting.js';
+import { blendHits, SemanticSearchIndex } from '../search/semantic-search-index.js';
+import { boostHintedCategories, SynonymDictionary } from '../search/synonym-dictionary.js';
+
+const SORT_COLUMNS: Record<NonNullable<ProductFilters['sortBy']>, string> = {
+    name: 'name COLLATE NOCASE',
+    price: 'price',
+    rating: 'rating',
+    created_at: 'created_at',
+    id: 'id',
+};
+
+/**
+ * Build the pagination metadata of a result set
+ * @param pagination Requested page
+ * @param total Total number of matching rows
+ * @returns Pagination metadata
+ */
+function paginationMeta(pagination: PaginationParams, total: number): PaginationMeta {
+    const totalPages = Math.ceil(total / pagination.limit);
+
+    return {
+        page: pagination.page,
+        limit: pagination.limit,
+        total,
+        totalPages,
+        hasNext: pagination.page < totalPages,
+        hasPrev: pagination.page > 1,
+    };
+}
+
+/**
+ * Build the SQL conditions of product filters
+ * @param filters Product filters, sorting is ignored
+ * @returns Conditions to join with AND, and their parameters
+ */
+function filterConditions(filters: ProductFilters): { conditions: string[]; params: SqlParams } {
+    const conditions: string[] = [];
+    const params: SqlParams = {};
+
+    if (filters.idPrefix) {
+        conditions.push("id LIKE $idPrefix ESCAPE '\\'");
+        params.idPrefix = `${filters.idPrefix.replace(/[\\%_]/g, '\\$&')}%`;
+    }
+    if (filters.category) {
+        conditions.push('(category = $category OR subcategory = $category)');
+        params.category = filters.category;
+    }
+    if (filters.brand) {
+        conditions.push('brand = $brand COLLATE NOCASE');
+        params.brand = filters.brand;
+    }
+    if (filters.inStock) {
+        conditions.push('in_stock = 1');
+    }
+    if (filters.minPrice !== undefined) {
+        conditions.push('price >= $minPrice');
+        params.minPrice = filters.minPrice;
+    }
+    if (filters.maxPrice !== undefined) {
+        conditions.push('price <= $maxPrice');
+        params.maxPrice = filters.maxPrice;
+    }
+
+    return { conditions, params };
+}
+
+/**
+ * SQLite repository for products
+ * Filtering, sorting and pagination run in SQL
+ */
+export class SqliteProductRepository implements IProductRepository {
+    private readonly searchIndex: ProductSearchIndex;
+    private readonly semanticIndex: SemanticSearchIndex;
+
+    /**
+     * @param db Catalog database
+     * @param fuzzyTolerance Typos tolerated per query term by fuzzy search
+     * @param synonyms Synonyms and category hints applied to search queries
+     */
+    constructor(
+        private readonly db: Database,
+        fuzzyTolerance: FuzzyTolerance = DEFAULT_FUZZY_TOLERANCE,
+        private readonly synonyms: SynonymDictionary = new SynonymDictionary(),
+    ) {
+        this.searchIndex = new ProductSearchIndex(
+            db.query<ProductRow, []>('SELECT * FROM products').all().map(toProduct),
+            fuzzyTolerance,
+        );
+        this.semanticIndex = new SemanticSearchIndex(() =>
+            db.query<ProductRow, []>('SELECT * FROM products').all().map(toProduct),
+        );
+    }
+
+    /**
+     * Get all products with optional filters and pagination
+     * @param filters Product filters
+     * @param pagination Pagination parameters
+     * @returns Promise with products and pagination metadata
+     */
+    async getProducts(
+        filters: ProductFilters,
+        pagination: PaginationParams,
+    ): Promise<{ products: Product[]; meta: PaginationMeta }> {
+        const { conditions, params } = filterConditions(filters);
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const sortColumn = SORT_COLUMNS[filters.sortBy || 'name'] ?? SORT_COLUMNS.name;
+        const sortOrder = filters.sortOrder === 'desc' ? 'DESC' : 'ASC';
+
+        const { total } = this.db
+            .query<{ total: number }, SqlParams>(`SELECT COUNT(*) AS total FROM products ${where}`)
+            .get(params)!;
+        const rows = this.db
+            .query<ProductRow, SqlParams>(
+                `SELECT * FROM products ${where}
+                 ORDER BY ${sortColumn} ${sortOrder}, id
+                 LIMIT $limit OFFSET $offset`,
+            )
+            .all({ ...params, limit: pagination.limit, offset: (pagination.page - 1) * pagination.limit });
+
+        return { products: rows.map(toProduct), meta: paginationMeta(pagination, total) };
+    }
+
+    /**
+     * Search products by query with filters and pagination
+     * Without a query, filtering, sorting, pagination and facet counts run in SQL. Queries are ranked by the in-memory
+     * search index, only the matching rows are then read from SQLite to be filtered and counted.
+     * @param searchFilters Search filters including query
+     * @param pagination Pagination parameters
+     * @returns Promise with search results ranked by relevance, pagination, facets, and a spelling correction
+     */
+    async searchProducts(
+        searchFilters: SearchFilters,
+        pagination: PaginationParams,
+    ): Promise<{ products: ScoredProduct[]; meta: PaginationMeta; facets: SearchFacets; didYouMean?: string }> {
+        if (!searchFilters.query) {
+            return this.browseProducts(searchFilters, pagination);
+        }
+
+        const candidates = this.searchCandidates(searchFilters.query, searchFilters);
+        const { matches, facets } = applyFacetedFilters(candidates, searchFilters);
+        sortSearchResults(matches, searchFilters);
+
+        const offset = (pagination.page - 1) * pagination.limit;
+        return {
+            products: matches.slice(offset, offset + pagination.limit),
+            meta: paginationMeta(pagination, matches.length),
+            facets,
+            didYouMean: this.searchIndex.suggest(searchFilters.query, (term) => this.synonyms.has(term)),
+        };
+    }
+
+    /**
+     * Filter, sort and paginate the products of a search without a query
+     * Relevance keeps the catalog order.
+     * @param searchFilters Search filters
+     * @param pagination Pagination parameters
+     * @returns Products of the page, pagination and facets
+     */
+    private browseProducts(
+        searchFilters: SearchFilters,
+        pagination: PaginationParams,
+    ): { products: Product[]; meta: PaginationMeta; facets: SearchFacets } {
+        const conditions = searchConditions(searchFilters);
+        const { where, params } = whereClause(conditions);
+        const sortBy = searchFilters.sortBy || 'relevance';
+        const sortOrder = searchFilters.sortOrder === 'desc' ? 'DESC' : 'ASC';
+        const orderBy =
+            sortBy === 'relevance' ? 'rowid' : `${SORT_COLUMNS[sortBy] ?? SORT_COLUMNS.name} ${sortOrder}, rowid`;
+
+        const { total } = this.db
+            .query<{ total: number }, SqlParams>(`SELECT COUNT(*) AS total FROM products ${where}`)
+            .get(params)!;
+        const rows = this.db
+            .query<
+                ProductRow,
+                SqlParams
+            >(`SELECT * FROM products ${where} ORDER BY ${orderBy} LIMIT $limit OFFSET $offset`)
+            .all({ ...params, limit: pagination.limit, offset: (pagination.page - 1) * pagination.limit });
+
+        return {
+            products: rows.map(toProduct),
+            meta: paginationMeta(pagination, total),
+            facets: countFacets(this.db, conditions, searchFilters.priceBuckets),
+        };
+    }
+
+    /**
+     * Read the products matching a search query
+     * @param query Free-text query
+     * @param searchFilters Search filters with the mode and typo tolerance
+     * @returns Matches ranked in the search mode and by category hints
+     */
+    private searchCandidates(query: string, searchFilters: SearchFilters): ScoredProduct[] {
+        const hits = this.searchHits(query, searchFilters);
+        const rows = this.db
+            .query<ProductRow, SqlParams>('SELECT * FROM products WHERE id IN (SELECT value FROM json_each($ids))')
+            .all({ ids: JSON.stringify(hits.map(({ id }) => id)) });
+
+        const productsById = new Map(rows.map((row) => [row.id, toProduct(row)]));
+        return boostHintedCategories(
+            hits.filter(({ id }) => productsById.has(id)).map(({ id, score }) => ({ ...productsById.get(id)!, score })),
+            this.synonyms.categoryHints(query),
+        );
+    }
+
+    /**
+     * Rank the products matching a query in the search mode
+     * @param query Free-text query
+     * @param searchFilters Search filters with the mode and typo tolerance
+     * @returns Matches, best first
+     */
+    private searchHits(query: string, { mode = 'keyword', fuzzy }: SearchFilters): SearchHit[] {
+        const keywordHits =
+            mode === 'semantic'
+                ? []
+                : this.searchIndex.search(query, { fuzzy, rewrite: (terms) => this.synonyms.rewrite(terms) });
+        if (mode === 'keyword') {
+            return keywordHits;
+        }
+
+        const semanticHits = this.semanticIndex.search(
+            query,
+            keywordHits.map(({ id }) => id),
+        );
+        return mode === 'hybrid' ? blendHits(keywordHits, semanticHits) : semanticHits;
+    }
+
+    /**
+     * Get a product by ID
+     * @param id Product ID
+     * @returns Promise with product or null if not found
+     */
+    async getProductById(id: string): Promise<Product | null> {
+        const row = this.db.query<ProductRow, SqlParams>('SELECT * FROM products WHERE id = $id').get({ id });
+        return row ? toProduct(row) : null;
+    }
+
+    /**
+     * Get the products most similar to a product, among those sharing its category or brand
+     * @param productId Product ID
+     * @param limit Number of recommendations
+     * @param options Similarity weights and diversity
+     * @returns Promise with recommended products, most relevant first
+     */
+    async getProductRecommendations(
+        productId: string,
+        limit: number,
+        options: RecommendationOptions,
+    ): Promise<RecommendedProduct[]> {
+        const product = await this.getProductById(productId);
+        if (!product) {
+            return [];
+        }
+
+        const rows = this.db
+            .query<ProductRow, SqlParams>(
+                `SELECT * FROM products
+                 WHERE id != $id AND (category = $category OR brand = $brand)
+                 ORDER BY rowid`,
+            )
+            .all({ id: product.id, category: product.category, brand: product.brand });
+
+        return recommendSimilarProducts(product, rows.map(toProduct), limit, options);
+    }
+
+    /**
+     * Get product availability information
+     * @param productId Product ID
+     * @param lowStockThreshold Available quantity up to which stock is limited, the default threshold if omitted
+     * @returns Promise with availability info, broken down per warehouse, or null if not found
+     */
+    async getProductAvailability(productId: string, lowStockThreshold?: number): Promise<ProductAvailability | null> {
+        const product = await this.getProductById(productId);
+        if (!product) {
+            return null;
+        }
+
+        return toProductAvailability(
+            product,
+            this.warehouses(),
+            this.stockOf(productId),
+            this.reservedQuantity(productId, new Date().toISOString()),
+            lowStockThreshold,
+        );
+    }
+
+    /**
+     * Set the stock of a product at a warehouse, the product's stock quantity becoming the total over warehouses
+     * @param productId Product ID
+     * @param warehouseId Warehouse ID, which must exist
+     * @param quantity New stock at the warehouse
+     * @returns Promise with the updated product or null if not found
+     * @throws Error if the stock would drop below the quantity reserved for orders
+     */
+    async setWarehouseStock(productId: string, warehouseId: string, quantity: number): Promise<Product | null> {
+        let product: Product | null = null;
+        this.db
+            .transaction(() => {
+                const current = this.stockOf(productId);
+                const levels = current.map((level) =>
+                    level.warehouseId === warehouseId ? { ...level, quantity } : level,
+                );
+                this.assertCoversReservations(productId, current, levels);
+                product = this.saveStock(productId, levels, new Date().toISOString());
+            })
+            .immediate();
+
+        return product;
+    }
+
+    /**
+     * Hold stock for an order, all of its products or none
+     * @param orderId Order ID
+     * @param requests Quantity of each product, one request per product
+     * @param expiresAt When the holds expire, ISO date string
+     * @returns Promise with the held reservations
+     * @throws Error if a product does not exist or its available stock does not cover the quantity
+     */
+    async reserveStock(orderId: string, requests: StockRequest[], expiresAt: string): Promise<StockReservation[]> {
+        const createdAt = new Date().toISOString();
+        const stockOf = this.db.query<{ stock_quantity: number }, [string]>(
+            'SELECT stock_quantity FROM products WHERE id = ?',
+        );
+        const insert = this.db.query(
+            `INSERT INTO stock_reservations (order_id, product_id, quantity, status, expires_at, created_at)
+             VALUES ($orderId, $productId, $quantity, 'held', $expiresAt, $createdAt)`,
+        );
+
+        // Checks and holds share one write transaction, so concurrent orders cannot both take the last units
+        let reservations: StockReservation[] = [];
+        this.db
+            .transaction(() => {
+                reservations = requests.map(({ productId, quantity }): StockReservation => {
+                    const product = stockOf.get(productId);
+                    if (!product) {
+                        throw new Error(`Product not found: ${productId}`);
+                    }
+                    const available = Math.max(0, product.stock_quantity - this.reservedQuantity(productId, createdAt));
+                    if (quantity > available) {
+                        throw new Error(
+                            `Insufficient stock for ${productId}: requested ${quantity}, available ${available}`,
+                        );
+                    }
+
+                    insert.run({ orderId, productId, quantity, expiresAt, createdAt });
+                    return { orderId, productId, quantity, status: 'held', expiresAt, createdAt };
+                });
+            })
+            .immediate();
+
+        return reservations;
+    }
+
+    /**
+     * Turn the holds of an order into stock decrements
+     * @param orderId Order ID
+     * @returns Promise with the committed reservations
+     * @throws Error if a hold has expired, in which case nothing is committed
+     */
+    async commitReservations(orderId: string): Promise<StockReservation[]> {
+        const now = new Date().toISOString();
+
+        let committed: StockReservation[] = [];
+        this.db
+            .transaction(() => {
+                const held = this.heldReservations(orderId);
+                if (held.some(({ expiresAt }) => expiresAt <= now)) {
+                    throw new Error('Stock reservation expired');
+                }
+
+                // Products deleted since the order was placed have no stock left to decrement
+                held.forEach(({ productId, quantity }) =>
+                    this.saveStock(productId, adjustStock(this.stockOf(productId), -quantity), now),
+                );
+                committed = this.settleReservations(held, 'committed');
+            })
+            .immediate();
+
+        return committed;
+    }
+
+    /**
+     * Give the stock held for an order back
+     * @param orderId Order ID
+     * @returns Promise with the released reservations
+     */
+    async releaseReservations(orderId: string): Promise<StockReservation[]> {
+        let released: StockReservation[] = [];
+        this.db.transaction(() => {
+            released = this.settleReservations(this.heldReservations(orderId), 'released');
+        })();
+
+        return released;
+    }
+
+    /**
+     * Get the warehouses
+     * @returns Warehouses in fulfilment order
+     */
+    private warehouses(): Warehouse[] {
+        return this.db
+            .query<WarehouseRow, []>('SELECT * FROM warehouses ORDER BY shipping_days, id')
+            .all()
+            .map(toWarehouse);
+    }
+
+    /**
+     * Get the stock of a product at each warehouse
+     * @param productId Product ID
+     * @returns Stock levels in fulfilment order, zero at the warehouses without stock of the product
+     */
+    private stockOf(productId: string): WarehouseStock[] {
+        return this.db
+            .query<Pick<WarehouseStockRow, 'warehouse_id' | 'quantity'>, [string]>(
+                `SELECT w.id AS warehouse_id, COALESCE(s.quantity, 0) AS quantity
+                 FROM warehouses w LEFT JOIN warehouse_stock s ON s.warehouse_id = w.id AND s.product_id = ?
+                 ORDER BY w.shipping_days, w.id`,
+            )
+            .all(productId)
+            .map((row) => ({ warehouseId: row.warehouse_id, quantity: row.quantity }));
+    }
+
+    /**
+     * Store stock levels of a product
+     * @param productId Product ID
+     * @param levels Stock at each warehouse
+     */
+    private writeStock(productId: string, levels: WarehouseStock[]): void {
+        const upsert = this.db.query(
+            `INSERT INTO warehouse_stock (product_id, warehouse_id, quantity) VALUES ($productId, $warehouseId, $quantity)
+             ON CONFLICT (product_id, warehouse_id) DO UPDATE SET quantity = excluded.quantity`,
+        );
+        levels.forEach((level) => upsert.run({ productId, ...level }));
+    }
+
+    /**
+     * Store new stock levels of a product and make its stock quantity their total, within a transaction
+     * @param productId Product ID
+     * @param levels Stock at each warehouse
+     * @param updatedAt Time of the change, ISO date string
+     * @returns Updated product, or null if the product does not exist and nothing was stored
+     */
+    private saveStock(productId: string, levels: WarehouseStock[], updatedAt: string): Product | null {
+        const stockQuantity = totalStock(levels);
+        const row = this.db
+            .query<ProductRow, SqlParams>(
+                `UPDATE products SET stock_quantity = $stockQuantity, in_stock = $stockQuantity > 0,
+                     updated_at = $updatedAt
+                 WHERE id = $productId
+                 RETURNING *`,
+            )
+            .get({ productId, stockQuantity, updatedAt });
+        if (!row) {
+            return null;
+        }
+
+        this.writeStock(productId, levels);
+        return toProduct(row);
+    }
+
+    /**
+     * Ensure a stock change leaves enough units for the active holds, so confirming them cannot oversell
+     * Increases are always accepted.
+     * @param productId Product ID
+     * @param current Current stock levels
+     * @param levels New stock levels
+     * @throws Error if the new total stock decreases below the reserved quantity
+     */
+    private assertCoversReservations(productId: string, current: WarehouseStock[], levels: WarehouseStock[]): void {
+        const stockQuantity = totalStock(levels);
+        const reserved = this.reservedQuantity(productId, new Date().toISOString());
+        if (stockQuantity < totalStock(current) && stockQuantity < reserved) {
+            throw new Error(
+                `Stock below reserved quantity for ${productId}: requested ${stockQuantity}, reserved ${reserved}`,
+            );
+        }
+    }
+
+    /**
+     * Sum the quantities held for a product
+     * @param productId Product ID
+     * @param now Current time, ISO date string
+     * @returns Reserved quantity
+     */
+    private reservedQuantity(productId: string, now: string): number {
+        const { reserved } = this.db
+            .query<{ reserved: number }, SqlParams>(
+                `SELECT COALESCE(SUM(quantity), 0) AS reserved FROM stock_reservations
+                 WHERE product_id = $productId AND status = 'held' AND expires_at > $now`,
+            )
+            .get({ productId, now })!;
+        return reserved;
+    }
+
+    /**
+     * Get the held reservations of an order, expired or not
+     * @param orderId Order ID
+     * @returns Held reservations
+     */
+    private heldReservations(orderId: string): StockReservation[] {
+        return this.db
+            .query<StockReservationRow, [string]>(
+                `SELECT * FROM stock_reservations WHERE order_id = ? AND status = 'held' ORDER BY rowid`,
+            )
+            .all(orderId)
+            .map((row) => ({
+                orderId: row.order_id,
+                productId: row.product_id,
+                quantity: row.quantity,
+                status: row.status as ReservationStatus,
+                expiresAt: row.expires_at,
+                createdAt: row.created_at,
+            }));
+    }
+
+    /**
+     * Close held reservations
+     * @param held Held reservations of an order
+     * @param status Final status
+     * @returns Closed reservations
+     */
+    private settleReservations(held: StockReservation[], status: 'committed' | 'released'): StockReservation[] {
+        const update = this.db.query(
+            'UPDATE stock_reservations SET status = $status WHERE order_id = $orderId AND product_id = $productId',
+        );
+        held.forEach(({ orderId, productId }) => update.run({ status, orderId, productId }));
+
+        return held.map((reservation) => ({ ...reservation, status }));
+    }
+
+    /**
+     * Get popular products with optional category filter
+     * @param category Optional category filter
+     * @param limit Number of products to return
+     * @param minRating Minimum rating threshold
+     * @returns Promise with popular products
+     */
+    async getPopularProducts(category?: string, limit = 10, minRating = 4.0): Promise<Product[]> {
+        const categoryCondition = category ? 'AND (category = $category OR subcategory = $category)' : '';
+        const rows = this.db
+            .query<ProductRow, SqlParams>(
+                `SELECT * FROM products
+                 WHERE rating >= $minRating ${categoryCondition}
+                 ORDER BY rating * review_count DESC
+                 LIMIT $limit`,
+            )
+            .all({ minRating, limit, ...(category && { category }) });
+
+        return rows.map(toProduct);
+    }
+
+    /**
+     * Get a product by SKU
+     * @param sku Stock keeping unit
+     * @returns Promise with product or null if not found
+     */
+    async getProductBySku(sku: string): Promise<Product | null> {
+        const row = this.db
+            .query<ProductRow, SqlParams>('SELECT * FROM products WHERE sku = $sku COLLATE NOCASE')
+            .get({ sku });
+        return row ? toProduct(row) : null;
+    }
+
+    /**
+     * Store a new product
+     * @param product Complete product entity
+     * @returns Promise with the stored product
+     */
+    async createProduct(product: Product): Promise<Product> {
+        this.db.transaction(() => {
+            this.db.query(INSERT_PRODUCT_SQL).run({ ...toProductRow(product) });
+            this.writeStock(product.id, adjustStock(this.stockOf(product.id), product.stockQuantity));
+        })();
+        this.searchIndex.add(product);
+        this.semanticIndex.add(product);
+        return product;
+    }
+
+    /**
+     * Replace an existing product, matched by ID
+     * @param product Complete product entity
+     * @returns Promise with the stored product or null if not found
+     * @throws Error if the stock would drop below the quantity reserved for orders
+     */
+    async updateProduct(product: Product): Promise<Product | null> {
+        let changes = 0;
+        this.db.transaction(() => {
+            ({ changes } = this.db
+                .query(
+                    `UPDATE products SET name = $name, description = $description, price = $price, currency = $currency,
+                         category = $category, subcategory = $subcategory, brand = $brand, sku = $sku,
+                         in_stock = $in_stock, stock_quantity = $stock_quantity, images = $images,
+                         attributes = $attributes, rating = $rating, review_count = $review_count, tags = $tags,
+                         created_at = $created_at, updated_at = $updated_at
+                     WHERE id = $id`,
+                )
+                .run({ ...toProductRow(product) }));
+
+            if (changes > 0) {
+                // A new total stock changes the first warehouses, see adjustStock
+                const current = this.stockOf(product.id);
+                const levels = adjustStock(current, product.stockQuantity - totalStock(current));
+                this.assertCoversReservations(product.id, current, levels);
+                this.writeStock(product.id, levels);
+            }
+        })();
+
+        if (changes === 0) {
+            return null;
+        }
+
+        this.searchIndex.add(product);
+
+        this.semanticIndex.add(product);
+        return product;
+    }
+
+    /**
+     * Delete a product
+     * @param id Product ID
+     * @returns Promise with true if the product existed
+     */
+    async deleteProduct(id: string): Promise<boolean> {
+        const { changes } = this.db.query('DELETE FROM products WHERE id = $id').run({ id });
+        this.searchIndex.remove(id);
+        this.semanticIndex.remove(id);
+        return changes > 0;
+    }
+}
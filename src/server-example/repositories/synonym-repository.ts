@@ -0,0 +1,112 @@
+/**
+ * JSON file repository for search synonym rules
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import { ISynonymRepository, SynonymRule } from '../interfaces/synonym-interface.js';
+import { SynonymDictionary } from '../search/synonym-dictionary.js';
+import { synonymFileSchema } from '../validation/synonym-schemas.js';
+
+/**
+ * Synonym rules kept in memory and saved to a JSON file after every change
+ * The dictionary used by product search is recompiled with each change, so edits apply to the next search
+ */
+export class SynonymRepository implements ISynonymRepository {
+    private readonly rules = new Map<string, SynonymRule>();
+
+    /**
+     * Load the rules from the file, or from the default rules while the file does not exist
+     * @param dictionary Dictionary used by product search
+     * @param filePath JSON file holding the rules, created on the first change
+     * @param defaultRules Rules used without a file
+     * @throws Error if the file is not a valid list of rules
+     */
+    constructor(
+        private readonly dictionary: SynonymDictionary,
+        private readonly filePath: string,
+        defaultRules: SynonymRule[] = [],
+    ) {
+        const rules = existsSync(filePath) ? this.readFile() : defaultRules;
+        rules.forEach((rule) => this.rules.set(rule.id, rule));
+        this.dictionary.load([...this.rules.values()]);
+    }
+
+    /**
+     * Get every synonym rule
+     * @returns Promise with the rules in creation order
+     */
+    async getSynonyms(): Promise<SynonymRule[]> {
+        return [...this.rules.values()];
+    }
+
+    /**
+     * Get a synonym rule by ID
+     * @param id Rule ID
+     * @returns Promise with the rule or null if not found
+     */
+    async getSynonymById(id: string): Promise<SynonymRule | null> {
+        return this.rules.get(id) ?? null;
+    }
+
+    /**
+     * Insert a synonym rule, or replace the rule with the same ID
+     * @param rule Rule to save
+     * @returns Promise with the saved rule
+     */
+    async saveSynonym(rule: SynonymRule): Promise<SynonymRule> {
+        this.rules.set(rule.id, rule);
+        await this.commit();
+        return rule;
+    }
+
+    /**
+     * Delete a synonym rule
+     * @param id Rule ID
+     * @returns Promise with true if the rule existed
+     */
+    async deleteSynonym(id: string): Promise<boolean> {
+        if (!this.rules.delete(id)) {
+            return false;
+        }
+        await this.commit();
+        return true;
+    }
+
+    /**
+     * Parse the rules file
+     * @returns Rules from the file
+     * @throws Error if the file is not valid JSON or not a list of rules
+     */
+    private readFile(): SynonymRule[] {
+        let content: unknown;
+        try {
+            content = JSON.parse(readFileSync(this.filePath, 'utf8'));
+        } catch (error) {
+            throw new Error(`Invalid synonyms file ${this.filePath}: ${(error as Error).message}`);
+        }
+
+        const result = synonymFileSchema.safeParse(content);
+        if (!result.success) {
+            const [issue] = result.error.issues;
+            throw new Error(`Invalid synonyms file ${this.filePath}: ${issue.path.join('.')} ${issue.message}`);
+        }
+        return result.data;
+    }
+
+    /**
+     * Recompile the dictionary and save the rules
+     * The file is replaced atomically so a crash never leaves it half written
+     */
+    private async commit(): Promise<void> {
+        const rules = [...this.rules.values()];
+        this.dictionary.load(rules);
+
+        const temporaryPath = `${this.filePath}.tmp`;
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(temporaryPath, `${JSON.stringify(rules, null, 4)}\n`);
+        await rename(temporaryPath, this.filePath);
+    }
+}
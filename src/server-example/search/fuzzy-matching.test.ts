@@ -0,0 +1,34 @@
+import { describe, expect, test } from 'bun:test';
+
+import { DEFAULT_FUZZY_TOLERANCE, editDistance, maxEditsFor } from './fuzzy-matching.js';
+
+describe('maxEditsFor', () => {
+    test('longer terms tolerate more typos', () => {
+        expect(maxEditsFor('lamp', DEFAULT_FUZZY_TOLERANCE)).toBe(0);
+        expect(maxEditsFor('shirt', DEFAULT_FUZZY_TOLERANCE)).toBe(1);
+        expect(maxEditsFor('keyboard', DEFAULT_FUZZY_TOLERANCE)).toBe(1);
+        expect(maxEditsFor('headphone', DEFAULT_FUZZY_TOLERANCE)).toBe(2);
+        expect(maxEditsFor('lamp', { oneEditMinLength: 3, twoEditsMinLength: 4 })).toBe(2);
+    });
+});
+
+describe('editDistance', () => {
+    test('insertions, deletions and substitutions count one edit each', () => {
+        expect(editDistance('lamp', 'lamp', 2)).toBe(0);
+        expect(editDistance('lamp', 'lamps', 2)).toBe(1);
+        expect(editDistance('lamps', 'lamp', 2)).toBe(1);
+        expect(editDistance('lamp', 'limp', 2)).toBe(1);
+        expect(editDistance('kitten', 'sitting', 3)).toBe(3);
+    });
+
+    test('an adjacent transposition counts one edit', () => {
+        expect(editDistance('shirt', 'shrit', 2)).toBe(1);
+        expect(editDistance('shirt', 'hsirt', 2)).toBe(1);
+    });
+
+    test('distances past the maximum are reported as the maximum plus one', () => {
+        expect(editDistance('lamp', 'desk', 1)).toBe(2);
+        expect(editDistance('lamp', 'lampshade', 2)).toBe(3);
+        expect(editDistance('kitten', 'sitting', 2)).toBe(3);
+    });
+});
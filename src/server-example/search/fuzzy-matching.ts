@@ -0,0 +1,71 @@
+/**
+ * Edit distance and typo tolerance used by fuzzy search
+ */
+
+/**
+ * Number of typos tolerated in a query term, by term length
+ */
+export interface FuzzyTolerance {
+    /** Shortest term allowing one edit, shorter terms must match exactly */
+    oneEditMinLength: number;
+    /** Shortest term allowing two edits */
+    twoEditsMinLength: number;
+}
+
+export const DEFAULT_FUZZY_TOLERANCE: FuzzyTolerance = {
+    oneEditMinLength: 5,
+    twoEditsMinLength: 9,
+};
+
+/**
+ * Get the number of edits tolerated for a term
+ * @param term Query term
+ * @param tolerance Typo tolerance
+ * @returns Maximum edit distance, 0 for exact matching
+ */
+export function maxEditsFor(term: string, tolerance: FuzzyTolerance): number {
+    if (term.length >= tolerance.twoEditsMinLength) {
+        return 2;
+    }
+    return term.length >= tolerance.oneEditMinLength ? 1 : 0;
+}
+
+/**
+ * Compute the Damerau-Levenshtein distance between two strings, counting an adjacent transposition as one edit
+ * Gives up as soon as the distance is known to exceed the maximum
+ * @param a First string
+ * @param b Second string
+ * @param maxDistance Largest distance of interest
+ * @returns Edit distance, or `maxDistance + 1` if it is larger than `maxDistance`
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+    if (Math.abs(a.length - b.length) > maxDistance) {
+        return maxDistance + 1;
+    }
+
+    let previousRow: number[] = [];
+    let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const beforePreviousRow = previousRow;
+        previousRow = row;
+        row = [i];
+        let rowMinimum = i;
+
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let distance = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                distance = Math.min(distance, beforePreviousRow[j - 2] + 1);
+            }
+            row[j] = distance;
+            rowMinimum = Math.min(rowMinimum, distance);
+        }
+
+        if (rowMinimum > maxDistance) {
+            return maxDistance + 1;
+        }
+    }
+
+    return Math.min(row[b.length], maxDistance + 1);
+}
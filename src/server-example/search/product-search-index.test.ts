@@ -0,0 +1,214 @@
+import { describe, expect, test } from 'bun:test';
+
+import { Product } from '../interfaces/product-interface.js';
+import { ProductSearchIndex } from './product-search-index.js';
+
+/**
+ * Build a product with empty searchable fields
+ * @param id Product ID
+ * @param fields Fields to set
+ * @returns Product
+ */
+function product(id: string, fields: Partial<Product> = {}): Product {
+    return {
+        id,
+        name: '',
+        description: '',
+        price: 10,
+        currency: 'USD',
+        category: 'home',
+        brand: '',
+        sku: id.toUpperCase(),
+        inStock: true,
+        stockQuantity: 1,
+        images: [],
+        attributes: {},
+        rating: 0,
+        reviewCount: 0,
+        tags: [],
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        ...fields,
+    };
+}
+
+/**
+ * Search an index for the IDs of the matches
+ * @param index Search index
+ * @param query Free-text query
+ * @returns Matching product IDs, best first
+ */
+function ids(index: ProductSearchIndex, query: string): string[] {
+    return index.search(query).map(({ id }) => id);
+}
+
+describe('ProductSearchIndex', () => {
+    test('every query term must match', () => {
+        const index = new ProductSearchIndex([
+            product('desk-lamp', { name: 'Brass Desk Lamp' }),
+            product('floor-lamp', { name: 'Floor Lamp' }),
+            product('desk', { name: 'Oak Desk' }),
+        ]);
+
+        expect(ids(index, 'desk lamp')).toEqual(['desk-lamp']);
+        expect(ids(index, 'lamp').sort()).toEqual(['desk-lamp', 'floor-lamp']);
+        expect(ids(index, 'chair')).toEqual([]);
+    });
+
+    test('matches in boosted fields outrank matches in the description', () => {
+        const index = new ProductSearchIndex([
+            product('shade', { name: 'Linen Shade', description: 'Fits any lamp' }),
+            product('lamp', { name: 'Reading Lamp', description: 'Bright and warm light' }),
+            product('tagged', { name: 'Night Light', tags: ['lamp'] }),
+        ]);
+
+        expect(ids(index, 'lamp')).toEqual(['lamp', 'tagged', 'shade']);
+    });
+
+    test('rare terms weigh more than common ones', () => {
+        const index = new ProductSearchIndex([
+            product('brass', { name: 'Brass Lamp' }),
+            product('steel', { name: 'Steel Lamp' }),
+            product('glass', { name: 'Glass Lamp' }),
+            product('paper', { name: 'Paper Lamp' }),
+        ]);
+
+        const [rare] = index.search('brass');
+        const common = index.search('lamp').find(({ id }) => id === 'brass')!;
+
+        expect(rare.score).toBeGreaterThan(common.score * 4);
+    });
+
+    test('a term in a shorter field ranks higher', () => {
+        const index = new ProductSearchIndex([
+            product('long', { name: 'Lamp Adjustable Swing Arm Clamp' }),
+            product('short', { name: 'Lamp' }),
+            product('other', { name: 'Oak Desk' }),
+        ]);
+
+        expect(ids(index, 'lamp')).toEqual(['short', 'long']);
+    });
+
+    test('repeated terms add less and less to the score', () => {
+        const index = new ProductSearchIndex([
+            product('once', { description: 'lamp oak oak oak oak oak oak oak' }),
+            product('twice', { description: 'lamp lamp oak oak oak oak oak oak' }),
+            product('eight', { description: 'lamp lamp lamp lamp lamp lamp lamp lamp' }),
+            product('other', { description: 'desk' }),
+        ]);
+
+        const scores = Object.fromEntries(index.search('lamp').map(({ id, score }) => [id, score]));
+
+        expect(scores.twice).toBeGreaterThan(scores.once);
+        expect(scores.eight).toBeGreaterThan(scores.twice);
+        expect(scores.eight).toBeLessThan(scores.once * 4);
+    });
+
+    test('queries match inflected forms and ignore stop words', () => {
+        const index = new ProductSearchIndex([product('shoes', { name: 'Running Shoes' }), product('desk')]);
+
+        expect(ids(index, 'a shoe for the runs')).toEqual(['shoes']);
+        expect(index.search('the and for')).toEqual([]);
+    });
+
+    test('changed products are reindexed and removed ones are no longer found', () => {
+        const index = new ProductSearchIndex([
+            product('p1', { name: 'Desk Lamp' }),
+            product('p2', { name: 'Oak Desk' }),
+        ]);
+
+        index.add(product('p1', { name: 'Floor Lamp' }));
+
+        expect(ids(index, 'desk')).toEqual(['p2']);
+        expect(ids(index, 'floor')).toEqual(['p1']);
+        expect(index.size).toBe(2);
+
+        expect(index.remove('p2')).toBe(true);
+        expect(index.remove('p2')).toBe(false);
+        expect(ids(index, 'desk')).toEqual([]);
+        expect(index.size).toBe(1);
+    });
+
+    test('fuzzy searches match terms within the typo tolerance, exact matches first', () => {
+        const index = new ProductSearchIndex([
+            product('sneaker', { name: 'Canvas Sneaker' }),
+            product('speaker', { name: 'Bluetooth Speaker' }),
+            product('desk', { name: 'Oak Desk' }),
+        ]);
+
+        expect(ids(index, 'speaker')).toEqual(['speaker']);
+        expect(index.search('speaker', { fuzzy: true })).toEqual([
+            { id: 'speaker', score: expect.any(Number) },
+            { id: 'sneaker', score: expect.any(Number) },
+        ]);
+        expect(ids(index, 'bluetoth speakr')).toEqual([]);
+        expect(index.search('bluetoth speakr', { fuzzy: true }).map(({ id }) => id)).toEqual(['speaker']);
+    });
+
+    test('short terms and terms with digits match exactly in fuzzy searches', () => {
+        const index = new ProductSearchIndex([
+            product('lamb', { name: 'Lamb Wool Throw' }),
+            product('headphones', { name: 'WH1000XM5 Headphones' }),
+        ]);
+
+        expect(index.search('lamp', { fuzzy: true })).toEqual([]);
+        expect(index.search('wh1000xm4', { fuzzy: true })).toEqual([]);
+    });
+
+    test('the typo tolerance is configurable', () => {
+        const index = new ProductSearchIndex([product('lamb', { name: 'Lamb Wool Throw' })], {
+            oneEditMinLength: 4,
+            twoEditsMinLength: 8,
+        });
+
+        expect(index.search('lamp', { fuzzy: true }).map(({ id }) => id)).toEqual(['lamb']);
+    });
+
+    test('unknown words are corrected to the closest indexed word as it was written', () => {
+        const index = new ProductSearchIndex([
+            product('headphones', { name: 'Wireless Headphones' }),
+            product('desk', { name: 'Oak Desk' }),
+        ]);
+
+        expect(index.suggest('Wireless headphnes')).toBe('Wireless headphones');
+        expect(index.suggest('wireless headphones')).toBeUndefined();
+        expect(index.suggest('zzzzzzzz')).toBeUndefined();
+    });
+
+    test('corrections prefer the word found in the most products on ties', () => {
+        const index = new ProductSearchIndex([
+            product('speaker-1', { name: 'Bluetooth Speaker' }),
+            product('speaker-2', { name: 'Shelf Speaker' }),
+            product('sneaker', { name: 'Canvas Sneaker' }),
+        ]);
+
+        expect(index.suggest('sqeaker')).toBe('speaker');
+    });
+
+    test('rewritten alternatives match with their weight, the words typed ranking first', () => {
+        const index = new ProductSearchIndex([
+            product('sofa', { name: 'Leather Sofa' }),
+            product('couch', { name: 'Leather Couch' }),
+            product('chair', { name: 'Leather Chair' }),
+        ]);
+        const rewrite = ([leather, couch]: string[]) => [
+            [{ terms: [leather], weight: 1 }],
+            [
+                { terms: [couch], weight: 1 },
+                { terms: ['sofa'], weight: 0.8 },
+            ],
+        ];
+
+        const [typed, synonym] = index.search('leather couch', { rewrite });
+
+        expect([typed.id, synonym.id]).toEqual(['couch', 'sofa']);
+        expect(index.search('leather couch', { rewrite })).toHaveLength(2);
+    });
+
+    test('words known elsewhere are not corrected', () => {
+        const index = new ProductSearchIndex([product('sofa', { name: 'Leather Sofa' })]);
+
+        expect(index.suggest('leather sofas')).toBeUndefined();
+        expect(index.suggest('lether couch', (term) => term === 'couch')).toBe('leather couch');
+    });
+});
@@ -0,0 +1,368 @@
+/**
+ * Inverted index over products with BM25F ranking and typo-tolerant matching
+ */
+
+import { Product } from '../interfaces/product-interface.js';
+import { DEFAULT_FUZZY_TOLERANCE, editDistance, FuzzyTolerance, maxEditsFor } from './fuzzy-matching.js';
+import { splitWords, stem, tokenize } from './text-analysis.js';
+
+/**
+ * Indexed product field with its weight in the score
+ */
+interface SearchField {
+    name: string;
+    boost: number;
+    extract: (product: Product) => string;
+}
+
+/**
+ * Ranked search match
+ */
+export interface SearchHit {
+    id: string;
+    score: number;
+}
+
+/**
+ * One way of matching part of a query, every term of which must match
+ */
+export interface QueryAlternative {
+    terms: string[];
+    /** Score multiplier, below 1 for alternatives the user did not type such as synonyms */
+    weight: number;
+}
+
+/**
+ * Search behaviour of a single query
+ */
+export interface SearchOptions {
+    /** Also match indexed terms within the typo tolerance of each query term */
+    fuzzy?: boolean;
+    /**
+     * Rewrite the analyzed query terms into groups of alternatives, e.g. to add synonyms
+     * A product matches when it matches one alternative of every group. Defaults to one group per term.
+     */
+    rewrite?: (terms: string[]) => QueryAlternative[][];
+}
+
+/**
+ * Indexed term matching a query term
+ */
+interface TermMatch {
+    term: string;
+    edits: number;
+}
+
+const SEARCH_FIELDS: SearchField[] = [
+    { name: 'name', boost: 3, extract: (product) => product.name },
+    { name: 'brand', boost: 2, extract: (product) => product.brand },
+    { name: 'tags', boost: 2, extract: (product) => product.tags.join(' ') },
+    { name: 'attributes', boost: 1, extract: (product) => Object.values(product.attributes).join(' ') },
+    { name: 'description', boost: 1, extract: (product) => product.description },
+];
+
+/** Term frequency saturation */
+const K1 = 1.2;
+/** Field length normalization */
+const B = 0.75;
+/** Score multiplier applied per edit of a fuzzy match, so exact matches rank first */
+const FUZZY_MATCH_WEIGHT = 0.5;
+
+// Per-field term frequencies are packed into one small integer per posting to keep large catalogs in memory
+const TF_BITS = 6;
+const TF_MAX = (1 << TF_BITS) - 1;
+
+/**
+ * Read the frequency of a term in one field from a packed posting
+ * @param packed Packed term frequencies
+ * @param field Field index
+ * @returns Term frequency in the field
+ */
+function fieldFrequency(packed: number, field: number): number {
+    return (packed >> (field * TF_BITS)) & TF_MAX;
+}
+
+/**
+ * Keep the documents scored by every map, summing their scores
+ * @param scoreMaps Document number to score, one map per required part of the query
+ * @returns Document number to total score
+ */
+function intersectScores(scoreMaps: Map<number, number>[]): Map<number, number> {
+    // Walk the smallest map and keep the documents found in every other one
+    const [smallest, ...others] = [...scoreMaps].sort((a, b) => a.size - b.size);
+    const totals = new Map<number, number>();
+
+    for (const [document, score] of smallest ?? []) {
+        if (others.every((scores) => scores.has(document))) {
+            totals.set(
+                document,
+                others.reduce((sum, scores) => sum + scores.get(document)!, score),
+            );
+        }
+    }
+
+    return totals;
+}
+
+/**
+ * Inverted index of the product catalog
+ * Maintained incrementally: call `add` for new or changed products and `remove` for deleted ones
+ */
+export class ProductSearchIndex {
+    /** Term to document number to packed per-field frequencies */
+    private readonly postings = new Map<string, Map<number, number>>();
+    private readonly documents = new Map<number, { id: string; lengths: number[]; terms: string[] }>();
+    private readonly documentNumbers = new Map<string, number>();
+    /** Term to the shortest indexed word it was stemmed from, to spell suggestions */
+    private readonly surfaceForms = new Map<string, string>();
+    private readonly totalLengths = SEARCH_FIELDS.map(() => 0);
+    private nextDocument = 0;
+
+    /**
+     * @param products Products to index initially
+     * @param fuzzyTolerance Typos tolerated per query term in fuzzy searches and suggestions
+     */
+    constructor(
+        products: Product[] = [],
+        private readonly fuzzyTolerance: FuzzyTolerance = DEFAULT_FUZZY_TOLERANCE,
+    ) {
+        products.forEach((product) => this.add(product));
+    }
+
+    /**
+     * Number of indexed products
+     */
+    get size(): number {
+        return this.documents.size;
+    }
+
+    /**
+     * Index a product, replacing its previous version if already indexed
+     * @param product Product to index
+     */
+    add(product: Product): void {
+        this.remove(product.id);
+
+        const document = this.nextDocument++;
+        const frequencies = new Map<string, number>();
+        const lengths = SEARCH_FIELDS.map((field, fieldIndex) => {
+            const words = splitWords(field.extract(product));
+            for (const word of words) {
+                const token = stem(word);
+                if (word.length < (this.surfaceForms.get(token)?.length ?? Infinity)) {
+                    this.surfaceForms.set(token, word);
+                }
+                const packed = frequencies.get(token) ?? 0;
+                if (fieldFrequency(packed, fieldIndex) < TF_MAX) {
+                    frequencies.set(token, packed + (1 << (fieldIndex * TF_BITS)));
+                }
+            }
+            this.totalLengths[fieldIndex] += words.length;
+            return words.length;
+        });
+
+        for (const [term, packed] of frequencies) {
+            let posting = this.postings.get(term);
+            if (!posting) {
+                posting = new Map();
+                this.postings.set(term, posting);
+            }
+            posting.set(document, packed);
+        }
+
+        this.documents.set(document, { id: product.id, lengths, terms: [...frequencies.keys()] });
+        this.documentNumbers.set(product.id, document);
+    }
+
+    /**
+     * Remove a product from the index
+     * @param id Product ID
+     * @returns True if the product was indexed
+     */
+    remove(id: string): boolean {
+        const document = this.documentNumbers.get(id);
+        if (document === undefined) {
+            return false;
+        }
+
+        const { lengths, terms } = this.documents.get(document)!;
+        for (const term of terms) {
+            const posting = this.postings.get(term)!;
+            posting.delete(document);
+            if (posting.size === 0) {
+                this.postings.delete(term);
+                this.surfaceForms.delete(term);
+            }
+        }
+        lengths.forEach((length, fieldIndex) => (this.totalLengths[fieldIndex] -= length));
+
+        this.documents.delete(document);
+        this.documentNumbers.delete(id);
+        return true;
+    }
+
+    /**
+     * Find the products matching every term of a query, best matches first
+     * @param query Free-text query
+     * @param options Search options
+     * @returns Matches ranked by BM25F score, empty if the query has no searchable terms
+     */
+    search(query: string, { fuzzy = false, rewrite }: SearchOptions = {}): SearchHit[] {
+        const terms = [...new Set(tokenize(query))];
+        if (terms.length === 0) {
+            return [];
+        }
+
+        const averageLengths = this.totalLengths.map((total) =>
+            this.documents.size > 0 ? total / this.documents.size : 0,
+        );
+        const groups = rewrite ? rewrite(terms) : terms.map((term) => [{ terms: [term], weight: 1 }]);
+        const groupScores = groups.map((group) => this.scoreGroup(group, fuzzy, averageLengths));
+
+        return [...intersectScores(groupScores)]
+            .map(([document, score]) => ({
+                id: this.documents.get(document)!.id,
+                score: Math.round(score * 10_000) / 10_000,
+            }))
+            .sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Spell-check a query against the indexed vocabulary
+     * Each unknown word is replaced by the closest indexed word, the most frequent one on ties
+     * @param query Free-text query
+     * @param isKnown Whether a stemmed term missing from the index is still correct, e.g. because it has synonyms
+     * @returns Corrected query, or undefined if every word is known or none could be corrected
+     */
+    suggest(query: string, isKnown: (term: string) => boolean = () => false): string | undefined {
+        let corrected = false;
+
+        const suggestion = query.replace(/[\p{L}\p{N}]+/gu, (word) => {
+            const [normalized] = splitWords(word);
+            if (!normalized || this.postings.has(stem(normalized)) || isKnown(stem(normalized))) {
+                return word;
+            }
+
+            const [closest] = this.matchingTerms(stem(normalized), true).sort(
+                (a, b) => a.edits - b.edits || this.postings.get(b.term)!.size - this.postings.get(a.term)!.size,
+            );
+            if (!closest) {
+                return word;
+            }
+
+            corrected = true;
+            return this.surfaceForms.get(closest.term)!;
+        });
+
+        return corrected ? suggestion : undefined;
+    }
+
+    /**
+     * Find the indexed terms matching a query term
+     * Terms containing digits, such as model numbers, always match exactly
+     * @param term Stemmed query term
+     * @param fuzzy Whether to include terms within the typo tolerance
+     * @returns Matching terms with their edit distance to the query term
+     */
+    private matchingTerms(term: string, fuzzy: boolean): TermMatch[] {
+        const matches: TermMatch[] = this.postings.has(term) ? [{ term, edits: 0 }] : [];
+        const maxEdits = fuzzy && !/\d/.test(term) ? maxEditsFor(term, this.fuzzyTolerance) : 0;
+        if (maxEdits === 0) {
+            return matches;
+        }
+
+        for (const candidate of this.postings.keys()) {
+            if (candidate === term) {
+                continue;
+            }
+            const edits = editDistance(term, candidate, maxEdits);
+            if (edits <= maxEdits) {
+                matches.push({ term: candidate, edits });
+            }
+        }
+
+        return matches;
+    }
+
+    /**
+     * Score the products matching a group of alternatives standing for one part of the query
+     * @param group Alternatives, each matching when all its terms match
+     * @param fuzzy Whether to include terms within the typo tolerance
+     * @param averageLengths Average field lengths over the catalog
+     * @returns Document number to its best weighted score among the alternatives
+     */
+    private scoreGroup(group: QueryAlternative[], fuzzy: boolean, averageLengths: number[]): Map<number, number> {
+        const scores = new Map<number, number>();
+
+        for (const { terms, weight } of group) {
+            if (terms.length === 0) {
+                continue;
+            }
+
+            const termScores = terms.map((term) =>
+                this.scoreDocuments(this.matchingTerms(term, fuzzy), averageLengths),
+            );
+            for (const [document, score] of intersectScores(termScores)) {
+                if (weight * score > (scores.get(document) ?? 0)) {
+                    scores.set(document, weight * score);
+                }
+            }
+        }
+
+        return scores;
+    }
+
+    /**
+     * Score the products matching any of the terms standing for one query term
+     * @param matches Indexed terms matching the query term
+     * @param averageLengths Average field lengths over the catalog
+     * @returns Document number to its best score among the matching terms
+     */
+    private scoreDocuments(matches: TermMatch[], averageLengths: number[]): Map<number, number> {
+        const scores = new Map<number, number>();
+
+        for (const { term, edits } of matches) {
+            const posting = this.postings.get(term)!;
+            const weight = FUZZY_MATCH_WEIGHT ** edits;
+
+            for (const [document, packed] of posting) {
+                const { lengths } = this.documents.get(document)!;
+                const score = weight * this.termScore(posting, packed, lengths, averageLengths);
+                if (score > (scores.get(document) ?? 0)) {
+                    scores.set(document, score);
+                }
+            }
+        }
+
+        return scores;
+    }
+
+    /**
+     * Score one query term for one product with BM25F
+     * @param posting Postings of the term, to derive its document frequency
+     * @param packed Packed per-field frequencies of the term in the product
+     * @param lengths Field lengths of the product
+     * @param averageLengths Average field lengths over the catalog
+     * @returns Term contribution to the score
+     */
+    private termScore(
+        posting: Map<number, number>,
+        packed: number,
+        lengths: number[],
+        averageLengths: number[],
+    ): number {
+        const documentCount = this.documents.size;
+        const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+
+        const weightedFrequency = SEARCH_FIELDS.reduce((sum, field, fieldIndex) => {
+            const frequency = fieldFrequency(packed, fieldIndex);
+            if (frequency === 0) {
+                return sum;
+            }
+            const normalization = 1 - B + (B * lengths[fieldIndex]) / (averageLengths[fieldIndex] || 1);
+            return sum + (field.boost * frequency) / normalization;
+        }, 0);
+
+        return (idf * weightedFrequency * (K1 + 1)) / (K1 + weightedFrequency);
+    }
+}
@@ -0,0 +1,213 @@
+/**
+ * Search filtering with multi-select facets
+ */
+
+import { FacetCount, PriceRangeFacet, Product, SearchFacets, SearchFilters } from '../interfaces/product-interface.js';
+
+/**
+ * Product attributes offered as facets
+ */
+export const FACET_ATTRIBUTES = ['color', 'size', 'material'];
+
+/** Minimum ratings offered by the rating facet, as in "4 stars and up" */
+export const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+/** Number of price buckets derived from price quantiles */
+const AUTO_PRICE_BUCKETS = 4;
+
+/**
+ * Filter attached to the facet it selects values of
+ */
+interface FacetFilter {
+    /** Facet left out of this filter when counting its own values */
+    facet: string;
+    matches: (product: Product) => boolean;
+}
+
+/**
+ * Build the active filters of a search
+ * @param filters Search filters
+ * @returns One filter per facet with a selection
+ */
+function facetFilters(filters: SearchFilters): FacetFilter[] {
+    const result: FacetFilter[] = [];
+
+    if (filters.categories?.length) {
+        const categories = new Set(filters.categories);
+        result.push({
+            facet: 'categories',
+            matches: (p) =>
+                categories.has(p.category) || (p.subcategory !== undefined && categories.has(p.subcategory)),
+        });
+    }
+    if (filters.brands?.length) {
+        const brands = new Set(filters.brands.map((brand) => brand.toLowerCase()));
+        result.push({ facet: 'brands', matches: (p) => brands.has(p.brand.toLowerCase()) });
+    }
+    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+        const { minPrice = -Infinity, maxPrice = Infinity } = filters;
+        result.push({ facet: 'priceRanges', matches: (p) => p.price >= minPrice && p.price <= maxPrice });
+    }
+    if (filters.minRating !== undefined) {
+        const { minRating } = filters;
+        result.push({ facet: 'ratings', matches: (p) => p.rating >= minRating });
+    }
+    if (filters.inStock) {
+        result.push({ facet: 'availability', matches: (p) => p.inStock });
+    }
+    for (const [name, values] of Object.entries(filters.attributes ?? {})) {
+        if (values.length > 0) {
+            const accepted = new Set(values.map((value) => value.toLowerCase()));
+            result.push({
+                facet: `attributes.${name}`,
+                matches: (p) => name in p.attributes && accepted.has(String(p.attributes[name]).toLowerCase()),
+            });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Count the products per value
+ * @param products Products to count
+ * @param valueOf Facet value of a product, undefined if it has none
+ * @returns Value counts, most frequent first, ties in alphabetical order
+ */
+function countValues(products: Product[], valueOf: (product: Product) => unknown): FacetCount[] {
+    const counts = new Map<string, number>();
+
+    for (const product of products) {
+        const value = valueOf(product);
+        if (value !== undefined) {
+            counts.set(String(value), (counts.get(String(value)) ?? 0) + 1);
+        }
+    }
+
+    return rankFacetCounts([...counts].map(([value, count]) => ({ value, count })));
+}
+
+/**
+ * Order facet values for display
+ * @param counts Value counts
+ * @returns The counts, most frequent first, ties in alphabetical order
+ */
+export function rankFacetCounts(counts: FacetCount[]): FacetCount[] {
+    return counts.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Round a price to two significant digits, so derived bucket bounds read naturally
+ * @param price Positive price
+ * @returns Rounded price
+ */
+function roundPrice(price: number): number {
+    const magnitude = 10 ** Math.max(0, Math.floor(Math.log10(price)) - 1);
+    return Math.round(price / magnitude) * magnitude;
+}
+
+/**
+ * Derive the bounds of the automatic price buckets from price quantiles
+ * @param count Number of prices
+ * @param priceAt Price at a position of the prices sorted in ascending order
+ * @returns Upper bounds of the buckets but the last
+ */
+export function priceQuantileBounds(count: number, priceAt: (position: number) => number): number[] {
+    return Array.from({ length: AUTO_PRICE_BUCKETS - 1 }, (_, i) =>
+        roundPrice(priceAt(Math.floor(((i + 1) * count) / AUTO_PRICE_BUCKETS))),
+    );
+}
+
+/**
+ * Derive the edges of the price buckets
+ * @param highest Highest price
+ * @param bounds Upper bounds of the buckets but the last, out of range bounds are ignored
+ * @returns Ascending edges, from 0 to the highest price rounded up
+ */
+export function priceBucketEdges(highest: number, bounds: number[]): number[] {
+    const top = Math.ceil(highest);
+    return [0, ...[...new Set(bounds)].filter((bound) => bound > 0 && bound < top).sort((a, b) => a - b), top];
+}
+
+/**
+ * Count the products per price bucket
+ * @param products Products to count
+ * @param bounds Upper bounds of the buckets but the last, derived from price quantiles when omitted
+ * @returns Non-empty buckets, cheapest first; the first starts at 0 and the last ends at the highest price
+ */
+function countPriceRanges(products: Product[], bounds?: number[]): PriceRangeFacet[] {
+    if (products.length === 0) {
+        return [];
+    }
+
+    const prices = products.map((product) => product.price).sort((a, b) => a - b);
+    const edges = priceBucketEdges(
+        prices[prices.length - 1],
+        bounds ?? priceQuantileBounds(prices.length, (position) => prices[position]),
+    );
+
+    return edges
+        .slice(0, -1)
+        .map((min, i) => {
+            const max = edges[i + 1];
+            const isLast = i === edges.length - 2;
+            const count = prices.filter((price) => price >= min && (isLast ? price <= max : price < max)).length;
+            return { min, max, count };
+        })
+        .filter(({ count }) => count > 0);
+}
+
+/**
+ * Apply the search filters and count the facets
+ * A product failing only the filter of one facet still counts in that facet, so selecting a value keeps its
+ * alternatives and their counts visible.
+ * @param candidates Products matching the query, in result order
+ * @param filters Search filters
+ * @returns Products matching every filter, in candidate order, and the facets
+ */
+export function applyFacetedFilters<T extends Product>(
+    candidates: T[],
+    filters: SearchFilters,
+): { matches: T[]; facets: SearchFacets } {
+    const activeFilters = facetFilters(filters);
+    const matches: T[] = [];
+    /** Facet to the products failing its filter only */
+    const nearMatches = new Map<string, Product[]>();
+
+    for (const product of candidates) {
+        const failed = activeFilters.filter((filter) => !filter.matches(product));
+        if (failed.length === 0) {
+            matches.push(product);
+        } else if (failed.length === 1) {
+            const [{ facet }] = failed;
+            const products = nearMatches.get(facet) ?? [];
+            products.push(product);
+            nearMatches.set(facet, products);
+        }
+    }
+
+    const facetBase = (facet: string): Product[] => [...matches, ...(nearMatches.get(facet) ?? [])];
+    const ratingBase = facetBase('ratings');
+    const availabilityBase = facetBase('availability');
+    const inStock = availabilityBase.filter((product) => product.inStock).length;
+
+    return {
+        matches,
+        facets: {
+            categories: countValues(facetBase('categories'), (product) => product.category),
+            brands: countValues(facetBase('brands'), (product) => product.brand),
+            priceRanges: countPriceRanges(facetBase('priceRanges'), filters.priceBuckets),
+            ratings: RATING_THRESHOLDS.map((minRating) => ({
+                minRating,
+                count: ratingBase.filter((product) => product.rating >= minRating).length,
+            })).filter(({ count }) => count > 0),
+            availability: { inStock, outOfStock: availabilityBase.length - inStock },
+            attributes: Object.fromEntries(
+                FACET_ATTRIBUTES.map((name) => [
+                    name,
+                    countValues(facetBase(`attributes.${name}`), (product) => product.attributes[name]),
+                ]).filter(([, counts]) => counts.length > 0),
+            ),
+        },
+    };
+}
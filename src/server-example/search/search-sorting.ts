@@ -0,0 +1,46 @@
+/**
+ * Ordering of product listings and search results
+ */
+
+import { Product, ProductFilters, SearchFilters } from '../interfaces/product-interface.js';
+
+/**
+ * Compare two products on a sort field, in ascending order
+ * @param a First product
+ * @param b Second product
+ * @param sortBy Sort field, unknown fields sort by name
+ * @returns Negative if `a` comes first, positive if `b` comes first, 0 if equal
+ */
+export function compareProducts(a: Product, b: Product, sortBy: NonNullable<ProductFilters['sortBy']>): number {
+    switch (sortBy) {
+        case 'price':
+            return a.price - b.price;
+        case 'rating':
+            return a.rating - b.rating;
+        case 'created_at':
+            return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+        case 'id':
+            // Code unit order, as SQLite compares text
+            return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+        default:
+            return a.name.toLowerCase().localeCompare(b.name.toLowerCase());
+    }
+}
+
+/**
+ * Sort search matches in place
+ * Relevance keeps the order of the matches: the ranking of the index, best matches first, or the catalog order
+ * without a query
+ * @param matches Search matches, ranked by relevance
+ * @param filters Search filters with the sort field and order
+ */
+export function sortSearchResults(matches: Product[], filters: SearchFilters): void {
+    const sortBy = filters.sortBy || 'relevance';
+
+    if (sortBy !== 'relevance') {
+        const direction = filters.sortOrder === 'desc' ? -1 : 1;
+        matches.sort((a, b) => direction * compareProducts(a, b, sortBy));
+    } else if (filters.query && filters.sortOrder === 'asc') {
+        matches.reverse();
+    }
+}
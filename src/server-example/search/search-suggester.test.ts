@@ -0,0 +1,149 @@
+import { describe, expect, test } from 'bun:test';
+
+import { Category } from '../interfaces/category-interface.js';
+import { Product } from '../interfaces/product-interface.js';
+import { SearchSuggester } from './search-suggester.js';
+
+const PRODUCTS = [
+    { id: 'macbook', name: 'MacBook Pro 14-inch', brand: 'Apple', reviewCount: 900 },
+    { id: 'stand', name: 'Pro Stand', brand: 'Apple', reviewCount: 90 },
+    { id: 'case', name: 'Leather Case', brand: 'Protec', reviewCount: 10 },
+] as Product[];
+
+const CATEGORIES: Category[] = [
+    {
+        id: 'electronics',
+        name: 'Electronics',
+        description: '',
+        productCount: 3,
+        subcategories: [
+            {
+                id: 'laptops',
+                name: 'Laptops',
+                description: '',
+                parentId: 'electronics',
+                productCount: 1,
+                subcategories: [],
+            },
+        ],
+    },
+];
+
+/**
+ * Create a suggester over the test catalog
+ * @returns Suggester
+ */
+function createSuggester(): SearchSuggester {
+    const suggester = new SearchSuggester();
+    suggester.indexCatalog(PRODUCTS, CATEGORIES);
+    return suggester;
+}
+
+/**
+ * Get the completions of a prefix
+ * @param suggester Suggester
+ * @param prefix Partial query
+ * @returns Type and text of each completion, in order
+ */
+function completionsOf(suggester: SearchSuggester, prefix: string): string[] {
+    return suggester.suggest(prefix, 10).map(({ type, text }) => `${type}:${text}`);
+}
+
+/**
+ * Record the same search a number of times
+ * @param suggester Suggester
+ * @param query Query
+ * @param times Number of searches
+ */
+function search(suggester: SearchSuggester, query: string, times: number): void {
+    for (let i = 0; i < times; i++) {
+        suggester.recordQuery(query);
+    }
+}
+
+describe('SearchSuggester', () => {
+    test('products, brands and categories complete their words, leading matches first', () => {
+        const suggester = createSuggester();
+
+        // The most reviewed product comes last, matching on its second word
+        expect(completionsOf(suggester, 'pro')).toEqual([
+            'brand:Protec',
+            'product:Pro Stand',
+            'product:MacBook Pro 14-inch',
+        ]);
+        expect(suggester.suggest('lap', 10)).toEqual([
+            { text: 'Laptops', type: 'category', id: 'laptops', popularity: 1 },
+        ]);
+        expect(completionsOf(suggester, 'APP')).toEqual(['brand:Apple']);
+    });
+
+    test('completions are ranked by popularity relative to their type', () => {
+        const suggester = createSuggester();
+
+        // The brand is the most popular of its type, the product a tenth of the most popular product
+        expect(completionsOf(suggester, 'a')).toEqual(['brand:Apple']);
+        expect(completionsOf(suggester, 'e')).toEqual(['category:Electronics']);
+        expect(completionsOf(suggester, 'p').slice(0, 2)).toEqual(['brand:Protec', 'product:Pro Stand']);
+    });
+
+    test('a few searches cannot outrank popular catalog completions', () => {
+        const suggester = createSuggester();
+
+        // A tenth of the most reviewed product, outranked past a tenth of the searches of full popularity
+        search(suggester, 'pro display', 4);
+        expect(completionsOf(suggester, 'pro d')).toEqual(['query:pro display']);
+        expect(completionsOf(suggester, 'pro').slice(1, 3)).toEqual(['product:Pro Stand', 'query:pro display']);
+
+        search(suggester, 'pro display', 2);
+        expect(completionsOf(suggester, 'pro').slice(1, 3)).toEqual(['query:pro display', 'product:Pro Stand']);
+    });
+
+    test('searches are normalized and complete later words too', () => {
+        const suggester = createSuggester();
+
+        search(suggester, '  Leather   CASES!', 1);
+
+        expect(completionsOf(suggester, 'leather c')).toEqual(['query:leather cases', 'product:Leather Case']);
+        expect(completionsOf(suggester, 'cas')).toEqual(['query:leather cases', 'product:Leather Case']);
+    });
+
+    test('completions with the same text are listed once', () => {
+        const suggester = createSuggester();
+
+        search(suggester, 'pro stand', 60);
+
+        expect(completionsOf(suggester, 'pro s')).toEqual(['query:pro stand']);
+    });
+
+    test('the number of completions is limited and a prefix without letters or digits has none', () => {
+        const suggester = createSuggester();
+
+        expect(suggester.suggest('pro', 2)).toHaveLength(2);
+        expect(suggester.suggest(' - ', 10)).toEqual([]);
+        search(suggester, '?!', 1);
+        expect(completionsOf(suggester, 'pro')).toHaveLength(3);
+    });
+
+    test('the least searched queries are forgotten past the logged queries limit', () => {
+        const suggester = createSuggester();
+        search(suggester, 'zoom lens', 2);
+        search(suggester, 'zoom once', 1);
+        for (let i = 0; i < 998; i++) {
+            search(suggester, `query ${i}`, 2);
+        }
+
+        search(suggester, 'zoom new', 1);
+
+        expect(completionsOf(suggester, 'zoom')).toEqual(['query:zoom lens', 'query:zoom new']);
+    });
+
+    test('indexing the catalog again replaces its completions and keeps the searches', () => {
+        const suggester = createSuggester();
+        search(suggester, 'stand', 1);
+
+        suggester.indexCatalog(PRODUCTS.slice(0, 1), []);
+
+        expect(completionsOf(suggester, 'st')).toEqual(['query:stand']);
+        expect(completionsOf(suggester, 'elec')).toEqual([]);
+    });
+});
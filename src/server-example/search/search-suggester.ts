@@ -0,0 +1,227 @@
+/**
+ * Search-as-you-type completions over the catalog and past searches
+ */
+
+import { Category } from '../interfaces/category-interface.js';
+import { Product, SearchSuggestion } from '../interfaces/product-interface.js';
+import { foldText } from './text-analysis.js';
+
+/** Most distinct queries remembered, the least searched are forgotten first */
+const MAX_LOGGED_QUERIES = 1000;
+/** Searches a past query needs to rank like the most popular catalog completion, so a few cannot outrank it */
+const FULL_POPULARITY_SEARCHES = 50;
+
+/**
+ * Completion matching a prefix, with what it is ranked by
+ */
+interface Candidate {
+    suggestion: SearchSuggestion;
+    /** Whether the completion starts with the prefix rather than one of its later words matching it */
+    leading: boolean;
+    /** Popularity relative to the most popular completion of the same type, so types compare fairly */
+    relativePopularity: number;
+}
+
+/**
+ * Normalize text for prefix matching
+ * @param text Text to normalize
+ * @returns Folded words separated by single spaces
+ */
+function normalize(text: string): string {
+    return foldText(text)
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word.length > 0)
+        .join(' ');
+}
+
+/**
+ * List every category of a tree
+ * @param categories Categories with nested subcategories
+ * @returns Categories, parents before their subcategories
+ */
+function flattenCategories(categories: Category[]): Category[] {
+    return categories.flatMap((category) => [category, ...flattenCategories(category.subcategories)]);
+}
+
+/**
+ * Completes partial queries with product names, brands, categories and popular past searches
+ * Catalog completions are indexed by the start of each of their words, so "pro" completes "MacBook Pro"
+ */
+export class SearchSuggester {
+    private suggestions: SearchSuggestion[] = [];
+    /** Normalized completions from the start of each word, sorted for prefix lookups */
+    private keys: string[] = [];
+    /** Completion each key belongs to */
+    private owners: number[] = [];
+    /** Whether each key starts at the first word of its completion */
+    private leadingKeys: boolean[] = [];
+    private readonly maxPopularity = new Map<SearchSuggestion['type'], number>();
+    /** Normalized query to its number of searches */
+    private readonly queryCounts = new Map<string, number>();
+
+    /**
+     * Replace the catalog completions
+     * @param products Every product
+     * @param categories Category tree with product counts
+     */
+    indexCatalog(products: Product[], categories: Category[]): void {
+        const brands = new Map<string, number>();
+        for (const product of products) {
+            brands.set(product.brand, (brands.get(product.brand) ?? 0) + 1);
+        }
+
+        this.suggestions = [
+            ...products.map(
+                (product): SearchSuggestion => ({
+                    text: product.name,
+                    type: 'product',
+                    id: product.id,
+                    popularity: product.reviewCount,
+                }),
+            ),
+            ...[...brands].map(([text, popularity]): SearchSuggestion => ({ text, type: 'brand', popularity })),
+            ...flattenCategories(categories).map(
+                (category): SearchSuggestion => ({
+                    text: category.name,
+                    type: 'category',
+                    id: category.id,
+                    popularity: category.productCount ?? 0,
+                }),
+            ),
+        ];
+
+        this.maxPopularity.clear();
+        const entries: Array<{ key: string; owner: number; leading: boolean }> = [];
+
+        this.suggestions.forEach((suggestion, owner) => {
+            const { type, popularity } = suggestion;
+            this.maxPopularity.set(type, Math.max(this.maxPopularity.get(type) ?? 0, popularity));
+
+            const text = normalize(suggestion.text);
+            for (let start = 0; start < text.length; ) {
+                entries.push({ key: text.slice(start), owner, leading: start === 0 });
+                const space = text.indexOf(' ', start);
+                start = space === -1 ? text.length : space + 1;
+            }
+        });
+
+        entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+        this.keys = entries.map(({ key }) => key);
+        this.owners = entries.map(({ owner }) => owner);
+        this.leadingKeys = entries.map(({ leading }) => leading);
+    }
+
+    /**
+     * Remember a search so it can complete later queries
+     * @param query Query that returned results
+     */
+    recordQuery(query: string): void {
+        const text = normalize(query);
+        if (!text) {
+            return;
+        }
+
+        if (!this.queryCounts.has(text) && this.queryCounts.size >= MAX_LOGGED_QUERIES) {
+            const [leastSearched] = [...this.queryCounts].reduce((least, entry) =>
+                entry[1] < least[1] ? entry : least,
+            );
+            this.queryCounts.delete(leastSearched);
+        }
+        this.queryCounts.set(text, (this.queryCounts.get(text) ?? 0) + 1);
+    }
+
+    /**
+     * Complete a partial query
+     * Completions starting with the prefix come first, then by popularity relative to completions of the same type
+     * @param prefix Partial query
+     * @param limit Maximum number of completions
+     * @returns Completions with distinct texts, empty if the prefix has no letters or digits
+     */
+    suggest(prefix: string, limit: number): SearchSuggestion[] {
+        const normalizedPrefix = normalize(prefix);
+        if (!normalizedPrefix) {
+            return [];
+        }
+
+        const candidates = [...this.catalogCandidates(normalizedPrefix), ...this.queryCandidates(normalizedPrefix)];
+        candidates.sort(
+            (a, b) =>
+                Number(b.leading) - Number(a.leading) ||
+                b.relativePopularity - a.relativePopularity ||
+                b.suggestion.popularity - a.suggestion.popularity ||
+                a.suggestion.text.localeCompare(b.suggestion.text),
+        );
+
+        const seen = new Set<string>();
+        const suggestions: SearchSuggestion[] = [];
+        for (const { suggestion } of candidates) {
+            const text = normalize(suggestion.text);
+            if (!seen.has(text)) {
+                seen.add(text);
+                suggestions.push(suggestion);
+            }
+            if (suggestions.length === limit) {
+                break;
+            }
+        }
+
+        return suggestions;
+    }
+
+    /**
+     * Find the catalog completions of a prefix
+     * @param prefix Normalized prefix
+     * @returns Matching catalog completions
+     */
+    private catalogCandidates(prefix: string): Candidate[] {
+        // Binary search for the first key not sorting before the prefix
+        let low = 0;
+        let high = this.keys.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (this.keys[middle] < prefix) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+
+        /** Completion to whether it matched on its first word */
+        const matches = new Map<number, boolean>();
+        for (let i = low; i < this.keys.length && this.keys[i].startsWith(prefix); i++) {
+            matches.set(this.owners[i], (matches.get(this.owners[i]) ?? false) || this.leadingKeys[i]);
+        }
+
+        return [...matches].map(([owner, leading]) => {
+            const suggestion = this.suggestions[owner];
+            return {
+                suggestion,
+                leading,
+                relativePopularity: suggestion.popularity / (this.maxPopularity.get(suggestion.type) || 1),
+            };
+        });
+    }
+
+    /**
+     * Find the past searches completing a prefix
+     * @param prefix Normalized prefix
+     * @returns Matching past searches
+     */
+    private queryCandidates(prefix: string): Candidate[] {
+        const maxCount = Math.max(FULL_POPULARITY_SEARCHES, ...this.queryCounts.values());
+        const candidates: Candidate[] = [];
+
+        for (const [text, count] of this.queryCounts) {
+            const leading = text.startsWith(prefix);
+            if (leading || text.includes(` ${prefix}`)) {
+                candidates.push({
+                    suggestion: { text, type: 'query', popularity: count },
+                    leading,
+                    relativePopularity: count / maxCount,
+                });
+            }
+        }
+
+        return candidates;
+    }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'bun:test';
+
+import { Product } from '../interfaces/product-interface.js';
+import { blendHits, SemanticSearchIndex } from './semantic-search-index.js';
+
+/**
+ * Build a product described by its name and description
+ * @param id Product ID
+ * @param name Product name
+ * @param description Product description
+ * @returns Product
+ */
+function product(id: string, name: string, description: string): Product {
+    return {
+        id,
+        name,
+        description,
+        price: 10,
+        currency: 'USD',
+        category: 'home',
+        brand: '',
+        sku: id.toUpperCase(),
+        inStock: true,
+        stockQuantity: 1,
+        images: [],
+        attributes: {},
+        rating: 0,
+        reviewCount: 0,
+        tags: [],
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+}
+
+const PRODUCTS = [
+    product('headphones', 'Wireless Headphones', 'Noise cancelling headphones for music'),
+    product('earbuds', 'Bluetooth Earbuds', 'Wireless earbuds for music on the go'),
+    product('studio', 'Studio Headphones', 'Over-ear headphones for music monitoring'),
+    product('desk', 'Oak Desk', 'Solid oak desk for the home office'),
+    product('chair', 'Office Chair', 'Ergonomic office chair with lumbar support'),
+    product('standing-desk', 'Standing Desk', 'Adjustable desk for the office'),
+];
+
+describe('SemanticSearchIndex', () => {
+    test('the catalog is loaded once, on the first search', () => {
+        let loads = 0;
+        const index = new SemanticSearchIndex(() => {
+            loads++;
+            return PRODUCTS;
+        });
+        index.add(product('lamp', 'Desk Lamp', 'Lamp for the office desk'));
+
+        expect(loads).toBe(0);
+        index.search('music');
+        index.search('office');
+        expect(loads).toBe(1);
+    });
+
+    test('queries match the closest products in meaning, down to the minimum similarity', () => {
+        const index = new SemanticSearchIndex(() => PRODUCTS);
+
+        const hits = index.search('musical headphone');
+
+        expect(hits.map(({ id }) => id)).toEqual(['headphones', 'studio']);
+        expect(hits.every(({ score }) => score >= 0.3 && score <= 1)).toBe(true);
+    });
+
+    test('products changed after the first search are reindexed', () => {
+        const index = new SemanticSearchIndex(() => PRODUCTS);
+        index.search('music');
+
+        index.add(product('speaker', 'Wireless Speaker', 'Bluetooth speaker for music'));
+        index.remove('earbuds');
+
+        const ids = index.search('wireless music').map(({ id }) => id);
+        expect(ids).toContain('speaker');
+        expect(ids).not.toContain('earbuds');
+    });
+
+    test('included products are scored even when they are not similar enough to match', () => {
+        const index = new SemanticSearchIndex(() => PRODUCTS);
+
+        const hits = index.search('musical headphone', ['chair', 'unknown']);
+
+        expect(hits.at(-1)).toEqual({ id: 'chair', score: expect.any(Number) });
+        expect(hits.at(-1)!.score).toBeLessThan(0.3);
+        expect(hits.map(({ id }) => id)).not.toContain('unknown');
+    });
+});
+
+describe('blendHits', () => {
+    test('keyword scores are relative to the best one and weigh as much as similarities', () => {
+        const keyword = [
+            { id: 'both', score: 8 },
+            { id: 'keyword', score: 4 },
+        ];
+        const semantic = [
+            { id: 'semantic', score: 0.9 },
+            { id: 'both', score: 0.6 },
+            { id: 'opposite', score: -0.2 },
+        ];
+
+        expect(blendHits(keyword, semantic)).toEqual([
+            { id: 'both', score: 0.8 },
+            { id: 'semantic', score: 0.45 },
+            { id: 'keyword', score: 0.25 },
+            { id: 'opposite', score: 0 },
+        ]);
+    });
+
+    test('semantic matches rank alone without keyword matches', () => {
+        expect(blendHits([], [{ id: 'semantic', score: 0.5 }])).toEqual([{ id: 'semantic', score: 0.25 }]);
+    });
+});
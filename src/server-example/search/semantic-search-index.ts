@@ -0,0 +1,155 @@
+/**
+ * Semantic product search over local text embeddings, and its blending with keyword ranking
+ */
+
+import { Product } from '../interfaces/product-interface.js';
+import { SearchHit } from './product-search-index.js';
+import { dotProduct, TextEmbedder, WeightedText } from './text-embedding.js';
+import { VectorIndex } from './vector-index.js';
+
+/** Dimensions of the product embeddings */
+const EMBEDDING_DIMENSIONS = 64;
+/** Most products the embedding space and the clusters are fitted on, spread evenly over the catalog */
+const FIT_SAMPLE_SIZE = 2_000;
+/** Largest catalog scanned in full by every query, larger ones are clustered */
+const EXACT_SEARCH_MAX_PRODUCTS = 10_000;
+/** Most clusters of the nearest-neighbor index, about the square root of the catalog size below that */
+const MAX_CLUSTERS = 256;
+/** Clusters scanned per query */
+const PROBES = 16;
+/** Lowest similarity of a semantic match */
+const MIN_SIMILARITY = 0.3;
+/** Most semantic matches of a query, as every product is similar to some degree */
+const MAX_SEMANTIC_MATCHES = 100;
+/** Share of the semantic similarity in hybrid scores, the rest being the normalized keyword score */
+const HYBRID_SEMANTIC_WEIGHT = 0.5;
+
+/**
+ * Describe a product for embedding, weighing its fields like keyword search does
+ * @param product Product to describe
+ * @returns Weighted product texts
+ */
+function productTexts(product: Product): WeightedText[] {
+    return [
+        { text: product.name, weight: 3 },
+        { text: product.brand, weight: 2 },
+        { text: product.tags.join(' '), weight: 2 },
+        { text: Object.values(product.attributes).join(' '), weight: 1 },
+        { text: product.description, weight: 1 },
+    ];
+}
+
+/**
+ * Round a score for display
+ * @param score Score
+ * @returns Score with four decimals
+ */
+function roundScore(score: number): number {
+    return Math.round(score * 10_000) / 10_000;
+}
+
+/**
+ * Nearest-neighbor index of product embeddings, matching queries by meaning rather than by their exact words
+ * Built on the first search, as fitting the embeddings takes a moment on large catalogs, then maintained
+ * incrementally: call `add` for new or changed products and `remove` for deleted ones
+ */
+export class SemanticSearchIndex {
+    private embedder?: TextEmbedder;
+    private readonly vectors = new VectorIndex(PROBES);
+
+    /**
+     * @param loadProducts Read every product, called once when the index is built
+     */
+    constructor(private readonly loadProducts: () => Product[]) {}
+
+    /**
+     * Index a product, replacing its previous version if already indexed
+     * @param product Product to index
+     */
+    add(product: Product): void {
+        if (this.embedder) {
+            this.vectors.add(product.id, this.embedder.embed(productTexts(product)));
+        }
+    }
+
+    /**
+     * Remove a product from the index
+     * @param id Product ID
+     */
+    remove(id: string): void {
+        this.vectors.remove(id);
+    }
+
+    /**
+     * Find the products closest in meaning to a query
+     * @param query Free-text query
+     * @param include Products to score even when they are not among the nearest neighbors
+     * @returns Nearest products with their cosine similarity as score, most similar first, then the included
+     * products not among them
+     */
+    search(query: string, include: string[] = []): SearchHit[] {
+        const embedder = this.build();
+        const queryVector = embedder.embed([{ text: query, weight: 1 }]);
+
+        const hits = this.vectors
+            .search(queryVector, MAX_SEMANTIC_MATCHES, MIN_SIMILARITY)
+            .map(({ id, similarity }) => ({ id, score: roundScore(similarity) }));
+
+        const found = new Set(hits.map(({ id }) => id));
+        for (const id of include) {
+            const vector = this.vectors.get(id);
+            if (vector && !found.has(id)) {
+                hits.push({ id, score: roundScore(dotProduct(queryVector, vector)) });
+            }
+        }
+
+        return hits;
+    }
+
+    /**
+     * Fit the embeddings on the catalog and index every product, unless already done
+     * @returns Fitted embedder
+     */
+    private build(): TextEmbedder {
+        if (this.embedder) {
+            return this.embedder;
+        }
+
+        const products = this.loadProducts();
+        const sampleSize = Math.min(products.length, FIT_SAMPLE_SIZE);
+        const sample = Array.from(
+            { length: sampleSize },
+            (_, i) => products[Math.floor((i * products.length) / sampleSize)],
+        );
+
+        const embedder = TextEmbedder.fit(sample.map(productTexts), EMBEDDING_DIMENSIONS);
+        products.forEach((product) => this.vectors.add(product.id, embedder.embed(productTexts(product))));
+        if (products.length > EXACT_SEARCH_MAX_PRODUCTS) {
+            this.vectors.train(Math.min(MAX_CLUSTERS, Math.round(Math.sqrt(products.length))), FIT_SAMPLE_SIZE);
+        }
+
+        this.embedder = embedder;
+        return embedder;
+    }
+}
+
+/**
+ * Blend keyword and semantic rankings
+ * Keyword scores are divided by the best one so both rankings weigh the same whatever the query
+ * @param keywordHits Keyword matches with their BM25 score
+ * @param semanticHits Semantic matches with their cosine similarity
+ * @returns Matches of either ranking with their blended score between 0 and 1, best first
+ */
+export function blendHits(keywordHits: SearchHit[], semanticHits: SearchHit[]): SearchHit[] {
+    const maxKeywordScore = keywordHits.reduce((max, { score }) => Math.max(max, score), 0);
+    const scores = new Map<string, number>();
+
+    for (const { id, score } of keywordHits) {
+        scores.set(id, ((1 - HYBRID_SEMANTIC_WEIGHT) * score) / maxKeywordScore);
+    }
+    for (const { id, score } of semanticHits) {
+        scores.set(id, (scores.get(id) ?? 0) + HYBRID_SEMANTIC_WEIGHT * Math.max(0, score));
+    }
+
+    return [...scores].map(([id, score]) => ({ id, score: roundScore(score) })).sort((a, b) => b.score - a.score);
+}
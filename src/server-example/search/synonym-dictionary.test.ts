@@ -0,0 +1,123 @@
+import { describe, expect, test } from 'bun:test';
+
+import { ScoredProduct } from '../interfaces/product-interface.js';
+import { SynonymRule } from '../interfaces/synonym-interface.js';
+import { boostHintedCategories, SynonymDictionary } from './synonym-dictionary.js';
+import { tokenize } from './text-analysis.js';
+
+const RULES: SynonymRule[] = [
+    { id: 'sofa', type: 'equivalent', terms: ['sofa', 'couch'], synonyms: [] },
+    { id: 'tee', type: 'one-way', terms: ['tee'], synonyms: ['T-Shirts'], categoryHint: 'clothing' },
+    {
+        id: 'phone',
+        type: 'equivalent',
+        terms: ['mobile phone', 'cell phone', 'smartphone'],
+        synonyms: [],
+        categoryHint: 'electronics',
+    },
+    { id: 'mobile', type: 'one-way', terms: ['mobile'], synonyms: ['portable'] },
+];
+
+/**
+ * Build a scored product of a category
+ * @param id Product ID
+ * @param category Category ID
+ * @param score Relevance
+ * @returns Product
+ */
+function scored(id: string, category: string, score?: number): ScoredProduct {
+    return { id, category, score } as ScoredProduct;
+}
+
+describe('SynonymDictionary', () => {
+    test('each term of an equivalent rule also searches the others, weighted lower', () => {
+        const dictionary = new SynonymDictionary(RULES);
+
+        expect(dictionary.rewrite(tokenize('leather couch'))).toEqual([
+            [{ terms: ['leather'], weight: 1 }],
+            [
+                { terms: ['couch'], weight: 1 },
+                { terms: ['sofa'], weight: 0.8 },
+            ],
+        ]);
+    });
+
+    test('one-way rules expand their terms but not their synonyms', () => {
+        const dictionary = new SynonymDictionary(RULES);
+
+        expect(dictionary.rewrite(tokenize('tees'))).toEqual([
+            [
+                { terms: ['tee'], weight: 1 },
+                { terms: ['t', 'shirt'], weight: 0.8 },
+            ],
+        ]);
+        expect(dictionary.rewrite(tokenize('t-shirt'))).toEqual([
+            [{ terms: ['t'], weight: 1 }],
+            [{ terms: ['shirt'], weight: 1 }],
+        ]);
+    });
+
+    test('the longest phrase of the query wins', () => {
+        const dictionary = new SynonymDictionary(RULES);
+
+        expect(dictionary.rewrite(tokenize('mobile phone case'))).toEqual([
+            [
+                { terms: ['mobile', 'phone'], weight: 1 },
+                { terms: ['cell', 'phone'], weight: 0.8 },
+                { terms: ['smartphone'], weight: 0.8 },
+            ],
+            [{ terms: ['case'], weight: 1 }],
+        ]);
+        expect(dictionary.rewrite(tokenize('mobile speaker'))[0]).toEqual([
+            { terms: ['mobile'], weight: 1 },
+            { terms: ['portable'], weight: 0.8 },
+        ]);
+    });
+
+    test('queries hint at the categories of the rules they contain', () => {
+        const dictionary = new SynonymDictionary(RULES);
+
+        expect(dictionary.categoryHints('Smartphones and tees')).toEqual(['electronics', 'clothing']);
+        expect(dictionary.categoryHints('mobile')).toEqual([]);
+    });
+
+    test('rule terms are known, so spell-checking leaves them alone', () => {
+        const dictionary = new SynonymDictionary(RULES);
+
+        expect(dictionary.has('couch')).toBe(true);
+        expect(dictionary.has('phone')).toBe(true);
+        expect(dictionary.has('portable')).toBe(false);
+    });
+
+    test('loading rules replaces the previous ones', () => {
+        const dictionary = new SynonymDictionary(RULES);
+
+        dictionary.load([{ id: 'laptop', type: 'equivalent', terms: ['laptop', 'notebook'], synonyms: [] }]);
+
+        expect(dictionary.rewrite(['couch'])).toEqual([[{ terms: ['couch'], weight: 1 }]]);
+        expect(dictionary.rewrite(['notebook'])[0]).toHaveLength(2);
+        expect(dictionary.has('sofa')).toBe(false);
+    });
+});
+
+describe('boostHintedCategories', () => {
+    test('matches in a hinted category or subcategory rank higher', () => {
+        const matches = [
+            scored('case', 'accessories', 2),
+            { ...scored('phone', 'phones', 1.5), subcategory: 'smartphones' },
+            scored('laptop', 'electronics', 1),
+        ];
+
+        expect(boostHintedCategories(matches, ['smartphones', 'electronics'])).toEqual([
+            { ...scored('phone', 'phones', 2.25), subcategory: 'smartphones' },
+            scored('case', 'accessories', 2),
+            scored('laptop', 'electronics', 1.5),
+        ]);
+    });
+
+    test('matches are unchanged without hints', () => {
+        const matches = [scored('case', 'accessories', 2)];
+
+        expect(boostHintedCategories(matches, [])).toBe(matches);
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * Query rewriting with synonyms and category hints
+ */
+
+import { ScoredProduct } from '../interfaces/product-interface.js';
+import { SynonymRule } from '../interfaces/synonym-interface.js';
+import { QueryAlternative } from './product-search-index.js';
+import { tokenize } from './text-analysis.js';
+
+/** Score multiplier of synonym matches, so products matching the words typed rank first */
+const SYNONYM_WEIGHT = 0.8;
+/** Score multiplier of matches in a category hinted by the query */
+const CATEGORY_HINT_BOOST = 1.5;
+
+/**
+ * What a rule phrase found in a query rewrites to
+ */
+interface PhraseEntry {
+    /** Stemmed terms of the phrase */
+    phrase: string[];
+    /** Stemmed phrases also searched, distinct and other than the phrase itself */
+    expansions: string[][];
+    categoryHints: string[];
+}
+
+/**
+ * Compiled synonym rules, matched against analyzed query terms
+ * Rule phrases are analyzed like queries, so "T-Shirts" in a rule matches "t shirt" in a query
+ */
+export class SynonymDictionary {
+    /** First term of a phrase to the entries starting with it, longest phrases first */
+    private entries = new Map<string, PhraseEntry[]>();
+    /** Every term of a rule phrase */
+    private knownTerms = new Set<string>();
+
+    /**
+     * @param rules Initial rules
+     */
+    constructor(rules: SynonymRule[] = []) {
+        this.load(rules);
+    }
+
+    /**
+     * Replace the rules
+     * @param rules Synonym rules
+     */
+    load(rules: SynonymRule[]): void {
+        const entries = new Map<string, PhraseEntry>();
+
+        for (const rule of rules) {
+            const phrases = rule.terms.map(tokenize).filter((phrase) => phrase.length > 0);
+            const synonyms = rule.synonyms.map(tokenize).filter((phrase) => phrase.length > 0);
+
+            for (const phrase of phrases) {
+                const key = phrase.join(' ');
+                let entry = entries.get(key);
+                if (!entry) {
+                    entry = { phrase, expansions: [], categoryHints: [] };
+                    entries.set(key, entry);
+                }
+
+                const expansions = rule.type === 'equivalent' ? phrases : synonyms;
+                for (const expansion of expansions) {
+                    const expansionKey = expansion.join(' ');
+                    if (expansionKey !== key && !entry.expansions.some((other) => other.join(' ') === expansionKey)) {
+                        entry.expansions.push(expansion);
+                    }
+                }
+                if (rule.categoryHint && !entry.categoryHints.includes(rule.categoryHint)) {
+                    entry.categoryHints.push(rule.categoryHint);
+                }
+            }
+        }
+
+        this.entries = new Map();
+        this.knownTerms = new Set();
+        for (const entry of entries.values()) {
+            const [first] = entry.phrase;
+            this.entries.set(first, [...(this.entries.get(first) ?? []), entry]);
+            entry.phrase.forEach((term) => this.knownTerms.add(term));
+        }
+        for (const phraseEntries of this.entries.values()) {
+            phraseEntries.sort((a, b) => b.phrase.length - a.phrase.length);
+        }
+    }
+
+    /**
+     * Check whether a term belongs to a rule phrase, so spell-checking leaves it alone
+     * @param term Stemmed term
+     * @returns True if a rule contains the term
+     */
+    has(term: string): boolean {
+        return this.knownTerms.has(term);
+    }
+
+    /**
+     * Rewrite analyzed query terms into groups of alternatives for the search index
+     * Rule phrases are matched longest first, so "mobile phone" wins over "mobile"
+     * @param terms Stemmed query terms
+     * @returns One group per phrase or remaining term, the words typed first and their synonyms after
+     */
+    rewrite(terms: string[]): QueryAlternative[][] {
+        return this.matchPhrases(terms).map(({ phrase, expansions }) => [
+            { terms: phrase, weight: 1 },
+            ...expansions.map((expansion) => ({ terms: expansion, weight: SYNONYM_WEIGHT })),
+        ]);
+    }
+
+    /**
+     * Find the categories hinted by a query
+     * @param query Free-text query
+     * @returns Distinct hinted category IDs
+     */
+    categoryHints(query: string): string[] {
+        return [...new Set(this.matchPhrases(tokenize(query)).flatMap(({ categoryHints }) => categoryHints))];
+    }
+
+    /**
+     * Split query terms into rule phrases and remaining terms
+     * @param terms Stemmed query terms
+     * @returns Entries in query order, remaining terms having no expansion or hint
+     */
+    private matchPhrases(terms: string[]): PhraseEntry[] {
+        const matches: PhraseEntry[] = [];
+
+        for (let start = 0; start < terms.length; ) {
+            const entry = this.entries
+                .get(terms[start])
+                ?.find(({ phrase }) => phrase.every((term, offset) => terms[start + offset] === term));
+
+            matches.push(entry ?? { phrase: [terms[start]], expansions: [], categoryHints: [] });
+            start += entry?.phrase.length ?? 1;
+        }
+
+        return matches;
+    }
+}
+
+/**
+ * Rank the matches in the categories hinted by a query higher
+ * @param matches Search matches, best first
+ * @param categoryHints Hinted category IDs, matching a product's category or subcategory
+ * @returns Matches with boosted scores, best first
+ */
+export function boostHintedCategories<T extends ScoredProduct>(matches: T[], categoryHints: string[]): T[] {
+    if (categoryHints.length === 0) {
+        return matches;
+    }
+
+    const hinted = new Set(categoryHints);
+    return matches
+        .map((product) =>
+            product.score !== undefined &&
+            (hinted.has(product.category) || (product.subcategory !== undefined && hinted.has(product.subcategory)))
+                ? { ...product, score: Math.round(product.score * CATEGORY_HINT_BOOST * 10_000) / 10_000 }
+                : product,
+        )
+        .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+}
@@ -0,0 +1,144 @@
+/**
+ * Text analysis shared by indexing and querying: tokenization, stop words and stemming
+ */
+
+/**
+ * Common English words carrying no meaning for product search
+ */
+export const STOP_WORDS = new Set([
+    'a',
+    'an',
+    'and',
+    'are',
+    'as',
+    'at',
+    'be',
+    'but',
+    'by',
+    'for',
+    'from',
+    'has',
+    'have',
+    'in',
+    'into',
+    'is',
+    'it',
+    'its',
+    'of',
+    'on',
+    'or',
+    'our',
+    'that',
+    'the',
+    'their',
+    'this',
+    'to',
+    'was',
+    'were',
+    'will',
+    'with',
+    'you',
+    'your',
+]);
+
+/**
+ * Derivational suffixes reduced by the stemmer, longest first
+ */
+const SUFFIX_RULES: Array<[suffix: string, replacement: string]> = [
+    ['ational', 'ate'],
+    ['ization', 'ize'],
+    ['iveness', 'ive'],
+    ['fulness', 'ful'],
+    ['ousness', 'ous'],
+    ['ness', ''],
+    ['ly', ''],
+];
+
+/**
+ * Check whether a string contains a vowel
+ * @param value String to check
+ * @returns True if it contains a, e, i, o, u or y
+ */
+function hasVowel(value: string): boolean {
+    return /[aeiouy]/.test(value);
+}
+
+/**
+ * Reduce an English word to its stem with a light Porter-style stemmer
+ * Plurals and -ed/-ing forms are always reduced, a few derivational suffixes when the stem stays long enough
+ * @param word Lowercase word
+ * @returns Stem, identical for the inflected forms of a word
+ */
+export function stem(word: string): string {
+    if (word.length <= 3 || /\d/.test(word)) {
+        return word;
+    }
+
+    let result = word;
+
+    // Plurals
+    if (result.endsWith('sses')) {
+        result = result.slice(0, -2);
+    } else if (result.endsWith('ies')) {
+        result = `${result.slice(0, -3)}y`;
+    } else if (result.endsWith('s') && !/(ss|us|is)$/.test(result)) {
+        result = result.slice(0, -1);
+    }
+
+    // Past tense and gerunds
+    for (const suffix of ['ing', 'ed']) {
+        const base = result.slice(0, -suffix.length);
+        if (result.endsWith(suffix) && base.length >= 3 && hasVowel(base)) {
+            if (/(at|bl|iz)$/.test(base)) {
+                result = `${base}e`;
+            } else if (/([^aeiouylsz])\1$/.test(base)) {
+                result = base.slice(0, -1);
+            } else {
+                result = base;
+            }
+            break;
+        }
+    }
+
+    for (const [suffix, replacement] of SUFFIX_RULES) {
+        if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+            result = result.slice(0, -suffix.length) + replacement;
+            break;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Lowercase text and strip its diacritics
+ * @param text Text to fold
+ * @returns Folded text
+ */
+export function foldText(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Split text into normalized words
+ * Text is folded and split on anything but letters and digits; stop words are dropped
+ * @param text Text to analyze
+ * @returns Unstemmed words in order of appearance, duplicates included
+ */
+export function splitWords(text: string): string[] {
+    return foldText(text)
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word.length > 0 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Split text into normalized search terms
+ * @param text Text to analyze
+ * @returns Stemmed terms in order of appearance, duplicates included
+ */
+export function tokenize(text: string): string[] {
+    return splitWords(text).map(stem);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'bun:test';
+
+import { dotProduct, TextEmbedder, WeightedText } from './text-embedding.js';
+
+const CORPUS = [
+    'wireless headphones with noise cancelling for music',
+    'bluetooth earbuds wireless music on the go',
+    'over-ear headphones studio music monitoring',
+    'oak desk for the home office',
+    'ergonomic office chair with lumbar support',
+    'standing desk adjustable office workstation',
+].map((text): WeightedText[] => [{ text, weight: 1 }]);
+
+/**
+ * Embed a single text
+ * @param embedder Fitted embedder
+ * @param text Text to embed
+ * @returns Unit vector
+ */
+function embed(embedder: TextEmbedder, text: string): Float32Array {
+    return embedder.embed([{ text, weight: 1 }]);
+}
+
+describe('TextEmbedder', () => {
+    test('texts are embedded as unit vectors of the fitted dimensions', () => {
+        const embedder = TextEmbedder.fit(CORPUS, 4);
+
+        const vector = embed(embedder, 'wireless headphones');
+
+        expect(embedder.dimensions).toBe(4);
+        expect(vector).toHaveLength(4);
+        expect(dotProduct(vector, vector)).toBeCloseTo(1, 5);
+    });
+
+    test('texts are closer to documents of their topic, even without a shared word', () => {
+        const embedder = TextEmbedder.fit(CORPUS, 2);
+        const [headphones, , , desk] = CORPUS.map((document) => embedder.embed(document));
+
+        const earbuds = embed(embedder, 'earbuds');
+
+        expect(dotProduct(earbuds, headphones)).toBeGreaterThan(0.5);
+        expect(dotProduct(earbuds, headphones)).toBeGreaterThan(dotProduct(earbuds, desk) + 0.5);
+    });
+
+    test('fitting the same documents gives the same embeddings', () => {
+        expect(embed(TextEmbedder.fit(CORPUS, 4), 'office chair')).toEqual(
+            embed(TextEmbedder.fit(CORPUS, 4), 'office chair'),
+        );
+    });
+
+    test('texts of words unknown to the corpus embed as zeros', () => {
+        const embedder = TextEmbedder.fit(CORPUS, 4);
+
+        expect([...embed(embedder, 'zzz qqq')]).toEqual([0, 0, 0, 0]);
+        expect(TextEmbedder.fit([], 4).dimensions).toBe(0);
+    });
+});
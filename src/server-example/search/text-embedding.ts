@@ -0,0 +1,320 @@
+/**
+ * Local text embeddings: hashed TF-IDF features reduced to dense vectors with latent semantic analysis
+ */
+
+import { splitWords, stem } from './text-analysis.js';
+
+/**
+ * Text with its weight in the features of a document
+ */
+export interface WeightedText {
+    text: string;
+    weight: number;
+}
+
+/** Number of hashed feature buckets, words and word fragments of any vocabulary land in one of them */
+const FEATURE_BUCKETS = 1 << 13;
+/** Weight of the character trigrams of a word relative to its stem, so related word forms share features */
+const TRIGRAM_WEIGHT = 0.3;
+/** Feature kinds, hashed with the feature text */
+const WORD_FEATURE = 1;
+const TRIGRAM_FEATURE = 2;
+/** Extra random directions explored by the randomized SVD to capture the top dimensions accurately */
+const OVERSAMPLING = 10;
+/** Power iterations of the randomized SVD, sharpening the separation of the top dimensions */
+const POWER_ITERATIONS = 1;
+/** Sweeps of the Jacobi eigenvalue algorithm, far more than the small matrices need to converge */
+const MAX_JACOBI_SWEEPS = 50;
+
+/**
+ * Hash a feature into a bucket with 32-bit FNV-1a
+ * @param kind Feature kind, so a word and a trigram with the same letters land in different buckets
+ * @param text Text holding the feature
+ * @param start Start of the feature in the text
+ * @param end End of the feature in the text, exclusive
+ * @returns Bucket index
+ */
+function bucketOf(kind: number, text: string, start: number, end: number): number {
+    let hash = Math.imul(0x811c9dc5 ^ kind, 0x01000193);
+    for (let i = start; i < end; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    }
+    return (hash >>> 0) % FEATURE_BUCKETS;
+}
+
+/**
+ * Count the hashed features of a text: word stems and character trigrams of the words
+ * @param texts Weighted parts of the text
+ * @returns Bucket to weighted count
+ */
+function countFeatures(texts: WeightedText[]): Map<number, number> {
+    const counts = new Map<number, number>();
+    const addFeature = (bucket: number, weight: number) => counts.set(bucket, (counts.get(bucket) ?? 0) + weight);
+
+    for (const { text, weight } of texts) {
+        for (const word of splitWords(text)) {
+            const term = stem(word);
+            addFeature(bucketOf(WORD_FEATURE, term, 0, term.length), weight);
+
+            const padded = `#${word}#`;
+            for (let i = 0; i + 3 <= padded.length; i++) {
+                addFeature(bucketOf(TRIGRAM_FEATURE, padded, i, i + 3), weight * TRIGRAM_WEIGHT);
+            }
+        }
+    }
+
+    return counts;
+}
+
+/**
+ * Scale a vector to unit length in place
+ * @param vector Vector to normalize
+ * @returns The same vector
+ */
+export function normalizeVector(vector: Float32Array): Float32Array {
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (length > 0) {
+        vector.forEach((value, i) => (vector[i] = value / length));
+    }
+    return vector;
+}
+
+/**
+ * Compute the dot product of two vectors, their cosine similarity when both have unit length
+ * @param a First vector
+ * @param b Second vector of the same dimension
+ * @returns Dot product
+ */
+export function dotProduct(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+        sum += a[i] * b[i];
+    }
+    return sum;
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32), so fitting the same documents always gives the same embeddings
+ * @param seed Seed
+ * @returns Generator of numbers in [-1, 1)
+ */
+function randomGenerator(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 2 ** 31 - 1;
+    };
+}
+
+/**
+ * Orthonormalize the columns of a matrix in place with modified Gram-Schmidt
+ * @param columns Column vectors
+ */
+function orthonormalize(columns: Float32Array[]): void {
+    columns.forEach((column, i) => {
+        for (let j = 0; j < i; j++) {
+            const other = columns[j];
+            const projection = dotProduct(column, other);
+            for (let row = 0; row < column.length; row++) {
+                column[row] -= projection * other[row];
+            }
+        }
+        normalizeVector(column);
+    });
+}
+
+/**
+ * Diagonalize a small symmetric matrix with the cyclic Jacobi eigenvalue algorithm
+ * @param matrix Symmetric matrix, destroyed by the computation
+ * @returns Eigenvalues and eigenvectors as columns, largest eigenvalue first
+ */
+function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+    const size = matrix.length;
+    const vectors: number[][] = matrix.map((_, i) => matrix.map((__, j) => (i === j ? 1 : 0)));
+
+    for (let sweep = 0; sweep < MAX_JACOBI_SWEEPS; sweep++) {
+        let offDiagonal = 0;
+        for (let p = 0; p < size; p++) {
+            for (let q = p + 1; q < size; q++) {
+                offDiagonal += matrix[p][q] ** 2;
+            }
+        }
+        if (offDiagonal < 1e-18) {
+            break;
+        }
+
+        for (let p = 0; p < size; p++) {
+            for (let q = p + 1; q < size; q++) {
+                if (Math.abs(matrix[p][q]) < 1e-30) {
+                    continue;
+                }
+                // Rotate rows and columns p and q to zero matrix[p][q]
+                const theta = (matrix[q][q] - matrix[p][p]) / (2 * matrix[p][q]);
+                const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                const c = 1 / Math.sqrt(t * t + 1);
+                const s = t * c;
+
+                for (let k = 0; k < size; k++) {
+                    const kp = matrix[k][p];
+                    const kq = matrix[k][q];
+                    matrix[k][p] = c * kp - s * kq;
+                    matrix[k][q] = s * kp + c * kq;
+                }
+                for (let k = 0; k < size; k++) {
+                    const pk = matrix[p][k];
+                    const qk = matrix[q][k];
+                    matrix[p][k] = c * pk - s * qk;
+                    matrix[q][k] = s * pk + c * qk;
+                }
+                for (let k = 0; k < size; k++) {
+                    const kp = vectors[k][p];
+                    const kq = vectors[k][q];
+                    vectors[k][p] = c * kp - s * kq;
+                    vectors[k][q] = s * kp + c * kq;
+                }
+            }
+        }
+    }
+
+    const order = matrix.map((_, i) => i).sort((a, b) => matrix[b][b] - matrix[a][a]);
+    return {
+        values: order.map((i) => matrix[i][i]),
+        vectors: vectors.map((row) => order.map((i) => row[i])),
+    };
+}
+
+/**
+ * Sparse feature vector
+ */
+interface SparseVector {
+    buckets: Int32Array;
+    weights: Float32Array;
+}
+
+/**
+ * Weigh feature counts with sublinear TF-IDF and normalize them to unit length
+ * @param counts Bucket to weighted count
+ * @param idf Inverse document frequency of each bucket
+ * @returns Weighted features, without the buckets unknown to the corpus
+ */
+function weighFeatures(counts: Map<number, number>, idf: Float32Array): SparseVector {
+    const known = [...counts].filter(([bucket]) => idf[bucket] > 0);
+    const buckets = Int32Array.from(known, ([bucket]) => bucket);
+    const weights = Float32Array.from(known, ([bucket, count]) => (1 + Math.log(1 + count)) * idf[bucket]);
+
+    const length = Math.sqrt(weights.reduce((sum, weight) => sum + weight * weight, 0));
+    return { buckets, weights: length > 0 ? weights.map((weight) => weight / length) : weights };
+}
+
+/**
+ * Maps text to dense unit vectors whose dot product measures topical similarity
+ * Fitted with latent semantic analysis: words that occur in the same documents get close directions, so a
+ * text can be close to a document it shares no word with
+ */
+export class TextEmbedder {
+    /**
+     * @param idf Inverse document frequency of each feature bucket
+     * @param dimensions Number of dimensions of the embeddings
+     * @param projection Embedding of each feature bucket, `dimensions` values per bucket
+     */
+    private constructor(
+        private readonly idf: Float32Array,
+        readonly dimensions: number,
+        private readonly projection: Float32Array,
+    ) {}
+
+    /**
+     * Learn the embedding space of a corpus with a randomized truncated SVD of its TF-IDF matrix
+     * @param documents Documents as weighted texts
+     * @param dimensions Number of dimensions to keep, capped by the corpus size
+     * @returns Fitted embedder
+     */
+    static fit(documents: WeightedText[][], dimensions: number): TextEmbedder {
+        const counts = documents.map(countFeatures);
+
+        const documentFrequencies = new Float32Array(FEATURE_BUCKETS);
+        counts.forEach((features) => features.forEach((_, bucket) => documentFrequencies[bucket]++));
+        const idf = documentFrequencies.map((frequency) =>
+            frequency > 0 ? Math.log((1 + documents.length) / frequency) : 0,
+        );
+
+        const rows = counts.map((features) => weighFeatures(features, idf));
+        const size = Math.min(dimensions + OVERSAMPLING, rows.length);
+        if (size === 0) {
+            return new TextEmbedder(idf, 0, new Float32Array(0));
+        }
+
+        // Multiply the TF-IDF matrix A (documents x buckets) or its transpose by dense column vectors
+        const multiply = (columns: Float32Array[]) =>
+            columns.map((column) =>
+                Float32Array.from(rows, ({ buckets, weights }) => {
+                    let sum = 0;
+                    for (let i = 0; i < buckets.length; i++) {
+                        sum += weights[i] * column[buckets[i]];
+                    }
+                    return sum;
+                }),
+            );
+        const multiplyTransposed = (columns: Float32Array[]) =>
+            columns.map((column) => {
+                const result = new Float32Array(FEATURE_BUCKETS);
+                rows.forEach(({ buckets, weights }, document) => {
+                    for (let i = 0; i < buckets.length; i++) {
+                        result[buckets[i]] += weights[i] * column[document];
+                    }
+                });
+                return result;
+            });
+
+        // Range finder: an orthonormal basis Q of the span of A^T applied to random vectors
+        const random = randomGenerator(documents.length);
+        let basis = multiplyTransposed(
+            Array.from({ length: size }, () => Float32Array.from({ length: rows.length }, random)),
+        );
+        orthonormalize(basis);
+        for (let i = 0; i < POWER_ITERATIONS; i++) {
+            basis = multiplyTransposed(multiply(basis));
+            orthonormalize(basis);
+        }
+
+        // The eigenvectors of (AQ)^T AQ rotate Q onto the top right singular vectors of A
+        const reduced = multiply(basis);
+        const gram = reduced.map((a) => reduced.map((b) => dotProduct(a, b)));
+        const { values, vectors } = symmetricEigen(gram);
+
+        const kept = Math.min(dimensions, values.filter((value) => value > 1e-9).length);
+        const projection = new Float32Array(FEATURE_BUCKETS * kept);
+        for (let bucket = 0; bucket < FEATURE_BUCKETS; bucket++) {
+            const offset = bucket * kept;
+            basis.forEach((column, i) => {
+                const value = column[bucket];
+                for (let dimension = 0; dimension < kept; dimension++) {
+                    projection[offset + dimension] += value * vectors[i][dimension];
+                }
+            });
+        }
+
+        return new TextEmbedder(idf, kept, projection);
+    }
+
+    /**
+     * Embed a text
+     * @param texts Weighted parts of the text
+     * @returns Unit vector, all zeros if the text has no known feature
+     */
+    embed(texts: WeightedText[]): Float32Array {
+        const { buckets, weights } = weighFeatures(countFeatures(texts), this.idf);
+        const vector = new Float32Array(this.dimensions);
+
+        for (let i = 0; i < buckets.length; i++) {
+            const offset = buckets[i] * this.dimensions;
+            for (let dimension = 0; dimension < this.dimensions; dimension++) {
+                vector[dimension] += weights[i] * this.projection[offset + dimension];
+            }
+        }
+
+        return normalizeVector(vector);
+    }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'bun:test';
+
+import { normalizeVector } from './text-embedding.js';
+import { VectorIndex } from './vector-index.js';
+
+/**
+ * Build a unit vector
+ * @param values Coordinates, normalized
+ * @returns Unit vector
+ */
+function unit(...values: number[]): Float32Array {
+    return normalizeVector(Float32Array.from(values));
+}
+
+/**
+ * Search an index for the IDs of the matches
+ * @param index Vector index
+ * @param query Query vector
+ * @param limit Maximum number of matches
+ * @returns Matching IDs, most similar first
+ */
+function ids(index: VectorIndex, query: Float32Array, limit = 10): string[] {
+    return index.search(query, limit, 0).map(({ id }) => id);
+}
+
+describe('VectorIndex', () => {
+    test('matches are the most similar vectors above the minimum similarity', () => {
+        const index = new VectorIndex(1);
+        index.add('east', unit(1, 0));
+        index.add('north-east', unit(1, 1));
+        index.add('north', unit(0, 1));
+        index.add('west', unit(-1, 0));
+
+        expect(index.search(unit(1, 0), 10, 0.5)).toEqual([
+            { id: 'east', similarity: 1 },
+            { id: 'north-east', similarity: expect.closeTo(Math.SQRT1_2, 5) },
+        ]);
+        expect(ids(index, unit(1, 0.1), 2)).toEqual(['east', 'north-east']);
+    });
+
+    test('vectors are replaced and removed by ID', () => {
+        const index = new VectorIndex(1);
+        index.add('a', unit(1, 0));
+        index.add('b', unit(0, 1));
+
+        index.add('a', unit(0, 1));
+
+        expect(index.size).toBe(2);
+        expect(index.get('a')).toEqual(unit(0, 1));
+        expect(index.remove('a')).toBe(true);
+        expect(index.remove('a')).toBe(false);
+        expect(index.get('a')).toBeUndefined();
+        expect(ids(index, unit(0, 1))).toEqual(['b']);
+    });
+
+    test('a trained index only scans the clusters closest to the query', () => {
+        const index = new VectorIndex(1);
+        index.add('east-1', unit(1, 0.1));
+        index.add('east-2', unit(1, -0.1));
+        index.add('north-1', unit(0.1, 1));
+        index.add('north-2', unit(-0.1, 1));
+
+        index.train(2, 100);
+
+        // North-east is as close to the north vectors, but they are in the other cluster
+        expect(ids(index, unit(1, 0.9)).sort()).toEqual(['east-1', 'east-2']);
+        expect(index.size).toBe(4);
+    });
+
+    test('vectors added after training join the cluster of their nearest centroid', () => {
+        const index = new VectorIndex(1);
+        index.add('east', unit(1, 0));
+        index.add('north', unit(0, 1));
+        index.train(2, 100);
+
+        index.add('north-east', unit(0.2, 1));
+
+        expect(ids(index, unit(0, 1))).toEqual(['north', 'north-east']);
+        expect(ids(index, unit(1, 0))).toEqual(['east']);
+    });
+
+    test('probing every cluster finds the exact neighbors', () => {
+        const index = new VectorIndex(2);
+        index.add('east', unit(1, 0.1));
+        index.add('north', unit(0.1, 1));
+        index.train(2, 100);
+
+        expect(ids(index, unit(1, 1)).sort()).toEqual(['east', 'north']);
+    });
+});
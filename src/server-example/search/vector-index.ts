@@ -0,0 +1,169 @@
+/**
+ * Approximate nearest-neighbor index over unit vectors
+ */
+
+import { dotProduct, normalizeVector } from './text-embedding.js';
+
+/**
+ * Nearest neighbor of a query vector
+ */
+export interface VectorMatch {
+    id: string;
+    /** Cosine similarity to the query */
+    similarity: number;
+}
+
+/** Lloyd iterations of the k-means clustering */
+const KMEANS_ITERATIONS = 8;
+
+/**
+ * Inverted file index: vectors are grouped around k-means centroids and a search only scans the clusters closest
+ * to the query
+ * Maintained incrementally: vectors added after training join the cluster of their nearest centroid
+ */
+export class VectorIndex {
+    private centroids: Float32Array[] = [];
+    /** Vectors of each cluster by ID */
+    private clusters: Array<Map<string, Float32Array>> = [new Map()];
+    private readonly clusterOf = new Map<string, number>();
+
+    /**
+     * @param probes Number of clusters scanned per search, the more the slower and the more accurate
+     */
+    constructor(private readonly probes: number) {}
+
+    /**
+     * Number of indexed vectors
+     */
+    get size(): number {
+        return this.clusterOf.size;
+    }
+
+    /**
+     * Cluster the indexed vectors around new centroids with spherical k-means
+     * @param clusterCount Number of clusters, capped by the number of vectors
+     * @param sampleSize Most vectors the centroids are computed from, spread evenly over the index
+     */
+    train(clusterCount: number, sampleSize: number): void {
+        const entries = this.clusters.flatMap((cluster) => [...cluster]);
+        const sample = Array.from(
+            { length: Math.min(sampleSize, entries.length) },
+            (_, i) => entries[Math.floor((i * entries.length) / Math.min(sampleSize, entries.length))][1],
+        );
+        const count = Math.min(clusterCount, sample.length);
+
+        // Deterministic initialization with evenly spaced vectors
+        this.centroids = Array.from({ length: count }, (_, i) =>
+            Float32Array.from(sample[Math.floor((i * sample.length) / count)]),
+        );
+
+        for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+            const sums = this.centroids.map((centroid) => new Float32Array(centroid.length));
+            for (const vector of sample) {
+                const sum = sums[this.nearestCentroid(vector)];
+                vector.forEach((value, i) => (sum[i] += value));
+            }
+            // A centroid left without vectors keeps its position
+            this.centroids = sums.map((sum, i) =>
+                sum.some((value) => value !== 0) ? normalizeVector(sum) : this.centroids[i],
+            );
+        }
+
+        this.clusters = this.centroids.length > 0 ? this.centroids.map(() => new Map()) : [new Map()];
+        this.clusterOf.clear();
+        entries.forEach(([id, vector]) => this.add(id, vector));
+    }
+
+    /**
+     * Index a vector, replacing the previous vector of the ID
+     * @param id Vector ID
+     * @param vector Unit vector
+     */
+    add(id: string, vector: Float32Array): void {
+        this.remove(id);
+        const cluster = this.centroids.length > 0 ? this.nearestCentroid(vector) : 0;
+        this.clusters[cluster].set(id, vector);
+        this.clusterOf.set(id, cluster);
+    }
+
+    /**
+     * Remove a vector from the index
+     * @param id Vector ID
+     * @returns True if the vector was indexed
+     */
+    remove(id: string): boolean {
+        const cluster = this.clusterOf.get(id);
+        if (cluster === undefined) {
+            return false;
+        }
+        this.clusters[cluster].delete(id);
+        this.clusterOf.delete(id);
+        return true;
+    }
+
+    /**
+     * Get the indexed vector of an ID
+     * @param id Vector ID
+     * @returns Vector or undefined if not indexed
+     */
+    get(id: string): Float32Array | undefined {
+        const cluster = this.clusterOf.get(id);
+        return cluster === undefined ? undefined : this.clusters[cluster].get(id);
+    }
+
+    /**
+     * Find the indexed vectors most similar to a query vector
+     * @param query Unit query vector
+     * @param limit Maximum number of matches
+     * @param minSimilarity Lowest similarity of a match
+     * @returns Matches, most similar first
+     */
+    search(query: Float32Array, limit: number, minSimilarity: number): VectorMatch[] {
+        const clusters =
+            this.centroids.length > 0 ? this.nearestCentroids(query, this.probes) : this.clusters.map((_, i) => i);
+        const matches: VectorMatch[] = [];
+
+        for (const cluster of clusters) {
+            for (const [id, vector] of this.clusters[cluster]) {
+                const similarity = dotProduct(query, vector);
+                if (similarity >= minSimilarity) {
+                    matches.push({ id, similarity });
+                }
+            }
+        }
+
+        return matches.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+    }
+
+    /**
+     * Find the centroid closest to a vector
+     * @param vector Unit vector
+     * @returns Cluster index
+     */
+    private nearestCentroid(vector: Float32Array): number {
+        let nearest = 0;
+        let bestSimilarity = -Infinity;
+        this.centroids.forEach((centroid, cluster) => {
+            const similarity = dotProduct(vector, centroid);
+            if (similarity > bestSimilarity) {
+                nearest = cluster;
+                bestSimilarity = similarity;
+            }
+        });
+        return nearest;
+    }
+
+    /**
+     * Find the centroids closest to a vector
+     * @param vector Unit vector
+     * @param count Number of centroids
+     * @returns Cluster indexes, closest first
+     */
+    private nearestCentroids(vector: Float32Array, count: number): number[] {
+        return this.centroids
+            .map((centroid, cluster) => ({ cluster, similarity: dotProduct(vector, centroid) }))
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, count)
+            .map(({ cluster }) => cluster);
+    }
+}
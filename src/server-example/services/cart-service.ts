@@ -0,0 +1,237 @@
+/**
+ * Cart service implementation
+ * Business logic layer for shopping carts
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { Cart, CartItem, CartLine, CartRecord, ICartRepository, ICartService } from '../interfaces/cart-interface.js';
+import { IProductRepository, Product } from '../interfaces/product-interface.js';
+
+/**
+ * Round an amount to cents
+ * @param amount Amount
+ * @returns Rounded amount
+ */
+function roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Price the lines of a cart at the current catalog prices
+ * @param cart Stored cart
+ * @param productRepository Repository the products are read from
+ * @returns Promise with the priced cart, without the products deleted since they were added
+ */
+export async function priceCart(cart: CartRecord, productRepository: IProductRepository): Promise<Cart> {
+    const items: CartItem[] = [];
+    let currency: string | undefined;
+
+    for (const { productId, quantity } of cart.lines) {
+        const product = await productRepository.getProductById(productId);
+        if (product) {
+            currency ??= product.currency;
+            items.push({
+                productId,
+                name: product.name,
+                quantity,
+                unitPrice: product.price,
+                lineTotal: roundAmount(product.price * quantity),
+            });
+        }
+    }
+
+    return {
+        id: cart.id,
+        items,
+        itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+        subtotal: roundAmount(items.reduce((sum, item) => sum + item.lineTotal, 0)),
+        ...(currency && { currency }),
+        createdAt: cart.createdAt,
+        updatedAt: cart.updatedAt,
+    };
+}
+
+/**
+ * Cart service implementing business logic
+ * Keeps every item within the product's stock and every cart in a single currency
+ */
+export class CartService implements ICartService {
+    constructor(
+        private readonly cartRepository: ICartRepository,
+        private readonly productRepository: IProductRepository,
+    ) {}
+
+    /**
+     * Create an empty cart
+     * @returns Promise with the created cart
+     */
+    async createCart(): Promise<{ data: Cart }> {
+        const now = new Date().toISOString();
+        const cart = await this.cartRepository.saveCart({
+            id: `cart-${randomUUID()}`,
+            lines: [],
+            createdAt: now,
+            updatedAt: now,
+        });
+
+        return { data: await priceCart(cart, this.productRepository) };
+    }
+
+    /**
+     * Get a cart by ID
+     * @param id Cart ID
+     * @returns Promise with the priced cart
+     * @throws Error if the cart is not found
+     */
+    async getCart(id: string): Promise<{ data: Cart }> {
+        const cart = await this.getCartRecord(id);
+
+        return { data: await priceCart(cart, this.productRepository) };
+    }
+
+    /**
+     * Add a quantity of a product to a cart
+     * @param cartId Cart ID
+     * @param productId Product ID
+     * @param quantity Quantity added to the quantity already in the cart
+     * @returns Promise with the updated cart
+     * @throws Error if the cart or product is not found, the stock is insufficient or the currency differs
+     */
+    async addItem(cartId: string, productId: string, quantity: number): Promise<{ data: Cart }> {
+        const cart = await this.getCartRecord(cartId);
+        const product = await this.getProduct(productId);
+        const line = cart.lines.find((candidate) => candidate.productId === productId);
+
+        await this.assertInStock(product, (line?.quantity ?? 0) + quantity);
+        await this.assertSameCurrency(cart, product);
+
+        const now = new Date().toISOString();
+        const lines = line
+            ? cart.lines.map((candidate) =>
+                  candidate === line ? { ...line, quantity: line.quantity + quantity } : candidate,
+              )
+            : [...cart.lines, { productId, quantity, addedAt: now }];
+
+        return { data: await this.saveLines(cart, lines, now) };
+    }
+
+    /**
+     * Set the quantity of a product in a cart
+     * @param cartId Cart ID
+     * @param productId Product ID
+     * @param quantity New quantity
+     * @returns Promise with the updated cart
+     * @throws Error if the cart, product or item is not found or the stock is insufficient
+     */
+    async updateItem(cartId: string, productId: string, quantity: number): Promise<{ data: Cart }> {
+        const cart = await this.getCartRecord(cartId);
+        const line = this.getLine(cart, productId);
+
+        await this.assertInStock(await this.getProduct(productId), quantity);
+
+        const lines = cart.lines.map((candidate) => (candidate === line ? { ...line, quantity } : candidate));
+
+        return { data: await this.saveLines(cart, lines, new Date().toISOString()) };
+    }
+
+    /**
+     * Remove a product from a cart
+     * @param cartId Cart ID
+     * @param productId Product ID
+     * @returns Promise with the updated cart
+     * @throws Error if the cart or item is not found
+     */
+    async removeItem(cartId: string, productId: string): Promise<{ data: Cart }> {
+        const cart = await this.getCartRecord(cartId);
+        const line = this.getLine(cart, productId);
+
+        const lines = cart.lines.filter((candidate) => candidate !== line);
+
+        return { data: await this.saveLines(cart, lines, new Date().toISOString()) };
+    }
+
+    /**
+     * Get a stored cart
+     * @param id Cart ID
+     * @returns Promise with the stored cart
+     * @throws Error if the cart is not found
+     */
+    private async getCartRecord(id: string): Promise<CartRecord> {
+        const cart = await this.cartRepository.getCart(id);
+        if (!cart) {
+            throw new Error('Cart not found');
+        }
+        return cart;
+    }
+
+    /**
+     * Get the line of a product in a cart
+     * @param cart Stored cart
+     * @param productId Product ID
+     * @returns Cart line
+     * @throws Error if the product is not in the cart
+     */
+    private getLine(cart: CartRecord, productId: string): CartLine {
+        const line = cart.lines.find((candidate) => candidate.productId === productId);
+        if (!line) {
+            throw new Error('Cart item not found');
+        }
+        return line;
+    }
+
+    /**
+     * Get a product put in a cart
+     * @param productId Product ID
+     * @returns Promise with the product
+     * @throws Error if the product does not exist
+     */
+    private async getProduct(productId: string): Promise<Product> {
+        const product = await this.productRepository.getProductById(productId);
+        if (!product) {
+            throw new Error(`Product not found: ${productId}`);
+        }
+        return product;
+    }
+
+    /**
+     * Check that the stock of a product not reserved by pending orders covers a quantity
+     * @param product Product
+     * @param quantity Quantity in the cart
+     * @throws Error if the stock is insufficient
+     */
+    private async assertInStock(product: Product, quantity: number): Promise<void> {
+        const availability = await this.productRepository.getProductAvailability(product.id);
+        const available = availability?.availableQuantity ?? 0;
+        if (quantity > available) {
+            throw new Error(`Insufficient stock for ${product.id}: requested ${quantity}, available ${available}`);
+        }
+    }
+
+    /**
+     * Check that a product is priced in the currency of the other products of a cart
+     * @param cart Stored cart
+     * @param product Product added
+     * @throws Error if the currencies differ
+     */
+    private async assertSameCurrency(cart: CartRecord, product: Product): Promise<void> {
+        const { currency } = await priceCart(cart, this.productRepository);
+        if (currency && currency !== product.currency) {
+            throw new Error(
+                `Currency mismatch: cart is in ${currency}, ${product.id} is priced in ${product.currency}`,
+            );
+        }
+    }
+
+    /**
+     * Save new cart lines
+     * @param cart Stored cart
+     * @param lines New lines
+     * @param updatedAt Time of the change, ISO date string
+     * @returns Promise with the priced cart
+     */
+    private async saveLines(cart: CartRecord, lines: CartLine[], updatedAt: string): Promise<Cart> {
+        const saved = await this.cartRepository.saveCart({ ...cart, lines, updatedAt });
+        return priceCart(saved, this.productRepository);
+    }
+}
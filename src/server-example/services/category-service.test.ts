@@ -0,0 +1,139 @@
+import { describe, expect, test } from 'bun:test';
+
+import { Category } from '../interfaces/category-interface.js';
+import { Product } from '../interfaces/product-interface.js';
+import { CategoryRepository } from '../repositories/category-repository.js';
+import { CategoryService } from './category-service.js';
+
+/**
+ * Create the category service over a small tree
+ * Electronics holds smartphones and laptops, each with a product; home is empty
+ * @returns Category service
+ */
+function createService(): CategoryService {
+    const categories: Category[] = [
+        {
+            id: 'electronics',
+            name: 'Electronics',
+            description: 'Devices',
+            subcategories: [
+                { id: 'smartphones', name: 'Smartphones', description: '', parentId: 'electronics', subcategories: [] },
+                { id: 'laptops', name: 'Laptops', description: '', parentId: 'electronics', subcategories: [] },
+            ],
+        },
+        { id: 'home', name: 'Home', description: 'Furniture', subcategories: [] },
+    ];
+    const products = [
+        { id: 'phone', name: 'Phone', category: 'electronics', subcategory: 'smartphones', price: 500 },
+        { id: 'laptop', name: 'Laptop', category: 'electronics', subcategory: 'laptops', price: 1000 },
+    ] as Product[];
+
+    return new CategoryService(new CategoryRepository(categories, products));
+}
+
+/**
+ * Get the products of a category and its subcategories
+ * @param service Category service
+ * @param id Category ID
+ * @returns Products
+ */
+async function productsOf(service: CategoryService, id: string): Promise<Product[]> {
+    const { data } = await service.getCategoryProducts(id, 1, 100);
+    return data;
+}
+
+describe('CategoryService', () => {
+    test('categories are created under existing parents with unused IDs', async () => {
+        const service = createService();
+
+        await service.createCategory({ id: 'tablets', name: 'Tablets', description: '', parentId: 'electronics' });
+
+        const { data: electronics } = await service.getCategoryById('electronics');
+        expect(electronics.subcategories.map(({ id }) => id)).toEqual(['smartphones', 'laptops', 'tablets']);
+        await expect(service.createCategory({ id: 'home', name: 'Home', description: '' })).rejects.toThrow(
+            'Category already exists: home',
+        );
+        await expect(
+            service.createCategory({ id: 'rugs', name: 'Rugs', description: '', parentId: 'garden' }),
+        ).rejects.toThrow('Parent category not found: garden');
+    });
+
+    test('renaming a category keeps its place in the tree', async () => {
+        const service = createService();
+
+        await service.updateCategory('smartphones', { name: 'Phones' });
+
+        const { data: electronics } = await service.getCategoryById('electronics');
+        expect(electronics.subcategories[0]).toMatchObject({ id: 'smartphones', name: 'Phones' });
+        await expect(service.updateCategory('garden', { name: 'Garden' })).rejects.toThrow('Category not found');
+    });
+
+    test('a category cannot move under itself or one of its descendants', async () => {
+        const service = createService();
+
+        for (const parentId of ['electronics', 'smartphones']) {
+            await expect(service.moveCategory('electronics', parentId)).rejects.toThrow(
+                'Cannot move category electronics under its own subtree',
+            );
+        }
+        await expect(service.moveCategory('smartphones', 'garden')).rejects.toThrow(
+            'Parent category not found: garden',
+        );
+        await expect(service.moveCategory('garden', 'home')).rejects.toThrow('Category not found');
+    });
+
+    test('moving a category updates both parents and realigns its products', async () => {
+        const service = createService();
+
+        const { data: moved } = await service.moveCategory('smartphones', 'home');
+
+        expect(moved.parentId).toBe('home');
+        const { data: roots } = await service.getCategories(undefined, false);
+        expect(roots.map(({ id, subcategories }) => [id, subcategories.map((child) => child.id)])).toEqual([
+            ['electronics', ['laptops']],
+            ['home', ['smartphones']],
+        ]);
+        expect(await productsOf(service, 'home')).toEqual([
+            expect.objectContaining({ id: 'phone', category: 'home', subcategory: 'smartphones' }),
+        ]);
+    });
+
+    test('moving a category to the root makes it the category of its products', async () => {
+        const service = createService();
+
+        const { data: moved } = await service.moveCategory('smartphones', null);
+
+        expect(moved.parentId).toBeUndefined();
+        const [phone] = await productsOf(service, 'smartphones');
+        expect(phone.category).toBe('smartphones');
+        expect(phone.subcategory).toBeUndefined();
+        expect((await productsOf(service, 'electronics')).map(({ id }) => id)).toEqual(['laptop']);
+    });
+
+    test('categories with subcategories or products are not deleted', async () => {
+        const service = createService();
+
+        await expect(service.deleteCategory('electronics')).rejects.toThrow(
+            'Category is not empty: electronics has subcategories',
+        );
+        await expect(service.deleteCategory('laptops')).rejects.toThrow(
+            'Category is not empty: laptops has 1 products, reassign them first',
+        );
+        await expect(service.deleteCategory('laptops', 'laptops')).rejects.toThrow(
+            'Cannot reassign products of laptops to itself',
+        );
+        await expect(service.deleteCategory('laptops', 'garden')).rejects.toThrow('Target category not found: garden');
+        expect(await productsOf(service, 'laptops')).toHaveLength(1);
+    });
+
+    test('products of a deleted category are reassigned first', async () => {
+        const service = createService();
+
+        await service.deleteCategory('laptops', 'smartphones');
+        await service.deleteCategory('home');
+
+        expect((await productsOf(service, 'smartphones')).map(({ id }) => id).sort()).toEqual(['laptop', 'phone']);
+        await expect(service.getCategoryById('laptops')).rejects.toThrow('Category not found');
+        await expect(service.getCategoryById('home')).rejects.toThrow('Category not found');
+    });
+});
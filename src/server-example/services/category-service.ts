@@ -7,6 +7,10 @@ import {
     ICategoryService,
     ICategoryRepository,
     Category,
+    CategoryBreadcrumb,
+    CategoryDescendant,
+    CategoryInput,
+    CategoryUpdate,
     PaginationMeta,
     PriceRange,
 } from '../interfaces/category-interface.js';
@@ -82,4 +86,138 @@ export class CategoryService implements ICategoryService {
 
         return { data: priceRange };
     }
+
+    /**
+     * Get the path from the root down to a category
+     * @param id Category ID
+     * @returns Promise with breadcrumbs, the root first and the category last
+     * @throws Error if category not found
+     */
+    async getCategoryBreadcrumbs(id: string): Promise<{ data: CategoryBreadcrumb[] }> {
+        const path = await this.categoryRepository.getCategoryPath(id);
+
+        if (!path) {
+            throw new Error('Category not found');
+        }
+
+        return { data: path.map(({ id, name }) => ({ id, name })) };
+    }
+
+    /**
+     * Get every category below a category
+     * @param id Category ID
+     * @returns Promise with descendants, depth-first
+     * @throws Error if category not found
+     */
+    async getCategoryDescendants(id: string): Promise<{ data: CategoryDescendant[] }> {
+        const descendants = await this.categoryRepository.getCategoryDescendants(id);
+
+        if (!descendants) {
+            throw new Error('Category not found');
+        }
+
+        return { data: descendants };
+    }
+
+    /**
+     * Create a category
+     * @param input Category fields
+     * @returns Promise with the created category
+     * @throws Error if the ID is taken or the parent does not exist
+     */
+    async createCategory(input: CategoryInput): Promise<{ data: Category }> {
+        if (await this.categoryRepository.getCategoryPath(input.id)) {
+            throw new Error(`Category already exists: ${input.id}`);
+        }
+        if (input.parentId && !(await this.categoryRepository.getCategoryPath(input.parentId))) {
+            throw new Error(`Parent category not found: ${input.parentId}`);
+        }
+
+        const category = await this.categoryRepository.createCategory(input);
+
+        return { data: category };
+    }
+
+    /**
+     * Rename a category or change its description
+     * @param id Category ID
+     * @param changes Fields to change
+     * @returns Promise with the updated category
+     * @throws Error if category not found
+     */
+    async updateCategory(id: string, changes: CategoryUpdate): Promise<{ data: Category }> {
+        const category = await this.categoryRepository.updateCategory(id, changes);
+
+        if (!category) {
+            throw new Error('Category not found');
+        }
+
+        return { data: category };
+    }
+
+    /**
+     * Move a category under another parent
+     * @param id Category ID
+     * @param parentId New parent ID, null to make it a root category
+     * @returns Promise with the moved category
+     * @throws Error if either category is not found or the move would create a cycle
+     */
+    async moveCategory(id: string, parentId: string | null): Promise<{ data: Category }> {
+        if (!(await this.categoryRepository.getCategoryPath(id))) {
+            throw new Error('Category not found');
+        }
+
+        if (parentId) {
+            const parentPath = await this.categoryRepository.getCategoryPath(parentId);
+            if (!parentPath) {
+                throw new Error(`Parent category not found: ${parentId}`);
+            }
+            // The new parent must not be the category itself or one of its descendants
+            if (parentPath.some((ancestor) => ancestor.id === id)) {
+                throw new Error(`Cannot move category ${id} under its own subtree`);
+            }
+        }
+
+        const category = await this.categoryRepository.moveCategory(id, parentId ?? undefined);
+        if (!category) {
+            throw new Error('Category not found');
+        }
+
+        return { data: category };
+    }
+
+    /**
+     * Delete a category
+     * @param id Category ID
+     * @param reassignTo Category receiving the products of the deleted one
+     * @throws Error if category not found, it has subcategories, or it has products and no valid reassignment target
+     */
+    async deleteCategory(id: string, reassignTo?: string): Promise<void> {
+        const path = await this.categoryRepository.getCategoryPath(id);
+        if (!path) {
+            throw new Error('Category not found');
+        }
+
+        const category = path[path.length - 1];
+        if (category.subcategories.length > 0) {
+            throw new Error(`Category is not empty: ${id} has subcategories`);
+        }
+
+        const { meta } = await this.categoryRepository.getCategoryProducts(id, 1, 1);
+        if (meta.total > 0) {
+            if (!reassignTo) {
+                throw new Error(`Category is not empty: ${id} has ${meta.total} products, reassign them first`);
+            }
+            if (reassignTo === id) {
+                throw new Error(`Cannot reassign products of ${id} to itself`);
+            }
+            if (!(await this.categoryRepository.getCategoryPath(reassignTo))) {
+                throw new Error(`Target category not found: ${reassignTo}`);
+            }
+
+            await this.categoryRepository.reassignProducts(id, reassignTo);
+        }
+
+        await this.categoryRepository.deleteCategory(id);
+    }
 }
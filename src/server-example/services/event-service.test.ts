@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'bun:test';
+
+import { openCatalogDatabase } from '../database/catalog-database.js';
+import { EventInput } from '../interfaces/event-interface.js';
+import { EventRepository } from '../repositories/event-repository.js';
+import { createMockCatalog, warehouses } from '../repositories/mock-data.js';
+import { ProductRepository } from '../repositories/product-repository.js';
+import { SqliteEventRepository } from '../repositories/sqlite-event-repository.js';
+import { SqliteProductRepository } from '../repositories/sqlite-product-repository.js';
+import { EventService } from './event-service.js';
+
+/**
+ * Build the purchase events of sessions
+ * @param sessions Products bought in each session
+ * @returns Events, session by session
+ */
+function purchases(...sessions: string[][]): EventInput[] {
+    return sessions.flatMap((productIds, i) =>
+        productIds.map((productId): EventInput => ({ type: 'purchase', productId, sessionId: `session-${i}` })),
+    );
+}
+
+/**
+ * Create the event service over a fresh small in-memory catalog
+ * @returns Event service and the product repository behind it
+ */
+function createService() {
+    const productRepository = new ProductRepository(createMockCatalog({ productCount: 20 }).products, warehouses);
+    return { service: new EventService(new EventRepository(), productRepository), productRepository };
+}
+
+describe('EventService', () => {
+    test('events of unknown products are rejected', async () => {
+        const { service } = createService();
+
+        await expect(service.recordEvents(purchases(['iphone-15-pro', 'unknown-product']))).rejects.toThrow(
+            'Product not found: unknown-product',
+        );
+    });
+
+    test('a product without events gets the most similar products', async () => {
+        const { service } = createService();
+
+        const { data } = await service.getFrequentlyBoughtTogether('iphone-15-pro', 3);
+
+        expect(data).toHaveLength(3);
+        expect(data.every((product) => product.source === 'similarity' && product.id !== 'iphone-15-pro')).toBe(true);
+    });
+
+    test('co-occurring products come first, completed with similar products', async () => {
+        const { service } = createService();
+        await service.recordEvents(purchases(['iphone-15-pro', 'macbook-pro-m3'], ['iphone-15-pro', 'macbook-pro-m3']));
+
+        const { data } = await service.getFrequentlyBoughtTogether('iphone-15-pro', 4);
+
+        expect(data[0]).toMatchObject({
+            id: 'macbook-pro-m3',
+            source: 'events',
+            sessions: 2,
+            score: 1,
+            reason: 'Bought together in 2 sessions',
+        });
+        expect(data.slice(1).map(({ source }) => source)).toEqual(['similarity', 'similarity', 'similarity']);
+        expect(new Set(data.map(({ id }) => id)).size).toBe(4);
+    });
+
+    test('views relate products for also-viewed only', async () => {
+        const { service } = createService();
+        const views = purchases(['iphone-15-pro', 'womens-dress'], ['iphone-15-pro', 'womens-dress']).map(
+            (event): EventInput => ({ ...event, type: 'view' }),
+        );
+        await service.recordEvents(views);
+
+        expect((await service.getAlsoViewed('iphone-15-pro', 1)).data[0]).toMatchObject({
+            id: 'womens-dress',
+            reason: 'Viewed together in 2 sessions',
+        });
+        expect((await service.getFrequentlyBoughtTogether('iphone-15-pro', 1)).data[0].source).toBe('similarity');
+    });
+
+    test('deleted products are left out of the co-occurring products', async () => {
+        const { service, productRepository } = createService();
+        await service.recordEvents(purchases(['iphone-15-pro', 'macbook-pro-m3'], ['iphone-15-pro', 'macbook-pro-m3']));
+
+        await productRepository.deleteProduct('macbook-pro-m3');
+
+        const { data } = await service.getFrequentlyBoughtTogether('iphone-15-pro', 2);
+        expect(data.map(({ id }) => id)).not.toContain('macbook-pro-m3');
+    });
+
+    test('statistics are rebuilt from the SQLite event log on startup', async () => {
+        const { categories, products } = createMockCatalog({ productCount: 20 });
+        const db = openCatalogDatabase(':memory:', { categories: structuredClone(categories), products, warehouses });
+        const productRepository = new SqliteProductRepository(db);
+        await new EventService(new SqliteEventRepository(db), productRepository).recordEvents(
+            purchases(['iphone-15-pro', 'macbook-pro-m3'], ['iphone-15-pro', 'macbook-pro-m3']),
+        );
+
+        const restarted = new EventService(new SqliteEventRepository(db), productRepository);
+
+        expect((await restarted.getFrequentlyBoughtTogether('iphone-15-pro', 1)).data[0]).toMatchObject({
+            id: 'macbook-pro-m3',
+            source: 'events',
+            sessions: 2,
+        });
+    });
+});
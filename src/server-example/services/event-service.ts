@@ -0,0 +1,140 @@
+/**
+ * Event service implementation
+ * Business logic layer for shopper events and behavior-based recommendations
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import {
+    CatalogEvent,
+    CoOccurrenceBasis,
+    EventInput,
+    IEventRepository,
+    IEventService,
+    RelatedProduct,
+} from '../interfaces/event-interface.js';
+import { IProductRepository } from '../interfaces/product-interface.js';
+import { DEFAULT_RECOMMENDATION_OPTIONS } from '../recommendations/content-recommender.js';
+
+/** How co-occurrences of each basis are explained */
+const BASIS_VERBS: Record<CoOccurrenceBasis, string> = {
+    purchases: 'Bought',
+    views: 'Viewed',
+};
+
+/**
+ * Event service implementing business logic
+ * Checks that events refer to existing products and completes sparse statistics with similar products
+ */
+export class EventService implements IEventService {
+    constructor(
+        private readonly eventRepository: IEventRepository,
+        private readonly productRepository: IProductRepository,
+    ) {}
+
+    /**
+     * Record shopper events
+     * @param inputs Event fields
+     * @returns Promise with the number of recorded events
+     * @throws Error if an event refers to an unknown product
+     */
+    async recordEvents(inputs: EventInput[]): Promise<{ data: { recorded: number } }> {
+        for (const productId of new Set(inputs.map((input) => input.productId))) {
+            if (!(await this.productRepository.getProductById(productId))) {
+                throw new Error(`Product not found: ${productId}`);
+            }
+        }
+
+        const now = new Date().toISOString();
+        const events: CatalogEvent[] = inputs.map((input) => ({
+            id: `evt-${randomUUID()}`,
+            ...input,
+            timestamp: input.timestamp ?? now,
+        }));
+        await this.eventRepository.recordEvents(events);
+
+        return { data: { recorded: events.length } };
+    }
+
+    /**
+     * Get the products most often added to a cart or bought with a product
+     * Products without enough events are completed with the most similar products
+     * @param productId Product ID
+     * @param limit Number of products
+     * @returns Promise with the related products
+     * @throws Error if product not found
+     */
+    async getFrequentlyBoughtTogether(productId: string, limit: number): Promise<{ data: RelatedProduct[] }> {
+        return { data: await this.getRelatedProducts(productId, 'purchases', limit) };
+    }
+
+    /**
+     * Get the products most often viewed in the same sessions as a product
+     * Products without enough events are completed with the most similar products
+     * @param productId Product ID
+     * @param limit Number of products
+     * @returns Promise with the related products
+     * @throws Error if product not found
+     */
+    async getAlsoViewed(productId: string, limit: number): Promise<{ data: RelatedProduct[] }> {
+        return { data: await this.getRelatedProducts(productId, 'views', limit) };
+    }
+
+    /**
+     * Get the products co-occurring with a product, then the most similar products for a new or rare product
+     * @param productId Product ID
+     * @param basis Events counted
+     * @param limit Number of products
+     * @returns Promise with co-occurring products first, highest score first
+     * @throws Error if product not found
+     */
+    private async getRelatedProducts(
+        productId: string,
+        basis: CoOccurrenceBasis,
+        limit: number,
+    ): Promise<RelatedProduct[]> {
+        if (!(await this.productRepository.getProductById(productId))) {
+            throw new Error('Product not found');
+        }
+
+        const related: RelatedProduct[] = [];
+        for (const { productId: otherId, sessions, score } of await this.eventRepository.getCoOccurrences(
+            productId,
+            basis,
+        )) {
+            if (related.length === limit) {
+                break;
+            }
+            // Events of deleted products stay in the statistics
+            const product = await this.productRepository.getProductById(otherId);
+            if (product) {
+                related.push({
+                    ...product,
+                    score,
+                    sessions,
+                    source: 'events',
+                    reason: `${BASIS_VERBS[basis]} together in ${sessions} sessions`,
+                });
+            }
+        }
+
+        if (related.length < limit) {
+            const seen = new Set(related.map(({ id }) => id));
+            const similar = await this.productRepository.getProductRecommendations(
+                productId,
+                limit,
+                DEFAULT_RECOMMENDATION_OPTIONS,
+            );
+            for (const { similarity, ...product } of similar) {
+                if (related.length === limit) {
+                    break;
+                }
+                if (!seen.has(product.id)) {
+                    related.push({ ...product, score: similarity, source: 'similarity' });
+                }
+            }
+        }
+
+        return related;
+    }
+}
@@ -0,0 +1,83 @@
+/**
+ * Inventory service implementation
+ * Business logic layer for warehouses and low-stock thresholds
+ */
+
+import { ICategoryRepository } from '../interfaces/category-interface.js';
+import {
+    IInventoryRepository,
+    IInventoryService,
+    LowStockThreshold,
+    ThresholdTarget,
+    Warehouse,
+} from '../interfaces/inventory-interface.js';
+import { IProductRepository } from '../interfaces/product-interface.js';
+
+/**
+ * Inventory service implementing business logic
+ * Checks that thresholds target existing products and categories
+ */
+export class InventoryService implements IInventoryService {
+    constructor(
+        private readonly inventoryRepository: IInventoryRepository,
+        private readonly productRepository: IProductRepository,
+        private readonly categoryRepository: ICategoryRepository,
+    ) {}
+
+    /**
+     * Get every warehouse
+     * @returns Promise with the warehouses, fastest shipping first
+     */
+    async getWarehouses(): Promise<{ data: Warehouse[] }> {
+        const warehouses = await this.inventoryRepository.getWarehouses();
+
+        return { data: warehouses };
+    }
+
+    /**
+     * Get every low-stock threshold
+     * @returns Promise with the thresholds
+     */
+    async getThresholds(): Promise<{ data: LowStockThreshold[] }> {
+        const thresholds = await this.inventoryRepository.getThresholds();
+
+        return { data: thresholds };
+    }
+
+    /**
+     * Set the low-stock threshold of a product or category
+     * @param targetType Kind of target
+     * @param targetId Product or category ID
+     * @param threshold Available quantity up to which stock is limited
+     * @returns Promise with the saved threshold
+     * @throws Error if the product or category is not found
+     */
+    async setThreshold(
+        targetType: ThresholdTarget,
+        targetId: string,
+        threshold: number,
+    ): Promise<{ data: LowStockThreshold }> {
+        if (targetType === 'product' && !(await this.productRepository.getProductById(targetId))) {
+            throw new Error('Product not found');
+        }
+        if (targetType === 'category' && !(await this.categoryRepository.getCategoryById(targetId))) {
+            throw new Error('Category not found');
+        }
+
+        const saved = await this.inventoryRepository.saveThreshold({ targetType, targetId, threshold });
+
+        return { data: saved };
+    }
+
+    /**
+     * Remove the low-stock threshold of a product or category, which falls back to its category or the default
+     * @param targetType Kind of target
+     * @param targetId Product or category ID
+     * @throws Error if no threshold is set
+     */
+    async deleteThreshold(targetType: ThresholdTarget, targetId: string): Promise<void> {
+        if (!(await this.inventoryRepository.deleteThreshold(targetType, targetId))) {
+            throw new Error('Threshold not found');
+        }
+    }
+}
@@ -0,0 +1,248 @@
+import { describe, expect, spyOn, test } from 'bun:test';
+
+import { openCatalogDatabase } from '../database/catalog-database.js';
+import { CartRepository } from '../repositories/cart-repository.js';
+import { CategoryRepository } from '../repositories/category-repository.js';
+import { InventoryRepository } from '../repositories/inventory-repository.js';
+import { createMockCatalog, warehouses } from '../repositories/mock-data.js';
+import { OrderRepository } from '../repositories/order-repository.js';
+import { ProductRepository } from '../repositories/product-repository.js';
+import { StorageType } from '../repositories/repository-factory.js';
+import { SqliteCartRepository } from '../repositories/sqlite-cart-repository.js';
+import { SqliteCategoryRepository } from '../repositories/sqlite-category-repository.js';
+import { SqliteInventoryRepository } from '../repositories/sqlite-inventory-repository.js';
+import { SqliteOrderRepository } from '../repositories/sqlite-order-repository.js';
+import { SqliteProductRepository } from '../repositories/sqlite-product-repository.js';
+import { CartService } from './cart-service.js';
+import { OrderService } from './order-service.js';
+import { ProductService } from './product-service.js';
+
+const RESERVATION_TTL_MS = 60_000;
+
+/** Featured products of the mock catalog, with all of their stock at the first warehouse */
+const IPHONE = 'iphone-15-pro';
+const MACBOOK = 'macbook-pro-m3';
+
+/**
+ * Create the cart, order and product services over the featured products of the mock catalog
+ * @param storage Storage backend
+ * @param reservationTtlMs How long orders hold their stock
+ * @returns Services and the repositories behind them
+ */
+function createServices(storage: StorageType = 'mock', reservationTtlMs = RESERVATION_TTL_MS) {
+    const { categories, products } = createMockCatalog({ productCount: 0 });
+    const catalog = { categories: structuredClone(categories), products };
+
+    const repositories =
+        storage === 'sqlite'
+            ? (() => {
+                  const db = openCatalogDatabase(':memory:', { ...catalog, warehouses });
+                  return {
+                      products: new SqliteProductRepository(db),
+                      categories: new SqliteCategoryRepository(db),
+                      carts: new SqliteCartRepository(db),
+                      orders: new SqliteOrderRepository(db),
+                      inventory: new SqliteInventoryRepository(db),
+                  };
+              })()
+            : {
+                  products: new ProductRepository(catalog.products, warehouses),
+                  categories: new CategoryRepository(catalog.categories, catalog.products),
+                  carts: new CartRepository(),
+                  orders: new OrderRepository(),
+                  inventory: new InventoryRepository(warehouses),
+              };
+
+    return {
+        carts: new CartService(repositories.carts, repositories.products),
+        orders: new OrderService(repositories.orders, repositories.carts, repositories.products, reservationTtlMs),
+        products: new ProductService(repositories.products, repositories.categories, repositories.inventory),
+        repositories,
+    };
+}
+
+/**
+ * Fill a new cart
+ * @param carts Cart service
+ * @param items Quantity of each product ID
+ * @returns Cart ID
+ */
+async function cartWith(carts: CartService, items: Record<string, number>): Promise<string> {
+    const { data: cart } = await carts.createCart();
+    for (const [productId, quantity] of Object.entries(items)) {
+        await carts.addItem(cart.id, productId, quantity);
+    }
+    return cart.id;
+}
+
+describe('OrderService', () => {
+    test('placing an order reserves its stock and empties the cart', async () => {
+        const { carts, orders, products } = createServices();
+        const cartId = await cartWith(carts, { [IPHONE]: 3, [MACBOOK]: 1 });
+
+        const { data: order } = await orders.createOrder(cartId);
+
+        expect(order.status).toBe('pending');
+        expect(order.itemCount).toBe(4);
+        expect((await carts.getCart(cartId)).data.items).toEqual([]);
+        const { data: availability } = await products.getProductAvailability(IPHONE);
+        expect(availability).toMatchObject({ stockQuantity: 50, reservedQuantity: 3, availableQuantity: 47 });
+    });
+
+    test('orders cannot reserve more than the available stock', async () => {
+        const { carts, orders, products } = createServices();
+        await orders.createOrder(await cartWith(carts, { [IPHONE]: 30 }));
+        const cartId = await cartWith(carts, { [IPHONE]: 20, [MACBOOK]: 1 });
+        await products.patchProduct(IPHONE, { stockQuantity: 45 });
+
+        await expect(orders.createOrder(cartId)).rejects.toThrow('Insufficient stock for iphone-15-pro');
+        expect((await products.getProductAvailability(MACBOOK)).data.reservedQuantity).toBe(0);
+    });
+
+    test('confirming an order decrements the stock once', async () => {
+        const { carts, orders, products } = createServices();
+        const { data: order } = await orders.createOrder(await cartWith(carts, { [IPHONE]: 2 }));
+
+        const { data: confirmed } = await orders.confirmOrder(order.id);
+
+        expect(confirmed.status).toBe('confirmed');
+        expect((await products.getProductAvailability(IPHONE)).data).toMatchObject({
+            stockQuantity: 48,
+            reservedQuantity: 0,
+        });
+        await expect(orders.confirmOrder(order.id)).rejects.toThrow('Order is confirmed');
+        await expect(orders.cancelOrder(order.id)).rejects.toThrow('Order is confirmed');
+    });
+
+    test('cancelling an order releases its stock', async () => {
+        const { carts, orders, products } = createServices();
+        const { data: order } = await orders.createOrder(await cartWith(carts, { [IPHONE]: 2 }));
+
+        expect((await orders.cancelOrder(order.id)).data.status).toBe('cancelled');
+        expect((await products.getProductAvailability(IPHONE)).data).toMatchObject({
+            stockQuantity: 50,
+            reservedQuantity: 0,
+        });
+        await expect(orders.confirmOrder(order.id)).rejects.toThrow('Order is cancelled');
+    });
+
+    test('an order past its reservation expires and cannot be confirmed', async () => {
+        const { carts, orders, products } = createServices('mock', 0);
+        const { data: order } = await orders.createOrder(await cartWith(carts, { [IPHONE]: 2 }));
+
+        await expect(orders.confirmOrder(order.id)).rejects.toThrow('Order reservation expired');
+        expect((await orders.getOrder(order.id)).data.status).toBe('expired');
+        expect((await products.getProductAvailability(IPHONE)).data).toMatchObject({
+            stockQuantity: 50,
+            reservedQuantity: 0,
+        });
+    });
+
+    test('confirming an order skips the products deleted since it was placed', async () => {
+        const { carts, orders, products } = createServices();
+        const { data: order } = await orders.createOrder(await cartWith(carts, { [IPHONE]: 2, [MACBOOK]: 1 }));
+        await products.deleteProduct(MACBOOK);
+
+        expect((await orders.confirmOrder(order.id)).data.status).toBe('confirmed');
+        expect((await products.getProductAvailability(IPHONE)).data.stockQuantity).toBe(48);
+    });
+
+    test('the stock cannot drop below the quantity reserved by pending orders', async () => {
+        const { carts, orders, products } = createServices();
+        const { data: order } = await orders.createOrder(await cartWith(carts, { [IPHONE]: 20 }));
+
+        await expect(products.patchProduct(IPHONE, { stockQuantity: 19 })).rejects.toThrow(
+            'Stock below reserved quantity for iphone-15-pro: requested 19, reserved 20',
+        );
+        expect((await products.patchProduct(IPHONE, { stockQuantity: 20 })).data.stockQuantity).toBe(20);
+        expect((await products.patchProduct(IPHONE, { name: 'iPhone 15 Pro Max' })).data.stockQuantity).toBe(20);
+
+        await orders.confirmOrder(order.id);
+        expect((await products.getProductAvailability(IPHONE)).data).toMatchObject({
+            stockQuantity: 0,
+            reservedQuantity: 0,
+        });
+    });
+
+    test('placing the same cart twice at once yields a single order', async () => {
+        const { carts, orders, products } = createServices();
+        const cartId = await cartWith(carts, { [IPHONE]: 5 });
+
+        const placements = await Promise.allSettled([orders.createOrder(cartId), orders.createOrder(cartId)]);
+
+        expect(placements.map(({ status }) => status).sort()).toEqual(['fulfilled', 'rejected']);
+        const rejected = placements.find((placement) => placement.status === 'rejected') as PromiseRejectedResult;
+        expect(rejected.reason).toEqual(new Error('Cart changed while placing the order'));
+        expect((await products.getProductAvailability(IPHONE)).data.reservedQuantity).toBe(5);
+        await expect(orders.createOrder(cartId)).rejects.toThrow('Cart is empty');
+    });
+
+    test('a failed placement releases the reserved stock and gives the cart its items back', async () => {
+        const { carts, orders, products, repositories } = createServices();
+        spyOn(repositories.orders, 'saveOrder').mockRejectedValueOnce(new Error('Disk full'));
+        const cartId = await cartWith(carts, { [IPHONE]: 2 });
+
+        await expect(orders.createOrder(cartId)).rejects.toThrow('Disk full');
+        expect((await products.getProductAvailability(IPHONE)).data.reservedQuantity).toBe(0);
+        expect((await carts.getCart(cartId)).data.itemCount).toBe(2);
+
+        expect((await orders.createOrder(cartId)).data.itemCount).toBe(2);
+    });
+
+    test('an order lacking stock leaves the cart untouched', async () => {
+        const { carts, orders } = createServices();
+        const cartId = await cartWith(carts, { [IPHONE]: 2 });
+        await orders.createOrder(await cartWith(carts, { [IPHONE]: 49 }));
+
+        await expect(orders.createOrder(cartId)).rejects.toThrow('Insufficient stock for iphone-15-pro');
+        expect((await carts.getCart(cartId)).data.itemCount).toBe(2);
+    });
+});
+
+// Reservations and cart updates are atomic in SQL rather than in memory
+describe('OrderService with SQLite storage', () => {
+    test('orders reserve their stock until confirmed', async () => {
+        const { carts, orders, products } = createServices('sqlite');
+        const { data: order } = await orders.createOrder(await cartWith(carts, { [IPHONE]: 3 }));
+
+        expect((await products.getProductAvailability(IPHONE)).data).toMatchObject({
+            stockQuantity: 50,
+            reservedQuantity: 3,
+            availableQuantity: 47,
+        });
+        await orders.confirmOrder(order.id);
+        expect((await products.getProductAvailability(IPHONE)).data).toMatchObject({
+            stockQuantity: 47,
+            reservedQuantity: 0,
+        });
+    });
+
+    test('orders cannot reserve more than the available stock', async () => {
+        const { carts, orders, products } = createServices('sqlite');
+        const cartId = await cartWith(carts, { [IPHONE]: 21, [MACBOOK]: 1 });
+        await orders.createOrder(await cartWith(carts, { [IPHONE]: 30 }));
+
+        await expect(orders.createOrder(cartId)).rejects.toThrow('Insufficient stock for iphone-15-pro');
+        expect((await products.getProductAvailability(MACBOOK)).data.reservedQuantity).toBe(0);
+        expect((await carts.getCart(cartId)).data.itemCount).toBe(22);
+    });
+
+    test('placing the same cart twice at once yields a single order', async () => {
+        const { carts, orders, products } = createServices('sqlite');
+        const cartId = await cartWith(carts, { [IPHONE]: 5 });
+
+        const placements = await Promise.allSettled([orders.createOrder(cartId), orders.createOrder(cartId)]);
+
+        expect(placements.map(({ status }) => status).sort()).toEqual(['fulfilled', 'rejected']);
+        expect((await products.getProductAvailability(IPHONE)).data.reservedQuantity).toBe(5);
+    });
+
+    test('the stock cannot drop below the quantity reserved by pending orders', async () => {
+        const { carts, orders, products } = createServices('sqlite');
+        await orders.createOrder(await cartWith(carts, { [IPHONE]: 20 }));
+
+        await expect(products.patchProduct(IPHONE, { stockQuantity: 19 })).rejects.toThrow(
+            'Stock below reserved quantity for iphone-15-pro: requested 19, reserved 20',
+        );
+    });
+});
@@ -0,0 +1,193 @@
+/**
+ * Order service implementation
+ * Business logic layer for order placement and stock reservations
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { ICartRepository } from '../interfaces/cart-interface.js';
+import { IOrderRepository, IOrderService, Order, OrderStatus } from '../interfaces/order-interface.js';
+import { IProductRepository } from '../interfaces/product-interface.js';
+import { priceCart } from './cart-service.js';
+
+/**
+ * Order service implementing business logic
+ * Placing an order holds the stock of its items for a limited time, so shoppers checking out concurrently cannot
+ * buy the same units; confirming it decrements the stock and cancelling or letting it expire gives the stock back
+ */
+export class OrderService implements IOrderService {
+    /**
+     * @param orderRepository Order storage
+     * @param cartRepository Cart storage, orders are placed from carts
+     * @param productRepository Product storage, holding the stock and its reservations
+     * @param reservationTtlMs How long the stock of a pending order stays held, in milliseconds
+     */
+    constructor(
+        private readonly orderRepository: IOrderRepository,
+        private readonly cartRepository: ICartRepository,
+        private readonly productRepository: IProductRepository,
+        private readonly reservationTtlMs: number,
+    ) {}
+
+    /**
+     * Place an order for the items of a cart, reserving their stock and emptying the cart
+     * The cart is emptied first, only if it still holds the items read, so placing it twice at once yields one order.
+     * @param cartId Cart ID
+     * @returns Promise with the pending order
+     * @throws Error if the cart is not found, empty or changed meanwhile, or the available stock does not cover an
+     * item
+     */
+    async createOrder(cartId: string): Promise<{ data: Order }> {
+        const cart = await this.cartRepository.getCart(cartId);
+        if (!cart) {
+            throw new Error('Cart not found');
+        }
+
+        const { items, itemCount, subtotal, currency } = await priceCart(cart, this.productRepository);
+        if (items.length === 0 || !currency) {
+            throw new Error('Cart is empty');
+        }
+
+        const id = `order-${randomUUID()}`;
+        const now = new Date();
+        const emptied = { ...cart, lines: [], updatedAt: now.toISOString() };
+        if (!(await this.cartRepository.replaceCartIfUnchanged(cart, emptied))) {
+            throw new Error('Cart changed while placing the order');
+        }
+
+        const reservationExpiresAt = new Date(now.getTime() + this.reservationTtlMs).toISOString();
+        let reserved = false;
+        try {
+            await this.productRepository.reserveStock(
+                id,
+                items.map(({ productId, quantity }) => ({ productId, quantity })),
+                reservationExpiresAt,
+            );
+            reserved = true;
+
+            const order = await this.orderRepository.saveOrder({
+                id,
+                cartId,
+                status: 'pending',
+                items,
+                itemCount,
+                subtotal,
+                currency,
+                reservationExpiresAt,
+                createdAt: now.toISOString(),
+                updatedAt: now.toISOString(),
+            });
+
+            return { data: order };
+        } catch (error) {
+            // A failed placement must not hold the stock until the reservation expires, nor lose the items of the
+            // cart, unless the shopper changed the cart since
+            if (reserved) {
+                await this.productRepository.releaseReservations(id);
+            }
+            await this.cartRepository.replaceCartIfUnchanged(emptied, { ...cart, updatedAt: new Date().toISOString() });
+            throw error;
+        }
+    }
+
+    /**
+     * Get an order by ID
+     * @param id Order ID
+     * @returns Promise with the order, expired if its reservation ran out
+     * @throws Error if the order is not found
+     */
+    async getOrder(id: string): Promise<{ data: Order }> {
+        return { data: await this.getCurrentOrder(id) };
+    }
+
+    /**
+     * Confirm a pending order, committing its reserved stock
+     * @param id Order ID
+     * @returns Promise with the confirmed order
+     * @throws Error if the order is not found, not pending or its reservation expired
+     */
+    async confirmOrder(id: string): Promise<{ data: Order }> {
+        const order = await this.getPendingOrder(id);
+
+        try {
+            await this.productRepository.commitReservations(id);
+        } catch (error) {
+            // The reservation ran out between loading the order and committing it
+            if (error instanceof Error && error.message === 'Stock reservation expired') {
+                await this.expire(order);
+                throw new Error('Order reservation expired');
+            }
+            throw error;
+        }
+
+        return { data: await this.setStatus(order, 'confirmed') };
+    }
+
+    /**
+     * Cancel a pending order, releasing its reserved stock
+     * @param id Order ID
+     * @returns Promise with the cancelled order
+     * @throws Error if the order is not found or not pending
+     */
+    async cancelOrder(id: string): Promise<{ data: Order }> {
+        const order = await this.getPendingOrder(id);
+        await this.productRepository.releaseReservations(id);
+
+        return { data: await this.setStatus(order, 'cancelled') };
+    }
+
+    /**
+     * Get an order, expiring it first if it is pending past its reservation
+     * @param id Order ID
+     * @returns Promise with the order
+     * @throws Error if the order is not found
+     */
+    private async getCurrentOrder(id: string): Promise<Order> {
+        const order = await this.orderRepository.getOrder(id);
+        if (!order) {
+            throw new Error('Order not found');
+        }
+
+        if (order.status === 'pending' && Date.now() >= Date.parse(order.reservationExpiresAt)) {
+            return this.expire(order);
+        }
+        return order;
+    }
+
+    /**
+     * Get an order that can still be confirmed or cancelled
+     * @param id Order ID
+     * @returns Promise with the pending order
+     * @throws Error if the order is not found, its reservation expired or it is no longer pending
+     */
+    private async getPendingOrder(id: string): Promise<Order> {
+        const order = await this.getCurrentOrder(id);
+        if (order.status === 'expired') {
+            throw new Error('Order reservation expired');
+        }
+        if (order.status !== 'pending') {
+            throw new Error(`Order is ${order.status}`);
+        }
+        return order;
+    }
+
+    /**
+     * Release the stock of a pending order whose reservation ran out
+     * @param order Pending order
+     * @returns Promise with the expired order
+     */
+    private async expire(order: Order): Promise<Order> {
+        await this.productRepository.releaseReservations(order.id);
+        return this.setStatus(order, 'expired');
+    }
+
+    /**
+     * Save a new status of an order
+     * @param order Order
+     * @param status New status
+     * @returns Promise with the saved order
+     */
+    private async setStatus(order: Order, status: OrderStatus): Promise<Order> {
+        return this.orderRepository.saveOrder({ ...order, status, updatedAt: new Date().toISOString() });
+    }
+}
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+
+import { CategoryRepository } from '../repositories/category-repository.js';
+import { InventoryRepository } from '../repositories/inventory-repository.js';
+import { createMockCatalog, warehouses } from '../repositories/mock-data.js';
+import { ProductRepository } from '../repositories/product-repository.js';
+import { ProductService } from './product-service.js';
+
+afterEach(() => {
+    setSystemTime();
+});
+
+/**
+ * Create the repositories over the featured products only
+ * @returns Product, category and inventory repositories
+ */
+function createRepositories(): {
+    productRepository: ProductRepository;
+    categoryRepository: CategoryRepository;
+    inventoryRepository: InventoryRepository;
+} {
+    const { categories, products } = createMockCatalog({ productCount: 0 });
+    return {
+        productRepository: new ProductRepository(products, warehouses),
+        categoryRepository: new CategoryRepository(structuredClone(categories), products),
+        inventoryRepository: new InventoryRepository(warehouses),
+    };
+}
+
+/**
+ * Create the product service
+ * @param repositories Repositories to use, else new ones over the featured products
+ * @returns Product service
+ */
+function createService(repositories = createRepositories()): ProductService {
+    return new ProductService(
+        repositories.productRepository,
+        repositories.categoryRepository,
+        repositories.inventoryRepository,
+    );
+}
+
+/**
+ * Get the completions of a prefix
+ * @param service Product service
+ * @param prefix Partial query
+ * @returns Type and text of each completion, in order
+ */
+async function completionsOf(service: ProductService, prefix: string): Promise<string[]> {
+    const { data } = await service.suggestSearchTerms(prefix, 10);
+    return data.map(({ type, text }) => `${type}:${text}`);
+}
+
+describe('ProductService search suggestions', () => {
+    test('first pages of searches with results complete later queries', async () => {
+        const service = createService();
+
+        await service.searchProducts({ query: 'macbook pro' }, { page: 1, limit: 1 });
+        await service.searchProducts({ query: 'iphone' }, { page: 2, limit: 1 });
+        await service.searchProducts({ query: 'macbook air' }, { page: 1, limit: 1 });
+
+        expect(await completionsOf(service, 'mac')).toEqual(['product:MacBook Pro 14-inch M3', 'query:macbook pro']);
+        expect(await completionsOf(service, 'iph')).toEqual(['product:iPhone 15 Pro']);
+    });
+
+    test('a misspelled query is remembered as its correction', async () => {
+        const service = createService();
+
+        const { didYouMean } = await service.searchProducts({ query: 'macbok', fuzzy: true }, { page: 1, limit: 1 });
+
+        expect(didYouMean).toBe('macbook');
+        expect(await completionsOf(service, 'mac')).toEqual(['product:MacBook Pro 14-inch M3', 'query:macbook']);
+    });
+
+    test('catalog completions are refreshed once a minute', async () => {
+        const service = createService();
+        setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+        await completionsOf(service, 'mac');
+
+        await service.patchProduct('macbook-pro-m3', { name: 'MacBook Air 13-inch M3' });
+
+        expect(await completionsOf(service, 'macbook a')).toEqual([]);
+        setSystemTime(new Date('2026-01-01T00:01:01.000Z'));
+        expect(await completionsOf(service, 'macbook a')).toEqual(['product:MacBook Air 13-inch M3']);
+    });
+});
+
+describe('ProductService stock', () => {
+    test('the low-stock threshold of a product overrides its subcategory, which overrides its category', async () => {
+        const repositories = createRepositories();
+        const service = createService(repositories);
+        const thresholdOf = async (): Promise<number> =>
+            (await service.getProductAvailability('iphone-15-pro')).data.lowStockThreshold;
+
+        expect(await thresholdOf()).toBe(10);
+        await repositories.inventoryRepository.saveThreshold({
+            targetType: 'category',
+            targetId: 'electronics',
+            threshold: 60,
+        });
+        expect((await service.getProductAvailability('iphone-15-pro')).data).toMatchObject({
+            lowStockThreshold: 60,
+            availability: 'limited_stock',
+        });
+        await repositories.inventoryRepository.saveThreshold({
+            targetType: 'category',
+            targetId: 'smartphones',
+            threshold: 30,
+        });
+        expect(await thresholdOf()).toBe(30);
+        await repositories.inventoryRepository.saveThreshold({
+            targetType: 'product',
+            targetId: 'iphone-15-pro',
+            threshold: 5,
+        });
+        expect(await thresholdOf()).toBe(5);
+    });
+
+    test('warehouse stock is set per location and ships at that warehouse speed', async () => {
+        const service = createService();
+        setSystemTime(new Date('2026-03-10T15:00:00.000Z'));
+
+        const { data } = await service.setWarehouseStock('iphone-15-pro', 'eu-central', 8);
+
+        expect(data).toMatchObject({ stockQuantity: 58, availableQuantity: 58, estimatedShipDate: '2026-03-11' });
+        expect(data.locations!.find(({ warehouseId }) => warehouseId === 'eu-central')).toMatchObject({
+            stockQuantity: 8,
+            availability: 'limited_stock',
+            estimatedShipDate: '2026-03-15',
+        });
+        await expect(service.setWarehouseStock('iphone-15-pro', 'mars', 1)).rejects.toThrow('Warehouse not found');
+        await expect(service.setWarehouseStock('phone', 'us-east', 1)).rejects.toThrow('Product not found');
+    });
+
+    test('warehouse stock cannot drop below the reserved quantity', async () => {
+        const repositories = createRepositories();
+        const service = createService(repositories);
+        await repositories.productRepository.reserveStock(
+            'order-1',
+            [{ productId: 'iphone-15-pro', quantity: 40 }],
+            new Date(Date.now() + 60_000).toISOString(),
+        );
+
+        await expect(service.setWarehouseStock('iphone-15-pro', 'us-east', 30)).rejects.toThrow(
+            'Stock below reserved quantity',
+        );
+        const { data } = await service.setWarehouseStock('iphone-15-pro', 'us-east', 45);
+        expect(data).toMatchObject({ stockQuantity: 45, reservedQuantity: 40, availableQuantity: 5 });
+    });
+});
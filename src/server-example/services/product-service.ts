@@ -3,24 +3,47 @@
  * Business logic layer for product operations
  */
 
+import { randomUUID } from 'node:crypto';
+
+import { ICategoryRepository } from '../interfaces/category-interface.js';
+import { IInventoryRepository, ThresholdTarget } from '../interfaces/inventory-interface.js';
 import {
     IProductService,
     IProductRepository,
     Product,
     ProductFilters,
     SearchFilters,
+    SearchMode,
     PaginationParams,
     PaginationMeta,
     SearchFacets,
     ProductAvailability,
+    ProductInput,
+    ProductPatch,
+    ScoredProduct,
+    SearchSuggestion,
+    RecommendationOptions,
+    RecommendedProduct,
 } from '../interfaces/product-interface.js';
+import { DEFAULT_LOW_STOCK_THRESHOLD } from '../inventory/stock-availability.js';
+import { SearchSuggester } from '../search/search-suggester.js';
+
+/** Age after which the catalog completions are rebuilt, so product and category changes show up */
+const SUGGESTIONS_MAX_AGE_MS = 60_000;
 
 /**
  * Product service implementing business logic
  * Acts as an intermediary between controllers and repositories
  */
 export class ProductService implements IProductService {
-    constructor(private readonly productRepository: IProductRepository) {}
+    private readonly suggester = new SearchSuggester();
+    private suggestionsIndexedAt?: number;
+
+    constructor(
+        private readonly productRepository: IProductRepository,
+        private readonly categoryRepository: ICategoryRepository,
+        private readonly inventoryRepository: IInventoryRepository,
+    ) {}
 
     /**
      * Get products with filters and pagination
@@ -52,20 +75,55 @@ export class ProductService implements IProductService {
         pagination: PaginationParams,
     ): Promise<{
         query: string;
-        data: Product[];
+        mode: SearchMode;
+        data: ScoredProduct[];
         pagination: PaginationMeta;
         facets: SearchFacets;
+        didYouMean?: string;
     }> {
-        const { products, meta, facets } = await this.productRepository.searchProducts(searchFilters, pagination);
+        const { products, meta, facets, didYouMean } = await this.productRepository.searchProducts(
+            searchFilters,
+            pagination,
+        );
+
+        // First pages only, so paging through results does not inflate a query's popularity. A misspelled query
+        // is remembered as its correction, so it never completes later queries
+        if (searchFilters.query && pagination.page === 1 && meta.total > 0) {
+            this.suggester.recordQuery(didYouMean ?? searchFilters.query);
+        }
 
         return {
             query: searchFilters.query || '',
+            mode: searchFilters.mode || 'keyword',
             data: products,
             pagination: meta,
             facets,
+            didYouMean,
         };
     }
 
+    /**
+     * Complete a partial search query with product names, brands, categories and popular searches
+     * @param prefix Partial query
+     * @param limit Maximum number of completions
+     * @returns Promise with completions, most popular first
+     */
+    async suggestSearchTerms(prefix: string, limit: number): Promise<{ query: string; data: SearchSuggestion[] }> {
+        if (
+            this.suggestionsIndexedAt === undefined ||
+            Date.now() - this.suggestionsIndexedAt > SUGGESTIONS_MAX_AGE_MS
+        ) {
+            const [{ products }, categories] = await Promise.all([
+                this.productRepository.getProducts({}, { page: 1, limit: Number.MAX_SAFE_INTEGER }),
+                this.categoryRepository.getCategories(undefined, true),
+            ]);
+            this.suggester.indexCatalog(products, categories);
+            this.suggestionsIndexedAt = Date.now();
+        }
+
+        return { query: prefix, data: this.suggester.suggest(prefix, limit) };
+    }
+
     /**
      * Get product by ID
      * @param id Product ID
@@ -86,17 +144,22 @@ export class ProductService implements IProductService {
      * Get product recommendations
      * @param productId Product ID
      * @param limit Number of recommendations
-     * @returns Promise with recommendations
+     * @param options Similarity weights and diversity
+     * @returns Promise with recommendations and the reason for each
      * @throws Error if product not found
      */
-    async getProductRecommendations(productId: string, limit: number): Promise<{ data: Product[] }> {
+    async getProductRecommendations(
+        productId: string,
+        limit: number,
+        options: RecommendationOptions,
+    ): Promise<{ data: RecommendedProduct[] }> {
         // First check if the product exists
         const product = await this.productRepository.getProductById(productId);
         if (!product) {
             throw new Error('Product not found');
         }
 
-        const recommendations = await this.productRepository.getProductRecommendations(productId, limit);
+        const recommendations = await this.productRepository.getProductRecommendations(productId, limit, options);
 
         return { data: recommendations };
     }
@@ -104,19 +167,51 @@ export class ProductService implements IProductService {
     /**
      * Get product availability
      * @param productId Product ID
+     * @param includeLocations Whether to break the availability down per warehouse
      * @returns Promise with availability data
      * @throws Error if product not found
      */
-    async getProductAvailability(productId: string): Promise<{ data: ProductAvailability }> {
-        const availability = await this.productRepository.getProductAvailability(productId);
+    async getProductAvailability(productId: string, includeLocations = false): Promise<{ data: ProductAvailability }> {
+        const product = await this.productRepository.getProductById(productId);
+        const availability =
+            product &&
+            (await this.productRepository.getProductAvailability(productId, await this.lowStockThreshold(product)));
 
         if (!availability) {
             throw new Error('Product not found');
         }
 
+        if (!includeLocations) {
+            delete availability.locations;
+        }
         return { data: availability };
     }
 
+    /**
+     * Set the stock of a product at a warehouse
+     * @param productId Product ID
+     * @param warehouseId Warehouse ID
+     * @param quantity New stock at the warehouse
+     * @returns Promise with the availability of the product, broken down per warehouse
+     * @throws Error if the product or warehouse is not found, or the stock would drop below the reserved quantity
+     */
+    async setWarehouseStock(
+        productId: string,
+        warehouseId: string,
+        quantity: number,
+    ): Promise<{ data: ProductAvailability }> {
+        const warehouses = await this.inventoryRepository.getWarehouses();
+        if (!warehouses.some(({ id }) => id === warehouseId)) {
+            throw new Error('Warehouse not found');
+        }
+
+        if (!(await this.productRepository.setWarehouseStock(productId, warehouseId, quantity))) {
+            throw new Error('Product not found');
+        }
+
+        return this.getProductAvailability(productId, true);
+    }
+
     /**
      * Get popular products
      * @param category Optional category filter
@@ -129,4 +224,159 @@ export class ProductService implements IProductService {
 
         return { data: products };
     }
+
+    /**
+     * Create a product
+     * @param input Product fields
+     * @returns Promise with the created product
+     * @throws Error if the SKU is taken or the category does not exist
+     */
+    async createProduct(input: ProductInput): Promise<{ data: Product }> {
+        await this.assertSkuAvailable(input.sku);
+        await this.assertCategoryExists(input.category, input.subcategory);
+
+        const now = new Date().toISOString();
+        const product = await this.productRepository.createProduct({
+            id: `prod-${randomUUID()}`,
+            ...input,
+            inStock: input.stockQuantity > 0,
+            createdAt: now,
+            updatedAt: now,
+        });
+
+        return { data: product };
+    }
+
+    /**
+     * Replace all writable fields of a product
+     * @param id Product ID
+     * @param input Product fields
+     * @returns Promise with the updated product
+     * @throws Error if product not found, the SKU is taken, the category does not exist or the stock would drop below
+     * the reserved quantity
+     */
+    async updateProduct(id: string, input: ProductInput): Promise<{ data: Product }> {
+        const existing = await this.productRepository.getProductById(id);
+        if (!existing) {
+            throw new Error('Product not found');
+        }
+
+        return this.saveProduct(existing, input);
+    }
+
+    /**
+     * Update some fields of a product
+     * @param id Product ID
+     * @param patch Fields to change
+     * @returns Promise with the updated product
+     * @throws Error if product not found, the SKU is taken, the category does not exist or the stock would drop below
+     * the reserved quantity
+     */
+    async patchProduct(id: string, patch: ProductPatch): Promise<{ data: Product }> {
+        const existing = await this.productRepository.getProductById(id);
+        if (!existing) {
+            throw new Error('Product not found');
+        }
+
+        const { subcategory, ...fields } = patch;
+        const input: ProductInput = { ...existing, ...fields };
+        if (subcategory === null) {
+            delete input.subcategory;
+        } else if (subcategory !== undefined) {
+            input.subcategory = subcategory;
+        }
+
+        return this.saveProduct(existing, input);
+    }
+
+    /**
+     * Delete a product
+     * @param id Product ID
+     * @throws Error if product not found
+     */
+    async deleteProduct(id: string): Promise<void> {
+        const deleted = await this.productRepository.deleteProduct(id);
+
+        if (!deleted) {
+            throw new Error('Product not found');
+        }
+    }
+
+    /**
+     * Validate and store new field values for an existing product
+     * @param existing Product as currently stored
+     * @param input New writable fields
+     * @returns Promise with the updated product
+     * @throws Error if the SKU is taken, the category does not exist or the stock would drop below the reserved quantity
+     */
+    private async saveProduct(existing: Product, input: ProductInput): Promise<{ data: Product }> {
+        if (input.sku.toLowerCase() !== existing.sku.toLowerCase()) {
+            await this.assertSkuAvailable(input.sku);
+        }
+        await this.assertCategoryExists(input.category, input.subcategory);
+
+        const product = await this.productRepository.updateProduct({
+            id: existing.id,
+            ...input,
+            inStock: input.stockQuantity > 0,
+            createdAt: existing.createdAt,
+            updatedAt: new Date().toISOString(),
+        });
+        if (!product) {
+            throw new Error('Product not found');
+        }
+
+        return { data: product };
+    }
+
+    /**
+     * Ensure no product uses a SKU yet
+     * @param sku Stock keeping unit
+     * @throws Error if the SKU is taken
+     */
+    private async assertSkuAvailable(sku: string): Promise<void> {
+        if (await this.productRepository.getProductBySku(sku)) {
+            throw new Error(`SKU already exists: ${sku}`);
+        }
+    }
+
+    /**
+     * Ensure a category exists and contains the given subcategory
+     * @param categoryId Category ID
+     * @param subcategoryId Optional subcategory ID, any descendant of the category
+     * @throws Error if either category does not exist
+     */
+    private async assertCategoryExists(categoryId: string, subcategoryId?: string): Promise<void> {
+        if (!(await this.categoryRepository.getCategoryPath(categoryId))) {
+            throw new Error(`Category not found: ${categoryId}`);
+        }
+
+        if (subcategoryId) {
+            const path = await this.categoryRepository.getCategoryPath(subcategoryId);
+            if (!path?.some((ancestor) => ancestor.id === categoryId)) {
+                throw new Error(`Category not found: ${subcategoryId} in ${categoryId}`);
+            }
+        }
+    }
+
+    /**
+     * Resolve the low-stock threshold of a product
+     * @param product Product
+     * @returns Threshold of the product, else of its subcategory, else of its category, else the default
+     */
+    private async lowStockThreshold(product: Product): Promise<number> {
+        const targets: Array<[ThresholdTarget, string | undefined]> = [
+            ['product', product.id],
+            ['category', product.subcategory],
+            ['category', product.category],
+        ];
+
+        for (const [targetType, targetId] of targets) {
+            const threshold = targetId && (await this.inventoryRepository.getThreshold(targetType, targetId));
+            if (threshold) {
+                return threshold.threshold;
+            }
+        }
+        return DEFAULT_LOW_STOCK_THRESHOLD;
+    }
 }
@@ -0,0 +1,100 @@
+/**
+ * Synonym service implementation
+ * Business logic layer for search synonym management
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { ICategoryRepository } from '../interfaces/category-interface.js';
+import { ISynonymRepository, ISynonymService, SynonymInput, SynonymRule } from '../interfaces/synonym-interface.js';
+
+/**
+ * Synonym service implementing business logic
+ * Checks that category hints point to existing categories
+ */
+export class SynonymService implements ISynonymService {
+    constructor(
+        private readonly synonymRepository: ISynonymRepository,
+        private readonly categoryRepository: ICategoryRepository,
+    ) {}
+
+    /**
+     * Get every synonym rule
+     * @returns Promise with the rules
+     */
+    async getSynonyms(): Promise<{ data: SynonymRule[] }> {
+        const rules = await this.synonymRepository.getSynonyms();
+
+        return { data: rules };
+    }
+
+    /**
+     * Get a synonym rule by ID
+     * @param id Rule ID
+     * @returns Promise with the rule
+     * @throws Error if the rule is not found
+     */
+    async getSynonymById(id: string): Promise<{ data: SynonymRule }> {
+        const rule = await this.synonymRepository.getSynonymById(id);
+
+        if (!rule) {
+            throw new Error('Synonym rule not found');
+        }
+
+        return { data: rule };
+    }
+
+    /**
+     * Create a synonym rule
+     * @param input Rule fields
+     * @returns Promise with the created rule
+     * @throws Error if the hinted category does not exist
+     */
+    async createSynonym(input: SynonymInput): Promise<{ data: SynonymRule }> {
+        await this.assertCategoryHint(input);
+
+        const rule = await this.synonymRepository.saveSynonym({ id: `syn-${randomUUID()}`, ...input });
+
+        return { data: rule };
+    }
+
+    /**
+     * Replace the fields of a synonym rule
+     * @param id Rule ID
+     * @param input New rule fields
+     * @returns Promise with the updated rule
+     * @throws Error if the rule or the hinted category is not found
+     */
+    async updateSynonym(id: string, input: SynonymInput): Promise<{ data: SynonymRule }> {
+        if (!(await this.synonymRepository.getSynonymById(id))) {
+            throw new Error('Synonym rule not found');
+        }
+        await this.assertCategoryHint(input);
+
+        const rule = await this.synonymRepository.saveSynonym({ id, ...input });
+
+        return { data: rule };
+    }
+
+    /**
+     * Delete a synonym rule
+     * @param id Rule ID
+     * @throws Error if the rule is not found
+     */
+    async deleteSynonym(id: string): Promise<void> {
+        if (!(await this.synonymRepository.deleteSynonym(id))) {
+            throw new Error('Synonym rule not found');
+        }
+    }
+
+    /**
+     * Check that the category hinted by a rule exists
+     * @param input Rule fields
+     * @throws Error if the hinted category does not exist
+     */
+    private async assertCategoryHint(input: SynonymInput): Promise<void> {
+        if (input.categoryHint && !(await this.categoryRepository.getCategoryById(input.categoryHint))) {
+            throw new Error(`Hint category not found: ${input.categoryHint}`);
+        }
+    }
+}
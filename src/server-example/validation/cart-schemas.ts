@@ -0,0 +1,29 @@
+/**
+ * Zod schemas validating cart payloads
+ */
+
+import { z } from 'zod';
+
+/** Largest quantity of a product in a cart */
+const MAX_QUANTITY = 1000;
+
+const quantitySchema = z.number().int().positive().max(MAX_QUANTITY);
+
+/**
+ * Payload of `POST /carts/:id/items`
+ */
+export const cartItemInputSchema = z
+    .object({
+        productId: z.string().min(1),
+        quantity: quantitySchema.default(1),
+    })
+    .strict();
+
+/**
+ * Payload of `PATCH /carts/:id/items/:productId`
+ */
+export const cartItemUpdateSchema = z
+    .object({
+        quantity: quantitySchema,
+    })
+    .strict();
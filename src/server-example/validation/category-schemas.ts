@@ -0,0 +1,68 @@
+/**
+ * Zod schemas validating category write payloads
+ */
+
+import { z } from 'zod';
+
+import { CategoryInput, CategoryUpdate } from '../interfaces/category-interface.js';
+
+const categoryIdSchema = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Expected a lowercase, hyphenated identifier');
+
+/**
+ * Derive a category ID from its name
+ * @param name Category name
+ * @returns Lowercase, hyphenated identifier
+ */
+function slugify(name: string): string {
+    return name
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Payload of `POST /categories`, the ID defaults to a slug of the name
+ */
+export const categoryInputSchema = z
+    .object({
+        id: categoryIdSchema.optional(),
+        name: z.string().trim().min(1).max(100),
+        description: z.string().trim().max(1000).default(''),
+        parentId: categoryIdSchema.optional(),
+    })
+    .strict()
+    .transform(({ id, name, ...rest }) => ({ ...rest, name, id: id ?? slugify(name) }))
+    .pipe(
+        z.object({
+            id: categoryIdSchema,
+            name: z.string(),
+            description: z.string(),
+            parentId: z.string().optional(),
+        }),
+    ) satisfies z.ZodType<CategoryInput, z.ZodTypeDef, unknown>;
+
+/**
+ * Payload of `PATCH /categories/:id`, at least one field is required
+ */
+export const categoryUpdateSchema = z
+    .object({
+        name: z.string().trim().min(1).max(100),
+        description: z.string().trim().max(1000),
+    })
+    .partial()
+    .strict()
+    .refine((changes) => Object.keys(changes).length > 0, 'Expected at least one field to update') satisfies z.ZodType<
+    CategoryUpdate,
+    z.ZodTypeDef,
+    unknown
+>;
+
+/**
+ * Payload of `POST /categories/:id/move`, a null parent moves the category to the root
+ */
+export const categoryMoveSchema = z
+    .object({
+        parentId: categoryIdSchema.nullable(),
+    })
+    .strict();
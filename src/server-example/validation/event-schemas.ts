@@ -0,0 +1,29 @@
+/**
+ * Zod schemas validating shopper event payloads
+ */
+
+import { z } from 'zod';
+
+import { EventInput } from '../interfaces/event-interface.js';
+
+/** Most events accepted in one request */
+const MAX_EVENT_BATCH = 500;
+
+const eventInputSchema = z
+    .object({
+        type: z.enum(['view', 'add_to_cart', 'purchase']),
+        productId: z.string().min(1),
+        sessionId: z.string().trim().min(1).max(200),
+        timestamp: z.string().datetime({ offset: true }).optional(),
+    })
+    .strict() satisfies z.ZodType<EventInput, z.ZodTypeDef, unknown>;
+
+/**
+ * Payload of `POST /events`: one event, or a batch of events as an array or wrapped in `{ "events": [...] }`
+ */
+export const eventBatchSchema = z.preprocess((body) => {
+    if (Array.isArray(body)) {
+        return body;
+    }
+    return typeof body === 'object' && body !== null && 'events' in body ? body.events : [body];
+}, z.array(eventInputSchema).min(1).max(MAX_EVENT_BATCH)) satisfies z.ZodType<EventInput[], z.ZodTypeDef, unknown>;
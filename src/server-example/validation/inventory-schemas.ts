@@ -0,0 +1,28 @@
+/**
+ * Zod schemas validating inventory payloads
+ */
+
+import { z } from 'zod';
+
+/**
+ * Target type segment of `/admin/stock-thresholds/:targetType/:targetId`
+ */
+export const thresholdTargetSchema = z.enum(['product', 'category']);
+
+/**
+ * Payload of `PUT /admin/stock-thresholds/:targetType/:targetId`
+ */
+export const stockThresholdInputSchema = z
+    .object({
+        threshold: z.number().int().nonnegative(),
+    })
+    .strict();
+
+/**
+ * Payload of `PUT /products/:id/stock/:warehouseId`
+ */
+export const warehouseStockInputSchema = z
+    .object({
+        quantity: z.number().int().nonnegative(),
+    })
+    .strict();
@@ -0,0 +1,14 @@
+/**
+ * Zod schemas validating order payloads
+ */
+
+import { z } from 'zod';
+
+/**
+ * Payload of `POST /orders`
+ */
+export const orderInputSchema = z
+    .object({
+        cartId: z.string().min(1),
+    })
+    .strict();
@@ -0,0 +1,79 @@
+/**
+ * Request body and query parsing shared by the controllers
+ */
+
+import { Context } from 'hono';
+import { z } from 'zod';
+
+/**
+ * Outcome of parsing a request body
+ */
+export type ParsedBody<T> = { success: true; data: T } | { success: false; response: Response };
+
+/**
+ * Parse and validate a JSON request body
+ * @param c Hono context
+ * @param schema Payload schema
+ * @param errorMessage Error reported when the payload does not match the schema
+ * @returns Parsed payload, or a 400 response describing why it was rejected
+ */
+export async function parseJsonBody<T>(
+    c: Context,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    errorMessage: string,
+): Promise<ParsedBody<T>> {
+    let body: unknown;
+    try {
+        body = await c.req.json();
+    } catch {
+        return { success: false, response: c.json({ error: 'Invalid JSON body' }, 400) };
+    }
+
+    return validate(c, schema, body, errorMessage);
+}
+
+/**
+ * Parse and validate the query parameters of a request
+ * @param c Hono context
+ * @param schema Query schema, coercing the parameters from strings
+ * @param errorMessage Error reported when the parameters do not match the schema
+ * @returns Parsed parameters, or a 400 response describing why they were rejected
+ */
+export function parseQuery<T>(
+    c: Context,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    errorMessage: string,
+): ParsedBody<T> {
+    return validate(c, schema, c.req.query(), errorMessage);
+}
+
+/**
+ * Validate a request payload
+ * @param c Hono context
+ * @param schema Payload schema
+ * @param payload Payload to validate
+ * @param errorMessage Error reported when the payload does not match the schema
+ * @returns Parsed payload, or a 400 response listing the issues
+ */
+function validate<T>(
+    c: Context,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    payload: unknown,
+    errorMessage: string,
+): ParsedBody<T> {
+    const result = schema.safeParse(payload);
+    if (!result.success) {
+        return {
+            success: false,
+            response: c.json(
+                {
+                    error: errorMessage,
+                    issues: result.error.issues.map(({ path, message }) => ({ path: path.join('.'), message })),
+                },
+                400,
+            ),
+        };
+    }
+
+    return { success: true, data: result.data };
+}
@@ -0,0 +1,65 @@
+/**
+ * Zod schemas validating product write payloads and query parameters
+ */
+
+import { z } from 'zod';
+
+import { ProductInput, ProductPatch } from '../interfaces/product-interface.js';
+
+const slugSchema = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Expected a lowercase, hyphenated identifier');
+
+const productFields = {
+    name: z.string().trim().min(1).max(200),
+    description: z.string().trim().max(5000),
+    price: z.number().nonnegative().finite(),
+    currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 currency code'),
+    category: slugSchema,
+    subcategory: slugSchema.optional(),
+    brand: z.string().trim().min(1).max(100),
+    sku: z.string().trim().min(1).max(64),
+    stockQuantity: z.number().int().nonnegative(),
+    images: z.array(z.string().url()),
+    attributes: z.record(z.union([z.string(), z.number(), z.boolean()])),
+    rating: z.number().min(0).max(5),
+    reviewCount: z.number().int().nonnegative(),
+    tags: z.array(z.string().trim().min(1)),
+};
+
+/**
+ * Payload of `POST /products` and `PUT /products/:id`
+ * Optional collections and counters default to empty values
+ */
+export const productInputSchema = z
+    .object({
+        ...productFields,
+        description: productFields.description.default(''),
+        currency: productFields.currency.default('USD'),
+        images: productFields.images.default([]),
+        attributes: productFields.attributes.default({}),
+        rating: productFields.rating.default(0),
+        reviewCount: productFields.reviewCount.default(0),
+        tags: productFields.tags.default([]),
+    })
+    .strict() satisfies z.ZodType<ProductInput, z.ZodTypeDef, unknown>;
+
+/**
+ * Payload of `PATCH /products/:id`, at least one field is required
+ * A null subcategory moves the product to the category itself
+ */
+export const productPatchSchema = z
+    .object({ ...productFields, subcategory: slugSchema.nullable() })
+    .partial()
+    .strict()
+    .refine((patch) => Object.keys(patch).length > 0, 'Expected at least one field to update') satisfies z.ZodType<
+    ProductPatch,
+    z.ZodTypeDef,
+    unknown
+>;
+
+/**
+ * Query parameters of `GET /products/suggest`
+ */
+export const suggestQuerySchema = z.object({
+    q: z.string().trim().min(1, 'Query parameter q is required'),
+    limit: z.coerce.number().int().min(1).max(20).default(8),
+});
@@ -0,0 +1,64 @@
+/**
+ * Zod schemas validating synonym rule payloads and files
+ */
+
+import { z } from 'zod';
+
+import { SynonymInput, SynonymRule } from '../interfaces/synonym-interface.js';
+
+const phraseSchema = z.string().trim().min(1).max(100);
+
+const synonymFieldsSchema = z.object({
+    type: z.enum(['equivalent', 'one-way']),
+    terms: z.array(phraseSchema).min(1).max(50),
+    synonyms: z.array(phraseSchema).max(50).default([]),
+    categoryHint: z.string().trim().min(1).optional(),
+});
+
+/**
+ * Check that a rule rewrites queries in some way
+ * @param rule Parsed rule fields
+ * @param ctx Refinement context receiving the issues
+ */
+function checkRuleEffect(rule: z.infer<typeof synonymFieldsSchema>, ctx: z.RefinementCtx): void {
+    if (rule.type === 'equivalent' && rule.synonyms.length > 0) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['synonyms'],
+            message: 'Equivalent rules take no synonyms, list every term in terms',
+        });
+    }
+    if (rule.type === 'equivalent' && rule.terms.length < 2 && !rule.categoryHint) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['terms'],
+            message: 'Expected at least two terms or a category hint',
+        });
+    }
+    if (rule.type === 'one-way' && rule.synonyms.length === 0 && !rule.categoryHint) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['synonyms'],
+            message: 'Expected at least one synonym or a category hint',
+        });
+    }
+}
+
+/**
+ * Payload of `POST /admin/synonyms` and `PUT /admin/synonyms/:id`
+ */
+export const synonymInputSchema = synonymFieldsSchema.strict().superRefine(checkRuleEffect) satisfies z.ZodType<
+    SynonymInput,
+    z.ZodTypeDef,
+    unknown
+>;
+
+/**
+ * Content of the synonyms file: every rule with its ID
+ */
+export const synonymFileSchema = z.array(
+    synonymFieldsSchema
+        .extend({ id: z.string().min(1) })
+        .strict()
+        .superRefine(checkRuleEffect),
+) satisfies z.ZodType<SynonymRule[], z.ZodTypeDef, unknown>;
@@ -0,0 +1,31 @@
+/**
+ * Catalog MCP server factory
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import { CatalogApiClient } from './api-client.js';
+import { registerShoppingPrompts } from './prompts/shopping-prompts.js';
+import { registerCatalogResources } from './resources/catalog-resources.js';
+import { registerCartTools } from './tools/cart-tools.js';
+import { registerCatalogTools } from './tools/catalog-tools.js';
+
+/**
+ * Create a catalog MCP server with every tool, resource and prompt registered
+ * A fresh instance is needed per connection, since an MCP server binds to a single transport
+ * @param apiClient Catalog API client shared by all servers
+ * @returns Configured MCP server, not yet connected
+ */
+export function createCatalogServer(apiClient: CatalogApiClient): McpServer {
+    const server = new McpServer({
+        name: 'catalog-api-server',
+        version: '1.0.0',
+    });
+
+    registerCatalogTools(server, apiClient);
+    registerCartTools(server, apiClient);
+    registerCatalogResources(server, apiClient);
+    registerShoppingPrompts(server, apiClient);
+
+    return server;
+}
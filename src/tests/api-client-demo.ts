@@ -9,10 +9,10 @@ async function demonstrateApi() {
     try {
         // Test health check
         console.log('1. Health Check:');
-        const isHealthy = await client.healthCheck();
-        console.log(`   API Status: ${isHealthy ? '✅ Healthy' : '❌ Unhealthy'}\n`);
+        const { healthy, circuit } = await client.healthCheck();
+        console.log(`   API Status: ${healthy ? '✅ Healthy' : '❌ Unhealthy'} (circuit ${circuit.state})\n`);
 
-        if (!isHealthy) {
+        if (!healthy) {
             console.log('❌ API server is not running. Please start it with: bun run api-server');
             return;
         }
@@ -0,0 +1,97 @@
+/**
+ * Cart MCP tools
+ * Let agents fill a shopping cart, identified by the cart ID they carry across calls
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { CatalogApiClient } from '../api-client.js';
+import { withMcpErrors } from '../error-mapping.js';
+import { cartSchema } from '../schemas.js';
+import { formatCart } from './formatters.js';
+import { structuredResult } from './tool-result.js';
+
+/**
+ * Register the cart tools on an MCP server
+ * @param server MCP server to register the tools on
+ * @param apiClient Catalog API client used by the tool handlers
+ */
+export function registerCartTools(server: McpServer, apiClient: CatalogApiClient): void {
+    server.registerTool(
+        'create_cart',
+        {
+            title: 'create_cart',
+            description: 'Create an empty shopping cart. Pass the returned cart ID to the other cart tools',
+            inputSchema: {},
+            outputSchema: cartSchema.shape,
+        },
+        async () => {
+            const apiResponse = await withMcpErrors(() => apiClient.createCart());
+            return structuredResult(cartSchema, apiResponse.data, formatCart);
+        },
+    );
+
+    server.registerTool(
+        'add_to_cart',
+        {
+            title: 'add_to_cart',
+            description:
+                'Add a product to a shopping cart, on top of the quantity already in it. Fails if the stock does not cover the total quantity',
+            inputSchema: {
+                cartId: z.string().describe('Cart ID returned by create_cart'),
+                productId: z.string().describe('Product ID to add'),
+                quantity: z.number().int().positive().default(1).describe('Quantity to add'),
+            },
+            outputSchema: cartSchema.shape,
+        },
+        async ({ cartId, productId, quantity }) => {
+            const apiResponse = await withMcpErrors(() => apiClient.addToCart(cartId, productId, quantity), {
+                notFound: `Cart ${cartId} or product ${productId} not found`,
+            });
+            return structuredResult(cartSchema, apiResponse.data, formatCart);
+        },
+    );
+
+    server.registerTool(
+        'update_cart_item',
+        {
+            title: 'update_cart_item',
+            description: 'Change the quantity of a product in a shopping cart, or remove it with a quantity of 0',
+            inputSchema: {
+                cartId: z.string().describe('Cart ID returned by create_cart'),
+                productId: z.string().describe('Product ID in the cart'),
+                quantity: z.number().int().min(0).describe('New quantity, 0 to remove the product'),
+            },
+            outputSchema: cartSchema.shape,
+        },
+        async ({ cartId, productId, quantity }) => {
+            const apiResponse = await withMcpErrors(
+                () =>
+                    quantity === 0
+                        ? apiClient.removeFromCart(cartId, productId)
+                        : apiClient.updateCartItem(cartId, productId, quantity),
+                { notFound: `Cart ${cartId} not found or product ${productId} not in it` },
+            );
+            return structuredResult(cartSchema, apiResponse.data, formatCart);
+        },
+    );
+
+    server.registerTool(
+        'view_cart',
+        {
+            title: 'view_cart',
+            description: 'View the items of a shopping cart at current prices, with its subtotal',
+            inputSchema: {
+                cartId: z.string().describe('Cart ID returned by create_cart'),
+            },
+            outputSchema: cartSchema.shape,
+        },
+        async ({ cartId }) => {
+            const apiResponse = await withMcpErrors(() => apiClient.getCart(cartId), {
+                notFound: `Cart with ID ${cartId} not found`,
+            });
+            return structuredResult(cartSchema, apiResponse.data, formatCart);
+        },
+    );
+}
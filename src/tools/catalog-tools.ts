@@ -0,0 +1,367 @@
+/**
+ * Catalog MCP tools
+ * Thin adapters translating MCP tool calls into catalog REST API requests
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { CatalogApiClient } from '../api-client.js';
+import { withMcpErrors } from '../error-mapping.js';
+import {
+    categoryListSchema,
+    priceRangeSchema,
+    productAvailabilitySchema,
+    productListSchema,
+    productSchema,
+    recommendationListSchema,
+    relatedProductListSchema,
+    searchResultSchema,
+    searchSuggestionListSchema,
+} from '../schemas.js';
+import type { SearchResult } from '../types.js';
+import {
+    formatAvailability,
+    formatCategoryTree,
+    formatPriceRange,
+    formatProductDetails,
+    formatProductList,
+    formatRecommendations,
+    formatSearchResult,
+    formatSuggestions,
+} from './formatters.js';
+import { structuredResult } from './tool-result.js';
+
+/**
+ * Rename the API facet counts to the tool output shape
+ * @param counts Facet counts returned by the API
+ * @returns Facet counts keyed by name
+ */
+function toFacetCounts(counts: { value: string; count: number }[] = []): { name: string; count: number }[] {
+    return counts.map(({ value, count }) => ({ name: value, count }));
+}
+
+/**
+ * Register all catalog tools on an MCP server
+ * @param server MCP server to register the tools on
+ * @param apiClient Catalog API client used by the tool handlers
+ */
+export function registerCatalogTools(server: McpServer, apiClient: CatalogApiClient): void {
+    server.registerTool(
+        'search_products',
+        {
+            title: 'search_products',
+            description: 'Search for products in the catalog with filters and pagination',
+            inputSchema: {
+                query: z.string().optional().describe('Search query string'),
+                category: z
+                    .union([z.string(), z.array(z.string())])
+                    .optional()
+                    .describe('Filter by category ID, several categories match any of them'),
+                brand: z
+                    .union([z.string(), z.array(z.string())])
+                    .optional()
+                    .describe('Filter by brand name, several brands match any of them'),
+                minPrice: z.number().optional().describe('Minimum price filter'),
+                maxPrice: z.number().optional().describe('Maximum price filter'),
+                minRating: z.number().min(0).max(5).optional().describe('Minimum rating filter'),
+                attributes: z
+                    .record(z.array(z.string()))
+                    .optional()
+                    .describe(
+                        'Filter by attribute values, e.g. {"color": ["black", "white"]}, several values match any of them',
+                    ),
+                inStockOnly: z.boolean().default(false).describe('Show only products in stock'),
+                page: z.number().default(1).describe('Page number for pagination'),
+                pageSize: z.number().default(10).describe('Number of products per page'),
+                sortBy: z
+                    .enum(['relevance', 'name', 'price', 'rating', 'createdAt'])
+                    .optional()
+                    .describe('Sort products by field, defaults to relevance with a query and to name without'),
+                sortOrder: z
+                    .enum(['asc', 'desc'])
+                    .optional()
+                    .describe('Sort order, defaults to desc (best matches first) for relevance and to asc otherwise'),
+                fuzzy: z.boolean().default(true).describe('Tolerate typos in the search query'),
+                mode: z
+                    .enum(['keyword', 'semantic', 'hybrid'])
+                    .default('keyword')
+                    .describe(
+                        'How the query is matched: keyword by its words, semantic by its meaning for natural-language ' +
+                            'needs such as "something to keep coffee warm on my desk", hybrid by both',
+                    ),
+            },
+            outputSchema: searchResultSchema.shape,
+        },
+        async ({
+            query,
+            category,
+            brand,
+            minPrice,
+            maxPrice,
+            minRating,
+            attributes,
+            inStockOnly,
+            page,
+            pageSize,
+            sortBy,
+            sortOrder,
+            fuzzy,
+            mode,
+        }) => {
+            const apiResponse = await withMcpErrors(() =>
+                apiClient.searchProducts({
+                    query,
+                    category,
+                    brand,
+                    minPrice,
+                    maxPrice,
+                    minRating,
+                    attributes,
+                    inStockOnly,
+                    page,
+                    pageSize,
+                    sortBy,
+                    sortOrder,
+                    fuzzy,
+                    mode,
+                }),
+            );
+
+            // Transform API response to match MCP tool response format
+            const result: SearchResult = {
+                products: apiResponse.data,
+                totalCount: apiResponse.pagination?.total || 0,
+                page: apiResponse.pagination?.page || 1,
+                pageSize: apiResponse.pagination?.limit || 10,
+                totalPages: apiResponse.pagination?.totalPages || 0,
+                facets: {
+                    categories: toFacetCounts(apiResponse.facets?.categories),
+                    brands: toFacetCounts(apiResponse.facets?.brands),
+                    priceRanges: apiResponse.facets?.priceRanges || [],
+                    ratings: apiResponse.facets?.ratings || [],
+                    availability: apiResponse.facets?.availability || { inStock: 0, outOfStock: 0 },
+                    attributes: Object.fromEntries(
+                        Object.entries(apiResponse.facets?.attributes || {}).map(([name, counts]) => [
+                            name,
+                            toFacetCounts(counts),
+                        ]),
+                    ),
+                },
+                didYouMean: apiResponse.didYouMean,
+            };
+
+            return structuredResult(searchResultSchema, result, formatSearchResult);
+        },
+    );
+
+    server.registerTool(
+        'suggest_search_terms',
+        {
+            title: 'suggest_search_terms',
+            description:
+                'Complete a partial search term with matching product names, brands, categories and popular searches. ' +
+                'Use it to turn a vague request into precise search_products queries or filters',
+            inputSchema: {
+                query: z.string().min(1).describe('Partial search term'),
+                limit: z.number().int().min(1).max(20).default(8).describe('Maximum number of suggestions'),
+            },
+            outputSchema: searchSuggestionListSchema.shape,
+        },
+        async ({ query, limit }) => {
+            const apiResponse = await withMcpErrors(() => apiClient.suggestSearchTerms(query, limit));
+
+            return structuredResult(searchSuggestionListSchema, { suggestions: apiResponse.data }, ({ suggestions }) =>
+                formatSuggestions(suggestions),
+            );
+        },
+    );
+
+    server.registerTool(
+        'get_product_details',
+        {
+            title: 'get_product_details',
+            description: 'Get detailed information about a specific product',
+            inputSchema: {
+                productId: z.string().describe('Product ID to retrieve details for'),
+            },
+            outputSchema: productSchema.shape,
+        },
+        async ({ productId }) => {
+            const apiResponse = await withMcpErrors(() => apiClient.getProductDetails(productId), {
+                notFound: `Product with ID ${productId} not found`,
+            });
+            return structuredResult(productSchema, apiResponse.data, formatProductDetails);
+        },
+    );
+
+    server.registerTool(
+        'get_categories',
+        {
+            title: 'get_categories',
+            description: 'Get all product categories with hierarchy',
+            inputSchema: {
+                parentId: z.string().optional().describe('Get subcategories of a specific parent category'),
+                includeProductCount: z.boolean().default(true).describe('Include product count for each category'),
+            },
+            outputSchema: categoryListSchema.shape,
+        },
+        async ({ parentId, includeProductCount }) => {
+            const apiResponse = await withMcpErrors(() => apiClient.getCategories(parentId, includeProductCount));
+
+            return structuredResult(categoryListSchema, { categories: apiResponse.data }, ({ categories }) =>
+                formatCategoryTree(categories),
+            );
+        },
+    );
+
+    server.registerTool(
+        'get_product_recommendations',
+        {
+            title: 'get_product_recommendations',
+            description:
+                'Get product recommendations based on a product or search criteria. Recommendations based on a product are the most similar products, each with the reason it was picked',
+            inputSchema: {
+                productId: z.string().optional().describe('Get recommendations based on this product'),
+                category: z.string().optional().describe('Get recommendations from this category'),
+                limit: z.number().default(5).describe('Number of recommendations to return'),
+                weights: z
+                    .object({
+                        tags: z.number().min(0).optional(),
+                        attributes: z.number().min(0).optional(),
+                        price: z.number().min(0).optional(),
+                        subcategory: z.number().min(0).optional(),
+                        brand: z.number().min(0).optional(),
+                    })
+                    .optional()
+                    .describe(
+                        'Relative weights of the similarity signals for recommendations based on a product, e.g. a higher price weight to stay in the same budget',
+                    ),
+                diversity: z
+                    .number()
+                    .min(0)
+                    .max(1)
+                    .optional()
+                    .describe('From 0 (most similar products) to 1 (most varied products), defaults to 0.3'),
+            },
+            outputSchema: recommendationListSchema.shape,
+        },
+        async ({ productId, category, limit, weights, diversity }) => {
+            let apiResponse;
+
+            if (productId) {
+                apiResponse = await withMcpErrors(
+                    () => apiClient.getProductRecommendations(productId, limit, { weights, diversity }),
+                    { notFound: `Product with ID ${productId} not found` },
+                );
+            } else if (category) {
+                apiResponse = await withMcpErrors(() => apiClient.getGeneralRecommendations(category, limit));
+            } else {
+                throw new McpError(
+                    ErrorCode.InvalidRequest,
+                    'Either productId or category must be provided for recommendations',
+                );
+            }
+
+            return structuredResult(recommendationListSchema, { products: apiResponse.data }, ({ products }) =>
+                formatRecommendations(products),
+            );
+        },
+    );
+
+    server.registerTool(
+        'get_frequently_bought_together',
+        {
+            title: 'get_frequently_bought_together',
+            description:
+                'Get the products shoppers most often add to their cart or buy with a product, or view with it. Products without enough shopper activity are completed with similar products',
+            inputSchema: {
+                productId: z.string().describe('Product ID'),
+                basis: z
+                    .enum(['purchases', 'views'])
+                    .default('purchases')
+                    .describe('Relate products bought together or viewed together in the same sessions'),
+                limit: z.number().default(5).describe('Number of products to return'),
+            },
+            outputSchema: relatedProductListSchema.shape,
+        },
+        async ({ productId, basis, limit }) => {
+            const apiResponse = await withMcpErrors(
+                () => apiClient.getFrequentlyBoughtTogether(productId, limit, basis),
+                { notFound: `Product with ID ${productId} not found` },
+            );
+
+            return structuredResult(relatedProductListSchema, { products: apiResponse.data }, ({ products }) =>
+                formatRecommendations(products),
+            );
+        },
+    );
+
+    server.registerTool(
+        'check_product_availability',
+        {
+            title: 'check_product_availability',
+            description:
+                'Check product availability and stock information, optionally broken down per warehouse with estimated ship dates',
+            inputSchema: {
+                productId: z.string().describe('Product ID to check availability'),
+                includeLocations: z
+                    .boolean()
+                    .default(false)
+                    .describe('Include the stock and estimated ship date of each warehouse'),
+            },
+            outputSchema: productAvailabilitySchema.shape,
+        },
+        async ({ productId, includeLocations }) => {
+            const apiResponse = await withMcpErrors(
+                () => apiClient.checkProductAvailability(productId, includeLocations),
+                { notFound: `Product with ID ${productId} not found` },
+            );
+            return structuredResult(productAvailabilitySchema, apiResponse.data, formatAvailability);
+        },
+    );
+
+    server.registerTool(
+        'get_popular_products',
+        {
+            title: 'get_popular_products',
+            description: 'Get popular products based on ratings and reviews',
+            inputSchema: {
+                category: z.string().optional().describe('Filter by category'),
+                limit: z.number().default(10).describe('Number of products to return'),
+                minRating: z.number().default(4.0).describe('Minimum rating threshold'),
+            },
+            outputSchema: productListSchema.shape,
+        },
+        async ({ category, limit, minRating }) => {
+            const apiResponse = await withMcpErrors(() => apiClient.getPopularProducts(category, limit, minRating));
+
+            return structuredResult(productListSchema, { products: apiResponse.data }, ({ products }) =>
+                formatProductList(products),
+            );
+        },
+    );
+
+    server.registerTool(
+        'get_price_range',
+        {
+            title: 'get_price_range',
+            description: 'Get price range information for products in a category',
+            inputSchema: {
+                category: z.string().optional().describe('Category to get price range for'),
+            },
+            outputSchema: priceRangeSchema.shape,
+        },
+        async ({ category }) => {
+            if (!category) {
+                throw new McpError(ErrorCode.InvalidRequest, 'Category parameter is required for price range');
+            }
+
+            const apiResponse = await withMcpErrors(() => apiClient.getCategoryPriceRange(category), {
+                notFound: `No products found in category ${category}`,
+            });
+            return structuredResult(priceRangeSchema, apiResponse.data, formatPriceRange);
+        },
+    );
+}
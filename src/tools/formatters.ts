@@ -0,0 +1,199 @@
+/**
+ * Human-readable text renderings of catalog tool results
+ */
+
+import type {
+    Cart,
+    Category,
+    PriceRange,
+    Product,
+    ProductAvailability,
+    RecommendedProduct,
+    ScoredProduct,
+    SearchResult,
+    SearchSuggestion,
+} from '../types.js';
+
+/**
+ * Render a product as a single summary line
+ * @param product Product, with its relevance when it comes from a search
+ * @returns Summary line
+ */
+export function formatProductLine(product: ScoredProduct): string {
+    const stock = product.inStock ? 'in stock' : 'out of stock';
+    const relevance = product.score === undefined ? '' : `, relevance ${product.score}`;
+    return `- ${product.name} [${product.id}] — ${product.price} ${product.currency}, ${product.brand}, rating ${product.rating}, ${stock}${relevance}`;
+}
+
+/**
+ * Render a list of products
+ * @param products Products
+ * @param emptyMessage Message used when the list is empty
+ * @returns Text rendering
+ */
+export function formatProductList(products: Product[], emptyMessage = 'No products found.'): string {
+    if (products.length === 0) {
+        return emptyMessage;
+    }
+    return products.map(formatProductLine).join('\n');
+}
+
+/**
+ * Render recommended or related products with the reason for each
+ * @param products Recommended products
+ * @returns Text rendering
+ */
+export function formatRecommendations(products: RecommendedProduct[]): string {
+    if (products.length === 0) {
+        return 'No recommendations found.';
+    }
+    return products
+        .map((product) => formatProductLine(product) + (product.reason ? `\n  Why: ${product.reason}` : ''))
+        .join('\n');
+}
+
+/**
+ * Render full product details
+ * @param product Product
+ * @returns Text rendering
+ */
+export function formatProductDetails(product: Product): string {
+    const category = product.subcategory ? `${product.category} / ${product.subcategory}` : product.category;
+    const attributes = Object.entries(product.attributes).map(([key, value]) => `  ${key}: ${value}`);
+
+    return [
+        `${product.name} [${product.id}]`,
+        `Brand: ${product.brand} | Category: ${category} | SKU: ${product.sku}`,
+        `Price: ${product.price} ${product.currency} | Rating: ${product.rating} (${product.reviewCount} reviews)`,
+        `Stock: ${product.inStock ? `in stock (${product.stockQuantity} units)` : 'out of stock'}`,
+        product.description,
+        ...(attributes.length > 0 ? ['Attributes:', ...attributes] : []),
+        ...(product.tags.length > 0 ? [`Tags: ${product.tags.join(', ')}`] : []),
+    ].join('\n');
+}
+
+/**
+ * Render a search result page with its facets
+ * @param result Search result
+ * @returns Text rendering
+ */
+export function formatSearchResult(result: SearchResult): string {
+    const lines = [
+        `Found ${result.totalCount} products (page ${result.page} of ${Math.max(result.totalPages, 1)})`,
+        ...(result.didYouMean ? [`Did you mean "${result.didYouMean}"?`] : []),
+        formatProductList(result.products, 'No products on this page.'),
+    ];
+
+    const { categories, brands, priceRanges, ratings, availability, attributes } = result.facets;
+    const facetLines: Array<[label: string, values: string[]]> = [
+        ['Categories', categories.map((facet) => `${facet.name} (${facet.count})`)],
+        ['Brands', brands.map((facet) => `${facet.name} (${facet.count})`)],
+        ['Prices', priceRanges.map((range) => `${range.min}-${range.max} (${range.count})`)],
+        ['Ratings', ratings.map((facet) => `${facet.minRating}+ (${facet.count})`)],
+        ...Object.entries(attributes).map(([name, counts]): [string, string[]] => [
+            `${name.charAt(0).toUpperCase()}${name.slice(1)}`,
+            counts.map((facet) => `${facet.name} (${facet.count})`),
+        ]),
+    ];
+
+    for (const [label, values] of facetLines) {
+        if (values.length > 0) {
+            lines.push(`${label}: ${values.join(', ')}`);
+        }
+    }
+    if (availability.inStock + availability.outOfStock > 0) {
+        lines.push(`Availability: ${availability.inStock} in stock, ${availability.outOfStock} out of stock`);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Render search completions, one per line
+ * @param suggestions Completions, most popular first
+ * @returns Text rendering
+ */
+export function formatSuggestions(suggestions: SearchSuggestion[]): string {
+    if (suggestions.length === 0) {
+        return 'No suggestions found.';
+    }
+
+    return suggestions
+        .map((suggestion) => {
+            const id = suggestion.id ? ` [${suggestion.id}]` : '';
+            return `- ${suggestion.text} (${suggestion.type}${id})`;
+        })
+        .join('\n');
+}
+
+/**
+ * Render a category tree, one category per line
+ * @param categories Categories with nested subcategories
+ * @param depth Current nesting depth
+ * @returns Text rendering
+ */
+export function formatCategoryTree(categories: Category[], depth = 0): string {
+    if (categories.length === 0 && depth === 0) {
+        return 'No categories found.';
+    }
+
+    return categories
+        .flatMap((category) => [
+            `${'  '.repeat(depth)}- ${category.name} [${category.id}]` +
+                (category.productCount === undefined ? '' : ` (${category.productCount} products)`),
+            ...(category.subcategories.length > 0 ? [formatCategoryTree(category.subcategories, depth + 1)] : []),
+        ])
+        .join('\n');
+}
+
+/**
+ * Render product availability
+ * @param availability Availability information
+ * @returns Text rendering
+ */
+export function formatAvailability(availability: ProductAvailability): string {
+    const reserved = availability.reservedQuantity
+        ? `, ${availability.availableQuantity} available (${availability.reservedQuantity} reserved)`
+        : '';
+    const shipping = availability.estimatedShipDate ? `, ships ${availability.estimatedShipDate}` : '';
+    const lines = [
+        `Product ${availability.productId}: ${availability.availability}, ${availability.stockQuantity} units${reserved}${shipping} (updated ${availability.lastUpdated})`,
+    ];
+
+    for (const location of availability.locations ?? []) {
+        const locationShipping = location.estimatedShipDate ? `, ships ${location.estimatedShipDate}` : '';
+        lines.push(
+            `  ${location.warehouseName} (${location.region}): ${location.availability}, ${location.availableQuantity} of ${location.stockQuantity} available${locationShipping}`,
+        );
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Render a category price range
+ * @param priceRange Price range
+ * @returns Text rendering
+ */
+export function formatPriceRange(priceRange: PriceRange): string {
+    return `Category ${priceRange.categoryId}: ${priceRange.minPrice} – ${priceRange.maxPrice}, average ${priceRange.averagePrice} across ${priceRange.productCount} products`;
+}
+
+/**
+ * Render a cart with its items and subtotal
+ * @param cart Cart
+ * @returns Text rendering
+ */
+export function formatCart(cart: Cart): string {
+    if (cart.items.length === 0) {
+        return `Cart ${cart.id} is empty.`;
+    }
+
+    return [
+        `Cart ${cart.id}: ${cart.itemCount} ${cart.itemCount === 1 ? 'item' : 'items'}, subtotal ${cart.subtotal} ${cart.currency}`,
+        ...cart.items.map(
+            (item) =>
+                `- ${item.name} [${item.productId}] × ${item.quantity} at ${item.unitPrice} = ${item.lineTotal} ${cart.currency}`,
+        ),
+    ].join('\n');
+}
@@ -0,0 +1,30 @@
+/**
+ * Helpers for building MCP tool results
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z, ZodRawShape } from 'zod';
+
+/**
+ * Validate tool output and return it as structured content with a text rendering
+ * @param schema Tool output schema
+ * @param data Data to return
+ * @param render Renders the validated data as human-readable text
+ * @returns Tool result with `structuredContent` and a text content block
+ * @throws McpError if the data does not match the output schema
+ */
+export function structuredResult<Shape extends ZodRawShape>(
+    schema: z.ZodObject<Shape>,
+    data: unknown,
+    render: (value: z.infer<z.ZodObject<Shape>>) => string,
+) {
+    const parsed = schema.safeParse(data);
+    if (!parsed.success) {
+        throw new McpError(ErrorCode.InternalError, `Catalog API returned unexpected data: ${parsed.error.message}`);
+    }
+
+    return {
+        content: [{ type: 'text' as const, text: render(parsed.data) }],
+        structuredContent: parsed.data,
+    };
+}
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { AddressInfo } from 'node:net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import type { HttpTransportConfig } from '../config.js';
+import { HttpTransportHandle, startHttpTransport } from './http-transport.js';
+
+const MCP_HEADERS = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+let handle: HttpTransportHandle | undefined;
+
+afterEach(async () => {
+    await handle?.close();
+    handle = undefined;
+});
+
+/**
+ * Start the transport on a free port
+ * @param limits Session limits
+ * @returns Endpoint URL
+ */
+function start(limits: Pick<HttpTransportConfig, 'sessionIdleMinutes' | 'maxSessions'>): string {
+    handle = startHttpTransport(() => new McpServer({ name: 'test', version: '1.0.0' }), {
+        host: '127.0.0.1',
+        port: 0,
+        path: '/mcp',
+        ...limits,
+    });
+    return `http://127.0.0.1:${(handle.server.address() as AddressInfo).port}/mcp`;
+}
+
+/**
+ * Open a session
+ * @param url Endpoint URL
+ * @returns Session ID
+ */
+async function initialize(url: string): Promise<string> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: MCP_HEADERS,
+        body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'initialize',
+            params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+        }),
+    });
+    await response.text();
+
+    expect(response.status).toBe(200);
+    return response.headers.get('mcp-session-id')!;
+}
+
+/**
+ * Ping the server within a session
+ * @param url Endpoint URL
+ * @param sessionId Session ID
+ * @returns HTTP status of the response
+ */
+async function ping(url: string, sessionId: string): Promise<number> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { ...MCP_HEADERS, 'Mcp-Session-Id': sessionId },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+    });
+    await response.text();
+    return response.status;
+}
+
+describe('startHttpTransport', () => {
+    test('sessions stay open while they are used', async () => {
+        const url = start({ sessionIdleMinutes: 30, maxSessions: 10 });
+        const sessionId = await initialize(url);
+
+        expect(await ping(url, sessionId)).toBe(200);
+        expect(await ping(url, 'unknown-session')).toBe(404);
+    });
+
+    test('sessions left idle are closed', async () => {
+        // 60 milliseconds, swept as often
+        const url = start({ sessionIdleMinutes: 0.001, maxSessions: 10 });
+        const sessionId = await initialize(url);
+
+        await Bun.sleep(200);
+
+        expect(await ping(url, sessionId)).toBe(404);
+        expect(await ping(url, await initialize(url))).toBe(200);
+    });
+
+    test('opening a session past the limit closes the least recently active one', async () => {
+        const url = start({ sessionIdleMinutes: 30, maxSessions: 2 });
+        const first = await initialize(url);
+        const second = await initialize(url);
+        expect(await ping(url, first)).toBe(200);
+
+        const third = await initialize(url);
+
+        expect(await ping(url, second)).toBe(404);
+        expect(await ping(url, first)).toBe(200);
+        expect(await ping(url, third)).toBe(200);
+    });
+});
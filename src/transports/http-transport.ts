@@ -0,0 +1,221 @@
+/**
+ * Streamable HTTP transport hosting the catalog MCP server as a network service
+ */
+
+import { randomUUID } from 'node:crypto';
+import { Context, Hono } from 'hono';
+import { serve, type HttpBindings, type ServerType } from '@hono/node-server';
+import { RESPONSE_ALREADY_SENT } from '@hono/node-server/utils/response';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import type { HttpTransportConfig } from '../config.js';
+import { InMemoryEventStore } from './in-memory-event-store.js';
+
+type HttpContext = Context<{ Bindings: HttpBindings }>;
+
+/** How often idle sessions are looked for, at most */
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Open client session
+ */
+interface Session {
+    transport: StreamableHTTPServerTransport;
+    /** When the session last received a request or finished answering one, in milliseconds */
+    lastActiveAt: number;
+    /** Requests still being answered, SSE streams included; a session is never idle while one is open */
+    openRequests: number;
+}
+
+/**
+ * Running Streamable HTTP service
+ */
+export interface HttpTransportHandle {
+    server: ServerType;
+    /**
+     * Close every open session and stop accepting connections
+     */
+    close(): Promise<void>;
+}
+
+/**
+ * Build a JSON-RPC error response for requests rejected before reaching a transport
+ * @param c Hono context
+ * @param status HTTP status code
+ * @param code JSON-RPC error code
+ * @param message Error message
+ * @returns JSON response
+ */
+function jsonRpcError(c: HttpContext, status: 400 | 404 | 503, code: number, message: string) {
+    return c.json({ jsonrpc: '2.0', error: { code, message }, id: null }, status);
+}
+
+/**
+ * Start the Streamable HTTP transport
+ *
+ * Every client session gets its own transport, event store and MCP server instance
+ * created through `createServer`, keyed by the `Mcp-Session-Id` header.
+ * Clients may leave without ending their session, so sessions idle for `sessionIdleMinutes` are closed,
+ * and opening one past `maxSessions` closes the least recently active idle session first.
+ *
+ * @param createServer Factory returning a new, unconnected MCP server
+ * @param config Host, port, endpoint path and session limits
+ * @returns Handle to the running HTTP service
+ */
+export function startHttpTransport(createServer: () => McpServer, config: HttpTransportConfig): HttpTransportHandle {
+    const sessions = new Map<string, Session>();
+    const idleMs = config.sessionIdleMinutes * 60_000;
+    const app = new Hono<{ Bindings: HttpBindings }>();
+
+    /**
+     * Create a transport for a new session and connect a fresh MCP server to it
+     * @returns Connected transport
+     */
+    async function openSession(): Promise<StreamableHTTPServerTransport> {
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            eventStore: new InMemoryEventStore(),
+            onsessioninitialized: (sessionId) => {
+                sessions.set(sessionId, { transport, lastActiveAt: Date.now(), openRequests: 1 });
+            },
+        });
+
+        transport.onclose = () => {
+            if (transport.sessionId) {
+                sessions.delete(transport.sessionId);
+            }
+        };
+
+        await createServer().connect(transport);
+        return transport;
+    }
+
+    /**
+     * Close the least recently active session without open requests, to make room for a new one
+     * @returns True if a session was closed
+     */
+    async function closeLeastRecentlyActive(): Promise<boolean> {
+        let oldest: Session | undefined;
+        for (const session of sessions.values()) {
+            if (session.openRequests === 0 && (!oldest || session.lastActiveAt < oldest.lastActiveAt)) {
+                oldest = session;
+            }
+        }
+
+        await oldest?.transport.close();
+        return oldest !== undefined;
+    }
+
+    /**
+     * Close the sessions idle for longer than the idle timeout
+     */
+    async function closeIdleSessions() {
+        const idleSince = Date.now() - idleMs;
+        const idle = [...sessions.values()].filter(
+            (session) => session.openRequests === 0 && session.lastActiveAt < idleSince,
+        );
+
+        await Promise.all(idle.map((session) => session.transport.close()));
+    }
+
+    /**
+     * Let a session's transport answer a request, keeping the session active until the response ends
+     * @param c Hono context
+     * @param transport Session transport
+     * @param body Parsed JSON-RPC body of POST requests
+     * @returns Marker telling Hono the transport wrote the response
+     */
+    async function handleRequest(c: HttpContext, transport: StreamableHTTPServerTransport, body?: unknown) {
+        const session = transport.sessionId ? sessions.get(transport.sessionId) : undefined;
+        if (session) {
+            session.openRequests++;
+            session.lastActiveAt = Date.now();
+        }
+        c.env.outgoing.once('close', () => {
+            // A new session is only registered while its initialize request is answered
+            const current = session ?? (transport.sessionId ? sessions.get(transport.sessionId) : undefined);
+            if (current) {
+                current.openRequests--;
+                current.lastActiveAt = Date.now();
+            }
+        });
+
+        await transport.handleRequest(c.env.incoming, c.env.outgoing, body);
+        return RESPONSE_ALREADY_SENT;
+    }
+
+    /**
+     * Handle client-to-server JSON-RPC messages, opening a session on `initialize`
+     * @param c Hono context
+     * @returns Response already written by the transport, or an error response
+     */
+    async function handlePost(c: HttpContext) {
+        let body: unknown;
+        try {
+            body = await c.req.json();
+        } catch {
+            return jsonRpcError(c, 400, -32700, 'Parse error: invalid JSON body');
+        }
+
+        const sessionId = c.req.header('mcp-session-id');
+        let transport = sessionId ? sessions.get(sessionId)?.transport : undefined;
+
+        if (!transport) {
+            if (sessionId) {
+                return jsonRpcError(c, 404, -32001, 'Session not found');
+            }
+            if (!isInitializeRequest(body)) {
+                return jsonRpcError(c, 400, -32000, 'Bad Request: No valid session ID provided');
+            }
+            if (sessions.size >= config.maxSessions && !(await closeLeastRecentlyActive())) {
+                return jsonRpcError(c, 503, -32000, 'Too many open sessions, try again later');
+            }
+            transport = await openSession();
+        }
+
+        return handleRequest(c, transport, body);
+    }
+
+    /**
+     * Handle SSE stream (GET) and session termination (DELETE) requests for an existing session
+     * @param c Hono context
+     * @returns Response already written by the transport, or an error response
+     */
+    async function handleSessionRequest(c: HttpContext) {
+        const sessionId = c.req.header('mcp-session-id');
+        if (!sessionId) {
+            return jsonRpcError(c, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+        }
+
+        const session = sessions.get(sessionId);
+        if (!session) {
+            return jsonRpcError(c, 404, -32001, 'Session not found');
+        }
+
+        return handleRequest(c, session.transport);
+    }
+
+    app.post(config.path, (c) => handlePost(c));
+    app.get(config.path, (c) => handleSessionRequest(c));
+    app.delete(config.path, (c) => handleSessionRequest(c));
+
+    const server = serve({
+        fetch: app.fetch,
+        hostname: config.host,
+        port: config.port,
+    });
+
+    const sweep = setInterval(() => void closeIdleSessions(), Math.min(idleMs, MAX_SWEEP_INTERVAL_MS));
+    sweep.unref();
+
+    return {
+        server,
+        async close() {
+            clearInterval(sweep);
+            await Promise.all([...sessions.values()].map((session) => session.transport.close()));
+            await new Promise<void>((resolve) => server.close(() => resolve()));
+        },
+    };
+}
@@ -0,0 +1,74 @@
+/**
+ * In-memory event store enabling Streamable HTTP resumability
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+interface StoredEvent {
+    eventId: EventId;
+    message: JSONRPCMessage;
+}
+
+/**
+ * Keeps the most recent messages of every SSE stream so a client reconnecting
+ * with `Last-Event-ID` can receive what it missed.
+ * One store is created per session and dropped together with it.
+ */
+export class InMemoryEventStore implements EventStore {
+    private readonly streams = new Map<StreamId, StoredEvent[]>();
+    private readonly eventStreams = new Map<EventId, StreamId>();
+
+    /**
+     * @param maxEventsPerStream Number of events retained per stream, oldest are evicted first
+     */
+    constructor(private readonly maxEventsPerStream = 1000) {}
+
+    /**
+     * Store a message sent on a stream
+     * @param streamId Stream the message was sent on
+     * @param message JSON-RPC message
+     * @returns Generated event ID
+     */
+    async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+        const eventId = randomUUID();
+        const events = this.streams.get(streamId) ?? [];
+
+        events.push({ eventId, message });
+        this.eventStreams.set(eventId, streamId);
+
+        if (events.length > this.maxEventsPerStream) {
+            const evicted = events.shift()!;
+            this.eventStreams.delete(evicted.eventId);
+        }
+
+        this.streams.set(streamId, events);
+        return eventId;
+    }
+
+    /**
+     * Replay the events stored after a given event on the same stream
+     * @param lastEventId Last event ID received by the client
+     * @param callbacks Callback used to send every replayed event
+     * @returns ID of the replayed stream, or an empty string if the event is unknown
+     */
+    async replayEventsAfter(
+        lastEventId: EventId,
+        { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+    ): Promise<StreamId> {
+        const streamId = this.eventStreams.get(lastEventId);
+        if (!streamId) {
+            return '';
+        }
+
+        const events = this.streams.get(streamId) ?? [];
+        const lastIndex = events.findIndex((event) => event.eventId === lastEventId);
+
+        for (const event of events.slice(lastIndex + 1)) {
+            await send(event.eventId, event.message);
+        }
+
+        return streamId;
+    }
+}
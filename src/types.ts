@@ -20,25 +20,98 @@ export interface Product {
     updatedAt: string;
 }
 
+export interface ScoredProduct extends Product {
+    score?: number; // search relevance, present when searching with a query
+}
+
+export interface RecommendedProduct extends Product {
+    similarity?: number; // weighted content similarity from 0 to 1, present for recommendations based on a product
+    reason?: string; // why the product is recommended, present with the similarity
+}
+
+export interface RelatedProduct extends Product {
+    score: number; // co-occurrence score for events, content similarity for similarity, from 0 to 1
+    sessions?: number; // sessions holding both products, present for events
+    source: 'events' | 'similarity'; // similarity completes products without enough events
+    reason: string;
+}
+
+export interface RecommendationOptions {
+    // relative signal weights, the server defaults the ones not given
+    weights?:
+        | Partial<Record<'tags' | 'attributes' | 'price' | 'subcategory' | 'brand', number | undefined>>
+        | undefined;
+    diversity?: number | undefined; // from 0 (most similar) to 1 (most varied)
+}
+
+export interface CartItem {
+    productId: string;
+    name: string;
+    quantity: number;
+    unitPrice: number; // current catalog price
+    lineTotal: number;
+}
+
+export interface Cart {
+    id: string;
+    items: CartItem[];
+    itemCount: number; // total quantity
+    subtotal: number;
+    currency?: string; // absent while the cart is empty
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface SearchSuggestion {
+    text: string;
+    type: 'query' | 'product' | 'brand' | 'category';
+    id?: string; // product or category ID
+    popularity: number; // searches for queries, reviews for products, products for brands and categories
+}
+
 export interface Category {
     id: string;
     name: string;
     description: string;
     parentId?: string;
     subcategories: Category[];
-    productCount: number;
+    productCount?: number; // left out when the product counts are not requested
+}
+
+export interface LocationAvailability {
+    warehouseId: string;
+    warehouseName: string;
+    region: string;
+    stockQuantity: number;
+    reservedQuantity: number;
+    availableQuantity: number;
+    availability: string;
+    estimatedShipDate: string | null; // YYYY-MM-DD, null when nothing is available there
 }
 
 export interface ProductAvailability {
     inStock: boolean;
     stockQuantity: number;
+    reservedQuantity?: number; // stock held for pending orders
+    availableQuantity?: number; // stock that can still be ordered
     productId: string;
     availability: string; // e.g., "in stock", "out of stock", "pre-order"
+    lowStockThreshold?: number; // available quantity up to which stock is limited
+    estimatedShipDate?: string | null; // earliest ship date, YYYY-MM-DD
+    locations?: LocationAvailability[]; // breakdown per warehouse, fastest shipping first
     lastUpdated: string; // ISO date string
 }
 
+export interface PriceRange {
+    categoryId: string;
+    minPrice: number;
+    maxPrice: number;
+    averagePrice: number;
+    productCount: number;
+}
+
 export interface SearchResult {
-    products: Product[];
+    products: ScoredProduct[];
     totalCount: number;
     page: number;
     pageSize: number;
@@ -47,5 +120,9 @@ export interface SearchResult {
         categories: { name: string; count: number }[];
         brands: { name: string; count: number }[];
         priceRanges: { min: number; max: number; count: number }[];
+        ratings: { minRating: number; count: number }[]; // Matches rated minRating or more
+        availability: { inStock: number; outOfStock: number };
+        attributes: Record<string, { name: string; count: number }[]>; // e.g., color, size, material
     };
+    didYouMean?: string; // Spelling correction of the query, when it has unknown words
 }